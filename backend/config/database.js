@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const User = require('../models/User');
 
 // Database connection function
 const connectDB = async () => {
@@ -8,6 +9,12 @@ const connectDB = async () => {
 
         console.log(`✅ MongoDB Connected: ${conn.connection.host}`);
         console.log(`📊 Database: ${conn.connection.name}`);
+
+        // Migration: customers who signed up before email verification keep checking out
+        const { modifiedCount } = await User.verifyExistingAccounts();
+        if (modifiedCount > 0) {
+            console.log(`✉️ Marked ${modifiedCount} existing accounts as email-verified`);
+        }
         
     } catch (error) {
         console.error('❌ Database connection failed:', error.message);
@@ -0,0 +1,47 @@
+// Fine-grained permissions checked by requirePermission()
+const PERMISSIONS = [
+    'products:write',       // Create, edit, deactivate and restore products
+    'inventory:manage',     // Adjust stock and view stock history and low-stock alerts
+    'categories:write',     // Create, edit, deactivate and restore categories
+    'orders:read',          // View every customer's orders
+    'orders:update-status', // Move orders through fulfilment and cancel them
+    'analytics:read',       // View sales analytics
+    'returns:read',         // View every return request
+    'returns:manage',       // Approve, reject and receive returns
+    'coupons:write',        // Manage coupons
+    'pricing:write',        // Manage shipping and tax rules
+    'reviews:moderate',     // Delete other users' reviews
+    'users:read',           // View user accounts
+    'users:manage'          // Assign roles and manage user accounts
+];
+
+// What each role may do; customers ('user') have no staff permissions
+const ROLES = {
+    user: {
+        label: 'Customer',
+        permissions: []
+    },
+    catalog_manager: {
+        label: 'Catalog Manager',
+        permissions: ['products:write', 'inventory:manage', 'categories:write', 'reviews:moderate']
+    },
+    fulfillment: {
+        label: 'Order Fulfillment',
+        permissions: ['orders:read', 'orders:update-status', 'returns:read', 'returns:manage', 'inventory:manage']
+    },
+    support: {
+        label: 'Customer Support',
+        permissions: ['orders:read', 'returns:read', 'returns:manage', 'reviews:moderate', 'users:read']
+    },
+    admin: {
+        label: 'Administrator',
+        permissions: PERMISSIONS
+    }
+};
+
+const ROLE_NAMES = Object.keys(ROLES);
+
+// Permissions granted to a role (none for unknown roles)
+const getRolePermissions = (role) => (ROLES[role] ? ROLES[role].permissions : []);
+
+module.exports = { PERMISSIONS, ROLES, ROLE_NAMES, getRolePermissions };
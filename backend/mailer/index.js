@@ -0,0 +1,49 @@
+const path = require('path');
+const { createConsoleTransport, createFileTransport } = require('./transports');
+const templates = require('./templates');
+
+// Transports selectable through MAIL_TRANSPORT
+const transports = {
+    console: () => createConsoleTransport(),
+    file: () => createFileTransport({
+        directory: process.env.MAIL_OUTPUT_DIR || path.join(__dirname, '..', 'tmp', 'mail')
+    })
+};
+
+let transport = null;
+
+// Get the configured transport (one instance per process)
+const getTransport = () => {
+    if (!transport) {
+        const name = process.env.MAIL_TRANSPORT || 'console';
+        const create = transports[name];
+
+        if (!create) {
+            throw new Error(`Unknown mail transport: ${name}`);
+        }
+
+        transport = create();
+    }
+
+    return transport;
+};
+
+// Send a message through the configured transport
+const sendMail = ({ to, subject, text, html }) => {
+    return getTransport().send({
+        from: process.env.MAIL_FROM || 'E-Commerce MERN <no-reply@localhost>',
+        to,
+        subject,
+        text,
+        html
+    });
+};
+
+// Build a link into the frontend (used in emails)
+const frontendUrl = (pathname, params = {}) => {
+    const url = new URL(pathname, process.env.FRONTEND_URL || 'http://localhost:3000');
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+};
+
+module.exports = { sendMail, frontendUrl, templates };
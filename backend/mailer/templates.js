@@ -0,0 +1,37 @@
+// Email templates: each returns { subject, text, html }
+
+const escapeHtml = (value) => String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Shared layout: a greeting, a paragraph, a button and a footnote
+const actionEmail = ({ subject, name, intro, actionLabel, link, footnote }) => ({
+    subject,
+    text: `Hi ${name},\n\n${intro}\n\n${actionLabel}: ${link}\n\n${footnote}`,
+    html: `<p>Hi ${escapeHtml(name)},</p>
+<p>${escapeHtml(intro)}</p>
+<p><a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 20px;background:#2563eb;color:#fff;border-radius:6px;text-decoration:none">${escapeHtml(actionLabel)}</a></p>
+<p style="color:#6b7280;font-size:12px">${escapeHtml(footnote)}</p>`
+});
+
+const verificationEmail = ({ user, link }) => actionEmail({
+    subject: 'Verify your email address',
+    name: user.firstName,
+    intro: `Please confirm that ${user.email} is your email address so you can place orders.`,
+    actionLabel: 'Verify email',
+    link,
+    footnote: 'This link expires in 24 hours. If you didn\'t create an account, you can ignore this email.'
+});
+
+const passwordResetEmail = ({ user, link }) => actionEmail({
+    subject: 'Reset your password',
+    name: user.firstName,
+    intro: 'We received a request to reset your password.',
+    actionLabel: 'Choose a new password',
+    link,
+    footnote: 'This link expires in 1 hour and can only be used once. If you didn\'t ask for a reset, you can ignore this email.'
+});
+
+module.exports = { verificationEmail, passwordResetEmail };
@@ -0,0 +1,31 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+// Transports deliver a message: { from, to, subject, text, html }
+// Real providers (SMTP, an email API) can be added alongside these with the same send() shape.
+
+// Prints messages to the server log
+const createConsoleTransport = () => ({
+    name: 'console',
+    async send(message) {
+        console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}\n`);
+        return { id: `console-${Date.now()}` };
+    }
+});
+
+// Writes each message to a JSON file, so links can be opened from disk during development
+const createFileTransport = ({ directory }) => ({
+    name: 'file',
+    async send(message) {
+        await fs.mkdir(directory, { recursive: true });
+
+        const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).substring(2, 8)}`;
+        const file = path.join(directory, `${id}.json`);
+        await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+
+        console.log(`📧 Mail to ${message.to} saved to ${file}`);
+        return { id };
+    }
+});
+
+module.exports = { createConsoleTransport, createFileTransport };
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const RefreshToken = require('../models/RefreshToken');
 
 // Middleware to verify JWT token and authenticate user
 const authenticateToken = async (req, res, next) => {
@@ -18,6 +19,14 @@ const authenticateToken = async (req, res, next) => {
 
         // Verify token
         const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+        // Reject tokens whose session was logged out (tokens issued before sessions have no sid)
+        if (!decoded.sid || !(await RefreshToken.isSessionActive(decoded.sid))) {
+            return res.status(401).json({
+                success: false,
+                message: 'Access denied. Session has been revoked.'
+            });
+        }
         
         // Get user from database (exclude password)
         const user = await User.findById(decoded.userId);
@@ -36,8 +45,9 @@ const authenticateToken = async (req, res, next) => {
             });
         }
 
-        // Add user to request object for use in protected routes
+        // Add user and session to request object for use in protected routes
         req.user = user;
+        req.sessionId = decoded.sid;
         
         // Call next middleware/route handler
         next();
@@ -67,28 +77,33 @@ const authenticateToken = async (req, res, next) => {
     }
 };
 
-// Middleware to check if user is admin
-const requireAdmin = (req, res, next) => {
-    // This middleware should run after authenticateToken
-    if (!req.user) {
-        return res.status(401).json({
-            success: false,
-            message: 'Access denied. Authentication required.'
-        });
-    }
+// Middleware to check that the user's role grants every listed permission
+// Usage: requirePermission('orders:update-status')
+const requirePermission = (...permissions) => {
+    return (req, res, next) => {
+        // This middleware should run after authenticateToken
+        if (!req.user) {
+            return res.status(401).json({
+                success: false,
+                message: 'Access denied. Authentication required.'
+            });
+        }
 
-    if (req.user.role !== 'admin') {
-        return res.status(403).json({
-            success: false,
-            message: 'Access denied. Admin privileges required.'
-        });
-    }
+        const missing = permissions.filter(permission => !req.user.hasPermission(permission));
+        if (missing.length > 0) {
+            return res.status(403).json({
+                success: false,
+                message: `Access denied. Missing permission: ${missing.join(', ')}.`
+            });
+        }
 
-    next();
+        next();
+    };
 };
 
-// Middleware to check if user owns the resource or is admin
-const requireOwnershipOrAdmin = (userIdField = 'userId') => {
+// Middleware to check if user owns the resource or has a permission covering everyone's
+// Usage: requireOwnershipOrPermission('users:read', 'id')
+const requireOwnershipOrPermission = (permission, userIdField = 'userId') => {
     return (req, res, next) => {
         if (!req.user) {
             return res.status(401).json({
@@ -100,8 +115,8 @@ const requireOwnershipOrAdmin = (userIdField = 'userId') => {
         // Get the user ID from request parameters or body
         const resourceUserId = req.params[userIdField] || req.body[userIdField];
         
-        // Allow if user owns the resource or is admin
-        if (req.user._id.toString() === resourceUserId || req.user.role === 'admin') {
+        // Allow if user owns the resource or their role grants the permission
+        if (req.user._id.toString() === resourceUserId || req.user.hasPermission(permission)) {
             return next();
         }
 
@@ -114,6 +129,6 @@ const requireOwnershipOrAdmin = (userIdField = 'userId') => {
 
 module.exports = {
     authenticateToken,
-    requireAdmin,
-    requireOwnershipOrAdmin
+    requirePermission,
+    requireOwnershipOrPermission
 };
\ No newline at end of file
@@ -0,0 +1,96 @@
+const multer = require('multer');
+
+// Image types accepted for uploads, keyed by the file extension they are stored under
+// The signature check stops files that only claim to be images (renamed or spoofed Content-Type)
+const IMAGE_TYPES = {
+    jpg: { mimeType: 'image/jpeg', matches: (buffer) => buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+    png: { mimeType: 'image/png', matches: (buffer) => buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    webp: { mimeType: 'image/webp', matches: (buffer) => buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP' },
+    gif: { mimeType: 'image/gif', matches: (buffer) => ['GIF87a', 'GIF89a'].includes(buffer.toString('ascii', 0, 6)) }
+};
+
+// Detect the image type from the file contents; returns the extension or null
+const detectImageType = (buffer) => {
+    const match = Object.entries(IMAGE_TYPES).find(([, type]) => type.matches(buffer));
+    return match ? match[0] : null;
+};
+
+// Receive a single file in a multipart field into memory (req.file)
+// Calls done() once a file is in place; responds 400 when it is missing, too large or malformed.
+// label names the file in messages, e.g. { noun: 'Image', withArticle: 'an image' }.
+const receiveSingleFile = (field, maxSize, label) => {
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: maxSize, files: 1 }
+    }).single(field);
+
+    return (req, res, done) => {
+        upload(req, res, (error) => {
+            if (error) {
+                const message = error.code === 'LIMIT_FILE_SIZE'
+                    ? `${label.noun} must be smaller than ${Math.round(maxSize / 1024 / 1024)}MB`
+                    : error instanceof multer.MulterError ? error.message : 'Invalid upload';
+                return res.status(400).json({
+                    success: false,
+                    message
+                });
+            }
+
+            if (!req.file) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Please choose ${label.withArticle} to upload (field "${field}")`
+                });
+            }
+
+            done();
+        });
+    };
+};
+
+// Middleware to accept a single image in a multipart field
+// Keeps the file in memory (req.file) and sets req.file.extension to the detected type.
+// Responds 400 when the file is missing, too large or not a supported image.
+const imageUpload = (field, { maxSize = 2 * 1024 * 1024 } = {}) => {
+    const receive = receiveSingleFile(field, maxSize, { noun: 'Image', withArticle: 'an image' });
+
+    return (req, res, next) => {
+        receive(req, res, () => {
+            const extension = detectImageType(req.file.buffer);
+            if (!extension) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Image must be a JPEG, PNG, WebP or GIF file'
+                });
+            }
+
+            req.file.extension = extension;
+            req.file.mimetype = IMAGE_TYPES[extension].mimeType;
+            next();
+        });
+    };
+};
+
+// Middleware to accept a single CSV or JSON data file in a multipart field
+// Keeps the file in memory (req.file) and sets req.file.format to 'csv' or 'json', taken from
+// the file name or, failing that, from whether the contents look like JSON.
+const dataFileUpload = (field, { maxSize = 2 * 1024 * 1024 } = {}) => {
+    const receive = receiveSingleFile(field, maxSize, { noun: 'File', withArticle: 'a CSV or JSON file' });
+
+    return (req, res, next) => {
+        receive(req, res, () => {
+            const extension = (req.file.originalname.split('.').pop() || '').toLowerCase();
+            const text = req.file.buffer.toString('utf8').trimStart();
+
+            if (extension === 'csv' || extension === 'json') {
+                req.file.format = extension;
+            } else {
+                req.file.format = text.startsWith('[') || text.startsWith('{') ? 'json' : 'csv';
+            }
+
+            next();
+        });
+    };
+};
+
+module.exports = { imageUpload, dataFileUpload, detectImageType };
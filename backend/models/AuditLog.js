@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+// Staff actions on user accounts that are recorded
+const AUDIT_ACTIONS = ['user.role_change', 'user.deactivate', 'user.reactivate', 'user.password_reset'];
+
+// Audit Log Schema Definition
+// Append-only record of who changed what on which account
+const auditLogSchema = new mongoose.Schema({
+    // Staff member who made the change
+    actor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+
+    action: {
+        type: String,
+        enum: AUDIT_ACTIONS,
+        required: true
+    },
+
+    // Account that was changed
+    targetUser: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+
+    // Before/after values, e.g. { from: 'user', to: 'support' } for a role change
+    changes: {
+        from: { type: mongoose.Schema.Types.Mixed, default: null },
+        to: { type: mongoose.Schema.Types.Mixed, default: null }
+    },
+
+    // Optional reason given by the actor
+    note: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Note cannot exceed 500 characters'],
+        default: ''
+    },
+
+    ip: {
+        type: String,
+        default: ''
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for per-user history and the recent activity feed
+auditLogSchema.index({ targetUser: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+auditLogSchema.statics.AUDIT_ACTIONS = AUDIT_ACTIONS;
+
+// Static method: Record an action taken by the signed-in staff member
+auditLogSchema.statics.record = function(req, { action, targetUser, from = null, to = null, note = '' }) {
+    return this.create({
+        actor: req.user._id,
+        action,
+        targetUser,
+        changes: { from, to },
+        note,
+        ip: req.ip || ''
+    });
+};
+
+// Static method: Get audit entries, newest first, with actor and target populated
+auditLogSchema.statics.getEntries = function(filter = {}, { skip = 0, limit = 20 } = {}) {
+    return this.find(filter)
+        .populate('actor', 'username firstName lastName')
+        .populate('targetUser', 'username firstName lastName email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+};
+
+module.exports = mongoose.model('AuditLog', auditLogSchema);
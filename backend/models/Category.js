@@ -11,11 +11,27 @@ const categorySchema = new mongoose.Schema({
         maxlength: [50, 'Category name cannot exceed 50 characters']
     },
     
+    // URL-friendly identifier generated from the name
+    slug: {
+        type: String,
+        unique: true,
+        sparse: true,
+        lowercase: true,
+        trim: true
+    },
+
     description: {
         type: String,
         maxlength: [300, 'Description cannot exceed 300 characters']
     },
 
+    // Parent category (null for top-level categories)
+    parent: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Category',
+        default: null
+    },
+
     // Status
     isActive: {
         type: Boolean,
@@ -32,14 +48,113 @@ const categorySchema = new mongoose.Schema({
     timestamps: true
 });
 
+categorySchema.index({ parent: 1 });
+
+// Products that belong directly to this category
+categorySchema.virtual('products', {
+    ref: 'Product',
+    localField: '_id',
+    foreignField: 'category'
+});
+
+// Helper: Turn a name into a slug ("Home & Garden" -> "home-garden")
+const slugify = (value) => value
+    .toString()
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Generate a unique slug from the name before validating
+categorySchema.pre('validate', async function(next) {
+    if (!this.isModified('name') && this.slug) return next();
+
+    try {
+        const baseSlug = slugify(this.name || '') || 'category';
+        let slug = baseSlug;
+        let suffix = 2;
+
+        while (await this.constructor.exists({ slug, _id: { $ne: this._id } })) {
+            slug = `${baseSlug}-${suffix}`;
+            suffix += 1;
+        }
+
+        this.slug = slug;
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
 // Simple method: Get active categories
 categorySchema.statics.getActiveCategories = function() {
     return this.find({ isActive: true }).sort({ name: 1 });
 };
 
+// Static method: Get active categories with direct and subtree product counts
+categorySchema.statics.getActiveCategoriesWithCounts = async function() {
+    const Product = mongoose.model('Product');
+
+    const [categories, counts] = await Promise.all([
+        this.getActiveCategories().lean(),
+        Product.aggregate([
+            { $match: { isActive: true } },
+            { $group: { _id: '$category', count: { $sum: 1 } } }
+        ])
+    ]);
+
+    const countMap = new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+    const childrenMap = new Map();
+    categories.forEach(category => {
+        const parentId = category.parent ? category.parent.toString() : null;
+        if (!childrenMap.has(parentId)) childrenMap.set(parentId, []);
+        childrenMap.get(parentId).push(category);
+    });
+
+    // Sum counts over each subtree
+    const totals = new Map();
+    const getTotal = (category) => {
+        const id = category._id.toString();
+        if (!totals.has(id)) {
+            const children = childrenMap.get(id) || [];
+            totals.set(id, (countMap.get(id) || 0) + children.reduce((sum, child) => sum + getTotal(child), 0));
+        }
+        return totals.get(id);
+    };
+
+    return categories.map(category => ({
+        ...category,
+        productCount: countMap.get(category._id.toString()) || 0,
+        totalProductCount: getTotal(category)
+    }));
+};
+
+// Static method: Get IDs of a category and all of its descendants
+categorySchema.statics.getDescendantIds = async function(categoryId, { activeOnly = true } = {}) {
+    const ids = [new mongoose.Types.ObjectId(categoryId)];
+    let frontier = ids;
+
+    while (frontier.length > 0) {
+        const filter = { parent: { $in: frontier } };
+        if (activeOnly) filter.isActive = true;
+
+        const children = await this.find(filter).select('_id').lean();
+        frontier = children.map(child => child._id);
+        ids.push(...frontier);
+    }
+
+    return ids;
+};
+
+// Instance method: Check whether a category is this one or one of its descendants
+categorySchema.methods.isSelfOrDescendant = async function(categoryId) {
+    const descendantIds = await this.constructor.getDescendantIds(this._id, { activeOnly: false });
+    return descendantIds.some(id => id.toString() === categoryId.toString());
+};
+
 // Simple method: Get category with products
 categorySchema.methods.getWithProducts = function() {
-    return this.populate('products');
+    return this.populate({ path: 'products', match: { isActive: true } });
 };
 
 module.exports = mongoose.model('Category', categorySchema);
\ No newline at end of file
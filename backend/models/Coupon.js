@@ -0,0 +1,204 @@
+const mongoose = require('mongoose');
+
+// Coupon Schema Definition
+const couponSchema = new mongoose.Schema({
+    // Code customers type at checkout (stored uppercase)
+    code: {
+        type: String,
+        required: [true, 'Coupon code is required'],
+        unique: true,
+        uppercase: true,
+        trim: true,
+        minlength: [3, 'Coupon code must be at least 3 characters'],
+        maxlength: [30, 'Coupon code cannot exceed 30 characters']
+    },
+
+    description: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Description cannot exceed 200 characters'],
+        default: ''
+    },
+
+    // Discount Type
+    // percentage: value% off eligible items, fixed: value off eligible items,
+    // free_shipping: waives shipping (value is ignored)
+    type: {
+        type: String,
+        enum: ['percentage', 'fixed', 'free_shipping'],
+        required: [true, 'Coupon type is required']
+    },
+
+    value: {
+        type: Number,
+        min: [0, 'Value cannot be negative'],
+        default: 0,
+        validate: {
+            validator: function(value) {
+                return this.type !== 'percentage' || value <= 100;
+            },
+            message: 'Percentage cannot exceed 100'
+        }
+    },
+
+    // Minimum cart subtotal required
+    minSpend: {
+        type: Number,
+        min: [0, 'Minimum spend cannot be negative'],
+        default: 0
+    },
+
+    // Restrict the discount to these categories (and their subcategories); empty means all
+    categories: [{
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Category'
+    }],
+
+    // Validity Window
+    startsAt: {
+        type: Date,
+        default: null
+    },
+
+    expiresAt: {
+        type: Date,
+        default: null
+    },
+
+    // Usage Limits (null means unlimited)
+    usageLimit: {
+        type: Number,
+        min: [1, 'Usage limit must be at least 1'],
+        default: null
+    },
+
+    usageLimitPerUser: {
+        type: Number,
+        min: [1, 'Per-user limit must be at least 1'],
+        default: null
+    },
+
+    // Redemptions by orders that haven't been cancelled
+    usedCount: {
+        type: Number,
+        min: 0,
+        default: 0
+    },
+
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+
+    // Who created this coupon
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        immutable: true
+    }
+}, {
+    timestamps: true
+});
+
+// Instance method: Check whether the coupon can currently be used by a customer
+// Returns an error message, or null when the coupon is usable
+couponSchema.methods.checkAvailability = async function(userId) {
+    const now = new Date();
+
+    if (!this.isActive) {
+        return 'This coupon is no longer active';
+    }
+    if (this.startsAt && this.startsAt > now) {
+        return 'This coupon is not valid yet';
+    }
+    if (this.expiresAt && this.expiresAt < now) {
+        return 'This coupon has expired';
+    }
+    if (this.usageLimit !== null && this.usedCount >= this.usageLimit) {
+        return 'This coupon has reached its usage limit';
+    }
+
+    if (this.usageLimitPerUser !== null && userId) {
+        const timesUsed = await mongoose.model('Order').countDocuments({
+            customer: userId,
+            'discount.coupon': this._id,
+            status: { $ne: 'cancelled' }
+        });
+        if (timesUsed >= this.usageLimitPerUser) {
+            return 'You have already used this coupon the maximum number of times';
+        }
+    }
+
+    return null;
+};
+
+// Instance method: Calculate the discount for a set of cart lines
+// Lines are { price, quantity, category }. Returns { amount, freeShipping, error }.
+couponSchema.methods.calculateDiscount = async function(lines) {
+    const subtotal = lines.reduce((total, line) => total + line.price * line.quantity, 0);
+
+    if (subtotal < this.minSpend) {
+        return { amount: 0, freeShipping: false, error: `Spend at least $${this.minSpend.toFixed(2)} to use this coupon` };
+    }
+
+    // Work out which lines the coupon applies to
+    let eligibleLines = lines;
+    if (this.categories.length > 0) {
+        const Category = mongoose.model('Category');
+        const categoryIds = new Set();
+        for (const categoryId of this.categories) {
+            const ids = await Category.getDescendantIds(categoryId, { activeOnly: false });
+            ids.forEach(id => categoryIds.add(id.toString()));
+        }
+        eligibleLines = lines.filter(line => line.category && categoryIds.has(line.category.toString()));
+    }
+
+    if (eligibleLines.length === 0) {
+        return { amount: 0, freeShipping: false, error: 'This coupon does not apply to any items in your cart' };
+    }
+
+    const eligibleSubtotal = eligibleLines.reduce((total, line) => total + line.price * line.quantity, 0);
+    let amount = 0;
+
+    if (this.type === 'percentage') {
+        amount = eligibleSubtotal * (this.value / 100);
+    } else if (this.type === 'fixed') {
+        amount = Math.min(this.value, eligibleSubtotal);
+    }
+
+    return {
+        amount: parseFloat(amount.toFixed(2)),
+        freeShipping: this.type === 'free_shipping',
+        error: null
+    };
+};
+
+// Static method: Find a coupon by its code
+couponSchema.statics.findByCode = function(code) {
+    return this.findOne({ code: code.trim().toUpperCase() });
+};
+
+// Static method: Record a redemption if the global limit still allows it
+// Returns false when another checkout used up the last redemption first
+couponSchema.statics.redeem = async function(couponId) {
+    const updated = await this.findOneAndUpdate(
+        {
+            _id: couponId,
+            $or: [
+                { usageLimit: null },
+                { $expr: { $lt: ['$usedCount', '$usageLimit'] } }
+            ]
+        },
+        { $inc: { usedCount: 1 } },
+        { new: true }
+    );
+    return !!updated;
+};
+
+// Static method: Give back a redemption (failed checkout or cancelled order)
+couponSchema.statics.releaseRedemption = function(couponId) {
+    return this.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+};
+
+module.exports = mongoose.model('Coupon', couponSchema);
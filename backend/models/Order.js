@@ -1,5 +1,20 @@
 const mongoose = require('mongoose');
 
+// Statuses from which an order can still be cancelled
+const CANCELLABLE_STATUSES = ['pending', 'processing'];
+
+// Payment statuses that still accept a (new) payment attempt
+const PAYABLE_PAYMENT_STATUSES = ['pending', 'failed'];
+
+// A payment attempt that hasn't finished after this long is assumed to have died with its request
+const PAYMENT_ATTEMPT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Payment statuses of orders that count as sales in analytics (refunds are subtracted from revenue)
+const SALE_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+// Buckets the revenue series can be grouped into
+const ANALYTICS_INTERVALS = ['day', 'week', 'month'];
+
 // Order Schema Definition
 const orderSchema = new mongoose.Schema({
     // Order Identification
@@ -23,6 +38,20 @@ const orderSchema = new mongoose.Schema({
             ref: 'Product',
             required: true
         },
+        // Variant bought, with its SKU and options snapshotted (null/empty for products without options)
+        variant: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null
+        },
+        sku: {
+            type: String,
+            default: null
+        },
+        options: [{
+            _id: false,
+            name: String,
+            value: String
+        }],
         name: {
             type: String,
             required: true
@@ -41,6 +70,12 @@ const orderSchema = new mongoose.Schema({
             type: Number,
             required: true,
             min: 0
+        },
+        // Units claimed by open or completed return requests (rejected ones give them back)
+        returnedQuantity: {
+            type: Number,
+            min: 0,
+            default: 0
         }
     }],
 
@@ -51,12 +86,147 @@ const orderSchema = new mongoose.Schema({
         min: 0
     },
 
+    // Items total before any discount
+    subtotal: {
+        type: Number,
+        min: 0
+    },
+
+    // Coupon snapshot, so historical totals don't change if the coupon is edited or deleted
+    discount: {
+        coupon: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Coupon',
+            default: null
+        },
+        code: {
+            type: String,
+            default: null
+        },
+        type: {
+            type: String,
+            enum: ['percentage', 'fixed', 'free_shipping', null],
+            default: null
+        },
+        value: {
+            type: Number,
+            default: 0
+        },
+        amount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        freeShipping: {
+            type: Boolean,
+            default: false
+        }
+    },
+
+    // Shipping charge and the rule that produced it
+    shipping: {
+        amount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        rule: {
+            type: String,
+            default: null
+        },
+        method: {
+            type: String,
+            default: null
+        }
+    },
+
+    // Tax charged and the rate applied
+    tax: {
+        amount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        rate: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        name: {
+            type: String,
+            default: null
+        }
+    },
+
+    // Grand total: subtotal - discount + shipping + tax
     totalAmount: {
         type: Number,
         required: true,
         min: 0
     },
 
+    // Payment state; orders only move to processing once payment is confirmed
+    payment: {
+        provider: {
+            type: String,
+            default: null
+        },
+        intentId: {
+            type: String,
+            default: null
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'paid', 'failed', 'refunded', 'partially_refunded'],
+            default: 'pending'
+        },
+        amount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        refundedAmount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        failureReason: {
+            type: String,
+            default: null
+        },
+        paidAt: {
+            type: Date,
+            default: null
+        },
+        // Set while a pay request is creating and confirming an intent, so only one runs at a time
+        attemptStartedAt: {
+            type: Date,
+            default: null
+        },
+        // Provider refund IDs, so a refund reported twice (request + webhook) only counts once
+        refunds: [{
+            refundId: {
+                type: String,
+                required: true
+            },
+            amount: {
+                type: Number,
+                required: true,
+                min: 0
+            },
+            // Set for partial refunds issued against a return
+            returnRequest: {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: 'ReturnRequest',
+                default: null
+            },
+            createdAt: {
+                type: Date,
+                default: Date.now
+            }
+        }]
+    },
+
     // Order Status
     status: {
         type: String,
@@ -108,6 +278,11 @@ const orderSchema = new mongoose.Schema({
     timestamps: true
 });
 
+// Indexes for customer history and admin filtering
+orderSchema.index({ customer: 1, createdAt: -1 });
+orderSchema.index({ status: 1, createdAt: -1 });
+orderSchema.index({ 'payment.intentId': 1 }, { sparse: true });
+
 // Generate order number before saving
 orderSchema.pre('save', function(next) {
     if (!this.orderNumber) {
@@ -136,16 +311,53 @@ orderSchema.statics.getRecentOrders = function(limit = 10) {
         .limit(limit);
 };
 
-// Instance method: Update order status
-orderSchema.methods.updateStatus = function(newStatus) {
-    this.status = newStatus;
-    
+// Allowed status transitions (delivered and cancelled are terminal)
+orderSchema.statics.STATUS_TRANSITIONS = {
+    pending: ['processing', 'cancelled'],
+    processing: ['shipped', 'cancelled'],
+    shipped: ['delivered'],
+    delivered: [],
+    cancelled: []
+};
+
+// Static method: Get orders for admin with filters and pagination
+orderSchema.statics.getAdminOrders = function(filter = {}, { skip = 0, limit = 10 } = {}) {
+    return this.find(filter)
+        .populate('customer', 'firstName lastName email username')
+        .populate('items.product', 'name image')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+};
+
+// Static method: Check whether a user has received a product in a delivered order
+orderSchema.statics.hasDeliveredProduct = function(userId, productId) {
+    return this.exists({ customer: userId, status: 'delivered', 'items.product': productId });
+};
+
+// Instance method: Check if order can move to a new status
+orderSchema.methods.canTransitionTo = function(newStatus) {
+    const allowed = this.constructor.STATUS_TRANSITIONS[this.status] || [];
+    return allowed.includes(newStatus);
+};
+
+// Static method: Atomically move an order from one status to the next
+// Only applies while the order is still in fromStatus (and, for processing, paid), so it can't
+// undo a cancellation that got in first. Returns null when the order was moved on meanwhile.
+orderSchema.statics.updateStatus = function(orderId, fromStatus, newStatus) {
+    const filter = { _id: orderId, status: fromStatus };
+    const update = { status: newStatus };
+
+    // Orders are only fulfilled once payment is confirmed
+    if (newStatus === 'processing') {
+        filter['payment.status'] = 'paid';
+    }
     // Set delivery date if status is delivered
     if (newStatus === 'delivered') {
-        this.deliveryDate = new Date();
+        update.deliveryDate = new Date();
     }
-    
-    return this.save();
+
+    return this.findOneAndUpdate(filter, { $set: update }, { new: true });
 };
 
 // Instance method: Get order summary
@@ -160,9 +372,369 @@ orderSchema.methods.getOrderSummary = function() {
     };
 };
 
+// Static method: Atomically cancel an order if it is still cancellable
+// Returns null when the order was already moved on (or cancelled) by another request
+orderSchema.statics.cancelIfAllowed = function(orderId) {
+    return this.findOneAndUpdate(
+        { _id: orderId, status: { $in: CANCELLABLE_STATUSES } },
+        { $set: { status: 'cancelled' } },
+        { new: true }
+    );
+};
+
+// Static method: Claim order items for a return request
+// order is the loaded order and lines are { orderItem, quantity }. Each line is claimed only if
+// that many units are still unreturned, so concurrent requests cannot return an item twice.
+// If any line fails, earlier claims are released and false is returned.
+orderSchema.statics.claimReturnItems = async function(order, lines) {
+    const claimed = [];
+
+    for (const line of lines) {
+        const orderItem = order.items.id(line.orderItem);
+        const updated = await this.findOneAndUpdate(
+            {
+                _id: order._id,
+                status: 'delivered',
+                items: { $elemMatch: { _id: line.orderItem, returnedQuantity: { $not: { $gt: orderItem.quantity - line.quantity } } } }
+            },
+            { $inc: { 'items.$.returnedQuantity': line.quantity } }
+        );
+
+        if (!updated) {
+            await this.releaseReturnItems(order._id, claimed);
+            return false;
+        }
+        claimed.push(line);
+    }
+
+    return true;
+};
+
+// Static method: Give back order items claimed by a return request that won't go ahead
+orderSchema.statics.releaseReturnItems = async function(orderId, lines) {
+    for (const line of lines) {
+        await this.updateOne(
+            { _id: orderId, 'items._id': line.orderItem },
+            { $inc: { 'items.$.returnedQuantity': -line.quantity } }
+        );
+    }
+};
+
+// Static method: Claim the order for a payment attempt before any provider call
+// Pinned to the intent and payment state the caller loaded, and refused while another attempt is
+// running, so two pay requests can never both charge. Returns null when the claim fails.
+orderSchema.statics.claimPaymentAttempt = function(order) {
+    const now = new Date();
+    return this.findOneAndUpdate(
+        {
+            _id: order._id,
+            status: 'pending',
+            'payment.status': order.payment.status,
+            'payment.intentId': order.payment.intentId,
+            $or: [
+                { 'payment.attemptStartedAt': null },
+                { 'payment.attemptStartedAt': { $lt: new Date(now.getTime() - PAYMENT_ATTEMPT_TIMEOUT_MS) } }
+            ]
+        },
+        { $set: { 'payment.attemptStartedAt': now } },
+        { new: true }
+    );
+};
+
+// Static method: Let the next payment attempt start once this one (claimed at startedAt) is over
+orderSchema.statics.releasePaymentAttempt = function(orderId, startedAt) {
+    return this.updateOne(
+        { _id: orderId, 'payment.attemptStartedAt': startedAt },
+        { $set: { 'payment.attemptStartedAt': null } }
+    );
+};
+
+// Static method: Record a successful payment and move the order to processing
+// Only applies once per intent, so the pay request and the webhook can both report it.
+// Returns null when the payment was already recorded or the order is no longer pending.
+orderSchema.statics.markPaid = function(intentId) {
+    return this.findOneAndUpdate(
+        {
+            'payment.intentId': intentId,
+            'payment.status': { $in: PAYABLE_PAYMENT_STATUSES },
+            status: 'pending'
+        },
+        {
+            $set: {
+                status: 'processing',
+                'payment.status': 'paid',
+                'payment.failureReason': null,
+                'payment.paidAt': new Date()
+            }
+        },
+        { new: true }
+    );
+};
+
+// Static method: Record a payment that went through after its order was cancelled, so it can be refunded
+// Only applies once per intent; returns null unless the order is cancelled and the payment wasn't recorded yet.
+orderSchema.statics.markCancelledPaid = function(intentId) {
+    return this.findOneAndUpdate(
+        {
+            'payment.intentId': intentId,
+            'payment.status': { $in: PAYABLE_PAYMENT_STATUSES },
+            status: 'cancelled'
+        },
+        {
+            $set: {
+                'payment.status': 'paid',
+                'payment.failureReason': null,
+                'payment.paidAt': new Date()
+            }
+        },
+        { new: true }
+    );
+};
+
+// Static method: Record a failed payment attempt (the customer can retry)
+orderSchema.statics.markPaymentFailed = function(intentId, failureReason) {
+    return this.findOneAndUpdate(
+        { 'payment.intentId': intentId, 'payment.status': 'pending' },
+        { $set: { 'payment.status': 'failed', 'payment.failureReason': failureReason || 'Payment failed' } },
+        { new: true }
+    );
+};
+
+// Static method: Add a provider refund to the order's payment totals
+// The total, its rounding and the payment status are all worked out in one update, so
+// concurrent refunds can't overwrite each other's result.
+// Returns null if the refund was already recorded or would exceed what was paid
+orderSchema.statics.recordRefund = function(intentId, refundId, amount, returnRequestId = null) {
+    const refund = { _id: new mongoose.Types.ObjectId(), refundId, amount, returnRequest: returnRequestId, createdAt: new Date() };
+
+    return this.findOneAndUpdate(
+        {
+            'payment.intentId': intentId,
+            'payment.status': { $in: ['paid', 'partially_refunded'] },
+            'payment.refunds.refundId': { $ne: refundId },
+            $expr: { $lte: [{ $add: ['$payment.refundedAmount', amount] }, { $add: ['$payment.amount', 0.001] }] }
+        },
+        [
+            {
+                $set: {
+                    'payment.refundedAmount': { $round: [{ $add: ['$payment.refundedAmount', amount] }, 2] },
+                    'payment.refunds': { $concatArrays: [{ $ifNull: ['$payment.refunds', []] }, [{ $literal: refund }]] }
+                }
+            },
+            {
+                $set: {
+                    'payment.status': {
+                        $cond: [{ $gte: ['$payment.refundedAmount', '$payment.amount'] }, 'refunded', 'partially_refunded']
+                    }
+                }
+            }
+        ],
+        { new: true }
+    );
+};
+
+orderSchema.statics.ANALYTICS_INTERVALS = ANALYTICS_INTERVALS;
+
+// Orders placed in [from, to) that count as sales: paid and not cancelled
+const salesMatch = ({ from, to }) => ({
+    createdAt: { $gte: from, $lt: to },
+    status: { $ne: 'cancelled' },
+    'payment.status': { $in: SALE_PAYMENT_STATUSES }
+});
+
+const toMoney = (value) => parseFloat((value || 0).toFixed(2));
+
+// Static method: Sales totals for a date range ({ from, to }, to exclusive)
+// revenue is net of refunds; averageOrderValue is based on order totals before refunds.
+orderSchema.statics.getSalesSummary = async function(range) {
+    const [totals] = await this.aggregate([
+        { $match: salesMatch(range) },
+        {
+            $group: {
+                _id: null,
+                orders: { $sum: 1 },
+                grossSales: { $sum: '$totalAmount' },
+                refunds: { $sum: '$payment.refundedAmount' },
+                discounts: { $sum: '$discount.amount' },
+                itemsSold: { $sum: '$totalItems' }
+            }
+        }
+    ]);
+
+    const { orders = 0, grossSales = 0, refunds = 0, discounts = 0, itemsSold = 0 } = totals || {};
+
+    return {
+        orders,
+        itemsSold,
+        grossSales: toMoney(grossSales),
+        refunds: toMoney(refunds),
+        discounts: toMoney(discounts),
+        revenue: toMoney(grossSales - refunds),
+        averageOrderValue: orders > 0 ? toMoney(grossSales / orders) : 0
+    };
+};
+
+// Static method: Net revenue and order count per day, week (starting Monday) or month, in UTC
+// Buckets without sales are included with zeros so the series is continuous.
+orderSchema.statics.getRevenueSeries = async function(range, interval = 'day') {
+    const buckets = await this.aggregate([
+        { $match: salesMatch(range) },
+        {
+            $group: {
+                _id: { $dateTrunc: { date: '$createdAt', unit: interval, startOfWeek: 'monday' } },
+                orders: { $sum: 1 },
+                revenue: { $sum: { $subtract: ['$totalAmount', '$payment.refundedAmount'] } }
+            }
+        }
+    ]);
+    const byPeriod = new Map(buckets.map(bucket => [bucket._id.getTime(), bucket]));
+
+    // Walk from the bucket holding range.from up to range.to
+    const period = new Date(Date.UTC(range.from.getUTCFullYear(), range.from.getUTCMonth(), interval === 'month' ? 1 : range.from.getUTCDate()));
+    if (interval === 'week') {
+        period.setUTCDate(period.getUTCDate() - ((period.getUTCDay() + 6) % 7));
+    }
+
+    const series = [];
+    while (period < range.to) {
+        const bucket = byPeriod.get(period.getTime());
+        series.push({
+            period: new Date(period),
+            orders: bucket ? bucket.orders : 0,
+            revenue: bucket ? toMoney(bucket.revenue) : 0
+        });
+
+        if (interval === 'month') {
+            period.setUTCMonth(period.getUTCMonth() + 1);
+        } else {
+            period.setUTCDate(period.getUTCDate() + (interval === 'week' ? 7 : 1));
+        }
+    }
+
+    return series;
+};
+
+// Static method: Number and value of every order placed in the range, by status (paid or not)
+orderSchema.statics.getStatusBreakdown = async function({ from, to }) {
+    const groups = await this.aggregate([
+        { $match: { createdAt: { $gte: from, $lt: to } } },
+        { $group: { _id: '$status', orders: { $sum: 1 }, value: { $sum: '$totalAmount' } } }
+    ]);
+    const byStatus = new Map(groups.map(group => [group._id, group]));
+
+    return Object.keys(this.STATUS_TRANSITIONS).map(status => ({
+        status,
+        orders: byStatus.has(status) ? byStatus.get(status).orders : 0,
+        value: byStatus.has(status) ? toMoney(byStatus.get(status).value) : 0
+    }));
+};
+
+// Static method: Best-selling products by item revenue (line totals, before order discounts)
+orderSchema.statics.getTopProducts = async function(range, limit = 10) {
+    const products = await this.aggregate([
+        { $match: salesMatch(range) },
+        { $unwind: '$items' },
+        {
+            $group: {
+                _id: '$items.product',
+                name: { $last: '$items.name' },
+                unitsSold: { $sum: '$items.quantity' },
+                revenue: { $sum: '$items.total' },
+                orders: { $addToSet: '$_id' }
+            }
+        },
+        { $sort: { revenue: -1, unitsSold: -1 } },
+        { $limit: limit },
+        { $project: { _id: 0, product: '$_id', name: 1, unitsSold: 1, revenue: 1, orders: { $size: '$orders' } } }
+    ]);
+
+    return products.map(product => ({ ...product, revenue: toMoney(product.revenue) }));
+};
+
+// Static method: Best-selling categories by item revenue, using each product's current category
+orderSchema.statics.getTopCategories = async function(range, limit = 10) {
+    const categories = await this.aggregate([
+        { $match: salesMatch(range) },
+        { $unwind: '$items' },
+        { $lookup: { from: 'products', localField: 'items.product', foreignField: '_id', as: 'product', pipeline: [{ $project: { category: 1 } }] } },
+        { $unwind: { path: '$product', preserveNullAndEmptyArrays: true } },
+        {
+            $group: {
+                _id: { $ifNull: ['$product.category', null] },
+                unitsSold: { $sum: '$items.quantity' },
+                revenue: { $sum: '$items.total' },
+                orders: { $addToSet: '$_id' }
+            }
+        },
+        { $sort: { revenue: -1, unitsSold: -1 } },
+        { $limit: limit },
+        { $lookup: { from: 'categories', localField: '_id', foreignField: '_id', as: 'category', pipeline: [{ $project: { name: 1 } }] } },
+        {
+            $project: {
+                _id: 0,
+                category: '$_id',
+                name: { $ifNull: [{ $first: '$category.name' }, null] },
+                unitsSold: 1,
+                revenue: 1,
+                orders: { $size: '$orders' }
+            }
+        }
+    ]);
+
+    return categories.map(category => ({ ...category, revenue: toMoney(category.revenue) }));
+};
+
+// Static method: Customers who bought in the range, split into first-time and returning buyers
+// A customer is returning when they had a sale before range.from.
+orderSchema.statics.getCustomerBreakdown = async function(range) {
+    const customers = await this.aggregate([
+        { $match: salesMatch(range) },
+        {
+            $group: {
+                _id: '$customer',
+                orders: { $sum: 1 },
+                revenue: { $sum: { $subtract: ['$totalAmount', '$payment.refundedAmount'] } }
+            }
+        }
+    ]);
+
+    const returningIds = new Set((await this.distinct('customer', {
+        ...salesMatch({ from: new Date(0), to: range.from }),
+        customer: { $in: customers.map(customer => customer._id) }
+    })).map(String));
+
+    const breakdown = {
+        new: { customers: 0, orders: 0, revenue: 0 },
+        returning: { customers: 0, orders: 0, revenue: 0 }
+    };
+    customers.forEach(customer => {
+        const group = returningIds.has(String(customer._id)) ? breakdown.returning : breakdown.new;
+        group.customers++;
+        group.orders += customer.orders;
+        group.revenue += customer.revenue;
+    });
+    breakdown.new.revenue = toMoney(breakdown.new.revenue);
+    breakdown.returning.revenue = toMoney(breakdown.returning.revenue);
+
+    return breakdown;
+};
+
+// Instance method: Check if the order is waiting for (another) payment attempt
+orderSchema.methods.isAwaitingPayment = function() {
+    return this.status === 'pending' && PAYABLE_PAYMENT_STATUSES.includes(this.payment.status);
+};
+
+// Instance method: Amount that can still be refunded
+orderSchema.methods.getRefundableAmount = function() {
+    if (!['paid', 'partially_refunded'].includes(this.payment.status)) {
+        return 0;
+    }
+    return parseFloat((this.payment.amount - this.payment.refundedAmount).toFixed(2));
+};
+
 // Instance method: Check if order can be cancelled
 orderSchema.methods.canBeCancelled = function() {
-    return ['pending', 'processing'].includes(this.status);
+    return CANCELLABLE_STATUSES.includes(this.status);
 };
 
 module.exports = mongoose.model('Order', orderSchema);
\ No newline at end of file
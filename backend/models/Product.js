@@ -1,4 +1,88 @@
 const mongoose = require('mongoose');
+const StockMovement = require('./StockMovement');
+
+// Limits on option axes (e.g. Size, Color) and the variants built from them
+const MAX_OPTIONS = 3;
+const MAX_OPTION_VALUES = 20;
+const MAX_VARIANTS = 100;
+
+// Photos per product in the gallery
+const MAX_IMAGES = 10;
+
+// Low-stock threshold for products that don't set their own
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// One chosen value per option axis, e.g. { name: 'Size', value: 'M' }
+const optionValueSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    value: {
+        type: String,
+        required: true,
+        trim: true
+    }
+}, { _id: false });
+
+// Variant Schema Definition
+// A purchasable combination of option values with its own SKU, price, stock and image
+const variantSchema = new mongoose.Schema({
+    sku: {
+        type: String,
+        required: [true, 'Variant SKU is required'],
+        trim: true,
+        uppercase: true,
+        maxlength: [40, 'SKU cannot exceed 40 characters']
+    },
+
+    options: [optionValueSchema],
+
+    price: {
+        type: Number,
+        required: [true, 'Variant price is required'],
+        min: [0, 'Price cannot be negative']
+    },
+
+    quantity: {
+        type: Number,
+        required: [true, 'Variant quantity is required'],
+        min: [0, 'Quantity cannot be negative'],
+        default: 0
+    },
+
+    // Shown instead of the product image when this variant is selected
+    image: {
+        type: String,
+        default: ''
+    }
+});
+
+// Instance method: Describe the variant, e.g. "Size: M, Color: Red"
+variantSchema.methods.getLabel = function() {
+    return this.options.map(option => `${option.name}: ${option.value}`).join(', ');
+};
+
+// One gallery photo; thumbnail is a small square copy used on product cards
+const imageSchema = new mongoose.Schema({
+    url: {
+        type: String,
+        required: [true, 'Image URL is required'],
+        trim: true
+    },
+    thumbnail: {
+        type: String,
+        trim: true,
+        default: ''
+    },
+    alt: {
+        type: String,
+        trim: true,
+        maxlength: [120, 'Image description cannot exceed 120 characters'],
+        default: ''
+    }
+}, { _id: false });
 
 // Simple Product Schema Definition
 const productSchema = new mongoose.Schema({
@@ -10,20 +94,28 @@ const productSchema = new mongoose.Schema({
         maxlength: [100, 'Product name cannot exceed 100 characters']
     },
     
+    // Catalogue code used to match products on bulk import; variants have their own SKUs
+    sku: {
+        type: String,
+        trim: true,
+        uppercase: true,
+        maxlength: [40, 'SKU cannot exceed 40 characters']
+    },
+
     description: {
         type: String,
         required: [true, 'Product description is required'],
         maxlength: [1000, 'Description cannot exceed 1000 characters']
     },
 
-    // Pricing
+    // Pricing (for products with variants: the lowest variant price, kept in sync on save)
     price: {
         type: Number,
         required: [true, 'Product price is required'],
         min: [0, 'Price cannot be negative']
     },
 
-    // Simple Inventory
+    // Simple Inventory (for products with variants: total variant stock, kept in sync on save)
     quantity: {
         type: Number,
         required: [true, 'Quantity is required'],
@@ -31,6 +123,20 @@ const productSchema = new mongoose.Schema({
         default: 0
     },
 
+    // Stock at or below this level (for any variant) puts the product on the low-stock alert list
+    lowStockThreshold: {
+        type: Number,
+        min: [0, 'Low-stock threshold cannot be negative'],
+        default: DEFAULT_LOW_STOCK_THRESHOLD
+    },
+
+    // Shipping weight in kilograms (used by weight-tiered shipping rules)
+    weight: {
+        type: Number,
+        min: [0, 'Weight cannot be negative'],
+        default: 0
+    },
+
     // Category Relationship
     category: {
         type: mongoose.Schema.Types.ObjectId,
@@ -38,12 +144,49 @@ const productSchema = new mongoose.Schema({
         required: [true, 'Product category is required']
     },
 
-    // Product Image - using a more reliable default
+    // Cover image (the first gallery image when there is a gallery) - using a more reliable default
     image: {
         type: String,
         default: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzAwIiBoZWlnaHQ9IjMwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZjNmNGY2Ii8+CiAgPHRleHQgeD0iNTAlIiB5PSI0NSUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIiBmaWxsPSIjOWNhM2FmIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTgiPk5vIEltYWdlPC90ZXh0PgogIDx0ZXh0IHg9IjUwJSIgeT0iNjAlIiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBkeT0iLjNlbSIgZmlsbD0iIzljYTNhZiIgZm9udC1mYW1pbHk9IkFyaWFsLCBzYW5zLXNlcmlmIiBmb250LXNpemU9IjE0Ij5BdmFpbGFibGU8L3RleHQ+Cjwvc3ZnPg=='
     },
 
+    // Ordered gallery; the first image is the cover
+    images: [imageSchema],
+
+    // Option axes, e.g. [{ name: 'Size', values: ['S', 'M', 'L'] }]
+    options: [{
+        _id: false,
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: [30, 'Option name cannot exceed 30 characters']
+        },
+        values: [{
+            type: String,
+            trim: true,
+            maxlength: [30, 'Option value cannot exceed 30 characters']
+        }]
+    }],
+
+    // Purchasable combinations of the options; empty for products without options
+    variants: [variantSchema],
+
+    // Aggregated from reviews (kept in sync by the Review model)
+    rating: {
+        average: {
+            type: Number,
+            default: 0,
+            min: 0,
+            max: 5
+        },
+        count: {
+            type: Number,
+            default: 0,
+            min: 0
+        }
+    },
+
     // Product Status
     isActive: {
         type: Boolean,
@@ -54,17 +197,236 @@ const productSchema = new mongoose.Schema({
     createdBy: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
-        required: true
+        required: true,
+        immutable: true
+    },
+
+    // Who last changed this product
+    updatedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
     }
 }, {
     timestamps: true
 });
 
+// Indexes for storefront search, filtering and sorting
+productSchema.index({ name: 'text', description: 'text' }, { weights: { name: 10, description: 1 } });
+productSchema.index({ isActive: 1, category: 1, createdAt: -1 });
+productSchema.index({ isActive: 1, createdAt: -1 });
+productSchema.index({ isActive: 1, price: 1 });
+productSchema.index({ isActive: 1, name: 1 });
+productSchema.index({ isActive: 1, 'rating.average': -1 });
+
+// Product SKUs are unique, but optional
+productSchema.index(
+    { sku: 1 },
+    { unique: true, partialFilterExpression: { sku: { $type: 'string' } } }
+);
+
+// Variant SKUs are unique across the catalogue
+productSchema.index(
+    { 'variants.sku': 1 },
+    { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } }
+);
+
+// Check the options and variants fit together, then derive price and stock from the variants
+productSchema.pre('validate', function(next) {
+    const options = this.options || [];
+    const variants = this.variants || [];
+
+    if (options.length > MAX_OPTIONS) {
+        this.invalidate('options', `A product can have at most ${MAX_OPTIONS} options`);
+    }
+    if (variants.length > MAX_VARIANTS) {
+        this.invalidate('variants', `A product can have at most ${MAX_VARIANTS} variants`);
+    }
+
+    const optionNames = new Set();
+    options.forEach(option => {
+        const key = option.name.toLowerCase();
+        if (optionNames.has(key)) {
+            this.invalidate('options', `Option ${option.name} is listed more than once`);
+        }
+        optionNames.add(key);
+
+        if (option.values.length === 0 || option.values.length > MAX_OPTION_VALUES) {
+            this.invalidate('options', `Option ${option.name} needs between 1 and ${MAX_OPTION_VALUES} values`);
+        }
+        if (new Set(option.values.map(value => value.toLowerCase())).size !== option.values.length) {
+            this.invalidate('options', `Option ${option.name} has duplicate values`);
+        }
+    });
+
+    if (options.length > 0 && variants.length === 0) {
+        this.invalidate('variants', 'Products with options need at least one variant');
+    }
+    if (options.length === 0 && variants.length > 0) {
+        this.invalidate('options', 'Variants need at least one option');
+    }
+
+    // Every variant picks exactly one listed value per option, and no two variants match
+    const skus = new Set();
+    const combinations = new Set();
+    variants.forEach(variant => {
+        const label = variant.getLabel() || variant.sku;
+
+        const matchesOptions = variant.options.length === options.length && options.every(option => {
+            const chosen = variant.options.find(entry => entry.name === option.name);
+            return chosen && option.values.includes(chosen.value);
+        });
+        if (!matchesOptions) {
+            this.invalidate('variants', `Variant ${label} must have one value for each option`);
+        }
+
+        const combination = options.map(option => {
+            const chosen = variant.options.find(entry => entry.name === option.name);
+            return chosen ? chosen.value : '';
+        }).join('|');
+        if (combinations.has(combination)) {
+            this.invalidate('variants', `More than one variant is ${label}`);
+        }
+        combinations.add(combination);
+
+        if (skus.has(variant.sku)) {
+            this.invalidate('variants', `SKU ${variant.sku} is used by more than one variant`);
+        }
+        skus.add(variant.sku);
+    });
+
+    if (variants.length > 0) {
+        this.price = Math.min(...variants.map(variant => variant.price));
+        this.quantity = variants.reduce((total, variant) => total + variant.quantity, 0);
+    }
+
+    next();
+});
+
+// Active products whose stock (or any variant's) is at or below their threshold
+// (products saved before these fields existed count as having no variants and the default threshold)
+const thresholdOrDefault = { $ifNull: ['$lowStockThreshold', DEFAULT_LOW_STOCK_THRESHOLD] };
+const variantsOrEmpty = { $ifNull: ['$variants', []] };
+const lowStockFilter = {
+    isActive: true,
+    $expr: {
+        $or: [
+            { $and: [{ $eq: [{ $size: variantsOrEmpty }, 0] }, { $lte: ['$quantity', thresholdOrDefault] }] },
+            { $anyElementTrue: [{ $map: { input: variantsOrEmpty, in: { $lte: ['$$this.quantity', thresholdOrDefault] } } }] }
+        ]
+    }
+};
+
+// Keep the cover image in step with the gallery
+productSchema.pre('validate', function(next) {
+    if (this.images.length > MAX_IMAGES) {
+        this.invalidate('images', `A product can have at most ${MAX_IMAGES} images`);
+    }
+    if (this.images.length > 0) {
+        this.image = this.images[0].url;
+    }
+
+    next();
+});
+
+productSchema.statics.MAX_OPTIONS = MAX_OPTIONS;
+productSchema.statics.MAX_VARIANTS = MAX_VARIANTS;
+productSchema.statics.MAX_IMAGES = MAX_IMAGES;
+
+// Static method: Get active products with any stock at or below their low-stock threshold
+productSchema.statics.findLowStock = function({ skip = 0, limit = 20 } = {}) {
+    return this.find(lowStockFilter)
+        .populate('category', 'name')
+        .sort({ quantity: 1, name: 1 })
+        .skip(skip)
+        .limit(limit);
+};
+
+// Static method: Count the products findLowStock() returns
+productSchema.statics.countLowStock = function() {
+    return this.countDocuments(lowStockFilter);
+};
+
+// Sort keys accepted by the storefront product listing
+productSchema.statics.SORT_OPTIONS = {
+    newest: 'createdAt',
+    price: 'price',
+    name: 'name',
+    rating: 'rating.average',
+    relevance: 'relevance'
+};
+
 // Simple method: Check if product is in stock
 productSchema.methods.isInStock = function() {
     return this.quantity > 0;
 };
 
+// Simple method: Stock per sellable unit: one entry per variant, or the product itself without variants
+productSchema.methods.getStockLevels = function() {
+    return this.hasVariants()
+        ? this.variants.map(variant => ({ variant: variant._id, sku: variant.sku, quantity: variant.quantity }))
+        : [{ variant: null, sku: null, quantity: this.quantity }];
+};
+
+// Simple method: Variants (or the product itself) whose stock is at or below the low-stock threshold
+productSchema.methods.getLowStockLevels = function() {
+    return this.getStockLevels().filter(level => level.quantity <= this.lowStockThreshold);
+};
+
+// Simple method: Put stock set on this (unsaved) document back to the levels in before and return what
+// was set as { variant, change } entries, to apply with adjustStockLevels once the product is saved.
+// before is the result of getStockLevels() taken when the product was loaded (empty for a new product);
+// variants not in it start from zero. Call before validating, since that derives the product's stock.
+productSchema.methods.takeStockChanges = function(before = []) {
+    const previous = new Map(before.map(level => [String(level.variant), level.quantity]));
+    const holders = this.hasVariants()
+        ? this.variants.map(variant => ({ variant: variant._id, holder: variant }))
+        : [{ variant: null, holder: this }];
+
+    return holders
+        .map(({ variant, holder }) => {
+            const current = previous.get(String(variant)) || 0;
+            const change = holder.quantity - current;
+            holder.quantity = current;
+            return { variant, change };
+        })
+        .filter(entry => entry.change !== 0);
+};
+
+// Simple method: Check if the product is sold in variants
+productSchema.methods.hasVariants = function() {
+    return this.variants.length > 0;
+};
+
+// Simple method: Work out the price and stock of a cart line for this product
+// Products with variants need a variant ID, others must not have one.
+// Returns { variant, price, quantity, label } or { error } when the line can't be bought.
+productSchema.methods.resolveVariant = function(variantId = null) {
+    if (!this.hasVariants()) {
+        return variantId
+            ? { error: `${this.name} has no options to choose from` }
+            : { variant: null, price: this.price, quantity: this.quantity, label: this.name };
+    }
+
+    if (!variantId) {
+        return { error: `Please choose ${this.options.map(option => option.name.toLowerCase()).join(' and ')} for ${this.name}` };
+    }
+
+    const variant = this.variants.id(variantId);
+    if (!variant) {
+        return { error: `The selected option of ${this.name} is no longer available` };
+    }
+
+    return { variant, price: variant.price, quantity: variant.quantity, label: `${this.name} (${variant.getLabel()})` };
+};
+
+// Simple method: Activate or deactivate (soft-delete) product
+productSchema.methods.setActive = function(isActive, userId) {
+    this.isActive = isActive;
+    this.updatedBy = userId;
+    return this.save();
+};
+
 // Simple method: Get public product data
 productSchema.methods.getPublicData = function() {
     const productObject = this.toObject();
@@ -76,9 +438,169 @@ productSchema.statics.getActiveProducts = function() {
     return this.find({ isActive: true }).populate('category createdBy', 'name firstName lastName');
 };
 
-// Static method: Get products by category
+// Static method: Get products by category (accepts one ID or a list of IDs)
 productSchema.statics.getByCategory = function(categoryId) {
-    return this.find({ category: categoryId, isActive: true }).populate('category createdBy', 'name firstName lastName');
+    const category = Array.isArray(categoryId) ? { $in: categoryId } : categoryId;
+    return this.find({ category, isActive: true }).populate('category createdBy', 'name firstName lastName');
+};
+
+// Static method: Search active products with filters, sorting and pagination
+// Relevance sorting only applies to text searches; otherwise it falls back to newest first.
+productSchema.statics.searchProducts = function(filter = {}, { sort = 'newest', order = 'desc', skip = 0, limit = 12 } = {}) {
+    const direction = order === 'asc' ? 1 : -1;
+    const isTextSearch = !!filter.$text;
+    let sortSpec;
+    let projection;
+
+    if (sort === 'relevance' && isTextSearch) {
+        projection = { score: { $meta: 'textScore' } };
+        sortSpec = { score: { $meta: 'textScore' }, _id: 1 };
+    } else {
+        const field = sort === 'relevance' ? 'createdAt' : this.SORT_OPTIONS[sort] || 'createdAt';
+        // Tie-break on _id so paging is stable when sort values repeat
+        sortSpec = { [field]: direction, _id: direction };
+    }
+
+    return this.find(filter, projection)
+        .populate('category createdBy', 'name firstName lastName')
+        .sort(sortSpec)
+        .skip(skip)
+        .limit(limit);
+};
+
+// Stock change for an order line: variant lines move the variant's stock and the product total together
+const stockChange = (item, amount) => {
+    if (!item.variant) {
+        return { filter: { _id: item.product }, update: { $inc: { quantity: amount } } };
+    }
+
+    return {
+        filter: { _id: item.product, 'variants._id': item.variant },
+        update: { $inc: { quantity: amount, 'variants.$.quantity': amount } }
+    };
+};
+
+// Ledger entry for a line after its stock moved; updated is the product as saved
+const movementEntry = (updated, item, change) => {
+    const variant = item.variant ? updated.variants.id(item.variant) : null;
+    return {
+        product: updated._id,
+        variant: variant ? variant._id : null,
+        sku: variant ? variant.sku : null,
+        change,
+        quantityAfter: variant ? variant.quantity : updated.quantity
+    };
+};
+
+// Static method: Reserve stock for order items
+// Each line is decremented only if enough stock remains, so concurrent
+// checkouts cannot oversell. If any line fails, earlier reservations are released.
+// movement ({ type, actor, order, ... }) is recorded in the stock ledger once every line is reserved.
+productSchema.statics.reserveStock = async function(items, movement = null) {
+    const reserved = [];
+    const entries = [];
+
+    try {
+        for (const item of items) {
+            const { update } = stockChange(item, -item.quantity);
+            const filter = item.variant
+                ? { _id: item.product, isActive: true, variants: { $elemMatch: { _id: item.variant, quantity: { $gte: item.quantity } } } }
+                : { _id: item.product, isActive: true, quantity: { $gte: item.quantity } };
+
+            const updated = await this.findOneAndUpdate(filter, update, { new: true });
+
+            if (!updated) {
+                const current = await this.findById(item.product).select('name quantity isActive variants');
+                const line = current && current.isActive ? current.resolveVariant(item.variant) : null;
+                const error = new Error(
+                    line && !line.error
+                        ? `Insufficient stock for ${line.label}. Only ${line.quantity} available`
+                        : `Product ${item.name} is no longer available`
+                );
+                error.name = 'StockError';
+                throw error;
+            }
+
+            reserved.push(item);
+            entries.push(movementEntry(updated, item, -item.quantity));
+        }
+    } catch (error) {
+        await this.releaseStock(reserved);
+        throw error;
+    }
+
+    if (movement) {
+        await StockMovement.record(entries, movement);
+    }
+
+    return reserved;
+};
+
+// Static method: Return reserved stock for order items
+// Stock for a variant that has since been removed is not restored.
+// movement ({ type, actor, order, returnRequest, ... }) is recorded in the stock ledger when given.
+productSchema.statics.releaseStock = async function(items, movement = null) {
+    const entries = [];
+
+    for (const item of items) {
+        const { filter, update } = stockChange(item, item.quantity);
+        const updated = await this.findOneAndUpdate(filter, update, { new: true });
+
+        if (updated) {
+            entries.push(movementEntry(updated, item, item.quantity));
+        }
+    }
+
+    if (movement) {
+        await StockMovement.record(entries, movement);
+    }
+};
+
+// Static method: Manually adjust the stock of a product (or one of its variants) by change
+// Stock never goes below zero: returns null when the product or variant is missing or
+// doesn't have enough stock to remove, otherwise the updated product.
+productSchema.statics.adjustStock = async function(productId, variantId, change, { actor, reason }) {
+    const item = { product: productId, variant: variantId || null };
+    const { update } = stockChange(item, change);
+    const filter = item.variant
+        ? { _id: productId, variants: { $elemMatch: { _id: item.variant, quantity: { $gte: Math.max(-change, 0) } } } }
+        : { _id: productId, 'variants.0': { $exists: false }, quantity: { $gte: Math.max(-change, 0) } };
+
+    const updated = await this.findOneAndUpdate(filter, update, { new: true });
+    if (!updated) {
+        return null;
+    }
+
+    await StockMovement.record([movementEntry(updated, item, change)], { type: 'adjustment', actor, reason });
+    return updated;
+};
+
+// Static method: Apply several stock changes ({ variant, change }) to a product as adjustments
+// Each goes through adjustStock, so the ledger holds the change actually applied.
+// Returns the changes that could not be applied (the variant is gone or not enough stock is left).
+productSchema.statics.adjustStockLevels = async function(productId, changes, { actor, reason }) {
+    const failed = [];
+
+    for (const entry of changes) {
+        const updated = await this.adjustStock(productId, entry.variant, entry.change, { actor, reason });
+        if (!updated) {
+            failed.push(entry);
+        }
+    }
+
+    return failed;
+};
+
+// Static method: Record the stock of variants (or the product's own stock) that an edit removed
+// before is the result of getStockLevels() taken when the product was loaded; the edit must have been
+// saved with $where on the loaded quantity, so these levels are still the live ones.
+productSchema.statics.recordRemovedStock = async function(product, before, { actor, reason }) {
+    const kept = new Set(product.getStockLevels().map(level => String(level.variant)));
+    const entries = before
+        .filter(level => !kept.has(String(level.variant)) && level.quantity > 0)
+        .map(({ variant, sku, quantity }) => ({ product: product._id, variant, sku, change: -quantity, quantityAfter: 0 }));
+
+    await StockMovement.record(entries, { type: 'adjustment', actor, reason });
 };
 
 module.exports = mongoose.model('Product', productSchema);
\ No newline at end of file
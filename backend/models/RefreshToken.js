@@ -0,0 +1,161 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+// How long a session survives without being refreshed
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS, 10) || 30;
+
+// A token rotated this recently was probably refreshed by another tab at the same moment,
+// so reusing it fails without ending the session
+const ROTATION_GRACE_MS = 10 * 1000;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Refresh Token Schema Definition
+// Each login starts a session (family). Every refresh revokes the presented token and issues
+// the next one in the same family, so a token that is presented twice means it was stolen.
+const refreshTokenSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+
+    // Only the hash is stored, so a database leak doesn't hand out sessions
+    tokenHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+
+    // Session ID shared by every token in the rotation chain (also carried in access tokens as sid)
+    family: {
+        type: String,
+        required: true
+    },
+
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+
+    revokedAt: {
+        type: Date,
+        default: null
+    },
+
+    // rotated: replaced by the next token (the session lives on); logout/reuse end the session
+    revokedReason: {
+        type: String,
+        enum: ['rotated', 'logout', 'reuse', null],
+        default: null
+    },
+
+    // Device details shown when reviewing sessions
+    userAgent: {
+        type: String,
+        default: ''
+    },
+
+    ip: {
+        type: String,
+        default: ''
+    }
+}, {
+    timestamps: true
+});
+
+// Indexes for session checks and bulk revocation; expired tokens are removed by MongoDB
+refreshTokenSchema.index({ family: 1 });
+refreshTokenSchema.index({ user: 1 });
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static method: Issue a refresh token, starting a new session unless a family is given
+// Returns the raw token (only ever sent to the client) and the stored document
+refreshTokenSchema.statics.issue = async function(userId, { family, userAgent = '', ip = '' } = {}) {
+    const token = crypto.randomBytes(48).toString('hex');
+
+    const doc = await this.create({
+        user: userId,
+        tokenHash: hashToken(token),
+        family: family || crypto.randomUUID(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+        userAgent,
+        ip
+    });
+
+    return { token, doc };
+};
+
+// Static method: Swap a refresh token for the next one in its session
+// Returns { token, doc } on success or { error } when the token can't be used.
+// Presenting an already-rotated token revokes the whole session.
+refreshTokenSchema.statics.rotate = async function(token, { userAgent = '', ip = '' } = {}) {
+    const tokenHash = hashToken(token);
+
+    // Claim the token atomically so two concurrent refreshes can't both succeed
+    const current = await this.findOneAndUpdate(
+        { tokenHash, revokedAt: null, expiresAt: { $gt: new Date() } },
+        { $set: { revokedAt: new Date(), revokedReason: 'rotated' } },
+        { new: true }
+    );
+
+    if (!current) {
+        const existing = await this.findOne({ tokenHash });
+        if (existing && existing.revokedReason === 'rotated') {
+            if (Date.now() - existing.revokedAt.getTime() < ROTATION_GRACE_MS) {
+                return { error: 'Refresh token has already been used' };
+            }
+            await this.revokeFamily(existing.family, 'reuse');
+            return { error: 'Refresh token has already been used. Please log in again' };
+        }
+        if (existing && existing.revokedAt) {
+            return { error: 'Session has ended. Please log in again' };
+        }
+        return { error: existing ? 'Refresh token has expired' : 'Invalid refresh token' };
+    }
+
+    return this.issue(current.user, { family: current.family, userAgent, ip });
+};
+
+// Static method: End a session, including tokens that were already rotated
+refreshTokenSchema.statics.revokeFamily = function(family, reason = 'logout') {
+    return this.updateMany({ family }, [
+        { $set: { revokedReason: reason, revokedAt: { $ifNull: ['$revokedAt', new Date()] } } }
+    ]);
+};
+
+// Static method: Revoke the session a refresh token belongs to (logout)
+// Returns the session family, or null if the token is unknown
+refreshTokenSchema.statics.revokeByToken = async function(token) {
+    const existing = await this.findOne({ tokenHash: hashToken(token) }).select('family');
+    if (!existing) {
+        return null;
+    }
+    await this.revokeFamily(existing.family);
+    return existing.family;
+};
+
+// Static method: Revoke every session of a user (log out all devices)
+// exceptFamily keeps one session alive, e.g. the one that just changed the password
+refreshTokenSchema.statics.revokeAllForUser = function(userId, { exceptFamily = null } = {}) {
+    const filter = { user: userId };
+    if (exceptFamily) {
+        filter.family = { $ne: exceptFamily };
+    }
+
+    return this.updateMany(filter, [
+        { $set: { revokedReason: 'logout', revokedAt: { $ifNull: ['$revokedAt', new Date()] } } }
+    ]);
+};
+
+// Static method: Check whether a session is still live
+// Rotated tokens count, so requests racing a refresh aren't rejected mid-rotation
+refreshTokenSchema.statics.isSessionActive = function(family) {
+    return this.exists({
+        family,
+        revokedReason: { $in: [null, 'rotated'] },
+        expiresAt: { $gt: new Date() }
+    });
+};
+
+module.exports = mongoose.model('RefreshToken', refreshTokenSchema);
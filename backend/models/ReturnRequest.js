@@ -0,0 +1,200 @@
+const mongoose = require('mongoose');
+
+// Days after delivery during which a return can be requested
+const RETURN_WINDOW_DAYS = 30;
+
+const RETURN_REASONS = ['damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'];
+
+// Return Request (RMA) Schema Definition
+const returnRequestSchema = new mongoose.Schema({
+    // RMA Identification
+    rmaNumber: {
+        type: String,
+        unique: true
+    },
+
+    order: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Order',
+        required: true
+    },
+
+    customer: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+
+    // Returned lines, snapshotted from the order items
+    items: [{
+        orderItem: {
+            type: mongoose.Schema.Types.ObjectId,
+            required: true
+        },
+        product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Product',
+            required: true
+        },
+        // Copied from the order line so received items restock the right variant
+        variant: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null
+        },
+        options: [{
+            _id: false,
+            name: String,
+            value: String
+        }],
+        name: {
+            type: String,
+            required: true
+        },
+        price: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        quantity: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        reason: {
+            type: String,
+            enum: RETURN_REASONS,
+            required: true
+        },
+        comment: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Comment cannot exceed 500 characters'],
+            default: ''
+        }
+    }],
+
+    // Workflow: requested -> approved -> received, or requested -> rejected
+    status: {
+        type: String,
+        enum: ['requested', 'approved', 'rejected', 'received'],
+        default: 'requested'
+    },
+
+    // Refund the items are worth after their share of the order discount and tax (shipping is kept)
+    estimatedRefund: {
+        type: Number,
+        min: 0,
+        default: 0
+    },
+
+    // Refund issued when the items were received
+    refund: {
+        amount: {
+            type: Number,
+            min: 0,
+            default: 0
+        },
+        refundId: {
+            type: String,
+            default: null
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'succeeded', 'failed', 'not_required'],
+            default: 'pending'
+        },
+        error: {
+            type: String,
+            default: null
+        }
+    },
+
+    // Shown to the customer when rejecting, or as a note on approval
+    adminNote: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Note cannot exceed 500 characters'],
+        default: ''
+    },
+
+    handledBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+
+    approvedAt: {
+        type: Date,
+        default: null
+    },
+
+    rejectedAt: {
+        type: Date,
+        default: null
+    },
+
+    receivedAt: {
+        type: Date,
+        default: null
+    }
+}, {
+    timestamps: true
+});
+
+// Indexes for customer history, per-order lookups and the admin queue
+returnRequestSchema.index({ customer: 1, createdAt: -1 });
+returnRequestSchema.index({ order: 1 });
+returnRequestSchema.index({ status: 1, createdAt: -1 });
+
+// Generate RMA number before saving: RMA-YYYYMMDD-RANDOM
+returnRequestSchema.pre('save', function(next) {
+    if (!this.rmaNumber) {
+        const dateString = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+        const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
+        this.rmaNumber = `RMA-${dateString}-${randomString}`;
+    }
+    next();
+});
+
+returnRequestSchema.statics.RETURN_WINDOW_DAYS = RETURN_WINDOW_DAYS;
+returnRequestSchema.statics.RETURN_REASONS = RETURN_REASONS;
+
+// Static method: Atomically move a request between statuses
+// Returns null when another admin already moved it on
+returnRequestSchema.statics.transition = function(id, fromStatus, toStatus, fields = {}) {
+    return this.findOneAndUpdate(
+        { _id: id, status: fromStatus },
+        { $set: { ...fields, status: toStatus } },
+        { new: true }
+    );
+};
+
+// Static method: Work out what returned lines are worth, given the order they came from
+// Each line gets its proportional share of the order discount plus the tax charged on it;
+// shipping (and tax on shipping) isn't refunded
+returnRequestSchema.statics.calculateRefund = function(order, items) {
+    const itemsValue = items.reduce((total, item) => total + item.price * item.quantity, 0);
+    const subtotal = order.subtotal || order.items.reduce((total, item) => total + item.total, 0);
+
+    if (!subtotal) {
+        return 0;
+    }
+
+    const discount = (order.discount && order.discount.amount) || 0;
+    const taxRate = (order.tax && order.tax.rate) || 0;
+    const discountedValue = itemsValue - discount * (itemsValue / subtotal);
+    const refund = discountedValue * (1 + taxRate / 100);
+
+    return parseFloat(Math.max(refund, 0).toFixed(2));
+};
+
+// Static method: Check whether an order is still inside the return window
+returnRequestSchema.statics.isWithinReturnWindow = function(order, now = new Date()) {
+    if (order.status !== 'delivered' || !order.deliveryDate) {
+        return false;
+    }
+    const deadline = new Date(order.deliveryDate.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    return now <= deadline;
+};
+
+module.exports = mongoose.model('ReturnRequest', returnRequestSchema);
@@ -0,0 +1,85 @@
+const mongoose = require('mongoose');
+
+// Review Schema Definition
+const reviewSchema = new mongoose.Schema({
+    // Reviewed product
+    product: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+
+    // Author (must have received the product in a delivered order)
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+
+    rating: {
+        type: Number,
+        required: [true, 'Rating is required'],
+        min: [1, 'Rating must be at least 1'],
+        max: [5, 'Rating cannot exceed 5'],
+        validate: {
+            validator: Number.isInteger,
+            message: 'Rating must be a whole number'
+        }
+    },
+
+    title: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Title cannot exceed 100 characters']
+    },
+
+    comment: {
+        type: String,
+        trim: true,
+        maxlength: [2000, 'Comment cannot exceed 2000 characters']
+    }
+}, {
+    timestamps: true
+});
+
+// One review per customer per product
+reviewSchema.index({ product: 1, user: 1 }, { unique: true });
+reviewSchema.index({ product: 1, createdAt: -1 });
+
+// Static method: Recalculate a product's average rating and review count
+reviewSchema.statics.updateProductRating = async function(productId) {
+    const [stats] = await this.aggregate([
+        { $match: { product: new mongoose.Types.ObjectId(productId) } },
+        { $group: { _id: '$product', average: { $avg: '$rating' }, count: { $sum: 1 } } }
+    ]);
+
+    await mongoose.model('Product').updateOne(
+        { _id: productId },
+        {
+            rating: {
+                average: stats ? Math.round(stats.average * 10) / 10 : 0,
+                count: stats ? stats.count : 0
+            }
+        }
+    );
+};
+
+// Static method: Get paginated reviews for a product, newest first
+reviewSchema.statics.getProductReviews = function(productId, { skip = 0, limit = 10 } = {}) {
+    return this.find({ product: productId })
+        .populate('user', 'username firstName lastName')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+};
+
+// Keep the product's aggregate rating in sync
+reviewSchema.post('save', function() {
+    return this.constructor.updateProductRating(this.product);
+});
+
+reviewSchema.post('deleteOne', { document: true, query: false }, function() {
+    return this.constructor.updateProductRating(this.product);
+});
+
+module.exports = mongoose.model('Review', reviewSchema);
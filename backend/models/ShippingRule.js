@@ -0,0 +1,141 @@
+const mongoose = require('mongoose');
+
+// Shipping Rule Schema Definition
+const shippingRuleSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Rule name is required'],
+        trim: true,
+        maxlength: [100, 'Rule name cannot exceed 100 characters']
+    },
+
+    // Destination countries as customers enter them (e.g. "US", "UNITED STATES"),
+    // stored uppercase. Empty means "everywhere not covered by another rule".
+    countries: [{
+        type: String,
+        uppercase: true,
+        trim: true
+    }],
+
+    // Optional postal code prefixes to narrow the rule within its countries
+    postalCodePrefixes: [{
+        type: String,
+        uppercase: true,
+        trim: true
+    }],
+
+    // Pricing Method
+    // flat: flatRate per order, weight_tiers: rate of the first tier the cart weight fits in
+    method: {
+        type: String,
+        enum: ['flat', 'weight_tiers'],
+        required: [true, 'Pricing method is required']
+    },
+
+    flatRate: {
+        type: Number,
+        min: [0, 'Rate cannot be negative'],
+        default: 0
+    },
+
+    // Tiers by total cart weight in kg; a null maxWeight covers anything heavier
+    weightTiers: [{
+        maxWeight: {
+            type: Number,
+            min: [0, 'Weight cannot be negative'],
+            default: null
+        },
+        rate: {
+            type: Number,
+            required: true,
+            min: [0, 'Rate cannot be negative']
+        }
+    }],
+
+    // Shipping is free when the discounted subtotal reaches this amount (null = never)
+    freeOver: {
+        type: Number,
+        min: [0, 'Threshold cannot be negative'],
+        default: null
+    },
+
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+
+    // Who created this rule
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        immutable: true
+    }
+}, {
+    timestamps: true
+});
+
+// Static method: Find the most specific active rule for an address
+// Postal code matches beat country-only matches, which beat catch-all rules.
+// Spaces are ignored on both sides, so "SW1A 1AA" matches the prefix "SW1A1".
+shippingRuleSchema.statics.findForAddress = async function(address) {
+    const country = (address.country || '').trim().toUpperCase();
+    const postalCode = (address.postalCode || '').replace(/\s+/g, '').toUpperCase();
+
+    const rules = await this.find({
+        isActive: true,
+        $or: [{ countries: country }, { countries: { $size: 0 } }]
+    });
+
+    let bestRule = null;
+    let bestScore = -1;
+
+    rules.forEach(rule => {
+        let score;
+        if (rule.countries.length === 0) {
+            score = 0;
+        } else if (rule.postalCodePrefixes.length === 0) {
+            score = 1;
+        } else {
+            const matches = rule.postalCodePrefixes
+                .map(prefix => prefix.replace(/\s+/g, ''))
+                .filter(prefix => postalCode.startsWith(prefix));
+            if (matches.length === 0) return;
+            score = 2 + Math.max(...matches.map(prefix => prefix.length));
+        }
+
+        if (score > bestScore) {
+            bestRule = rule;
+            bestScore = score;
+        }
+    });
+
+    return bestRule;
+};
+
+// Instance method: Calculate the shipping cost for a cart
+shippingRuleSchema.methods.calculateCost = function(totalWeight, orderValue) {
+    if (this.freeOver !== null && orderValue >= this.freeOver) {
+        return 0;
+    }
+
+    if (this.method === 'flat') {
+        return this.flatRate;
+    }
+
+    // Lightest tier first, open-ended tier last
+    const tiers = [...this.weightTiers].sort((a, b) => {
+        if (a.maxWeight === null) return 1;
+        if (b.maxWeight === null) return -1;
+        return a.maxWeight - b.maxWeight;
+    });
+    if (tiers.length === 0) {
+        return 0;
+    }
+
+    // Heavier than every tier: charge the heaviest tier
+    const tier = tiers.find(t => t.maxWeight === null || totalWeight <= t.maxWeight) || tiers[tiers.length - 1];
+    return tier.rate;
+};
+
+module.exports = mongoose.model('ShippingRule', shippingRuleSchema);
@@ -0,0 +1,107 @@
+const mongoose = require('mongoose');
+
+// Why stock changed
+const MOVEMENT_TYPES = ['sale', 'cancellation', 'adjustment', 'return'];
+
+// Stock Movement Schema Definition
+// Append-only ledger of every change to a product's (or variant's) stock
+const stockMovementSchema = new mongoose.Schema({
+    product: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+
+    // Variant whose stock moved; null for products without variants
+    variant: {
+        type: mongoose.Schema.Types.ObjectId,
+        default: null
+    },
+
+    // Variant SKU at the time, so history stays readable if the variant is removed
+    sku: {
+        type: String,
+        default: null
+    },
+
+    type: {
+        type: String,
+        enum: MOVEMENT_TYPES,
+        required: true
+    },
+
+    // Signed change, e.g. -2 for a sale of two
+    change: {
+        type: Number,
+        required: true
+    },
+
+    // Stock of the product (or variant) right after the change
+    quantityAfter: {
+        type: Number,
+        required: true
+    },
+
+    reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters'],
+        default: ''
+    },
+
+    // Who caused the change: the customer for sales and cancellations, staff otherwise
+    actor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+
+    order: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Order',
+        default: null
+    },
+
+    returnRequest: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'ReturnRequest',
+        default: null
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for per-product history and the recent movements feed
+stockMovementSchema.index({ product: 1, createdAt: -1 });
+stockMovementSchema.index({ type: 1, createdAt: -1 });
+stockMovementSchema.index({ createdAt: -1 });
+
+stockMovementSchema.statics.MOVEMENT_TYPES = MOVEMENT_TYPES;
+
+// Static method: Record movements; entries are { product, variant, sku, change, quantityAfter }
+// and context holds what they share ({ type, actor, order, returnRequest, reason }).
+// The stock has already moved by the time this runs, so a failed write is logged rather than thrown.
+stockMovementSchema.statics.record = async function(entries, context) {
+    if (entries.length === 0) {
+        return;
+    }
+
+    try {
+        await this.insertMany(entries.map(entry => ({ ...context, ...entry })));
+    } catch (error) {
+        console.error('Record stock movement error:', error);
+    }
+};
+
+// Static method: Get movements, newest first, with product and actor populated
+stockMovementSchema.statics.getEntries = function(filter = {}, { skip = 0, limit = 20 } = {}) {
+    return this.find(filter)
+        .populate('product', 'name')
+        .populate('actor', 'username firstName lastName')
+        .populate('order', 'orderNumber')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+};
+
+module.exports = mongoose.model('StockMovement', stockMovementSchema);
@@ -0,0 +1,72 @@
+const mongoose = require('mongoose');
+
+// Tax Rule Schema Definition
+const taxRuleSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Rule name is required'],
+        trim: true,
+        maxlength: [100, 'Rule name cannot exceed 100 characters']
+    },
+
+    // Destination country as customers enter it, stored uppercase
+    country: {
+        type: String,
+        required: [true, 'Country is required'],
+        uppercase: true,
+        trim: true
+    },
+
+    // Narrows the rule to part of a country; empty applies to the whole country
+    postalCodePrefix: {
+        type: String,
+        uppercase: true,
+        trim: true,
+        default: ''
+    },
+
+    // Percentage, e.g. 8.25
+    rate: {
+        type: Number,
+        required: [true, 'Tax rate is required'],
+        min: [0, 'Tax rate cannot be negative'],
+        max: [100, 'Tax rate cannot exceed 100']
+    },
+
+    // Whether shipping charges are taxed as well
+    appliesToShipping: {
+        type: Boolean,
+        default: false
+    },
+
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+
+    // Who created this rule
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        immutable: true
+    }
+}, {
+    timestamps: true
+});
+
+taxRuleSchema.index({ country: 1, postalCodePrefix: 1 }, { unique: true });
+
+// Static method: Find the active rule for an address (longest matching postal prefix wins)
+taxRuleSchema.statics.findForAddress = async function(address) {
+    const country = (address.country || '').trim().toUpperCase();
+    const postalCode = (address.postalCode || '').replace(/\s+/g, '').toUpperCase();
+
+    const rules = await this.find({ isActive: true, country });
+
+    return rules
+        .filter(rule => postalCode.startsWith(rule.postalCodePrefix))
+        .sort((a, b) => b.postalCodePrefix.length - a.postalCodePrefix.length)[0] || null;
+};
+
+module.exports = mongoose.model('TaxRule', taxRuleSchema);
@@ -1,5 +1,16 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { priceCart } = require('../utils/pricing');
+const { pickAddress, ADDRESS_FIELDS } = require('../utils/addressValidation');
+const { ROLE_NAMES, getRolePermissions } = require('../config/roles');
+
+// How many addresses a user can keep in their address book
+const MAX_ADDRESSES = 10;
+
+// Cart lines are identified by product and variant (null for products without options)
+const isSameLine = (item, productId, variantId = null) =>
+    item.product.toString() === productId.toString() &&
+    String(item.variant || '') === String(variantId || '');
 
 // User Schema Definition
 const userSchema = new mongoose.Schema({
@@ -25,6 +36,17 @@ const userSchema = new mongoose.Schema({
         ]
     },
     
+    // Set once the user follows the verification link; checkout requires it
+    isEmailVerified: {
+        type: Boolean,
+        default: false
+    },
+
+    emailVerifiedAt: {
+        type: Date,
+        default: null
+    },
+    
     password: {
         type: String,
         required: [true, 'Password is required'],
@@ -47,10 +69,10 @@ const userSchema = new mongoose.Schema({
         maxlength: [50, 'Last name cannot exceed 50 characters']
     },
     
-    // User Role
+    // User Role (see config/roles.js for what each role may do)
     role: {
         type: String,
-        enum: ['user', 'admin'],
+        enum: ROLE_NAMES,
         default: 'user'
     },
     
@@ -59,6 +81,12 @@ const userSchema = new mongoose.Schema({
         type: Boolean,
         default: true
     },
+
+    // Set when an admin forces a password reset; login is refused until the password is reset
+    passwordResetRequired: {
+        type: Boolean,
+        default: false
+    },
     
     // Profile Picture (optional)
     avatar: {
@@ -73,6 +101,11 @@ const userSchema = new mongoose.Schema({
             ref: 'Product',
             required: true
         },
+        // Chosen variant of a product with options
+        variant: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null
+        },
         quantity: {
             type: Number,
             required: true,
@@ -82,6 +115,69 @@ const userSchema = new mongoose.Schema({
             type: Date,
             default: Date.now
         }
+    }],
+
+    // Coupon applied to the cart (validated again whenever totals are calculated)
+    appliedCoupon: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Coupon',
+        default: null
+    },
+
+    // Wishlist (saved for later) - keeps the quantity (and chosen variant) so items can move back to the cart
+    wishlist: [{
+        product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Product',
+            required: true
+        },
+        variant: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null
+        },
+        quantity: {
+            type: Number,
+            min: [1, 'Quantity must be at least 1'],
+            default: 1
+        },
+        addedAt: {
+            type: Date,
+            default: Date.now
+        }
+    }],
+
+    // Address book: saved shipping addresses, at most one of them the default
+    addresses: [{
+        label: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: [30, 'Address label cannot exceed 30 characters']
+        },
+        fullName: {
+            type: String,
+            required: true
+        },
+        address: {
+            type: String,
+            required: true
+        },
+        city: {
+            type: String,
+            required: true
+        },
+        postalCode: {
+            type: String,
+            required: true
+        },
+        country: {
+            type: String,
+            required: true
+        },
+        isDefault: {
+            type: Boolean,
+            default: false
+        }
     }]
 }, {
     // Add timestamps (createdAt, updatedAt)
@@ -113,24 +209,53 @@ userSchema.methods.comparePassword = async function(enteredPassword) {
 userSchema.methods.getPublicProfile = function() {
     const userObject = this.toObject();
     delete userObject.password;
+    // The frontend identifies the signed-in user by id
+    userObject.id = this._id.toString();
+    // ...and shows staff pages based on permissions
+    userObject.permissions = this.getPermissions();
     return userObject;
 };
 
+// Instance method: Permissions granted by the user's role
+userSchema.methods.getPermissions = function() {
+    return getRolePermissions(this.role);
+};
+
+// Instance method: Check a single permission
+userSchema.methods.hasPermission = function(permission) {
+    return this.getPermissions().includes(permission);
+};
+
 // Static method: Find user by email
 userSchema.statics.findByEmail = function(email) {
     return this.findOne({ email: email.toLowerCase() });
 };
 
+// Static method: Mark accounts created before email verification existed as verified
+// Only they have no isEmailVerified stored (new accounts save false), so running it again is a no-op.
+userSchema.statics.verifyExistingAccounts = function() {
+    return this.updateMany(
+        { isEmailVerified: { $exists: false } },
+        { $set: { isEmailVerified: true } }
+    );
+};
+
 // Cart Methods
+// Find the cart line for a product (and variant)
+userSchema.methods.findCartItem = function(productId, variantId = null) {
+    return this.cart.find(item => isSameLine(item, productId, variantId));
+};
+
 // Add item to cart
-userSchema.methods.addToCart = function(productId, quantity = 1) {
-    const existingItem = this.cart.find(item => item.product.toString() === productId.toString());
+userSchema.methods.addToCart = function(productId, quantity = 1, variantId = null) {
+    const existingItem = this.findCartItem(productId, variantId);
     
     if (existingItem) {
         existingItem.quantity += quantity;
     } else {
         this.cart.push({
             product: productId,
+            variant: variantId,
             quantity: quantity
         });
     }
@@ -139,18 +264,18 @@ userSchema.methods.addToCart = function(productId, quantity = 1) {
 };
 
 // Remove item from cart
-userSchema.methods.removeFromCart = function(productId) {
-    this.cart = this.cart.filter(item => item.product.toString() !== productId.toString());
+userSchema.methods.removeFromCart = function(productId, variantId = null) {
+    this.cart = this.cart.filter(item => !isSameLine(item, productId, variantId));
     return this.save();
 };
 
 // Update item quantity in cart
-userSchema.methods.updateCartQuantity = function(productId, quantity) {
-    const item = this.cart.find(item => item.product.toString() === productId.toString());
+userSchema.methods.updateCartQuantity = function(productId, quantity, variantId = null) {
+    const item = this.findCartItem(productId, variantId);
     
     if (item) {
         if (quantity <= 0) {
-            return this.removeFromCart(productId);
+            return this.removeFromCart(productId, variantId);
         }
         item.quantity = quantity;
         return this.save();
@@ -159,17 +284,298 @@ userSchema.methods.updateCartQuantity = function(productId, quantity) {
     throw new Error('Item not found in cart');
 };
 
-// Clear entire cart
+// Clear entire cart (and any coupon applied to it)
 userSchema.methods.clearCart = function() {
     this.cart = [];
+    this.appliedCoupon = null;
+    return this.save();
+};
+
+// Build the cart view: active lines, lines whose product was deactivated
+// (or whose variant was removed), and totals including the applied coupon's
+// discount. With an address (at least a country), shipping and tax are estimated as well.
+// Each line carries the chosen variant (or null) and its variantId.
+userSchema.methods.getCartSummary = async function(address = null) {
+    await this.populate([
+        { path: 'cart.product', select: 'name description price image isActive quantity weight category options variants' },
+        { path: 'appliedCoupon' }
+    ]);
+
+    const items = [];
+    const unavailableItems = [];
+    this.cart.filter(item => item.product).forEach(item => {
+        const resolved = item.product.resolveVariant(item.variant);
+        const line = {
+            product: item.product,
+            variant: resolved.variant || null,
+            variantId: item.variant,
+            quantity: item.quantity,
+            addedAt: item.addedAt,
+            price: resolved.error ? item.product.price : resolved.price
+        };
+
+        if (item.product.isActive && !resolved.error) {
+            items.push(line);
+        } else {
+            unavailableItems.push(line);
+        }
+    });
+
+    const lines = items.map(item => ({
+        price: item.price,
+        quantity: item.quantity,
+        weight: item.product.weight,
+        category: item.product.category
+    }));
+
+    let couponSummary = null;
+    let couponResult = { amount: 0, freeShipping: false, error: null };
+
+    const coupon = this.appliedCoupon;
+    if (coupon) {
+        const availabilityError = await coupon.checkAvailability(this._id);
+        couponResult = availabilityError
+            ? { amount: 0, freeShipping: false, error: availabilityError }
+            : await coupon.calculateDiscount(lines);
+
+        couponSummary = {
+            _id: coupon._id,
+            code: coupon.code,
+            type: coupon.type,
+            value: coupon.value,
+            freeShipping: couponResult.freeShipping,
+            error: couponResult.error
+        };
+    }
+
+    const pricing = await priceCart({
+        lines,
+        discount: couponResult.amount,
+        freeShipping: couponResult.freeShipping,
+        address
+    });
+
+    const summary = {
+        totalItems: items.reduce((total, item) => total + item.quantity, 0),
+        totalPrice: pricing.subtotal,
+        discount: pricing.discount,
+        shipping: pricing.shipping,
+        tax: pricing.tax,
+        total: pricing.total,
+        coupon: couponSummary
+    };
+
+    return { items, unavailableItems, summary };
+};
+
+// Merge a guest cart into this cart
+// Duplicate lines add their quantities together, and every merged line is
+// capped at the stock available. Missing, inactive or out-of-stock products
+// (or variants) are skipped. Report names include the chosen options.
+userSchema.methods.mergeCart = function(guestItems, productsById) {
+    const report = { merged: [], adjusted: [], skipped: [] };
+
+    // Combine duplicate guest lines first
+    const guestLines = new Map();
+    guestItems.forEach(item => {
+        const productId = item.product.toString();
+        const variantId = item.variant ? item.variant.toString() : null;
+        const key = `${productId}:${variantId || ''}`;
+        const existing = guestLines.get(key);
+        guestLines.set(key, { productId, variantId, quantity: (existing ? existing.quantity : 0) + item.quantity });
+    });
+
+    guestLines.forEach(({ productId, variantId, quantity: guestQuantity }) => {
+        const product = productsById.get(productId);
+
+        if (!product || !product.isActive) {
+            report.skipped.push({ productId, name: product ? product.name : null, reason: 'Product is no longer available' });
+            return;
+        }
+
+        const resolved = product.resolveVariant(variantId);
+        if (resolved.error) {
+            report.skipped.push({ productId, name: product.name, reason: resolved.error });
+            return;
+        }
+
+        const existingItem = this.findCartItem(productId, variantId);
+        const currentQuantity = existingItem ? existingItem.quantity : 0;
+        const requested = currentQuantity + guestQuantity;
+        const quantity = Math.min(requested, resolved.quantity);
+
+        if (quantity <= currentQuantity) {
+            report.skipped.push({
+                productId,
+                name: resolved.label,
+                reason: resolved.quantity === 0 ? 'Out of stock' : `Only ${resolved.quantity} available`
+            });
+            return;
+        }
+
+        if (existingItem) {
+            existingItem.quantity = quantity;
+        } else {
+            this.cart.push({ product: productId, variant: variantId, quantity });
+        }
+
+        if (quantity < requested) {
+            report.adjusted.push({ productId, name: resolved.label, requested, quantity });
+        } else {
+            report.merged.push({ productId, name: resolved.label, quantity });
+        }
+    });
+
+    return this.save().then(() => report);
+};
+
+// Wishlist Methods
+// Lines are keyed by product and variant, like cart lines
+// Find the wishlist line for a product (and variant)
+userSchema.methods.findWishlistItem = function(productId, variantId = null) {
+    return this.wishlist.find(item => isSameLine(item, productId, variantId));
+};
+
+// Add item to wishlist (an existing line for the same variant keeps the larger quantity)
+userSchema.methods.addToWishlist = function(productId, quantity = 1, variantId = null) {
+    const existingItem = this.findWishlistItem(productId, variantId);
+
+    if (existingItem) {
+        existingItem.quantity = Math.max(existingItem.quantity, quantity);
+    } else {
+        this.wishlist.push({
+            product: productId,
+            variant: variantId,
+            quantity: quantity
+        });
+    }
+
+    return this.save();
+};
+
+// Remove a line from the wishlist
+userSchema.methods.removeFromWishlist = function(productId, variantId = null) {
+    this.wishlist = this.wishlist.filter(item => !isSameLine(item, productId, variantId));
+    return this.save();
+};
+
+// Move a cart line to the wishlist, keeping its quantity and variant
+// A line already saved for the same variant gets the cart quantity added to it
+userSchema.methods.moveToWishlist = function(productId, variantId = null) {
+    const cartItem = this.findCartItem(productId, variantId);
+    if (!cartItem) {
+        throw new Error('Item not found in cart');
+    }
+
+    this.cart = this.cart.filter(item => !isSameLine(item, productId, variantId));
+
+    const existingItem = this.findWishlistItem(productId, variantId);
+    if (existingItem) {
+        existingItem.quantity += cartItem.quantity;
+    } else {
+        this.wishlist.push({
+            product: productId,
+            variant: variantId,
+            quantity: cartItem.quantity
+        });
+    }
+
     return this.save();
 };
 
+// Move a wishlist line to the cart, keeping its quantity and variant (stock is checked by the caller)
+userSchema.methods.moveToCart = function(productId, variantId = null) {
+    const wishlistItem = this.findWishlistItem(productId, variantId);
+    if (!wishlistItem) {
+        throw new Error('Item not found in wishlist');
+    }
+
+    this.wishlist = this.wishlist.filter(item => !isSameLine(item, productId, variantId));
+    return this.addToCart(productId, wishlistItem.quantity, wishlistItem.variant);
+};
+
 // Get cart total (items count)
 userSchema.methods.getCartItemCount = function() {
     return this.cart.reduce((total, item) => total + item.quantity, 0);
 };
 
+// Address Book Methods
+userSchema.statics.MAX_ADDRESSES = MAX_ADDRESSES;
+
+// Make one address the default (no save)
+userSchema.methods.markDefaultAddress = function(addressId) {
+    this.addresses.forEach(entry => {
+        entry.isDefault = entry._id.toString() === addressId.toString();
+    });
+};
+
+// Add an address; the first one saved becomes the default
+userSchema.methods.addAddress = function({ label, isDefault = false, ...address }) {
+    this.addresses.push({ label, ...pickAddress(address) });
+    const added = this.addresses[this.addresses.length - 1];
+
+    if (isDefault || this.addresses.length === 1) {
+        this.markDefaultAddress(added._id);
+    }
+
+    return this.save();
+};
+
+// Replace an address's label and fields; isDefault: true also makes it the default
+userSchema.methods.updateAddress = function(addressId, { label, isDefault = false, ...address }) {
+    const entry = this.addresses.id(addressId);
+    if (!entry) {
+        throw new Error('Address not found');
+    }
+
+    entry.set({ label, ...pickAddress(address) });
+    if (isDefault) {
+        this.markDefaultAddress(addressId);
+    }
+
+    return this.save();
+};
+
+// Remove an address; if it was the default, the oldest remaining one takes over
+userSchema.methods.removeAddress = function(addressId) {
+    const entry = this.addresses.id(addressId);
+    if (!entry) {
+        throw new Error('Address not found');
+    }
+
+    const wasDefault = entry.isDefault;
+    this.addresses.pull(addressId);
+
+    if (wasDefault && this.addresses.length > 0) {
+        this.markDefaultAddress(this.addresses[0]._id);
+    }
+
+    return this.save();
+};
+
+// Set the default address
+userSchema.methods.setDefaultAddress = function(addressId) {
+    if (!this.addresses.id(addressId)) {
+        throw new Error('Address not found');
+    }
+
+    this.markDefaultAddress(addressId);
+    return this.save();
+};
+
+// Save an address used at checkout unless the same one is already in the book (or the book is full)
+userSchema.methods.saveAddress = function(data) {
+    const isSaved = this.addresses.some(entry =>
+        ADDRESS_FIELDS.every(field => String(entry[field]).trim().toLowerCase() === String(data[field]).trim().toLowerCase())
+    );
+
+    if (isSaved || this.addresses.length >= MAX_ADDRESSES) {
+        return Promise.resolve(this);
+    }
+
+    return this.addAddress(data);
+};
+
 module.exports = mongoose.model('User', userSchema);
 
 
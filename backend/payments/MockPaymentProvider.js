@@ -0,0 +1,152 @@
+const crypto = require('crypto');
+const { PaymentProvider, PaymentError } = require('./PaymentProvider');
+
+// Test payment methods; anything else is rejected like an unknown card token
+const TEST_PAYMENT_METHODS = {
+    pm_card_visa: {
+        label: 'Visa ending 4242 (succeeds)',
+        failureReason: null
+    },
+    pm_card_declined: {
+        label: 'Visa ending 0002 (declined)',
+        failureReason: 'Your card was declined'
+    },
+    pm_card_insufficient_funds: {
+        label: 'Visa ending 9995 (insufficient funds)',
+        failureReason: 'Your card has insufficient funds'
+    }
+};
+
+// Webhooks older than this are rejected to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const randomId = (prefix) => `${prefix}_mock_${crypto.randomBytes(12).toString('hex')}`;
+
+// Local provider for development: charges are decided by the test payment method and
+// webhooks are signed with HMAC-SHA256 using PAYMENT_WEBHOOK_SECRET.
+// Intents live in memory, so they don't survive a restart; orders keep their own
+// payment totals, which is what guards against refunding more than was paid.
+class MockPaymentProvider extends PaymentProvider {
+    constructor({ webhookSecret }) {
+        super('mock');
+        this.webhookSecret = webhookSecret;
+        this.intents = new Map();
+    }
+
+    async createIntent({ amount, currency = 'usd', metadata = {} }) {
+        const id = randomId('pi');
+        const intent = {
+            id,
+            status: 'requires_confirmation',
+            amount,
+            currency,
+            metadata,
+            clientSecret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+            failureReason: null,
+            refundedAmount: 0
+        };
+
+        this.intents.set(id, intent);
+        return { ...intent };
+    }
+
+    async confirmIntent(intentId, { paymentMethod }) {
+        const intent = this.intents.get(intentId);
+        if (!intent) {
+            throw new PaymentError('Payment intent not found', 'intent_not_found');
+        }
+
+        if (intent.status !== 'requires_confirmation') {
+            throw new PaymentError(`Payment intent has already ${intent.status}`, 'intent_unexpected_state');
+        }
+
+        const method = TEST_PAYMENT_METHODS[paymentMethod];
+        if (!method) {
+            throw new PaymentError('Unknown payment method', 'invalid_payment_method');
+        }
+
+        intent.status = method.failureReason ? 'failed' : 'succeeded';
+        intent.failureReason = method.failureReason;
+
+        return { ...intent };
+    }
+
+    async refund(intentId, amount) {
+        const intent = this.intents.get(intentId);
+
+        if (intent) {
+            if (intent.status !== 'succeeded') {
+                throw new PaymentError('Only succeeded payments can be refunded', 'intent_unexpected_state');
+            }
+            if (intent.refundedAmount + amount > intent.amount + 0.001) {
+                throw new PaymentError('Refund exceeds the amount paid', 'refund_exceeds_payment');
+            }
+            intent.refundedAmount += amount;
+        }
+
+        return {
+            id: randomId('re'),
+            intentId,
+            amount,
+            status: 'succeeded'
+        };
+    }
+
+    // Signature header format: t=<unix seconds>,v1=<hex hmac of "t.body">
+    verifyWebhook(rawBody, signature) {
+        if (!this.webhookSecret) {
+            throw new PaymentError('Webhook secret is not configured', 'webhook_not_configured');
+        }
+
+        if (!Buffer.isBuffer(rawBody)) {
+            throw new PaymentError('Webhook body must be sent as application/json', 'invalid_payload');
+        }
+
+        const parts = Object.fromEntries(
+            String(signature || '').split(',').map(part => part.trim().split('='))
+        );
+        const timestamp = parseInt(parts.t, 10);
+
+        if (!timestamp || !parts.v1) {
+            throw new PaymentError('Missing webhook signature', 'invalid_signature');
+        }
+
+        if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+            throw new PaymentError('Webhook signature has expired', 'invalid_signature');
+        }
+
+        const expected = Buffer.from(this.computeSignature(timestamp, rawBody), 'hex');
+        const received = Buffer.from(parts.v1, 'hex');
+
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            throw new PaymentError('Invalid webhook signature', 'invalid_signature');
+        }
+
+        try {
+            return JSON.parse(rawBody.toString('utf8'));
+        } catch {
+            throw new PaymentError('Webhook body is not valid JSON', 'invalid_payload');
+        }
+    }
+
+    // Build the signature header for an event body, for sending test webhooks locally
+    signWebhook(rawBody, timestamp = Math.floor(Date.now() / 1000)) {
+        return `t=${timestamp},v1=${this.computeSignature(timestamp, rawBody)}`;
+    }
+
+    computeSignature(timestamp, rawBody) {
+        return crypto
+            .createHmac('sha256', this.webhookSecret)
+            .update(`${timestamp}.${rawBody.toString('utf8')}`)
+            .digest('hex');
+    }
+
+    getPaymentMethods() {
+        return Object.entries(TEST_PAYMENT_METHODS).map(([id, method]) => ({
+            id,
+            label: method.label
+        }));
+    }
+}
+
+module.exports = MockPaymentProvider;
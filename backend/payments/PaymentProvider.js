@@ -0,0 +1,49 @@
+// Error raised by payment providers for declined cards, unknown intents and bad webhooks
+class PaymentError extends Error {
+    constructor(message, code = 'payment_error') {
+        super(message);
+        this.name = 'PaymentError';
+        this.code = code;
+    }
+}
+
+// Interface every payment provider implements
+// Amounts are in the store currency's major unit (e.g. 12.50), matching Order.totalAmount.
+// Intent and refund results are plain objects:
+//   intent: { id, status: 'requires_confirmation' | 'succeeded' | 'failed', amount, currency, clientSecret, failureReason }
+//   refund: { id, intentId, amount, status: 'succeeded' | 'failed' }
+// Webhook events are normalised to { id, type, data: { intentId, refundId, amount, failureReason } } where type is
+// 'payment_intent.succeeded', 'payment_intent.payment_failed' or 'charge.refunded'.
+class PaymentProvider {
+    constructor(name) {
+        this.name = name;
+    }
+
+    // Start a payment for an order
+    async createIntent({ amount, currency, metadata }) {
+        throw new Error(`${this.name} provider does not implement createIntent`);
+    }
+
+    // Charge the payment method against an intent
+    async confirmIntent(intentId, { paymentMethod }) {
+        throw new Error(`${this.name} provider does not implement confirmIntent`);
+    }
+
+    // Refund all or part of a succeeded intent
+    async refund(intentId, amount) {
+        throw new Error(`${this.name} provider does not implement refund`);
+    }
+
+    // Check a webhook signature against the raw request body and return the parsed event
+    // Throws a PaymentError when the signature is missing or invalid
+    verifyWebhook(rawBody, signature) {
+        throw new Error(`${this.name} provider does not implement verifyWebhook`);
+    }
+
+    // Payment methods the storefront can offer (test cards for sandbox providers)
+    getPaymentMethods() {
+        return [];
+    }
+}
+
+module.exports = { PaymentProvider, PaymentError };
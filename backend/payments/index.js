@@ -0,0 +1,27 @@
+const { PaymentProvider, PaymentError } = require('./PaymentProvider');
+const MockPaymentProvider = require('./MockPaymentProvider');
+
+// Providers selectable through PAYMENT_PROVIDER
+const providers = {
+    mock: () => new MockPaymentProvider({ webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET })
+};
+
+let provider = null;
+
+// Get the configured payment provider (one instance per process)
+const getPaymentProvider = () => {
+    if (!provider) {
+        const name = process.env.PAYMENT_PROVIDER || 'mock';
+        const create = providers[name];
+
+        if (!create) {
+            throw new Error(`Unknown payment provider: ${name}`);
+        }
+
+        provider = create();
+    }
+
+    return provider;
+};
+
+module.exports = { getPaymentProvider, PaymentProvider, PaymentError };
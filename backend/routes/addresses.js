@@ -0,0 +1,215 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const User = require('../models/User');
+const { authenticateToken } = require('../middleware/auth');
+const { addressValidation } = require('../utils/addressValidation');
+
+const router = express.Router();
+
+// Address book entries reuse the checkout address rules, plus a label and default flag
+const addressBookValidation = [
+    body('label')
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Label must be between 1 and 30 characters'),
+    ...addressValidation(),
+    body('isDefault')
+        .optional()
+        .isBoolean()
+        .withMessage('isDefault must be true or false')
+        .toBoolean()
+];
+
+// Load the signed-in user and the requested address, or send a 404
+const findAddress = async (req, res) => {
+    const user = await User.findById(req.user._id);
+    const address = user && user.addresses.id(req.params.addressId);
+
+    if (!address) {
+        res.status(404).json({
+            success: false,
+            message: 'Address not found'
+        });
+        return null;
+    }
+
+    return user;
+};
+
+// @route   GET /api/addresses
+// @desc    Get user's saved addresses
+// @access  Private
+router.get('/', authenticateToken, async (req, res) => {
+    try {
+        const { addresses } = req.user;
+
+        res.status(200).json({
+            success: true,
+            count: addresses.length,
+            data: { addresses }
+        });
+
+    } catch (error) {
+        console.error('Get addresses error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching addresses'
+        });
+    }
+});
+
+// @route   POST /api/addresses
+// @desc    Add an address to the address book
+// @access  Private
+router.post('/', [
+    authenticateToken,
+    ...addressBookValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const user = await User.findById(req.user._id);
+
+        if (user.addresses.length >= User.MAX_ADDRESSES) {
+            return res.status(400).json({
+                success: false,
+                message: `You can save up to ${User.MAX_ADDRESSES} addresses. Remove one to add another`
+            });
+        }
+
+        await user.addAddress(req.body);
+
+        res.status(201).json({
+            success: true,
+            message: 'Address saved',
+            count: user.addresses.length,
+            data: { addresses: user.addresses }
+        });
+
+    } catch (error) {
+        console.error('Add address error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while saving address'
+        });
+    }
+});
+
+// @route   PUT /api/addresses/:addressId
+// @desc    Update a saved address
+// @access  Private
+router.put('/:addressId', [
+    authenticateToken,
+    ...addressBookValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const user = await findAddress(req, res);
+        if (!user) return;
+
+        await user.updateAddress(req.params.addressId, req.body);
+
+        res.status(200).json({
+            success: true,
+            message: 'Address updated',
+            count: user.addresses.length,
+            data: { addresses: user.addresses }
+        });
+
+    } catch (error) {
+        console.error('Update address error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid address ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating address'
+        });
+    }
+});
+
+// @route   PUT /api/addresses/:addressId/default
+// @desc    Make a saved address the default
+// @access  Private
+router.put('/:addressId/default', authenticateToken, async (req, res) => {
+    try {
+        const user = await findAddress(req, res);
+        if (!user) return;
+
+        await user.setDefaultAddress(req.params.addressId);
+
+        res.status(200).json({
+            success: true,
+            message: 'Default address updated',
+            count: user.addresses.length,
+            data: { addresses: user.addresses }
+        });
+
+    } catch (error) {
+        console.error('Set default address error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid address ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating default address'
+        });
+    }
+});
+
+// @route   DELETE /api/addresses/:addressId
+// @desc    Remove a saved address
+// @access  Private
+router.delete('/:addressId', authenticateToken, async (req, res) => {
+    try {
+        const user = await findAddress(req, res);
+        if (!user) return;
+
+        await user.removeAddress(req.params.addressId);
+
+        res.status(200).json({
+            success: true,
+            message: 'Address removed',
+            count: user.addresses.length,
+            data: { addresses: user.addresses }
+        });
+
+    } catch (error) {
+        console.error('Remove address error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid address ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while removing address'
+        });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,278 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const Order = require('../models/Order');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Range used when ?from= is left out
+const DEFAULT_RANGE_DAYS = 30;
+
+// Longest range a daily revenue series may cover
+const MAX_DAILY_SERIES_DAYS = 366;
+
+// Turn ?from= and ?to= (YYYY-MM-DD, UTC, both inclusive) into { from, to } with to exclusive
+// Defaults to the last 30 days up to and including today.
+const parseRange = ({ from, to }) => {
+    const end = to ? new Date(`${to}T00:00:00.000Z`) : new Date(new Date().toISOString().slice(0, 10));
+    end.setTime(end.getTime() + DAY_MS);
+
+    const start = from ? new Date(`${from}T00:00:00.000Z`) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    return { from: start, to: end };
+};
+
+// Days covered by a parsed range
+const rangeDays = (range) => Math.round((range.to - range.from) / DAY_MS);
+
+// Revenue is grouped by day for short ranges, then by week, then by month
+const defaultInterval = (range) => {
+    const days = rangeDays(range);
+    return days <= 92 ? 'day' : days <= MAX_DAILY_SERIES_DAYS ? 'week' : 'month';
+};
+
+const rangeValidation = [
+    query(['from', 'to'])
+        .optional()
+        .matches(/^\d{4}-\d{2}-\d{2}$/)
+        .withMessage('Dates must be in YYYY-MM-DD format')
+        .bail()
+        .isISO8601({ strict: true })
+        .withMessage('Invalid date'),
+    query('to')
+        .optional()
+        .custom((to, { req }) => !req.query.from || to >= req.query.from)
+        .withMessage('The end date cannot be before the start date')
+];
+
+const limitValidation = query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50');
+
+// The range as sent back to the client, with to inclusive again
+const describeRange = (range) => ({
+    from: range.from.toISOString().slice(0, 10),
+    to: new Date(range.to.getTime() - DAY_MS).toISOString().slice(0, 10)
+});
+
+// @route   GET /api/analytics/summary
+// @desc    Sales totals, average order value and new vs returning customers for a date range
+// @access  Private + analytics:read
+router.get('/summary', [
+    authenticateToken,
+    requirePermission('analytics:read'),
+    ...rangeValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const range = parseRange(req.query);
+        const [summary, customers] = await Promise.all([
+            Order.getSalesSummary(range),
+            Order.getCustomerBreakdown(range)
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                range: describeRange(range),
+                ...summary,
+                customers
+            }
+        });
+
+    } catch (error) {
+        console.error('Get sales summary error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching sales summary'
+        });
+    }
+});
+
+// @route   GET /api/analytics/revenue
+// @desc    Net revenue and orders over time (?interval=day, week or month; chosen from the range if left out)
+// @access  Private + analytics:read
+router.get('/revenue', [
+    authenticateToken,
+    requirePermission('analytics:read'),
+    ...rangeValidation,
+    query('interval')
+        .optional()
+        .isIn(Order.ANALYTICS_INTERVALS)
+        .withMessage(`Interval must be one of ${Order.ANALYTICS_INTERVALS.join(', ')}`)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const range = parseRange(req.query);
+        const interval = req.query.interval || defaultInterval(range);
+
+        if (interval === 'day' && rangeDays(range) > MAX_DAILY_SERIES_DAYS) {
+            return res.status(400).json({
+                success: false,
+                message: `Daily revenue covers at most ${MAX_DAILY_SERIES_DAYS} days; choose a weekly or monthly interval`
+            });
+        }
+
+        const series = await Order.getRevenueSeries(range, interval);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                range: describeRange(range),
+                interval,
+                series
+            }
+        });
+
+    } catch (error) {
+        console.error('Get revenue series error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching revenue'
+        });
+    }
+});
+
+// @route   GET /api/analytics/orders-by-status
+// @desc    Orders placed in a date range grouped by status, including unpaid and cancelled ones
+// @access  Private + analytics:read
+router.get('/orders-by-status', [
+    authenticateToken,
+    requirePermission('analytics:read'),
+    ...rangeValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const range = parseRange(req.query);
+        const statuses = await Order.getStatusBreakdown(range);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                range: describeRange(range),
+                statuses
+            }
+        });
+
+    } catch (error) {
+        console.error('Get orders by status error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching orders by status'
+        });
+    }
+});
+
+// @route   GET /api/analytics/top-products
+// @desc    Best-selling products in a date range by revenue (?limit=, default 10)
+// @access  Private + analytics:read
+router.get('/top-products', [
+    authenticateToken,
+    requirePermission('analytics:read'),
+    ...rangeValidation,
+    limitValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const range = parseRange(req.query);
+        const limit = parseInt(req.query.limit) || 10;
+        const products = await Order.getTopProducts(range, limit);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                range: describeRange(range),
+                products
+            }
+        });
+
+    } catch (error) {
+        console.error('Get top products error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching top products'
+        });
+    }
+});
+
+// @route   GET /api/analytics/top-categories
+// @desc    Best-selling categories in a date range by revenue (?limit=, default 10)
+// @access  Private + analytics:read
+router.get('/top-categories', [
+    authenticateToken,
+    requirePermission('analytics:read'),
+    ...rangeValidation,
+    limitValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const range = parseRange(req.query);
+        const limit = parseInt(req.query.limit) || 10;
+        const categories = await Order.getTopCategories(range, limit);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                range: describeRange(range),
+                categories
+            }
+        });
+
+    } catch (error) {
+        console.error('Get top categories error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching top categories'
+        });
+    }
+});
+
+module.exports = router;
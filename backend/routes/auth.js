@@ -1,12 +1,30 @@
+const crypto = require('crypto');
 const express = require('express');
 const bcrypt = require('bcryptjs');
-const jwt = require('jsonwebtoken');
 const { body, validationResult } = require('express-validator');
 const User = require('../models/User');
-const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const RefreshToken = require('../models/RefreshToken');
+const { authenticateToken } = require('../middleware/auth');
+const { imageUpload } = require('../middleware/upload');
+const { getStorage } = require('../storage');
+const { signAccessToken, getClientInfo, startSession, signAccountToken, verifyAccountToken } = require('../utils/tokens');
+const { sendMail, frontendUrl, templates } = require('../mailer');
 
 const router = express.Router();
 
+// Password strength rules shared by registration and password reset
+const passwordValidation = (field = 'password') => body(field)
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number');
+
+// Email a verification link to the user's current address
+const sendVerificationEmail = (user) => {
+    const link = frontendUrl('/verify-email', { token: signAccountToken(user, 'verify_email') });
+    return sendMail({ to: user.email, ...templates.verificationEmail({ user, link }) });
+};
+
 // @route   POST /api/auth/register
 // @desc    Register a new user
 // @access  Public
@@ -23,11 +41,7 @@ router.post('/register', [
         .withMessage('Please enter a valid email')
         .normalizeEmail(),
     
-    body('password')
-        .isLength({ min: 6 })
-        .withMessage('Password must be at least 6 characters')
-        .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-        .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+    passwordValidation(),
     
     body('firstName')
         .isLength({ min: 2, max: 50 })
@@ -83,30 +97,23 @@ router.post('/register', [
         // Save user to database
         await user.save();
 
-        // Check JWT environment variables
-        if (!process.env.JWT_SECRET) {
-            throw new Error('JWT_SECRET environment variable is not set');
-        }
-        if (!process.env.JWT_EXPIRE) {
-            throw new Error('JWT_EXPIRE environment variable is not set');
-        }
+        // Start a session: short-lived access token plus refresh token
+        const { token, refreshToken } = await startSession(user, req);
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { 
-                userId: user._id,
-                email: user.email 
-            },
-            process.env.JWT_SECRET,
-            { expiresIn: process.env.JWT_EXPIRE }
-        );
+        // The account works without it, so a mail failure shouldn't fail registration
+        try {
+            await sendVerificationEmail(user);
+        } catch (error) {
+            console.error('Send verification email error:', error);
+        }
 
         // Send response (without password)
         res.status(201).json({
             success: true,
             message: 'User registered successfully',
             user: user.getPublicProfile(),
-            token
+            token,
+            refreshToken
         });
 
     } catch (error) {
@@ -181,22 +188,24 @@ router.post('/login', [
             });
         }
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { 
-                userId: user._id,
-                email: user.email 
-            },
-            process.env.JWT_SECRET,
-            { expiresIn: process.env.JWT_EXPIRE }
-        );
+        // An admin required a new password; only the emailed reset link gets the user back in
+        if (user.passwordResetRequired) {
+            return res.status(403).json({
+                success: false,
+                message: 'A password reset is required. Use the link we emailed you, or request a new one with "Forgot password"'
+            });
+        }
+
+        // Start a session: short-lived access token plus refresh token
+        const { token, refreshToken } = await startSession(user, req);
 
         // Send response
         res.status(200).json({
             success: true,
             message: 'Login successful',
             user: user.getPublicProfile(),
-            token
+            token,
+            refreshToken
         });
 
     } catch (error) {
@@ -208,16 +217,289 @@ router.post('/login', [
     }
 });
 
-// @route   POST /api/auth/logout
-// @desc    Logout user (client-side token removal)
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link
 // @access  Public
-router.post('/logout', (req, res) => {
-    // Note: With JWT, logout is typically handled on the client side
-    // by removing the token from storage
-    res.status(200).json({
-        success: true,
-        message: 'Logout successful'
-    });
+router.post('/forgot-password', [
+    body('email')
+        .isEmail()
+        .withMessage('Please enter a valid email')
+        .normalizeEmail()
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const user = await User.findOne({ email: req.body.email }).select('+password');
+
+        if (user && user.isActive) {
+            const link = frontendUrl('/reset-password', { token: signAccountToken(user, 'reset_password') });
+            await sendMail({ to: user.email, ...templates.passwordResetEmail({ user, link }) });
+        }
+
+        // Same answer whether or not the account exists, so emails can't be probed
+        res.status(200).json({
+            success: true,
+            message: 'If an account exists for that email, a reset link has been sent'
+        });
+
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while sending reset link'
+        });
+    }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password using a reset token
+// @access  Public (reset token required)
+router.post('/reset-password', [
+    body('token')
+        .isString()
+        .notEmpty()
+        .withMessage('Reset token is required'),
+    passwordValidation()
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { user, error } = await verifyAccountToken(req.body.token, 'reset_password');
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                message: error
+            });
+        }
+
+        // Changing the password also invalidates the reset link
+        user.password = req.body.password;
+        user.passwordResetRequired = false;
+        await user.save();
+
+        // Whoever knew the old password shouldn't stay logged in
+        await RefreshToken.revokeAllForUser(user._id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Password has been reset. Please log in with your new password'
+        });
+
+    } catch (error) {
+        console.error('Reset password error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while resetting password'
+        });
+    }
+});
+
+// @route   POST /api/auth/verify-email
+// @desc    Verify the user's email address using a verification token
+// @access  Public (verification token required)
+router.post('/verify-email', [
+    body('token')
+        .isString()
+        .notEmpty()
+        .withMessage('Verification token is required')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { user, error } = await verifyAccountToken(req.body.token, 'verify_email');
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                message: error
+            });
+        }
+
+        if (!user.isEmailVerified) {
+            user.isEmailVerified = true;
+            user.emailVerifiedAt = new Date();
+            await user.save();
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Email verified successfully',
+            user: user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Verify email error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while verifying email'
+        });
+    }
+});
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send the email verification link again
+// @access  Private
+router.post('/resend-verification', authenticateToken, async (req, res) => {
+    try {
+        if (req.user.isEmailVerified) {
+            return res.status(400).json({
+                success: false,
+                message: 'Email is already verified'
+            });
+        }
+
+        await sendVerificationEmail(req.user);
+
+        res.status(200).json({
+            success: true,
+            message: `Verification email sent to ${req.user.email}`
+        });
+
+    } catch (error) {
+        console.error('Resend verification error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while sending verification email'
+        });
+    }
+});
+
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new access token and refresh token
+// @access  Public (refresh token required)
+router.post('/refresh', [
+    body('refreshToken')
+        .isString()
+        .notEmpty()
+        .withMessage('Refresh token is required')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const result = await RefreshToken.rotate(req.body.refreshToken, getClientInfo(req));
+        if (result.error) {
+            return res.status(401).json({
+                success: false,
+                message: result.error
+            });
+        }
+
+        // The account may have been deactivated since the session started
+        const user = await User.findById(result.doc.user);
+        if (!user || !user.isActive) {
+            await RefreshToken.revokeFamily(result.doc.family);
+            return res.status(401).json({
+                success: false,
+                message: 'Account is deactivated. Please contact support.'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Token refreshed',
+            token: signAccessToken(user, result.doc.family),
+            refreshToken: result.token
+        });
+
+    } catch (error) {
+        console.error('Refresh token error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while refreshing token'
+        });
+    }
+});
+
+// @route   POST /api/auth/logout
+// @desc    Logout user by revoking the session of the given refresh token
+// @access  Public (refresh token required)
+router.post('/logout', [
+    body('refreshToken')
+        .isString()
+        .notEmpty()
+        .withMessage('Refresh token is required')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        // Unknown tokens are fine: the client is logged out either way
+        await RefreshToken.revokeByToken(req.body.refreshToken);
+
+        res.status(200).json({
+            success: true,
+            message: 'Logout successful'
+        });
+
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error during logout'
+        });
+    }
+});
+
+// @route   POST /api/auth/logout-all
+// @desc    Logout user from every device by revoking all of their sessions
+// @access  Private
+router.post('/logout-all', authenticateToken, async (req, res) => {
+    try {
+        const result = await RefreshToken.revokeAllForUser(req.user._id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Logged out of all devices',
+            data: {
+                revokedTokens: result.modifiedCount
+            }
+        });
+
+    } catch (error) {
+        console.error('Logout all error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error during logout'
+        });
+    }
 });
 
 // @route   GET /api/auth/me
@@ -320,45 +602,256 @@ router.put('/me', [
     }
 });
 
-// @route   GET /api/auth/admin/users
-// @desc    Get all users (Admin only)
-// @access  Private + Admin
-router.get('/admin/users', authenticateToken, requireAdmin, async (req, res) => {
+// Confirms the user's current password before a sensitive account change
+const currentPasswordValidation = body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required');
+
+// Load the user with their password and check it; returns the user or null on a mismatch
+const checkCurrentPassword = async (userId, currentPassword) => {
+    const user = await User.findById(userId).select('+password');
+    return user && (await user.comparePassword(currentPassword)) ? user : null;
+};
+
+// @route   PUT /api/auth/me/password
+// @desc    Change password (requires the current password)
+// @access  Private
+router.put('/me/password', [
+    authenticateToken,
+    currentPasswordValidation,
+    passwordValidation('newPassword')
+], async (req, res) => {
     try {
-        // Get all users with pagination
-        const page = parseInt(req.query.page) || 1;
-        const limit = parseInt(req.query.limit) || 10;
-        const skip = (page - 1) * limit;
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { currentPassword, newPassword } = req.body;
+
+        const user = await checkCurrentPassword(req.user._id, currentPassword);
+        if (!user) {
+            return res.status(400).json({
+                success: false,
+                message: 'Current password is incorrect'
+            });
+        }
 
-        const users = await User.find({})
-            .select('-password')
-            .skip(skip)
-            .limit(limit)
-            .sort({ createdAt: -1 });
+        if (await user.comparePassword(newPassword)) {
+            return res.status(400).json({
+                success: false,
+                message: 'New password must be different from the current password'
+            });
+        }
 
-        const totalUsers = await User.countDocuments();
-        const totalPages = Math.ceil(totalUsers / limit);
+        user.password = newPassword;
+        await user.save();
+
+        // Sign out other devices; this one stays logged in
+        await RefreshToken.revokeAllForUser(user._id, { exceptFamily: req.sessionId });
 
         res.status(200).json({
             success: true,
-            message: 'Users retrieved successfully',
-            data: {
-                users,
-                pagination: {
-                    currentPage: page,
-                    totalPages,
-                    totalUsers,
-                    hasNextPage: page < totalPages,
-                    hasPrevPage: page > 1
-                }
-            }
+            message: 'Password changed. Other devices have been logged out'
+        });
+
+    } catch (error) {
+        console.error('Change password error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while changing password'
+        });
+    }
+});
+
+// @route   PUT /api/auth/me/email
+// @desc    Change email address (requires the current password and re-verification)
+// @access  Private
+router.put('/me/email', [
+    authenticateToken,
+    body('email')
+        .isEmail()
+        .withMessage('Please enter a valid email')
+        .normalizeEmail(),
+    currentPasswordValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { email, currentPassword } = req.body;
+
+        const user = await checkCurrentPassword(req.user._id, currentPassword);
+        if (!user) {
+            return res.status(400).json({
+                success: false,
+                message: 'Current password is incorrect'
+            });
+        }
+
+        if (email === user.email) {
+            return res.status(400).json({
+                success: false,
+                message: 'This is already your email address'
+            });
+        }
+
+        const existingUser = await User.findOne({ email });
+        if (existingUser) {
+            return res.status(400).json({
+                success: false,
+                message: 'Email is already registered'
+            });
+        }
+
+        // The new address must be verified again (this also invalidates links sent to the old one)
+        user.email = email;
+        user.isEmailVerified = false;
+        user.emailVerifiedAt = null;
+        await user.save();
+
+        // The change is saved either way, and the link can be resent from the profile
+        try {
+            await sendVerificationEmail(user);
+        } catch (error) {
+            console.error('Send verification email error:', error);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: `Email updated. We sent a verification link to ${email}`,
+            user: user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Change email error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while changing email'
+        });
+    }
+});
+
+// @route   PUT /api/auth/me/avatar
+// @desc    Upload a new profile picture (multipart field "avatar")
+// @access  Private
+router.put('/me/avatar', authenticateToken, imageUpload('avatar'), async (req, res) => {
+    try {
+        const storage = getStorage();
+        const previousKey = storage.keyFromUrl(req.user.avatar);
+
+        const key = await storage.save(
+            `avatars/${req.user._id}-${crypto.randomBytes(6).toString('hex')}.${req.file.extension}`,
+            req.file.buffer,
+            { contentType: req.file.mimetype }
+        );
+
+        req.user.avatar = storage.url(key);
+        await req.user.save();
+
+        // Clean up the replaced picture once the new one is in place
+        if (previousKey) {
+            await storage.remove(previousKey).catch(error => console.error('Remove avatar error:', error));
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Profile picture updated',
+            user: req.user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Upload avatar error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while uploading profile picture'
+        });
+    }
+});
+
+// @route   DELETE /api/auth/me/avatar
+// @desc    Remove the profile picture
+// @access  Private
+router.delete('/me/avatar', authenticateToken, async (req, res) => {
+    try {
+        const storage = getStorage();
+        const previousKey = storage.keyFromUrl(req.user.avatar);
+
+        req.user.avatar = null;
+        await req.user.save();
+
+        if (previousKey) {
+            await storage.remove(previousKey).catch(error => console.error('Remove avatar error:', error));
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Profile picture removed',
+            user: req.user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Remove avatar error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while removing profile picture'
+        });
+    }
+});
+
+// @route   POST /api/auth/me/deactivate
+// @desc    Deactivate own account (requires the current password) and log out everywhere
+// @access  Private
+router.post('/me/deactivate', [
+    authenticateToken,
+    currentPasswordValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const user = await checkCurrentPassword(req.user._id, req.body.currentPassword);
+        if (!user) {
+            return res.status(400).json({
+                success: false,
+                message: 'Current password is incorrect'
+            });
+        }
+
+        user.isActive = false;
+        await user.save();
+
+        await RefreshToken.revokeAllForUser(user._id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Your account has been deactivated'
         });
 
     } catch (error) {
-        console.error('Get users error:', error);
+        console.error('Deactivate account error:', error);
         res.status(500).json({
             success: false,
-            message: 'Server error while fetching users'
+            message: 'Server error while deactivating account'
         });
     }
 });
@@ -1,19 +1,24 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const User = require('../models/User');
 const Product = require('../models/Product');
+const Coupon = require('../models/Coupon');
 const { authenticateToken } = require('../middleware/auth');
 
 const router = express.Router();
 
+// Variant of a product with options; omitted (or null) for products without options
+const variantValidation = (location) => location('variant')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Please provide a valid variant ID');
+
 // @route   GET /api/cart
 // @desc    Get user's cart
 // @access  Private
 router.get('/', authenticateToken, async (req, res) => {
     try {
-        // Get user with populated cart
-        const user = await User.findById(req.user._id)
-            .populate('cart.product', 'name description price image isActive quantity');
+        const user = await User.findById(req.user._id);
 
         if (!user) {
             return res.status(404).json({
@@ -22,47 +27,86 @@ router.get('/', authenticateToken, async (req, res) => {
             });
         }
 
-        // Filter out inactive products from cart
-        const activeCartItems = user.cart.filter(item => item.product && item.product.isActive);
+        // Products deactivated after being added are returned separately
+        const cart = await user.getCartSummary();
 
-        // Calculate cart totals
-        let totalItems = 0;
-        let totalPrice = 0;
+        res.status(200).json({
+            success: true,
+            data: cart
+        });
 
-        activeCartItems.forEach(item => {
-            totalItems += item.quantity;
-            totalPrice += item.product.price * item.quantity;
+    } catch (error) {
+        console.error('Get cart error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching cart'
         });
+    }
+});
+
+// @route   GET /api/cart/estimate
+// @desc    Get user's cart priced for a destination (shipping and tax estimate)
+// @access  Private
+router.get('/estimate', [
+    authenticateToken,
+    query('country')
+        .isString()
+        .trim()
+        .isLength({ min: 2, max: 50 })
+        .withMessage('Country must be between 2 and 50 characters'),
+    query('postalCode')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 10 })
+        .withMessage('Postal code cannot exceed 10 characters')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const user = await User.findById(req.user._id);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        const { country, postalCode = '' } = req.query;
+        const cart = await user.getCartSummary({ country, postalCode });
 
         res.status(200).json({
             success: true,
-            data: {
-                items: activeCartItems,
-                summary: {
-                    totalItems,
-                    totalPrice: parseFloat(totalPrice.toFixed(2))
-                }
-            }
+            data: cart
         });
 
     } catch (error) {
-        console.error('Get cart error:', error);
+        console.error('Estimate cart error:', error);
         res.status(500).json({
             success: false,
-            message: 'Server error while fetching cart'
+            message: 'Server error while estimating shipping and tax'
         });
     }
 });
 
 // @route   POST /api/cart/add/:productId
-// @desc    Add item to cart
+// @desc    Add item (a variant for products with options) to cart
 // @access  Private
 router.post('/add/:productId', [
     authenticateToken,
     body('quantity')
         .optional()
         .isInt({ min: 1 })
-        .withMessage('Quantity must be a positive integer')
+        .withMessage('Quantity must be a positive integer'),
+    variantValidation(body)
 ], async (req, res) => {
     try {
         // Check for validation errors
@@ -76,7 +120,7 @@ router.post('/add/:productId', [
         }
 
         const { productId } = req.params;
-        const { quantity = 1 } = req.body;
+        const { quantity = 1, variant = null } = req.body;
 
         // Check if product exists and is active
         const product = await Product.findById(productId);
@@ -87,35 +131,45 @@ router.post('/add/:productId', [
             });
         }
 
+        // Products with options are bought as one of their variants
+        const line = product.resolveVariant(variant);
+        if (line.error) {
+            return res.status(400).json({
+                success: false,
+                message: line.error
+            });
+        }
+
         // Check if enough stock is available
-        if (product.quantity < quantity) {
+        if (line.quantity < quantity) {
             return res.status(400).json({
                 success: false,
-                message: `Only ${product.quantity} items available in stock`
+                message: `Only ${line.quantity} items available in stock`
             });
         }
 
         // Get user and check current cart quantity
         const user = await User.findById(req.user._id);
-        const existingItem = user.cart.find(item => item.product.toString() === productId);
+        const existingItem = user.findCartItem(productId, variant);
         const currentQuantity = existingItem ? existingItem.quantity : 0;
 
         // Check if total quantity (current + new) exceeds stock
-        if (currentQuantity + quantity > product.quantity) {
+        if (currentQuantity + quantity > line.quantity) {
             return res.status(400).json({
                 success: false,
-                message: `Cannot add ${quantity} items. Only ${product.quantity - currentQuantity} more available`
+                message: `Cannot add ${quantity} items. Only ${line.quantity - currentQuantity} more available`
             });
         }
 
         // Add to cart
-        await user.addToCart(productId, quantity);
+        await user.addToCart(productId, quantity, variant);
 
         res.status(200).json({
             success: true,
-            message: `Added ${quantity} ${product.name}(s) to cart`,
+            message: `Added ${quantity} ${line.label}(s) to cart`,
             data: {
                 productId,
+                variantId: variant,
                 productName: product.name,
                 quantity,
                 totalInCart: currentQuantity + quantity
@@ -131,14 +185,77 @@ router.post('/add/:productId', [
     }
 });
 
+// @route   POST /api/cart/merge
+// @desc    Merge a guest (browser) cart into the user's cart
+// @access  Private
+router.post('/merge', [
+    authenticateToken,
+    body('items')
+        .isArray({ max: 100 })
+        .withMessage('Items must be an array of at most 100 lines'),
+    body('items.*.product')
+        .isMongoId()
+        .withMessage('Please provide a valid product ID'),
+    body('items.*.variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Please provide a valid variant ID'),
+    body('items.*.quantity')
+        .isInt({ min: 1 })
+        .withMessage('Quantity must be a positive integer')
+        .toInt()
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { items } = req.body;
+
+        const user = await User.findById(req.user._id);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        const products = await Product.find({ _id: { $in: items.map(item => item.product) } })
+            .select('name quantity isActive options variants');
+        const productsById = new Map(products.map(product => [product._id.toString(), product]));
+
+        const report = await user.mergeCart(items, productsById);
+
+        res.status(200).json({
+            success: true,
+            message: 'Guest cart merged',
+            data: report
+        });
+
+    } catch (error) {
+        console.error('Merge cart error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while merging cart'
+        });
+    }
+});
+
 // @route   PUT /api/cart/update/:productId
-// @desc    Update item quantity in cart
+// @desc    Update item quantity in cart (body.variant picks the line for products with options)
 // @access  Private
 router.put('/update/:productId', [
     authenticateToken,
     body('quantity')
         .isInt({ min: 1 })
-        .withMessage('Quantity must be a positive integer')
+        .withMessage('Quantity must be a positive integer'),
+    variantValidation(body)
 ], async (req, res) => {
     try {
         // Check for validation errors
@@ -152,7 +269,7 @@ router.put('/update/:productId', [
         }
 
         const { productId } = req.params;
-        const { quantity } = req.body;
+        const { quantity, variant = null } = req.body;
 
         // Check if product exists and is active
         const product = await Product.findById(productId);
@@ -163,23 +280,32 @@ router.put('/update/:productId', [
             });
         }
 
+        const line = product.resolveVariant(variant);
+        if (line.error) {
+            return res.status(400).json({
+                success: false,
+                message: line.error
+            });
+        }
+
         // Check if enough stock is available
-        if (product.quantity < quantity) {
+        if (line.quantity < quantity) {
             return res.status(400).json({
                 success: false,
-                message: `Only ${product.quantity} items available in stock`
+                message: `Only ${line.quantity} items available in stock`
             });
         }
 
         // Update cart quantity
         const user = await User.findById(req.user._id);
-        await user.updateCartQuantity(productId, quantity);
+        await user.updateCartQuantity(productId, quantity, variant);
 
         res.status(200).json({
             success: true,
-            message: `Updated ${product.name} quantity to ${quantity}`,
+            message: `Updated ${line.label} quantity to ${quantity}`,
             data: {
                 productId,
+                variantId: variant,
                 productName: product.name,
                 newQuantity: quantity
             }
@@ -202,15 +328,29 @@ router.put('/update/:productId', [
 });
 
 // @route   DELETE /api/cart/remove/:productId
-// @desc    Remove item from cart
+// @desc    Remove item from cart (?variant= picks the line for products with options)
 // @access  Private
-router.delete('/remove/:productId', authenticateToken, async (req, res) => {
+router.delete('/remove/:productId', [
+    authenticateToken,
+    variantValidation(query)
+], async (req, res) => {
     try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
         const { productId } = req.params;
+        const variant = req.query.variant || null;
 
         // Get user and check if item exists in cart
         const user = await User.findById(req.user._id);
-        const existingItem = user.cart.find(item => item.product.toString() === productId);
+        const existingItem = user.findCartItem(productId, variant);
 
         if (!existingItem) {
             return res.status(404).json({
@@ -220,13 +360,14 @@ router.delete('/remove/:productId', authenticateToken, async (req, res) => {
         }
 
         // Remove from cart
-        await user.removeFromCart(productId);
+        await user.removeFromCart(productId, variant);
 
         res.status(200).json({
             success: true,
             message: 'Item removed from cart',
             data: {
                 productId,
+                variantId: variant,
                 removedQuantity: existingItem.quantity
             }
         });
@@ -240,6 +381,97 @@ router.delete('/remove/:productId', authenticateToken, async (req, res) => {
     }
 });
 
+// @route   POST /api/cart/coupon
+// @desc    Apply a coupon code to the cart
+// @access  Private
+router.post('/coupon', [
+    authenticateToken,
+    body('code')
+        .isString()
+        .trim()
+        .notEmpty()
+        .withMessage('Please enter a coupon code')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const coupon = await Coupon.findByCode(req.body.code);
+        if (!coupon) {
+            return res.status(404).json({
+                success: false,
+                message: 'Coupon not found'
+            });
+        }
+
+        const user = await User.findById(req.user._id);
+        const previousCoupon = user.appliedCoupon;
+        user.appliedCoupon = coupon._id;
+
+        // Reject coupons that don't apply to the current cart
+        const cart = await user.getCartSummary();
+        if (cart.summary.coupon.error) {
+            return res.status(400).json({
+                success: false,
+                message: cart.summary.coupon.error
+            });
+        }
+
+        try {
+            await user.save();
+        } catch (error) {
+            user.appliedCoupon = previousCoupon;
+            throw error;
+        }
+
+        res.status(200).json({
+            success: true,
+            message: `Coupon ${coupon.code} applied`,
+            data: cart
+        });
+
+    } catch (error) {
+        console.error('Apply coupon error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while applying coupon'
+        });
+    }
+});
+
+// @route   DELETE /api/cart/coupon
+// @desc    Remove the applied coupon from the cart
+// @access  Private
+router.delete('/coupon', authenticateToken, async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id);
+        user.appliedCoupon = null;
+        await user.save();
+
+        const cart = await user.getCartSummary();
+
+        res.status(200).json({
+            success: true,
+            message: 'Coupon removed',
+            data: cart
+        });
+
+    } catch (error) {
+        console.error('Remove coupon error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while removing coupon'
+        });
+    }
+});
+
 // @route   DELETE /api/cart/clear
 // @desc    Clear entire cart
 // @access  Private
@@ -0,0 +1,109 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { dataFileUpload } = require('../middleware/upload');
+const { readImportFile, importProducts, streamCatalog } = require('../utils/catalogTransfer');
+
+const router = express.Router();
+
+// @route   POST /api/catalog/import
+// @desc    Create or update products by SKU from a CSV or JSON file (multipart field "file");
+//          ?dryRun=true validates every row and reports what would happen without saving
+// @access  Private + products:write
+router.post('/import', [
+    authenticateToken,
+    requirePermission('products:write'),
+    query('dryRun')
+        .optional()
+        .isBoolean()
+        .withMessage('dryRun must be true or false')
+        .toBoolean(),
+    dataFileUpload('file')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const rows = readImportFile(req.file);
+        const dryRun = req.query.dryRun === true;
+
+        const report = await importProducts(rows, { dryRun, actor: req.user._id });
+
+        const message = dryRun
+            ? `Checked ${report.totalRows} products: ${report.created} to create, ${report.updated} to update, ${report.failed} with errors`
+            : `Imported ${report.totalRows} products: ${report.created} created, ${report.updated} updated, ${report.failed} failed`;
+
+        res.status(200).json({
+            success: true,
+            message,
+            data: { format: req.file.format, ...report }
+        });
+
+    } catch (error) {
+        if (error.name === 'ImportFileError') {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            });
+        }
+
+        console.error('Import products error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while importing products'
+        });
+    }
+});
+
+// @route   GET /api/catalog/export
+// @desc    Download the whole catalogue, inactive products included (?format=csv or json)
+// @access  Private + products:write
+router.get('/export', [
+    authenticateToken,
+    requirePermission('products:write'),
+    query('format')
+        .optional()
+        .isIn(['csv', 'json'])
+        .withMessage('Format must be csv or json')
+], async (req, res) => {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({
+            success: false,
+            message: 'Validation failed',
+            errors: errors.array()
+        });
+    }
+
+    const format = req.query.format || 'csv';
+    const date = new Date().toISOString().slice(0, 10);
+
+    try {
+        await streamCatalog(res, format, {
+            'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+            'Content-Disposition': `attachment; filename="catalog-${date}.${format}"`
+        });
+    } catch (error) {
+        console.error('Export products error:', error);
+
+        // Once rows have gone out the status can't change, so cut the download short instead
+        if (res.headersSent) {
+            res.destroy(error);
+        } else {
+            res.status(500).json({
+                success: false,
+                message: 'Server error while exporting products'
+            });
+        }
+    }
+});
+
+module.exports = router;
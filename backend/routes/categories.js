@@ -1,7 +1,8 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const { body, validationResult } = require('express-validator');
 const Category = require('../models/Category');
-const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
 
 const router = express.Router();
 
@@ -10,7 +11,7 @@ const router = express.Router();
 // @access  Public
 router.get('/', async (req, res) => {
     try {
-        const categories = await Category.getActiveCategories();
+        const categories = await Category.getActiveCategoriesWithCounts();
         
         res.status(200).json({
             success: true,
@@ -28,17 +29,21 @@ router.get('/', async (req, res) => {
 
 // @route   POST /api/categories
 // @desc    Create new category
-// @access  Private + Admin
+// @access  Private + categories:write
 router.post('/', [
     authenticateToken,
-    requireAdmin,
+    requirePermission('categories:write'),
     body('name')
         .isLength({ min: 2, max: 50 })
         .withMessage('Category name must be between 2 and 50 characters'),
     body('description')
         .optional()
         .isLength({ max: 300 })
-        .withMessage('Description cannot exceed 300 characters')
+        .withMessage('Description cannot exceed 300 characters'),
+    body('parent')
+        .optional({ values: 'falsy' })
+        .isMongoId()
+        .withMessage('Please provide a valid parent category ID')
 ], async (req, res) => {
     try {
         // Check for validation errors
@@ -51,12 +56,24 @@ router.post('/', [
             });
         }
 
-        const { name, description } = req.body;
+        const { name, description, parent } = req.body;
+
+        // Check if parent category exists and is active
+        if (parent) {
+            const parentCategory = await Category.findById(parent);
+            if (!parentCategory || !parentCategory.isActive) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Parent category not found'
+                });
+            }
+        }
 
         // Create new category
         const category = new Category({
             name,
             description,
+            parent: parent || null,
             createdBy: req.user._id
         });
 
@@ -85,12 +102,217 @@ router.post('/', [
     }
 });
 
+// @route   GET /api/categories/admin
+// @desc    Get all categories including inactive ones
+// @access  Private + categories:write
+router.get('/admin', authenticateToken, requirePermission('categories:write'), async (req, res) => {
+    try {
+        const categories = await Category.find({}).sort({ name: 1 });
+
+        res.status(200).json({
+            success: true,
+            count: categories.length,
+            data: categories
+        });
+    } catch (error) {
+        console.error('Get admin categories error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching categories'
+        });
+    }
+});
+
+// @route   PUT /api/categories/:id
+// @desc    Update category
+// @access  Private + categories:write
+router.put('/:id', [
+    authenticateToken,
+    requirePermission('categories:write'),
+    body('name')
+        .optional()
+        .isLength({ min: 2, max: 50 })
+        .withMessage('Category name must be between 2 and 50 characters'),
+    body('description')
+        .optional()
+        .isLength({ max: 300 })
+        .withMessage('Description cannot exceed 300 characters'),
+    body('parent')
+        .optional({ values: 'falsy' })
+        .isMongoId()
+        .withMessage('Please provide a valid parent category ID')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const category = await Category.findById(req.params.id);
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: 'Category not found'
+            });
+        }
+
+        const { name, description, parent } = req.body;
+
+        // Validate new parent (must exist and must not create a cycle)
+        if (parent) {
+            const parentCategory = await Category.findById(parent);
+            if (!parentCategory || !parentCategory.isActive) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Parent category not found'
+                });
+            }
+
+            if (await category.isSelfOrDescendant(parent)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'A category cannot be moved under itself or one of its subcategories'
+                });
+            }
+        }
+
+        // Update category fields
+        if (name !== undefined) category.name = name;
+        if (description !== undefined) category.description = description;
+        if (parent !== undefined) category.parent = parent || null;
+
+        await category.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Category updated successfully',
+            data: category
+        });
+
+    } catch (error) {
+        // Handle duplicate category name
+        if (error.code === 11000) {
+            return res.status(400).json({
+                success: false,
+                message: 'Category with this name already exists'
+            });
+        }
+
+        console.error('Update category error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating category'
+        });
+    }
+});
+
+// @route   DELETE /api/categories/:id
+// @desc    Deactivate category
+// @access  Private + categories:write
+router.delete('/:id', authenticateToken, requirePermission('categories:write'), async (req, res) => {
+    try {
+        const category = await Category.findById(req.params.id);
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: 'Category not found'
+            });
+        }
+
+        if (!category.isActive) {
+            return res.status(400).json({
+                success: false,
+                message: 'Category is already inactive'
+            });
+        }
+
+        // Keep the tree consistent: active children would be orphaned
+        const activeChildren = await Category.countDocuments({ parent: category._id, isActive: true });
+        if (activeChildren > 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Deactivate or move its subcategories first'
+            });
+        }
+
+        category.isActive = false;
+        await category.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Category deactivated successfully',
+            data: category
+        });
+
+    } catch (error) {
+        console.error('Deactivate category error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while deactivating category'
+        });
+    }
+});
+
+// @route   PUT /api/categories/:id/restore
+// @desc    Reactivate category
+// @access  Private + categories:write
+router.put('/:id/restore', authenticateToken, requirePermission('categories:write'), async (req, res) => {
+    try {
+        const category = await Category.findById(req.params.id).populate('parent', 'isActive');
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: 'Category not found'
+            });
+        }
+
+        if (category.isActive) {
+            return res.status(400).json({
+                success: false,
+                message: 'Category is already active'
+            });
+        }
+
+        if (category.parent && !category.parent.isActive) {
+            return res.status(400).json({
+                success: false,
+                message: 'Restore the parent category first'
+            });
+        }
+
+        category.isActive = true;
+        await category.save();
+        await category.depopulate('parent');
+
+        res.status(200).json({
+            success: true,
+            message: 'Category restored successfully',
+            data: category
+        });
+
+    } catch (error) {
+        console.error('Restore category error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while restoring category'
+        });
+    }
+});
+
 // @route   GET /api/categories/:id
-// @desc    Get single category
+// @desc    Get single category by ID or slug
 // @access  Public
 router.get('/:id', async (req, res) => {
     try {
-        const category = await Category.findById(req.params.id);
+        const { id } = req.params;
+        const category = mongoose.isObjectIdOrHexString(id)
+            ? await Category.findById(id)
+            : await Category.findOne({ slug: id.toLowerCase() });
         
         if (!category) {
             return res.status(404).json({
@@ -0,0 +1,331 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Coupon = require('../models/Coupon');
+const Category = require('../models/Category');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Shared body rules for creating (all required fields enforced) and updating (all optional)
+const couponValidation = (isUpdate) => {
+    const required = (chain) => (isUpdate ? chain.optional() : chain);
+
+    return [
+        required(body('code'))
+            .isString()
+            .trim()
+            .matches(/^[A-Za-z0-9_-]{3,30}$/)
+            .withMessage('Code must be 3-30 letters, numbers, dashes or underscores'),
+        body('description')
+            .optional()
+            .isLength({ max: 200 })
+            .withMessage('Description cannot exceed 200 characters'),
+        required(body('type'))
+            .isIn(['percentage', 'fixed', 'free_shipping'])
+            .withMessage('Type must be percentage, fixed or free_shipping'),
+        body('value')
+            .optional()
+            .isFloat({ min: 0 })
+            .withMessage('Value must be a positive number')
+            .toFloat(),
+        body('minSpend')
+            .optional()
+            .isFloat({ min: 0 })
+            .withMessage('Minimum spend must be a positive number')
+            .toFloat(),
+        body('categories')
+            .optional()
+            .isArray()
+            .withMessage('Categories must be an array'),
+        body('categories.*')
+            .isMongoId()
+            .withMessage('Please provide valid category IDs'),
+        body('startsAt')
+            .optional({ values: 'null' })
+            .isISO8601()
+            .withMessage('Start date must be a valid date'),
+        body('expiresAt')
+            .optional({ values: 'null' })
+            .isISO8601()
+            .withMessage('Expiry date must be a valid date'),
+        body('usageLimit')
+            .optional({ values: 'null' })
+            .isInt({ min: 1 })
+            .withMessage('Usage limit must be a positive integer')
+            .toInt(),
+        body('usageLimitPerUser')
+            .optional({ values: 'null' })
+            .isInt({ min: 1 })
+            .withMessage('Per-user limit must be a positive integer')
+            .toInt(),
+        body('isActive')
+            .optional()
+            .isBoolean()
+            .withMessage('isActive must be true or false')
+            .toBoolean()
+    ];
+};
+
+const COUPON_FIELDS = [
+    'code', 'description', 'type', 'value', 'minSpend', 'categories',
+    'startsAt', 'expiresAt', 'usageLimit', 'usageLimitPerUser', 'isActive'
+];
+
+// Check rules that span several fields; returns an error message or null
+const checkCouponRules = async (coupon) => {
+    if (coupon.type !== 'free_shipping' && !(coupon.value > 0)) {
+        return 'Value must be greater than 0';
+    }
+    if (coupon.type === 'percentage' && coupon.value > 100) {
+        return 'Percentage cannot exceed 100';
+    }
+    if (coupon.startsAt && coupon.expiresAt && coupon.startsAt >= coupon.expiresAt) {
+        return 'Expiry date must be after the start date';
+    }
+    if (coupon.categories.length > 0) {
+        const found = await Category.countDocuments({ _id: { $in: coupon.categories } });
+        if (found !== coupon.categories.length) {
+            return 'One or more categories were not found';
+        }
+    }
+    return null;
+};
+
+// @route   GET /api/coupons
+// @desc    Get all coupons with pagination
+// @access  Private + coupons:write
+router.get('/', [
+    authenticateToken,
+    requirePermission('coupons:write'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100'),
+    query('search')
+        .optional()
+        .isString()
+        .withMessage('Search must be a string')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 20;
+        const skip = (page - 1) * limit;
+
+        // Codes are stored uppercase, so a prefix search is enough
+        const filter = {};
+        if (req.query.search && req.query.search.trim()) {
+            const term = req.query.search.trim().toUpperCase().replace(/[^A-Z0-9_-]/g, '');
+            filter.code = { $regex: `^${term}` };
+        }
+
+        const [coupons, totalCoupons] = await Promise.all([
+            Coupon.find(filter)
+                .populate('categories', 'name')
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit),
+            Coupon.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalCoupons / limit);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                coupons,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalCoupons,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get coupons error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching coupons'
+        });
+    }
+});
+
+// @route   POST /api/coupons
+// @desc    Create new coupon
+// @access  Private + coupons:write
+router.post('/', [
+    authenticateToken,
+    requirePermission('coupons:write'),
+    ...couponValidation(false)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const coupon = new Coupon({ createdBy: req.user._id });
+        COUPON_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) coupon[field] = req.body[field];
+        });
+
+        const ruleError = await checkCouponRules(coupon);
+        if (ruleError) {
+            return res.status(400).json({
+                success: false,
+                message: ruleError
+            });
+        }
+
+        await coupon.save();
+
+        res.status(201).json({
+            success: true,
+            message: 'Coupon created successfully',
+            data: coupon
+        });
+
+    } catch (error) {
+        // Handle duplicate coupon code
+        if (error.code === 11000) {
+            return res.status(400).json({
+                success: false,
+                message: 'Coupon with this code already exists'
+            });
+        }
+
+        console.error('Create coupon error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while creating coupon'
+        });
+    }
+});
+
+// @route   PUT /api/coupons/:id
+// @desc    Update coupon
+// @access  Private + coupons:write
+router.put('/:id', [
+    authenticateToken,
+    requirePermission('coupons:write'),
+    ...couponValidation(true)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const coupon = await Coupon.findById(req.params.id);
+        if (!coupon) {
+            return res.status(404).json({
+                success: false,
+                message: 'Coupon not found'
+            });
+        }
+
+        COUPON_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) coupon[field] = req.body[field];
+        });
+
+        const ruleError = await checkCouponRules(coupon);
+        if (ruleError) {
+            return res.status(400).json({
+                success: false,
+                message: ruleError
+            });
+        }
+
+        await coupon.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Coupon updated successfully',
+            data: coupon
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid coupon ID'
+            });
+        }
+
+        // Handle duplicate coupon code
+        if (error.code === 11000) {
+            return res.status(400).json({
+                success: false,
+                message: 'Coupon with this code already exists'
+            });
+        }
+
+        console.error('Update coupon error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating coupon'
+        });
+    }
+});
+
+// @route   DELETE /api/coupons/:id
+// @desc    Delete coupon; orders keep their discount snapshot
+// @access  Private + coupons:write
+router.delete('/:id', authenticateToken, requirePermission('coupons:write'), async (req, res) => {
+    try {
+        const coupon = await Coupon.findByIdAndDelete(req.params.id);
+        if (!coupon) {
+            return res.status(404).json({
+                success: false,
+                message: 'Coupon not found'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Coupon deleted successfully',
+            data: { couponId: coupon._id }
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid coupon ID'
+            });
+        }
+
+        console.error('Delete coupon error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while deleting coupon'
+        });
+    }
+});
+
+module.exports = router;
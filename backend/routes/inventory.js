@@ -0,0 +1,237 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Product = require('../models/Product');
+const StockMovement = require('../models/StockMovement');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+const paginationValidation = [
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
+
+// @route   GET /api/inventory/low-stock
+// @desc    Active products with stock (or a variant's stock) at or below their low-stock threshold
+// @access  Private + inventory:manage
+router.get('/low-stock', [
+    authenticateToken,
+    requirePermission('inventory:manage'),
+    ...paginationValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 20;
+        const skip = (page - 1) * limit;
+
+        const [products, totalProducts] = await Promise.all([
+            Product.findLowStock({ skip, limit }),
+            Product.countLowStock()
+        ]);
+        const totalPages = Math.ceil(totalProducts / limit);
+
+        // List just the variants that are running low, labelled for display
+        const alerts = products.map(product => ({
+            _id: product._id,
+            name: product.name,
+            image: product.image,
+            category: product.category,
+            quantity: product.quantity,
+            lowStockThreshold: product.lowStockThreshold,
+            levels: product.getLowStockLevels().map(level => ({
+                ...level,
+                label: level.variant ? product.variants.id(level.variant).getLabel() : null
+            }))
+        }));
+
+        res.status(200).json({
+            success: true,
+            data: {
+                products: alerts,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalProducts,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get low stock error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching low-stock products'
+        });
+    }
+});
+
+// @route   GET /api/inventory/movements
+// @desc    Stock movement history, newest first (?product= and ?type= narrow it down)
+// @access  Private + inventory:manage
+router.get('/movements', [
+    authenticateToken,
+    requirePermission('inventory:manage'),
+    query('product')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid product ID'),
+    query('type')
+        .optional()
+        .isIn(StockMovement.MOVEMENT_TYPES)
+        .withMessage(`Type must be one of ${StockMovement.MOVEMENT_TYPES.join(', ')}`),
+    ...paginationValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 20;
+        const skip = (page - 1) * limit;
+
+        const filter = {};
+        if (req.query.product) {
+            filter.product = req.query.product;
+        }
+        if (req.query.type) {
+            filter.type = req.query.type;
+        }
+
+        const [movements, totalMovements] = await Promise.all([
+            StockMovement.getEntries(filter, { skip, limit }),
+            StockMovement.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalMovements / limit);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                movements,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalMovements,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get stock movements error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching stock movements'
+        });
+    }
+});
+
+// @route   POST /api/inventory/products/:id/adjust
+// @desc    Add or remove stock by hand (e.g. a delivery or a stock count), with a reason
+// @access  Private + inventory:manage
+router.post('/products/:id/adjust', [
+    authenticateToken,
+    requirePermission('inventory:manage'),
+    body('change')
+        .isInt()
+        .withMessage('Change must be a whole number')
+        .not().equals('0')
+        .withMessage('Change cannot be zero')
+        .toInt(),
+    body('variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Invalid variant ID'),
+    body('reason')
+        .trim()
+        .isLength({ min: 3, max: 500 })
+        .withMessage('Reason must be between 3 and 500 characters')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { change, variant = null, reason } = req.body;
+
+        const product = await Product.findById(req.params.id).select('name quantity options variants');
+        if (!product) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found'
+            });
+        }
+
+        // Variant products are stocked per variant, others as a whole
+        const line = product.resolveVariant(variant);
+        if (line.error) {
+            return res.status(400).json({
+                success: false,
+                message: line.error
+            });
+        }
+
+        const updated = await Product.adjustStock(product._id, variant, change, { actor: req.user._id, reason });
+        if (!updated) {
+            return res.status(400).json({
+                success: false,
+                message: `Cannot remove ${-change} from ${line.label}. Only ${line.quantity} in stock`
+            });
+        }
+
+        const level = updated.getStockLevels().find(entry => String(entry.variant) === String(variant));
+
+        res.status(200).json({
+            success: true,
+            message: `Stock for ${line.label} is now ${level.quantity}`,
+            data: updated
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid product ID'
+            });
+        }
+
+        console.error('Adjust stock error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while adjusting stock'
+        });
+    }
+});
+
+module.exports = router;
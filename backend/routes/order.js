@@ -1,32 +1,35 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
+const mongoose = require('mongoose');
 const Order = require('../models/Order');
 const Product = require('../models/Product');
+const Coupon = require('../models/Coupon');
 const User = require('../models/User');
-const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { getPaymentProvider } = require('../payments');
+const { addressValidation, pickAddress } = require('../utils/addressValidation');
 
 const router = express.Router();
 
+// Escape user input before using it in a regular expression
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 // @route   POST /api/orders/checkout
 // @desc    Create order from cart (checkout)
 // @access  Private
 router.post('/checkout', [
     authenticateToken,
-    body('shippingAddress.fullName')
-        .isLength({ min: 2, max: 100 })
-        .withMessage('Full name must be between 2 and 100 characters'),
-    body('shippingAddress.address')
-        .isLength({ min: 10, max: 200 })
-        .withMessage('Address must be between 10 and 200 characters'),
-    body('shippingAddress.city')
-        .isLength({ min: 2, max: 50 })
-        .withMessage('City must be between 2 and 50 characters'),
-    body('shippingAddress.postalCode')
-        .isLength({ min: 4, max: 10 })
-        .withMessage('Postal code must be between 4 and 10 characters'),
-    body('shippingAddress.country')
-        .isLength({ min: 2, max: 50 })
-        .withMessage('Country must be between 2 and 50 characters')
+    ...addressValidation('shippingAddress.'),
+    body('saveAddress')
+        .optional()
+        .isBoolean()
+        .withMessage('saveAddress must be true or false')
+        .toBoolean(),
+    body('addressLabel')
+        .optional()
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Address label must be between 1 and 30 characters')
 ], async (req, res) => {
     try {
         // Check for validation errors
@@ -39,8 +42,7 @@ router.post('/checkout', [
             });
         }
 
-        // Get user with populated cart
-        const user = await User.findById(req.user._id).populate('cart.product');
+        const user = await User.findById(req.user._id);
         
         if (!user) {
             return res.status(404).json({
@@ -49,6 +51,14 @@ router.post('/checkout', [
             });
         }
 
+        // Orders need a verified email so confirmations and updates reach the customer
+        if (!user.isEmailVerified) {
+            return res.status(403).json({
+                success: false,
+                message: 'Please verify your email address before checking out'
+            });
+        }
+
         // Check if cart is empty
         if (user.cart.length === 0) {
             return res.status(400).json({
@@ -57,44 +67,64 @@ router.post('/checkout', [
             });
         }
 
-        // Validate cart items and calculate totals
+        // Populate the cart and price it for the shipping address, including any applied coupon
+        const cart = await user.getCartSummary(req.body.shippingAddress);
+
+        // Check if every product (and chosen variant) still exists and is active
+        if (cart.unavailableItems.length > 0 || cart.items.length !== user.cart.length) {
+            const unavailable = cart.unavailableItems[0];
+            return res.status(400).json({
+                success: false,
+                message: `Product ${unavailable ? unavailable.product.name : 'unknown'} is no longer available`
+            });
+        }
+
+        // Don't silently charge full price if the coupon stopped applying
+        const { coupon } = cart.summary;
+        if (coupon && coupon.error) {
+            return res.status(400).json({
+                success: false,
+                message: `${coupon.error}. Remove the coupon to continue`
+            });
+        }
+
+        const { shipping, tax } = cart.summary;
+        if (shipping.error) {
+            return res.status(400).json({
+                success: false,
+                message: shipping.error
+            });
+        }
+
+        // Validate cart items and build order lines
         const orderItems = [];
-        let totalItems = 0;
-        let totalAmount = 0;
 
-        for (const cartItem of user.cart) {
-            const product = cartItem.product;
-            
-            // Check if product exists and is active
-            if (!product || !product.isActive) {
-                return res.status(400).json({
-                    success: false,
-                    message: `Product ${product ? product.name : 'unknown'} is no longer available`
-                });
-            }
+        for (const cartItem of cart.items) {
+            const { product, variant } = cartItem;
+            const stock = variant ? variant.quantity : product.quantity;
 
-            // Check stock availability
-            if (product.quantity < cartItem.quantity) {
+            // Check stock availability (early exit; reserveStock below is authoritative)
+            if (stock < cartItem.quantity) {
                 return res.status(400).json({
                     success: false,
-                    message: `Insufficient stock for ${product.name}. Only ${product.quantity} available`
+                    message: `Insufficient stock for ${variant ? `${product.name} (${variant.getLabel()})` : product.name}. Only ${stock} available`
                 });
             }
 
             // Calculate item total
-            const itemTotal = product.price * cartItem.quantity;
+            const itemTotal = cartItem.price * cartItem.quantity;
             
-            // Add to order items
+            // Add to order items, snapshotting the chosen options
             orderItems.push({
                 product: product._id,
+                variant: variant ? variant._id : null,
+                sku: variant ? variant.sku : null,
+                options: variant ? variant.options.map(({ name, value }) => ({ name, value })) : [],
                 name: product.name,
-                price: product.price,
+                price: cartItem.price,
                 quantity: cartItem.quantity,
                 total: itemTotal
             });
-
-            totalItems += cartItem.quantity;
-            totalAmount += itemTotal;
         }
 
         // Generate order number manually as fallback
@@ -103,37 +133,109 @@ router.post('/checkout', [
         const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
         const orderNumber = `ORD-${dateString}-${randomString}`;
 
+        // The order's ID is fixed up front so the stock ledger can point at it
+        const orderId = new mongoose.Types.ObjectId();
+        const saleMovement = { type: 'sale', actor: user._id, order: orderId };
+        // Undoing a reservation is logged too, keeping the ledger's running totals right
+        const rollbackMovement = { type: 'cancellation', actor: user._id, order: orderId, reason: 'Checkout did not complete' };
+
+        // Reserve inventory atomically before the order exists, so a failed
+        // line leaves no order behind and no stock deducted
+        try {
+            await Product.reserveStock(orderItems, saleMovement);
+        } catch (error) {
+            if (error.name === 'StockError') {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            throw error;
+        }
+
+        // Count the coupon redemption; another checkout may have used the last one
+        if (coupon && !(await Coupon.redeem(coupon._id))) {
+            await Product.releaseStock(orderItems, rollbackMovement);
+            return res.status(400).json({
+                success: false,
+                message: 'This coupon has reached its usage limit. Remove the coupon to continue'
+            });
+        }
+
         // Create order
         const order = new Order({
+            _id: orderId,
             orderNumber: orderNumber,
             customer: user._id,
             items: orderItems,
-            totalItems,
-            totalAmount,
-            shippingAddress: req.body.shippingAddress,
+            totalItems: cart.summary.totalItems,
+            subtotal: cart.summary.totalPrice,
+            discount: coupon ? {
+                coupon: coupon._id,
+                code: coupon.code,
+                type: coupon.type,
+                value: coupon.value,
+                amount: cart.summary.discount,
+                freeShipping: coupon.freeShipping
+            } : undefined,
+            shipping: {
+                amount: shipping.amount,
+                rule: shipping.rule,
+                method: shipping.method
+            },
+            tax,
+            totalAmount: cart.summary.total,
+            payment: {
+                provider: getPaymentProvider().name,
+                amount: cart.summary.total
+            },
+            shippingAddress: pickAddress(req.body.shippingAddress),
             notes: req.body.notes || ''
         });
 
-        // Save order
-        await order.save();
+        // Nothing to charge (e.g. a full discount with free shipping), so go straight to processing
+        if (order.totalAmount === 0) {
+            order.status = 'processing';
+            order.payment.status = 'paid';
+            order.payment.paidAt = new Date();
+        }
 
-        // Reduce inventory for each product
-        for (const item of orderItems) {
-            await Product.findByIdAndUpdate(
-                item.product,
-                { $inc: { quantity: -item.quantity } }
-            );
+        // Save order, releasing the reservation if it cannot be stored
+        try {
+            await order.save();
+        } catch (error) {
+            await Product.releaseStock(orderItems, rollbackMovement);
+            if (coupon) {
+                await Coupon.releaseRedemption(coupon._id);
+            }
+            throw error;
+        }
+
+        // Clear user's cart (the order is already placed, so don't fail the request)
+        try {
+            await user.clearCart();
+        } catch (error) {
+            console.error('Checkout clear cart error:', error);
         }
 
-        // Clear user's cart
-        await user.clearCart();
+        // Keep the address for next time if asked (also best effort)
+        if (req.body.saveAddress) {
+            try {
+                await user.saveAddress({
+                    ...pickAddress(req.body.shippingAddress),
+                    label: req.body.addressLabel || 'Checkout address'
+                });
+            } catch (error) {
+                console.error('Checkout save address error:', error);
+            }
+        }
 
         // Populate order for response
         await order.populate('items.product', 'name image');
 
         res.status(201).json({
             success: true,
-            message: 'Order placed successfully',
+            message: order.isAwaitingPayment() ? 'Order placed. Complete payment to confirm it' : 'Order placed successfully',
             data: order
         });
 
@@ -146,6 +248,151 @@ router.post('/checkout', [
     }
 });
 
+// @route   POST /api/orders/:id/pay
+// @desc    Pay for a pending order
+// @access  Private (own order)
+router.post('/:id/pay', [
+    authenticateToken,
+    body('paymentMethod')
+        .isString()
+        .notEmpty()
+        .withMessage('Payment method is required')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const order = await Order.findById(req.params.id);
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: 'Order not found'
+            });
+        }
+
+        if (order.customer.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                message: 'You can only pay for your own orders'
+            });
+        }
+
+        if (!order.isAwaitingPayment()) {
+            return res.status(400).json({
+                success: false,
+                message: order.payment.status === 'paid'
+                    ? 'Order has already been paid'
+                    : `Order cannot be paid. Current status: ${order.status}`
+            });
+        }
+
+        // Claim the order before talking to the provider, so concurrent requests can't charge twice
+        const claimed = await Order.claimPaymentAttempt(order);
+        if (!claimed) {
+            return res.status(409).json({
+                success: false,
+                message: 'A payment for this order is already in progress. Please refresh and try again'
+            });
+        }
+        const startedAt = claimed.payment.attemptStartedAt;
+
+        try {
+            // Every attempt gets a fresh intent, so a declined card can simply be retried
+            const provider = getPaymentProvider();
+            const intent = await provider.createIntent({
+                amount: order.totalAmount,
+                currency: 'usd',
+                metadata: { orderId: order._id.toString(), orderNumber: order.orderNumber }
+            });
+
+            // The claim holds off other attempts, so only a cancellation can get in the way here
+            const updated = await Order.findOneAndUpdate(
+                { _id: order._id, status: 'pending', 'payment.attemptStartedAt': startedAt },
+                {
+                    $set: {
+                        'payment.provider': provider.name,
+                        'payment.intentId': intent.id,
+                        'payment.status': 'pending',
+                        'payment.amount': order.totalAmount,
+                        'payment.failureReason': null
+                    }
+                },
+                { new: true }
+            );
+
+            if (!updated) {
+                return res.status(409).json({
+                    success: false,
+                    message: 'Order changed while starting payment. Please refresh and try again'
+                });
+            }
+
+            let result;
+            try {
+                result = await provider.confirmIntent(intent.id, { paymentMethod: req.body.paymentMethod });
+            } catch (error) {
+                if (error.name === 'PaymentError') {
+                    await Order.markPaymentFailed(intent.id, error.message);
+                    return res.status(400).json({
+                        success: false,
+                        message: error.message
+                    });
+                }
+                throw error;
+            }
+
+            if (result.status === 'failed') {
+                await Order.markPaymentFailed(intent.id, result.failureReason);
+                return res.status(402).json({
+                    success: false,
+                    message: result.failureReason || 'Payment failed'
+                });
+            }
+
+            // A succeeded webhook may already have recorded the payment
+            const paidOrder = (result.status === 'succeeded' && await Order.markPaid(intent.id)) || await Order.findById(order._id);
+
+            // Cancelled while the payment went through: give the money back
+            if (paidOrder.status === 'cancelled') {
+                const cancelled = result.status === 'succeeded' && await Order.markCancelledPaid(intent.id);
+                if (cancelled) {
+                    const refund = await provider.refund(intent.id, cancelled.payment.amount);
+                    await Order.recordRefund(intent.id, refund.id, refund.amount);
+                }
+                return res.status(409).json({
+                    success: false,
+                    message: 'This order was cancelled while it was being paid. Any payment taken is refunded'
+                });
+            }
+
+            await paidOrder.populate('items.product', 'name image');
+
+            res.status(200).json({
+                success: true,
+                message: paidOrder.payment.status === 'paid' ? 'Payment successful' : 'Payment is being processed',
+                data: paidOrder
+            });
+        } finally {
+            await Order.releasePaymentAttempt(order._id, startedAt);
+        }
+
+    } catch (error) {
+        console.error('Pay order error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while processing payment'
+        });
+    }
+});
+
 // @route   GET /api/orders
 // @desc    Get user's orders
 // @access  Private
@@ -167,9 +414,199 @@ router.get('/', authenticateToken, async (req, res) => {
     }
 });
 
+// @route   GET /api/orders/admin
+// @desc    Get all orders with filters and pagination
+// @access  Private + orders:read
+router.get('/admin', [
+    authenticateToken,
+    requirePermission('orders:read'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100'),
+    query('status')
+        .optional()
+        .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled'])
+        .withMessage('Invalid order status'),
+    query('customer')
+        .optional()
+        .isString()
+        .withMessage('Customer must be a string'),
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be a valid date'),
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be a valid date')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 10;
+        const skip = (page - 1) * limit;
+        const { status, customer, from, to } = req.query;
+
+        // Build filter
+        const filter = {};
+
+        if (status) {
+            filter.status = status;
+        }
+
+        // Customer can be a user ID or a search term (email, username or name)
+        if (customer) {
+            if (mongoose.isObjectIdOrHexString(customer)) {
+                filter.customer = customer;
+            } else {
+                const pattern = new RegExp(escapeRegex(customer.trim()), 'i');
+                const customers = await User.find({
+                    $or: [
+                        { email: pattern },
+                        { username: pattern },
+                        { firstName: pattern },
+                        { lastName: pattern }
+                    ]
+                }).select('_id');
+                filter.customer = { $in: customers.map(user => user._id) };
+            }
+        }
+
+        // Date range is inclusive of the whole "to" day
+        if (from || to) {
+            filter.createdAt = {};
+            if (from) {
+                filter.createdAt.$gte = new Date(from);
+            }
+            if (to) {
+                const toDate = new Date(to);
+                toDate.setUTCHours(23, 59, 59, 999);
+                filter.createdAt.$lte = toDate;
+            }
+        }
+
+        const [orders, totalOrders] = await Promise.all([
+            Order.getAdminOrders(filter, { skip, limit }),
+            Order.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalOrders / limit);
+
+        res.status(200).json({
+            success: true,
+            message: 'Orders retrieved successfully',
+            data: {
+                orders,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalOrders,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get admin orders error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching orders'
+        });
+    }
+});
+
+// @route   PUT /api/orders/:id/status
+// @desc    Advance order status
+// @access  Private + orders:update-status
+router.put('/:id/status', [
+    authenticateToken,
+    requirePermission('orders:update-status'),
+    body('status')
+        .isIn(['processing', 'shipped', 'delivered'])
+        .withMessage('Status must be one of processing, shipped or delivered. Use the cancel endpoint to cancel orders')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { status } = req.body;
+        const order = await Order.findById(req.params.id);
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: 'Order not found'
+            });
+        }
+
+        // Check that the transition is allowed
+        if (!order.canTransitionTo(status)) {
+            return res.status(400).json({
+                success: false,
+                message: `Cannot change order status from ${order.status} to ${status}`
+            });
+        }
+
+        // Orders are only fulfilled once payment is confirmed
+        if (status === 'processing' && order.payment.status !== 'paid') {
+            return res.status(400).json({
+                success: false,
+                message: 'Order cannot be processed until payment is confirmed'
+            });
+        }
+
+        const updated = await Order.updateStatus(order._id, order.status, status);
+
+        if (!updated) {
+            return res.status(409).json({
+                success: false,
+                message: 'Order changed while updating its status. Please refresh and try again'
+            });
+        }
+
+        // Populate order for response
+        await updated.populate('customer', 'firstName lastName email username');
+        await updated.populate('items.product', 'name image');
+
+        res.status(200).json({
+            success: true,
+            message: `Order status updated to ${status}`,
+            data: updated
+        });
+
+    } catch (error) {
+        console.error('Update order status error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating order status'
+        });
+    }
+});
+
 // @route   PUT /api/orders/:id/cancel
 // @desc    Cancel order
-// @access  Private (own order) or Admin
+// @access  Private (own order) or orders:update-status
 router.put('/:id/cancel', authenticateToken, async (req, res) => {
     try {
         const order = await Order.findById(req.params.id);
@@ -181,8 +618,8 @@ router.put('/:id/cancel', authenticateToken, async (req, res) => {
             });
         }
 
-        // Check if user owns this order or is admin
-        if (order.customer.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+        // Check if user owns this order or may manage every order
+        if (order.customer.toString() !== req.user._id.toString() && !req.user.hasPermission('orders:update-status')) {
             return res.status(403).json({
                 success: false,
                 message: 'You can only cancel your own orders'
@@ -197,21 +634,51 @@ router.put('/:id/cancel', authenticateToken, async (req, res) => {
             });
         }
 
-        // Update order status to cancelled
-        await order.updateStatus('cancelled');
+        // Update order status to cancelled atomically so concurrent
+        // cancellations cannot restock the same order twice
+        const cancelledOrder = await Order.cancelIfAllowed(order._id);
+        if (!cancelledOrder) {
+            return res.status(409).json({
+                success: false,
+                message: 'Order status changed while cancelling. Please refresh and try again'
+            });
+        }
 
         // Restore inventory
-        for (const item of order.items) {
-            await Product.findByIdAndUpdate(
-                item.product,
-                { $inc: { quantity: item.quantity } }
-            );
+        await Product.releaseStock(cancelledOrder.items, {
+            type: 'cancellation',
+            actor: req.user._id,
+            order: cancelledOrder._id,
+            reason: `Order ${cancelledOrder.orderNumber} cancelled`
+        });
+
+        // Give the coupon redemption back
+        if (cancelledOrder.discount && cancelledOrder.discount.coupon) {
+            await Coupon.releaseRedemption(cancelledOrder.discount.coupon);
+        }
+
+        // Refund whatever was paid; the cancellation stands even if the provider call fails
+        let refundedOrder = cancelledOrder;
+        const refundable = cancelledOrder.getRefundableAmount();
+
+        if (refundable > 0) {
+            try {
+                const refund = await getPaymentProvider().refund(cancelledOrder.payment.intentId, refundable);
+                refundedOrder = (await Order.recordRefund(cancelledOrder.payment.intentId, refund.id, refund.amount)) || cancelledOrder;
+            } catch (error) {
+                console.error('Cancel order refund error:', error);
+                return res.status(200).json({
+                    success: true,
+                    message: 'Order cancelled, but the refund could not be issued automatically. Our team will process it manually',
+                    data: cancelledOrder
+                });
+            }
         }
 
         res.status(200).json({
             success: true,
-            message: 'Order cancelled successfully',
-            data: order
+            message: refundable > 0 ? 'Order cancelled and payment refunded' : 'Order cancelled successfully',
+            data: refundedOrder
         });
 
     } catch (error) {
@@ -225,7 +692,7 @@ router.put('/:id/cancel', authenticateToken, async (req, res) => {
 
 // @route   GET /api/orders/:id
 // @desc    Get single order
-// @access  Private (own order) or Admin
+// @access  Private (own order) or orders:read
 router.get('/:id', authenticateToken, async (req, res) => {
     try {
         const order = await Order.findById(req.params.id)
@@ -239,8 +706,8 @@ router.get('/:id', authenticateToken, async (req, res) => {
             });
         }
 
-        // Check if user owns this order or is admin
-        if (order.customer._id.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+        // Check if user owns this order or may view every order
+        if (order.customer._id.toString() !== req.user._id.toString() && !req.user.hasPermission('orders:read')) {
             return res.status(403).json({
                 success: false,
                 message: 'You can only view your own orders'
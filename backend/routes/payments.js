@@ -0,0 +1,101 @@
+const express = require('express');
+const Order = require('../models/Order');
+const { getPaymentProvider } = require('../payments');
+
+const router = express.Router();
+
+// @route   GET /api/payments/config
+// @desc    Get the active payment provider and the payment methods it offers
+// @access  Public
+router.get('/config', (req, res) => {
+    const provider = getPaymentProvider();
+
+    res.status(200).json({
+        success: true,
+        data: {
+            provider: provider.name,
+            paymentMethods: provider.getPaymentMethods()
+        }
+    });
+});
+
+// @route   POST /api/payments/webhook
+// @desc    Receive signed payment events from the provider
+// @access  Public (signature checked)
+// The body arrives as a raw Buffer (see server.js) because the signature covers the exact bytes sent
+router.post('/webhook', async (req, res) => {
+    let event;
+
+    try {
+        event = getPaymentProvider().verifyWebhook(req.body, req.get('x-payment-signature'));
+    } catch (error) {
+        if (error.name === 'PaymentError') {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            });
+        }
+        console.error('Payment webhook verify error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Server error while verifying webhook'
+        });
+    }
+
+    try {
+        const { intentId, refundId, amount, failureReason } = event.data || {};
+
+        if (!intentId) {
+            return res.status(400).json({
+                success: false,
+                message: 'Webhook event has no payment intent'
+            });
+        }
+
+        // Each handler is conditional on the current payment state, so redelivered events are no-ops
+        switch (event.type) {
+            case 'payment_intent.succeeded': {
+                const order = await Order.markPaid(intentId);
+
+                // Paid after the order was cancelled: give the money back
+                if (!order) {
+                    const cancelled = await Order.markCancelledPaid(intentId);
+                    if (cancelled) {
+                        const refund = await getPaymentProvider().refund(intentId, cancelled.payment.amount);
+                        await Order.recordRefund(intentId, refund.id, refund.amount);
+                    }
+                }
+                break;
+            }
+            case 'payment_intent.payment_failed':
+                await Order.markPaymentFailed(intentId, failureReason);
+                break;
+            case 'charge.refunded':
+                if (!refundId || !(amount > 0)) {
+                    return res.status(400).json({
+                        success: false,
+                        message: 'Refund event needs a refund ID and amount'
+                    });
+                }
+                await Order.recordRefund(intentId, refundId, amount);
+                break;
+            default:
+                // Acknowledge events we don't handle so the provider stops retrying them
+                break;
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Webhook received'
+        });
+
+    } catch (error) {
+        console.error('Payment webhook error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while processing webhook'
+        });
+    }
+});
+
+module.exports = router;
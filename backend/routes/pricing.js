@@ -0,0 +1,577 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Product = require('../models/Product');
+const ShippingRule = require('../models/ShippingRule');
+const TaxRule = require('../models/TaxRule');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { priceCart } = require('../utils/pricing');
+
+const router = express.Router();
+
+// Shared body rules for shipping rules (all optional when updating)
+const shippingRuleValidation = (isUpdate) => {
+    const required = (chain) => (isUpdate ? chain.optional() : chain);
+
+    return [
+        required(body('name'))
+            .isString()
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage('Rule name must be between 2 and 100 characters'),
+        body('countries')
+            .optional()
+            .isArray()
+            .withMessage('Countries must be an array'),
+        body('countries.*')
+            .isString()
+            .trim()
+            .isLength({ min: 2, max: 50 })
+            .withMessage('Each country must be between 2 and 50 characters'),
+        body('postalCodePrefixes')
+            .optional()
+            .isArray()
+            .withMessage('Postal code prefixes must be an array'),
+        body('postalCodePrefixes.*')
+            .isString()
+            .customSanitizer(value => value.replace(/\s+/g, ''))
+            .isLength({ min: 1, max: 10 })
+            .withMessage('Each postal code prefix must be between 1 and 10 characters'),
+        required(body('method'))
+            .isIn(['flat', 'weight_tiers'])
+            .withMessage('Method must be flat or weight_tiers'),
+        body('flatRate')
+            .optional()
+            .isFloat({ min: 0 })
+            .withMessage('Flat rate must be a non-negative number')
+            .toFloat(),
+        body('weightTiers')
+            .optional()
+            .isArray()
+            .withMessage('Weight tiers must be an array'),
+        body('weightTiers.*.maxWeight')
+            .optional({ values: 'null' })
+            .isFloat({ min: 0 })
+            .withMessage('Tier weight must be a non-negative number')
+            .toFloat(),
+        body('weightTiers.*.rate')
+            .isFloat({ min: 0 })
+            .withMessage('Tier rate must be a non-negative number')
+            .toFloat(),
+        body('freeOver')
+            .optional({ values: 'null' })
+            .isFloat({ min: 0 })
+            .withMessage('Free shipping threshold must be a non-negative number')
+            .toFloat(),
+        body('isActive')
+            .optional()
+            .isBoolean()
+            .withMessage('isActive must be true or false')
+            .toBoolean()
+    ];
+};
+
+const SHIPPING_RULE_FIELDS = [
+    'name', 'countries', 'postalCodePrefixes', 'method', 'flatRate', 'weightTiers', 'freeOver', 'isActive'
+];
+
+// Check rules that span several fields; returns an error message or null
+const checkShippingRule = (rule) => {
+    if (rule.postalCodePrefixes.length > 0 && rule.countries.length === 0) {
+        return 'Postal code prefixes need at least one country';
+    }
+    if (rule.method === 'weight_tiers' && rule.weightTiers.length === 0) {
+        return 'Add at least one weight tier';
+    }
+    return null;
+};
+
+// Shared body rules for tax rules (all optional when updating)
+const taxRuleValidation = (isUpdate) => {
+    const required = (chain) => (isUpdate ? chain.optional() : chain);
+
+    return [
+        required(body('name'))
+            .isString()
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage('Rule name must be between 2 and 100 characters'),
+        required(body('country'))
+            .isString()
+            .trim()
+            .isLength({ min: 2, max: 50 })
+            .withMessage('Country must be between 2 and 50 characters'),
+        body('postalCodePrefix')
+            .optional()
+            .isString()
+            .customSanitizer(value => value.replace(/\s+/g, ''))
+            .isLength({ max: 10 })
+            .withMessage('Postal code prefix cannot exceed 10 characters'),
+        required(body('rate'))
+            .isFloat({ min: 0, max: 100 })
+            .withMessage('Tax rate must be between 0 and 100')
+            .toFloat(),
+        body('appliesToShipping')
+            .optional()
+            .isBoolean()
+            .withMessage('appliesToShipping must be true or false')
+            .toBoolean(),
+        body('isActive')
+            .optional()
+            .isBoolean()
+            .withMessage('isActive must be true or false')
+            .toBoolean()
+    ];
+};
+
+const TAX_RULE_FIELDS = ['name', 'country', 'postalCodePrefix', 'rate', 'appliesToShipping', 'isActive'];
+
+// @route   GET /api/pricing/countries
+// @desc    Get the countries shipping rules are set up for (for address pickers)
+// @access  Public
+router.get('/countries', async (req, res) => {
+    try {
+        const [countries, catchAllRules] = await Promise.all([
+            ShippingRule.distinct('countries', { isActive: true }),
+            ShippingRule.countDocuments({ isActive: true, countries: { $size: 0 } })
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                countries: countries.sort(),
+                // Without any active rule, delivery is free everywhere
+                shipsEverywhere: catchAllRules > 0 || countries.length === 0
+            }
+        });
+
+    } catch (error) {
+        console.error('Get shipping countries error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching shipping countries'
+        });
+    }
+});
+
+// @route   POST /api/pricing/estimate
+// @desc    Estimate shipping and tax for a guest cart
+// @access  Public
+router.post('/estimate', [
+    body('items')
+        .isArray({ max: 100 })
+        .withMessage('Items must be an array of at most 100 lines'),
+    body('items.*.product')
+        .isMongoId()
+        .withMessage('Please provide a valid product ID'),
+    body('items.*.variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Please provide a valid variant ID'),
+    body('items.*.quantity')
+        .isInt({ min: 1 })
+        .withMessage('Quantity must be a positive integer')
+        .toInt(),
+    body('country')
+        .isString()
+        .trim()
+        .isLength({ min: 2, max: 50 })
+        .withMessage('Country must be between 2 and 50 characters'),
+    body('postalCode')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 10 })
+        .withMessage('Postal code cannot exceed 10 characters')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { items, country, postalCode = '' } = req.body;
+
+        // Unavailable products (and removed variants) are left out, matching the guest cart totals
+        const products = await Product.find({
+            _id: { $in: items.map(item => item.product) },
+            isActive: true
+        }).select('name price quantity weight options variants');
+        const productsById = new Map(products.map(product => [product._id.toString(), product]));
+
+        const lines = items
+            .filter(item => productsById.has(item.product))
+            .map(item => {
+                const product = productsById.get(item.product);
+                const line = product.resolveVariant(item.variant || null);
+                return line.error ? null : { price: line.price, quantity: item.quantity, weight: product.weight };
+            })
+            .filter(Boolean);
+
+        const pricing = await priceCart({ lines, address: { country, postalCode } });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                totalItems: lines.reduce((total, line) => total + line.quantity, 0),
+                totalPrice: pricing.subtotal,
+                discount: pricing.discount,
+                shipping: pricing.shipping,
+                tax: pricing.tax,
+                total: pricing.total,
+                coupon: null
+            }
+        });
+
+    } catch (error) {
+        console.error('Estimate pricing error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while estimating shipping and tax'
+        });
+    }
+});
+
+// @route   GET /api/pricing/shipping-rules
+// @desc    Get all shipping rules
+// @access  Private + pricing:write
+router.get('/shipping-rules', authenticateToken, requirePermission('pricing:write'), async (req, res) => {
+    try {
+        const rules = await ShippingRule.find({}).sort({ name: 1 });
+
+        res.status(200).json({
+            success: true,
+            count: rules.length,
+            data: rules
+        });
+
+    } catch (error) {
+        console.error('Get shipping rules error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching shipping rules'
+        });
+    }
+});
+
+// @route   POST /api/pricing/shipping-rules
+// @desc    Create shipping rule
+// @access  Private + pricing:write
+router.post('/shipping-rules', [
+    authenticateToken,
+    requirePermission('pricing:write'),
+    ...shippingRuleValidation(false)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const rule = new ShippingRule({ createdBy: req.user._id });
+        SHIPPING_RULE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) rule[field] = req.body[field];
+        });
+
+        const ruleError = checkShippingRule(rule);
+        if (ruleError) {
+            return res.status(400).json({
+                success: false,
+                message: ruleError
+            });
+        }
+
+        await rule.save();
+
+        res.status(201).json({
+            success: true,
+            message: 'Shipping rule created successfully',
+            data: rule
+        });
+
+    } catch (error) {
+        console.error('Create shipping rule error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while creating shipping rule'
+        });
+    }
+});
+
+// @route   PUT /api/pricing/shipping-rules/:id
+// @desc    Update shipping rule
+// @access  Private + pricing:write
+router.put('/shipping-rules/:id', [
+    authenticateToken,
+    requirePermission('pricing:write'),
+    ...shippingRuleValidation(true)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const rule = await ShippingRule.findById(req.params.id);
+        if (!rule) {
+            return res.status(404).json({
+                success: false,
+                message: 'Shipping rule not found'
+            });
+        }
+
+        SHIPPING_RULE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) rule[field] = req.body[field];
+        });
+
+        const ruleError = checkShippingRule(rule);
+        if (ruleError) {
+            return res.status(400).json({
+                success: false,
+                message: ruleError
+            });
+        }
+
+        await rule.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Shipping rule updated successfully',
+            data: rule
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid shipping rule ID'
+            });
+        }
+
+        console.error('Update shipping rule error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating shipping rule'
+        });
+    }
+});
+
+// @route   DELETE /api/pricing/shipping-rules/:id
+// @desc    Delete shipping rule; placed orders keep their shipping snapshot
+// @access  Private + pricing:write
+router.delete('/shipping-rules/:id', authenticateToken, requirePermission('pricing:write'), async (req, res) => {
+    try {
+        const rule = await ShippingRule.findByIdAndDelete(req.params.id);
+        if (!rule) {
+            return res.status(404).json({
+                success: false,
+                message: 'Shipping rule not found'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Shipping rule deleted successfully',
+            data: { ruleId: rule._id }
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid shipping rule ID'
+            });
+        }
+
+        console.error('Delete shipping rule error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while deleting shipping rule'
+        });
+    }
+});
+
+// @route   GET /api/pricing/tax-rules
+// @desc    Get all tax rules
+// @access  Private + pricing:write
+router.get('/tax-rules', authenticateToken, requirePermission('pricing:write'), async (req, res) => {
+    try {
+        const rules = await TaxRule.find({}).sort({ country: 1, postalCodePrefix: 1 });
+
+        res.status(200).json({
+            success: true,
+            count: rules.length,
+            data: rules
+        });
+
+    } catch (error) {
+        console.error('Get tax rules error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching tax rules'
+        });
+    }
+});
+
+// @route   POST /api/pricing/tax-rules
+// @desc    Create tax rule
+// @access  Private + pricing:write
+router.post('/tax-rules', [
+    authenticateToken,
+    requirePermission('pricing:write'),
+    ...taxRuleValidation(false)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const rule = new TaxRule({ createdBy: req.user._id });
+        TAX_RULE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) rule[field] = req.body[field];
+        });
+
+        await rule.save();
+
+        res.status(201).json({
+            success: true,
+            message: 'Tax rule created successfully',
+            data: rule
+        });
+
+    } catch (error) {
+        // Handle duplicate country/postal prefix
+        if (error.code === 11000) {
+            return res.status(400).json({
+                success: false,
+                message: 'A tax rule for this country and postal code prefix already exists'
+            });
+        }
+
+        console.error('Create tax rule error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while creating tax rule'
+        });
+    }
+});
+
+// @route   PUT /api/pricing/tax-rules/:id
+// @desc    Update tax rule
+// @access  Private + pricing:write
+router.put('/tax-rules/:id', [
+    authenticateToken,
+    requirePermission('pricing:write'),
+    ...taxRuleValidation(true)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const rule = await TaxRule.findById(req.params.id);
+        if (!rule) {
+            return res.status(404).json({
+                success: false,
+                message: 'Tax rule not found'
+            });
+        }
+
+        TAX_RULE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) rule[field] = req.body[field];
+        });
+
+        await rule.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Tax rule updated successfully',
+            data: rule
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid tax rule ID'
+            });
+        }
+
+        // Handle duplicate country/postal prefix
+        if (error.code === 11000) {
+            return res.status(400).json({
+                success: false,
+                message: 'A tax rule for this country and postal code prefix already exists'
+            });
+        }
+
+        console.error('Update tax rule error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating tax rule'
+        });
+    }
+});
+
+// @route   DELETE /api/pricing/tax-rules/:id
+// @desc    Delete tax rule; placed orders keep their tax snapshot
+// @access  Private + pricing:write
+router.delete('/tax-rules/:id', authenticateToken, requirePermission('pricing:write'), async (req, res) => {
+    try {
+        const rule = await TaxRule.findByIdAndDelete(req.params.id);
+        if (!rule) {
+            return res.status(404).json({
+                success: false,
+                message: 'Tax rule not found'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Tax rule deleted successfully',
+            data: { ruleId: rule._id }
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid tax rule ID'
+            });
+        }
+
+        console.error('Delete tax rule error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while deleting tax rule'
+        });
+    }
+});
+
+module.exports = router;
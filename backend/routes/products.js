@@ -1,22 +1,262 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const Product = require('../models/Product');
 const Category = require('../models/Category');
-const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { imageUpload } = require('../middleware/upload');
+const { saveProductImage, removeProductImages } = require('../utils/productImages');
 
 const router = express.Router();
 
+// Price and quantity come from the variants when a product has them
+const hasVariants = (value, { req }) => Array.isArray(req.body.variants) && req.body.variants.length > 0;
+
+// Option axes and variants (shape only; the Product model checks they fit together)
+const variantValidation = [
+    body('options')
+        .optional()
+        .isArray({ max: Product.MAX_OPTIONS })
+        .withMessage(`A product can have at most ${Product.MAX_OPTIONS} options`),
+    body('options.*.name')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Option name must be between 1 and 30 characters'),
+    body('options.*.values')
+        .isArray({ min: 1 })
+        .withMessage('Each option needs at least one value'),
+    body('options.*.values.*')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Option values must be between 1 and 30 characters'),
+    body('variants')
+        .optional()
+        .isArray({ max: Product.MAX_VARIANTS })
+        .withMessage(`A product can have at most ${Product.MAX_VARIANTS} variants`),
+    body('variants.*._id')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid variant ID'),
+    body('variants.*.sku')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 40 })
+        .withMessage('SKU must be between 1 and 40 characters'),
+    body('variants.*.price')
+        .isFloat({ min: 0 })
+        .withMessage('Variant price must be a non-negative number'),
+    body('variants.*.quantity')
+        .isInt({ min: 0 })
+        .withMessage('Variant quantity must be a non-negative integer'),
+    body('variants.*.image')
+        .optional()
+        .isString()
+        .withMessage('Variant image must be a string'),
+    body('variants.*.options')
+        .isArray()
+        .withMessage('Variant options must be an array'),
+    body('variants.*.options.*.name')
+        .isString()
+        .withMessage('Variant option name is required'),
+    body('variants.*.options.*.value')
+        .isString()
+        .withMessage('Variant option value is required')
+];
+
+// Ordered gallery images (URLs come from POST /api/products/images or elsewhere)
+const imageValidation = [
+    body('images')
+        .optional()
+        .isArray({ max: Product.MAX_IMAGES })
+        .withMessage(`A product can have at most ${Product.MAX_IMAGES} images`),
+    body('images.*.url')
+        .isString()
+        .trim()
+        .notEmpty()
+        .withMessage('Image URL is required'),
+    body('images.*.thumbnail')
+        .optional()
+        .isString()
+        .withMessage('Thumbnail must be a string'),
+    body('images.*.alt')
+        .optional()
+        .isString()
+        .isLength({ max: 120 })
+        .withMessage('Image description cannot exceed 120 characters')
+];
+
+// Copy just the stored image fields
+const pickImages = (images) => images.map(({ url, thumbnail, alt }) => ({
+    url,
+    thumbnail: thumbnail || '',
+    alt: alt || ''
+}));
+
+// Copy just the editable variant fields; existing variants keep their _id so carts still match them
+const pickVariants = (variants) => variants.map(({ _id, sku, options, price, quantity, image }) => ({
+    ...(_id ? { _id } : {}),
+    sku,
+    options: options.map(({ name, value }) => ({ name, value })),
+    price,
+    quantity,
+    image: image || ''
+}));
+
+// Respond to model validation, duplicate SKU and stale edit errors; returns true if handled
+// Model errors are reported in the same { path, msg } shape as express-validator's
+const handleSaveError = (error, res) => {
+    if (error.name === 'ValidationError') {
+        res.status(400).json({
+            success: false,
+            message: 'Validation failed',
+            errors: Object.values(error.errors).map(err => ({ path: err.path, msg: err.message }))
+        });
+        return true;
+    }
+    if (error.name === 'DocumentNotFoundError') {
+        res.status(409).json({
+            success: false,
+            message: 'Stock changed while you were editing. Reload the product and try again'
+        });
+        return true;
+    }
+    if (error.code === 11000) {
+        res.status(400).json({
+            success: false,
+            message: error.keyPattern && error.keyPattern.sku
+                ? 'A product with this SKU already exists'
+                : 'A variant with this SKU already exists'
+        });
+        return true;
+    }
+    return false;
+};
+
 // @route   GET /api/products
-// @desc    Get all active products
+// @desc    Search active products with filters, sorting and pagination
 // @access  Public
-router.get('/', async (req, res) => {
+router.get('/', [
+    query('search')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Search must be at most 100 characters'),
+    query('category')
+        .optional()
+        .isMongoId()
+        .withMessage('Please provide a valid category ID'),
+    query('minPrice')
+        .optional()
+        .isFloat({ min: 0 })
+        .withMessage('Minimum price must be a non-negative number'),
+    query('maxPrice')
+        .optional()
+        .isFloat({ min: 0 })
+        .withMessage('Maximum price must be a non-negative number'),
+    query('minRating')
+        .optional()
+        .isFloat({ min: 1, max: 5 })
+        .withMessage('Minimum rating must be between 1 and 5'),
+    query('inStock')
+        .optional()
+        .isBoolean()
+        .withMessage('In stock must be true or false'),
+    query('sort')
+        .optional()
+        .isIn(Object.keys(Product.SORT_OPTIONS))
+        .withMessage(`Sort must be one of: ${Object.keys(Product.SORT_OPTIONS).join(', ')}`),
+    query('order')
+        .optional()
+        .isIn(['asc', 'desc'])
+        .withMessage('Order must be asc or desc'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
     try {
-        const products = await Product.getActiveProducts();
-        
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 12;
+        const skip = (page - 1) * limit;
+        const { search, category, minPrice, maxPrice, minRating, inStock } = req.query;
+
+        if (minPrice !== undefined && maxPrice !== undefined && Number(minPrice) > Number(maxPrice)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Minimum price cannot be greater than maximum price'
+            });
+        }
+
+        // Build filter
+        const filter = { isActive: true };
+
+        if (search) {
+            filter.$text = { $search: search };
+        }
+
+        // Category includes all of its subcategories
+        if (category) {
+            const categoryIds = await Category.getDescendantIds(category);
+            filter.category = { $in: categoryIds };
+        }
+
+        if (minPrice !== undefined || maxPrice !== undefined) {
+            filter.price = {};
+            if (minPrice !== undefined) {
+                filter.price.$gte = Number(minPrice);
+            }
+            if (maxPrice !== undefined) {
+                filter.price.$lte = Number(maxPrice);
+            }
+        }
+
+        if (minRating !== undefined) {
+            filter['rating.average'] = { $gte: Number(minRating) };
+        }
+
+        if (inStock === 'true') {
+            filter.quantity = { $gt: 0 };
+        }
+
+        // Default to relevance for searches, newest otherwise; name and price ascend by default
+        const sort = req.query.sort || (search ? 'relevance' : 'newest');
+        const order = req.query.order || (sort === 'name' || sort === 'price' ? 'asc' : 'desc');
+
+        const [products, totalProducts] = await Promise.all([
+            Product.searchProducts(filter, { sort, order, skip, limit }),
+            Product.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalProducts / limit);
+
         res.status(200).json({
             success: true,
             count: products.length,
-            data: products
+            data: {
+                products,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalProducts,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
         });
     } catch (error) {
         console.error('Get products error:', error);
@@ -29,27 +269,44 @@ router.get('/', async (req, res) => {
 
 // @route   POST /api/products
 // @desc    Create new product
-// @access  Private + Admin
+// @access  Private + products:write
 router.post('/', [
     authenticateToken,
-    requireAdmin,
+    requirePermission('products:write'),
     body('name')
         .isLength({ min: 2, max: 100 })
         .withMessage('Product name must be between 2 and 100 characters'),
     body('description')
         .isLength({ min: 10, max: 1000 })
         .withMessage('Description must be between 10 and 1000 characters'),
+    body('sku')
+        .optional({ values: 'falsy' })
+        .trim()
+        .isLength({ max: 40 })
+        .withMessage('SKU cannot exceed 40 characters'),
     body('price')
+        .if((value, meta) => !hasVariants(value, meta))
         .isNumeric()
         .withMessage('Price must be a number')
         .isFloat({ min: 0 })
         .withMessage('Price cannot be negative'),
     body('quantity')
+        .if((value, meta) => !hasVariants(value, meta))
         .isInt({ min: 0 })
         .withMessage('Quantity must be a non-negative integer'),
+    body('weight')
+        .optional()
+        .isFloat({ min: 0 })
+        .withMessage('Weight must be a non-negative number'),
+    body('lowStockThreshold')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Low-stock threshold must be a non-negative integer'),
     body('category')
         .isMongoId()
-        .withMessage('Please provide a valid category ID')
+        .withMessage('Please provide a valid category ID'),
+    ...variantValidation,
+    ...imageValidation
 ], async (req, res) => {
     try {
         // Check for validation errors
@@ -62,7 +319,7 @@ router.post('/', [
             });
         }
 
-        const { name, description, price, quantity, category, image } = req.body;
+        const { name, sku, description, price, quantity, weight, lowStockThreshold, category, image, images = [], options = [], variants = [] } = req.body;
 
         // Check if category exists
         const categoryExists = await Category.findById(category);
@@ -76,26 +333,37 @@ router.post('/', [
         // Create new product
         const product = new Product({
             name,
+            sku: sku || undefined,
             description,
             price,
             quantity,
+            weight,
+            lowStockThreshold,
             category,
             image,
+            images: pickImages(images),
+            options,
+            variants: pickVariants(variants),
             createdBy: req.user._id
         });
 
+        // The product is saved without stock, then stocked through logged adjustments
+        const initialStock = product.takeStockChanges();
         await product.save();
+        await Product.adjustStockLevels(product._id, initialStock, { actor: req.user._id, reason: 'Initial stock' });
 
-        // Populate category and creator info
-        await product.populate('category createdBy', 'name firstName lastName');
+        // Reload for the stock just added, with category and creator info
+        const created = await Product.findById(product._id).populate('category createdBy', 'name firstName lastName');
 
         res.status(201).json({
             success: true,
             message: 'Product created successfully',
-            data: product
+            data: created
         });
 
     } catch (error) {
+        if (handleSaveError(error, res)) return;
+
         console.error('Create product error:', error);
         res.status(500).json({
             success: false,
@@ -104,6 +372,300 @@ router.post('/', [
     }
 });
 
+// @route   POST /api/products/images
+// @desc    Upload a product photo (multipart field "image"); returns its URL and thumbnail for the gallery
+// @access  Private + products:write
+router.post('/images', authenticateToken, requirePermission('products:write'), imageUpload('image', { maxSize: 5 * 1024 * 1024 }), async (req, res) => {
+    try {
+        const image = await saveProductImage(req.file);
+
+        res.status(201).json({
+            success: true,
+            message: 'Image uploaded',
+            data: image
+        });
+
+    } catch (error) {
+        if (error.code === 'INVALID_IMAGE') {
+            return res.status(400).json({
+                success: false,
+                message: 'Image could not be read. Please upload a valid JPEG, PNG, WebP or GIF file'
+            });
+        }
+
+        console.error('Upload product image error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while uploading image'
+        });
+    }
+});
+
+// @route   GET /api/products/admin
+// @desc    Get all products including inactive ones
+// @access  Private + products:write
+router.get('/admin', authenticateToken, requirePermission('products:write'), async (req, res) => {
+    try {
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 20;
+        const skip = (page - 1) * limit;
+
+        const products = await Product.find({})
+            .populate('category createdBy updatedBy', 'name firstName lastName')
+            .skip(skip)
+            .limit(limit)
+            .sort({ createdAt: -1 });
+
+        const totalProducts = await Product.countDocuments();
+        const totalPages = Math.ceil(totalProducts / limit);
+
+        res.status(200).json({
+            success: true,
+            message: 'Products retrieved successfully',
+            data: {
+                products,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalProducts,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get admin products error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching products'
+        });
+    }
+});
+
+// @route   PUT /api/products/:id
+// @desc    Update product
+// @access  Private + products:write
+router.put('/:id', [
+    authenticateToken,
+    requirePermission('products:write'),
+    body('name')
+        .optional()
+        .isLength({ min: 2, max: 100 })
+        .withMessage('Product name must be between 2 and 100 characters'),
+    body('description')
+        .optional()
+        .isLength({ min: 10, max: 1000 })
+        .withMessage('Description must be between 10 and 1000 characters'),
+    body('sku')
+        .optional({ values: 'falsy' })
+        .trim()
+        .isLength({ max: 40 })
+        .withMessage('SKU cannot exceed 40 characters'),
+    body('price')
+        .optional()
+        .isNumeric()
+        .withMessage('Price must be a number')
+        .isFloat({ min: 0 })
+        .withMessage('Price cannot be negative'),
+    body('weight')
+        .optional()
+        .isFloat({ min: 0 })
+        .withMessage('Weight must be a non-negative number'),
+    body('lowStockThreshold')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Low-stock threshold must be a non-negative integer'),
+    body('category')
+        .optional()
+        .isMongoId()
+        .withMessage('Please provide a valid category ID'),
+    body('image')
+        .optional()
+        .isString()
+        .withMessage('Image must be a string'),
+    ...variantValidation,
+    ...imageValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const product = await Product.findById(req.params.id);
+        if (!product) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found'
+            });
+        }
+
+        // Stock is not edited here: it changes through POST /api/inventory/products/:id/adjust,
+        // so checkouts that reserve or release stock meanwhile are never overwritten
+        const { name, sku, description, price, weight, lowStockThreshold, category, image, images, options, variants } = req.body;
+
+        // Check if category exists (if category is being updated)
+        if (category && category !== product.category.toString()) {
+            const categoryExists = await Category.findById(category);
+            if (!categoryExists) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Category not found'
+                });
+            }
+        }
+
+        // Stock levels as loaded, to tell new and removed variants apart once saved
+        const stockBefore = product.getStockLevels();
+
+        // Update only editable fields (createdBy and isActive are never changed here)
+        if (name !== undefined) product.name = name;
+        if (sku !== undefined) product.sku = sku || undefined; // a blank SKU clears it
+        if (description !== undefined) product.description = description;
+        if (price !== undefined) product.price = price;
+        if (weight !== undefined) product.weight = weight;
+        if (lowStockThreshold !== undefined) product.lowStockThreshold = lowStockThreshold;
+        if (category !== undefined) product.category = category;
+        if (image !== undefined) product.image = image;
+
+        // The gallery is replaced as a whole; files of images dropped from it are deleted after saving
+        let removedImages = [];
+        if (images !== undefined) {
+            const keptUrls = new Set(images.map(entry => entry.url));
+            removedImages = product.images.filter(entry => !keptUrls.has(entry.url));
+            product.images = pickImages(images);
+
+            // Without a gallery (and no explicit image) the cover goes back to the placeholder
+            if (images.length === 0 && image === undefined) {
+                product.image = Product.schema.path('image').defaultValue;
+            }
+        }
+        // Options and variants are replaced as a whole
+        if (options !== undefined) product.options = options;
+        if (variants !== undefined) {
+            // Existing variants keep their live stock, which only moves through inventory adjustments;
+            // the save is conditional on no stock having moved since the product was loaded
+            product.$where = { quantity: product.quantity };
+            const hadVariants = product.hasVariants();
+            product.variants = pickVariants(variants).map(variant => {
+                const current = variant._id ? product.variants.id(variant._id) : null;
+                return current ? { ...variant, quantity: current.quantity } : variant;
+            });
+            // Without variants the product's own stock starts from zero, not from their old total
+            if (hadVariants && variants.length === 0) product.quantity = 0;
+        }
+        product.updatedBy = req.user._id;
+
+        // New variants are saved without stock and stocked through logged adjustments
+        const initialStock = product.takeStockChanges(stockBefore);
+        await product.save();
+        await Product.recordRemovedStock(product, stockBefore, { actor: req.user._id, reason: 'Removed in the product editor' });
+        await Product.adjustStockLevels(product._id, initialStock, { actor: req.user._id, reason: 'Initial stock' });
+
+        if (removedImages.length > 0) {
+            await removeProductImages(removedImages);
+        }
+
+        // Reload for the stock just added, with category and creator info
+        const updated = await Product.findById(product._id).populate('category createdBy updatedBy', 'name firstName lastName');
+
+        res.status(200).json({
+            success: true,
+            message: 'Product updated successfully',
+            data: updated
+        });
+
+    } catch (error) {
+        if (handleSaveError(error, res)) return;
+
+        console.error('Update product error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating product'
+        });
+    }
+});
+
+// @route   DELETE /api/products/:id
+// @desc    Soft-delete product (marks it inactive)
+// @access  Private + products:write
+router.delete('/:id', authenticateToken, requirePermission('products:write'), async (req, res) => {
+    try {
+        const product = await Product.findById(req.params.id);
+        if (!product) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found'
+            });
+        }
+
+        if (!product.isActive) {
+            return res.status(400).json({
+                success: false,
+                message: 'Product is already inactive'
+            });
+        }
+
+        await product.setActive(false, req.user._id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Product deactivated successfully',
+            data: product
+        });
+
+    } catch (error) {
+        console.error('Deactivate product error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while deactivating product'
+        });
+    }
+});
+
+// @route   PUT /api/products/:id/restore
+// @desc    Restore a soft-deleted product
+// @access  Private + products:write
+router.put('/:id/restore', authenticateToken, requirePermission('products:write'), async (req, res) => {
+    try {
+        const product = await Product.findById(req.params.id);
+        if (!product) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found'
+            });
+        }
+
+        if (product.isActive) {
+            return res.status(400).json({
+                success: false,
+                message: 'Product is already active'
+            });
+        }
+
+        await product.setActive(true, req.user._id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Product restored successfully',
+            data: product
+        });
+
+    } catch (error) {
+        console.error('Restore product error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while restoring product'
+        });
+    }
+});
+
 // @route   GET /api/products/:id
 // @desc    Get single product
 // @access  Public
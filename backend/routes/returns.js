@@ -0,0 +1,611 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const ReturnRequest = require('../models/ReturnRequest');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { getPaymentProvider } = require('../payments');
+
+const router = express.Router();
+
+// Fields populated whenever a return is sent back
+const populateReturn = (request) => request.populate([
+    { path: 'order', select: 'orderNumber status deliveryDate totalAmount payment' },
+    { path: 'customer', select: 'firstName lastName email username' },
+    { path: 'handledBy', select: 'firstName lastName' }
+]);
+
+// Build the return window deadline for a delivered order
+const getReturnDeadline = (order) => {
+    if (!order.deliveryDate) {
+        return null;
+    }
+    return new Date(order.deliveryDate.getTime() + ReturnRequest.RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+};
+
+// @route   GET /api/returns/returnable/:orderId
+// @desc    Get the items of an order that can still be returned
+// @access  Private (own order)
+router.get('/returnable/:orderId', authenticateToken, async (req, res) => {
+    try {
+        const order = await Order.findById(req.params.orderId);
+
+        if (!order || order.customer.toString() !== req.user._id.toString()) {
+            return res.status(404).json({
+                success: false,
+                message: 'Order not found'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                eligible: ReturnRequest.isWithinReturnWindow(order),
+                deadline: getReturnDeadline(order),
+                windowDays: ReturnRequest.RETURN_WINDOW_DAYS,
+                items: order.items.map(item => ({
+                    orderItem: item._id,
+                    product: item.product,
+                    options: item.options,
+                    name: item.name,
+                    price: item.price,
+                    quantity: item.quantity,
+                    returnableQuantity: Math.max(item.quantity - item.returnedQuantity, 0)
+                }))
+            }
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid order ID'
+            });
+        }
+        console.error('Get returnable items error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching returnable items'
+        });
+    }
+});
+
+// @route   POST /api/returns
+// @desc    Request a return for items of a delivered order
+// @access  Private (own order)
+router.post('/', [
+    authenticateToken,
+    body('order')
+        .isMongoId()
+        .withMessage('Please provide a valid order ID'),
+    body('items')
+        .isArray({ min: 1 })
+        .withMessage('Select at least one item to return'),
+    body('items.*.orderItem')
+        .isMongoId()
+        .withMessage('Please provide valid order item IDs'),
+    body('items.*.quantity')
+        .isInt({ min: 1 })
+        .withMessage('Return quantity must be at least 1')
+        .toInt(),
+    body('items.*.reason')
+        .isIn(ReturnRequest.RETURN_REASONS)
+        .withMessage(`Reason must be one of ${ReturnRequest.RETURN_REASONS.join(', ')}`),
+    body('items.*.comment')
+        .optional()
+        .isString()
+        .isLength({ max: 500 })
+        .withMessage('Comment cannot exceed 500 characters')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const order = await Order.findById(req.body.order);
+
+        if (!order || order.customer.toString() !== req.user._id.toString()) {
+            return res.status(404).json({
+                success: false,
+                message: 'Order not found'
+            });
+        }
+
+        if (order.status !== 'delivered') {
+            return res.status(400).json({
+                success: false,
+                message: `Only delivered orders can be returned. Current status: ${order.status}`
+            });
+        }
+
+        if (!ReturnRequest.isWithinReturnWindow(order)) {
+            return res.status(400).json({
+                success: false,
+                message: `Returns can only be requested within ${ReturnRequest.RETURN_WINDOW_DAYS} days of delivery`
+            });
+        }
+
+        const seen = new Set();
+        const items = [];
+
+        for (const line of req.body.items) {
+            if (seen.has(line.orderItem)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Each order item can only be listed once'
+                });
+            }
+            seen.add(line.orderItem);
+
+            const orderItem = order.items.id(line.orderItem);
+            if (!orderItem) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Item not found in this order'
+                });
+            }
+
+            const returnable = orderItem.quantity - orderItem.returnedQuantity;
+            if (line.quantity > returnable) {
+                return res.status(400).json({
+                    success: false,
+                    message: returnable > 0
+                        ? `You can return at most ${returnable} of ${orderItem.name}`
+                        : `${orderItem.name} has already been returned`
+                });
+            }
+
+            items.push({
+                orderItem: orderItem._id,
+                product: orderItem.product,
+                variant: orderItem.variant,
+                options: orderItem.options,
+                name: orderItem.name,
+                price: orderItem.price,
+                quantity: line.quantity,
+                reason: line.reason,
+                comment: line.comment || ''
+            });
+        }
+
+        // Claim the items on the order first so two requests can't return the same units
+        const claimed = await Order.claimReturnItems(order, items);
+        if (!claimed) {
+            return res.status(409).json({
+                success: false,
+                message: 'Some of these items were returned meanwhile. Please refresh and try again'
+            });
+        }
+
+        let request;
+        try {
+            request = await ReturnRequest.create({
+                order: order._id,
+                customer: req.user._id,
+                items,
+                estimatedRefund: ReturnRequest.calculateRefund(order, items)
+            });
+        } catch (error) {
+            await Order.releaseReturnItems(order._id, items);
+            throw error;
+        }
+
+        await populateReturn(request);
+
+        res.status(201).json({
+            success: true,
+            message: 'Return requested successfully',
+            data: request
+        });
+
+    } catch (error) {
+        console.error('Create return error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while requesting return'
+        });
+    }
+});
+
+// @route   GET /api/returns
+// @desc    Get the current user's return requests (optionally for one order)
+// @access  Private
+router.get('/', [
+    authenticateToken,
+    query('order')
+        .optional()
+        .isMongoId()
+        .withMessage('Please provide a valid order ID')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const filter = { customer: req.user._id };
+        if (req.query.order) {
+            filter.order = req.query.order;
+        }
+
+        const requests = await ReturnRequest.find(filter)
+            .populate('order', 'orderNumber status deliveryDate totalAmount')
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            count: requests.length,
+            data: requests
+        });
+
+    } catch (error) {
+        console.error('Get returns error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching returns'
+        });
+    }
+});
+
+// @route   GET /api/returns/admin
+// @desc    Get all return requests with status filter and pagination
+// @access  Private + returns:read
+router.get('/admin', [
+    authenticateToken,
+    requirePermission('returns:read'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100'),
+    query('status')
+        .optional()
+        .isIn(['requested', 'approved', 'rejected', 'received'])
+        .withMessage('Invalid return status')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 10;
+        const skip = (page - 1) * limit;
+
+        const filter = {};
+        if (req.query.status) {
+            filter.status = req.query.status;
+        }
+
+        const [returns, totalReturns] = await Promise.all([
+            ReturnRequest.find(filter)
+                .populate('order', 'orderNumber status deliveryDate totalAmount payment')
+                .populate('customer', 'firstName lastName email username')
+                .populate('handledBy', 'firstName lastName')
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit),
+            ReturnRequest.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalReturns / limit);
+
+        res.status(200).json({
+            success: true,
+            message: 'Returns retrieved successfully',
+            data: {
+                returns,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalReturns,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get admin returns error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching returns'
+        });
+    }
+});
+
+// @route   GET /api/returns/:id
+// @desc    Get a single return request
+// @access  Private (own return) or returns:read
+router.get('/:id', authenticateToken, async (req, res) => {
+    try {
+        const request = await ReturnRequest.findById(req.params.id);
+
+        if (!request) {
+            return res.status(404).json({
+                success: false,
+                message: 'Return not found'
+            });
+        }
+
+        if (request.customer.toString() !== req.user._id.toString() && !req.user.hasPermission('returns:read')) {
+            return res.status(403).json({
+                success: false,
+                message: 'You can only view your own returns'
+            });
+        }
+
+        await populateReturn(request);
+
+        res.status(200).json({
+            success: true,
+            data: request
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid return ID'
+            });
+        }
+        console.error('Get return error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching return'
+        });
+    }
+});
+
+// @route   PUT /api/returns/:id/approve
+// @desc    Approve a return request so the customer can send the items back
+// @access  Private + returns:manage
+router.put('/:id/approve', [
+    authenticateToken,
+    requirePermission('returns:manage'),
+    body('note')
+        .optional()
+        .isString()
+        .isLength({ max: 500 })
+        .withMessage('Note cannot exceed 500 characters')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const request = await ReturnRequest.transition(req.params.id, 'requested', 'approved', {
+            adminNote: (req.body.note || '').trim(),
+            handledBy: req.user._id,
+            approvedAt: new Date()
+        });
+
+        if (!request) {
+            return res.status(400).json({
+                success: false,
+                message: 'Only requested returns can be approved'
+            });
+        }
+
+        await populateReturn(request);
+
+        res.status(200).json({
+            success: true,
+            message: 'Return approved',
+            data: request
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid return ID'
+            });
+        }
+        console.error('Approve return error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while approving return'
+        });
+    }
+});
+
+// @route   PUT /api/returns/:id/reject
+// @desc    Reject a return request with a reason for the customer
+// @access  Private + returns:manage
+router.put('/:id/reject', [
+    authenticateToken,
+    requirePermission('returns:manage'),
+    body('note')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 500 })
+        .withMessage('Please give the customer a reason (up to 500 characters)')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const request = await ReturnRequest.transition(req.params.id, 'requested', 'rejected', {
+            adminNote: req.body.note,
+            handledBy: req.user._id,
+            rejectedAt: new Date()
+        });
+
+        if (!request) {
+            return res.status(400).json({
+                success: false,
+                message: 'Only requested returns can be rejected'
+            });
+        }
+
+        // The items can be returned again in a new request
+        await Order.releaseReturnItems(request.order, request.items);
+
+        await populateReturn(request);
+
+        res.status(200).json({
+            success: true,
+            message: 'Return rejected',
+            data: request
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid return ID'
+            });
+        }
+        console.error('Reject return error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while rejecting return'
+        });
+    }
+});
+
+// @route   PUT /api/returns/:id/receive
+// @desc    Mark returned items as received: restock them and refund the customer
+// @access  Private + returns:manage
+router.put('/:id/receive', [
+    authenticateToken,
+    requirePermission('returns:manage'),
+    body('refundAmount')
+        .optional()
+        .isFloat({ min: 0 })
+        .withMessage('Refund amount must be a positive number')
+        .toFloat()
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const existing = await ReturnRequest.findById(req.params.id);
+
+        if (!existing) {
+            return res.status(404).json({
+                success: false,
+                message: 'Return not found'
+            });
+        }
+
+        const order = await Order.findById(existing.order);
+        const refundable = order ? order.getRefundableAmount() : 0;
+
+        // Defaults to the estimate, capped at what is left to refund on the order
+        const requestedAmount = req.body.refundAmount ?? existing.estimatedRefund;
+        if (req.body.refundAmount !== undefined && requestedAmount > refundable) {
+            return res.status(400).json({
+                success: false,
+                message: `Refund cannot exceed the ${refundable.toFixed(2)} still refundable on this order`
+            });
+        }
+        const refundAmount = parseFloat(Math.min(requestedAmount, refundable).toFixed(2));
+
+        // Claim the transition first so the stock is only put back once
+        const request = await ReturnRequest.transition(existing._id, 'approved', 'received', {
+            handledBy: req.user._id,
+            receivedAt: new Date(),
+            'refund.amount': refundAmount,
+            'refund.status': refundAmount > 0 ? 'pending' : 'not_required'
+        });
+
+        if (!request) {
+            return res.status(400).json({
+                success: false,
+                message: 'Only approved returns can be received'
+            });
+        }
+
+        // Received items go back on the shelf
+        await Product.releaseStock(request.items, {
+            type: 'return',
+            actor: req.user._id,
+            order: request.order,
+            returnRequest: request._id,
+            reason: `Return ${request.rmaNumber} received`
+        });
+
+        let message = 'Return received and items restocked';
+
+        if (refundAmount > 0) {
+            try {
+                const refund = await getPaymentProvider().refund(order.payment.intentId, refundAmount);
+                await Order.recordRefund(order.payment.intentId, refund.id, refund.amount, request._id);
+
+                request.refund.refundId = refund.id;
+                request.refund.status = 'succeeded';
+                message = `Return received, items restocked and ${refund.amount.toFixed(2)} refunded`;
+            } catch (error) {
+                console.error('Return refund error:', error);
+                request.refund.status = 'failed';
+                request.refund.error = error.name === 'PaymentError' ? error.message : 'Refund could not be issued';
+                message = 'Return received and items restocked, but the refund failed. Issue it manually';
+            }
+            await request.save();
+        }
+
+        await populateReturn(request);
+
+        res.status(200).json({
+            success: true,
+            message,
+            data: request
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid return ID'
+            });
+        }
+        console.error('Receive return error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while receiving return'
+        });
+    }
+});
+
+module.exports = router;
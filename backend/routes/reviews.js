@@ -0,0 +1,321 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const { body, query, validationResult } = require('express-validator');
+const Review = require('../models/Review');
+const Product = require('../models/Product');
+const Order = require('../models/Order');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Shared validation rules for creating and editing a review
+const reviewRules = (optional = false) => {
+    const field = (name) => (optional ? body(name).optional() : body(name));
+
+    return [
+        field('rating')
+            .isInt({ min: 1, max: 5 })
+            .withMessage('Rating must be a whole number between 1 and 5')
+            .toInt(),
+        body('title')
+            .optional()
+            .isString()
+            .trim()
+            .isLength({ max: 100 })
+            .withMessage('Title cannot exceed 100 characters'),
+        body('comment')
+            .optional()
+            .isString()
+            .trim()
+            .isLength({ max: 2000 })
+            .withMessage('Comment cannot exceed 2000 characters')
+    ];
+};
+
+// @route   GET /api/reviews/product/:productId
+// @desc    Get reviews for a product (paginated)
+// @access  Public
+router.get('/product/:productId', [
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { productId } = req.params;
+        if (!mongoose.isObjectIdOrHexString(productId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide a valid product ID'
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 5;
+        const skip = (page - 1) * limit;
+
+        const [reviews, totalReviews] = await Promise.all([
+            Review.getProductReviews(productId, { skip, limit }),
+            Review.countDocuments({ product: productId })
+        ]);
+        const totalPages = Math.ceil(totalReviews / limit);
+
+        res.status(200).json({
+            success: true,
+            message: 'Reviews retrieved successfully',
+            data: {
+                reviews,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalReviews,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get reviews error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching reviews'
+        });
+    }
+});
+
+// @route   GET /api/reviews/product/:productId/mine
+// @desc    Get the current user's review and whether they may post one
+// @access  Private
+router.get('/product/:productId/mine', authenticateToken, async (req, res) => {
+    try {
+        const { productId } = req.params;
+        if (!mongoose.isObjectIdOrHexString(productId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide a valid product ID'
+            });
+        }
+
+        const [review, hasPurchased] = await Promise.all([
+            Review.findOne({ product: productId, user: req.user._id }),
+            Order.hasDeliveredProduct(req.user._id, productId)
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                review,
+                canReview: !review && !!hasPurchased
+            }
+        });
+
+    } catch (error) {
+        console.error('Get my review error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching review'
+        });
+    }
+});
+
+// @route   POST /api/reviews/product/:productId
+// @desc    Review a product (verified purchasers only)
+// @access  Private
+router.post('/product/:productId', [
+    authenticateToken,
+    ...reviewRules()
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { productId } = req.params;
+        if (!mongoose.isObjectIdOrHexString(productId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Please provide a valid product ID'
+            });
+        }
+
+        const product = await Product.findById(productId);
+        if (!product || !product.isActive) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found or not available'
+            });
+        }
+
+        // Only customers who received the product may review it
+        const hasPurchased = await Order.hasDeliveredProduct(req.user._id, productId);
+        if (!hasPurchased) {
+            return res.status(403).json({
+                success: false,
+                message: 'Only customers who have received this product can review it'
+            });
+        }
+
+        const { rating, title, comment } = req.body;
+
+        const review = new Review({
+            product: productId,
+            user: req.user._id,
+            rating,
+            title,
+            comment
+        });
+
+        await review.save();
+        await review.populate('user', 'username firstName lastName');
+
+        res.status(201).json({
+            success: true,
+            message: 'Review submitted successfully',
+            data: review
+        });
+
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(409).json({
+                success: false,
+                message: 'You have already reviewed this product'
+            });
+        }
+
+        console.error('Create review error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while creating review'
+        });
+    }
+});
+
+// @route   PUT /api/reviews/:id
+// @desc    Edit own review
+// @access  Private
+router.put('/:id', [
+    authenticateToken,
+    ...reviewRules(true)
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const review = await Review.findById(req.params.id);
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: 'Review not found'
+            });
+        }
+
+        if (review.user.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                message: 'You can only edit your own reviews'
+            });
+        }
+
+        const { rating, title, comment } = req.body;
+        if (rating !== undefined) review.rating = rating;
+        if (title !== undefined) review.title = title;
+        if (comment !== undefined) review.comment = comment;
+
+        await review.save();
+        await review.populate('user', 'username firstName lastName');
+
+        res.status(200).json({
+            success: true,
+            message: 'Review updated successfully',
+            data: review
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid review ID'
+            });
+        }
+
+        console.error('Update review error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating review'
+        });
+    }
+});
+
+// @route   DELETE /api/reviews/:id
+// @desc    Delete a review (author or admin)
+// @access  Private
+router.delete('/:id', authenticateToken, async (req, res) => {
+    try {
+        const review = await Review.findById(req.params.id);
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: 'Review not found'
+            });
+        }
+
+        const isAuthor = review.user.toString() === req.user._id.toString();
+        if (!isAuthor && !req.user.hasPermission('reviews:moderate')) {
+            return res.status(403).json({
+                success: false,
+                message: 'You can only delete your own reviews'
+            });
+        }
+
+        await review.deleteOne();
+
+        res.status(200).json({
+            success: true,
+            message: 'Review deleted successfully'
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid review ID'
+            });
+        }
+
+        console.error('Delete review error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while deleting review'
+        });
+    }
+});
+
+module.exports = router;
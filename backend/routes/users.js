@@ -0,0 +1,478 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const User = require('../models/User');
+const AuditLog = require('../models/AuditLog');
+const RefreshToken = require('../models/RefreshToken');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { signAccountToken } = require('../utils/tokens');
+const { sendMail, frontendUrl, templates } = require('../mailer');
+const { ROLES, ROLE_NAMES } = require('../config/roles');
+
+const router = express.Router();
+
+// Escape user input before using it in a regular expression
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Optional reason recorded in the audit trail
+const noteValidation = body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters');
+
+// Staff can't change their own account here, so nobody can lock themselves out or promote themselves
+const rejectSelf = (req, res) => {
+    if (req.params.id === req.user._id.toString()) {
+        res.status(400).json({
+            success: false,
+            message: 'You cannot change your own account from the user console'
+        });
+        return true;
+    }
+    return false;
+};
+
+// @route   GET /api/users
+// @desc    Search users with pagination
+// @access  Private + users:read
+router.get('/', [
+    authenticateToken,
+    requirePermission('users:read'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100'),
+    query('role')
+        .optional()
+        .isIn(ROLE_NAMES)
+        .withMessage('Invalid role'),
+    query('status')
+        .optional()
+        .isIn(['active', 'inactive'])
+        .withMessage('Status must be active or inactive')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 20;
+        const skip = (page - 1) * limit;
+        const { search, role, status } = req.query;
+
+        // Build filter
+        const filter = {};
+
+        if (search && search.trim()) {
+            const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+            filter.$or = [
+                { email: pattern },
+                { username: pattern },
+                { firstName: pattern },
+                { lastName: pattern }
+            ];
+        }
+
+        if (role) {
+            filter.role = role;
+        }
+
+        if (status) {
+            filter.isActive = status === 'active';
+        }
+
+        const [users, totalUsers] = await Promise.all([
+            User.find(filter)
+                .select('-cart -wishlist -addresses')
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit),
+            User.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalUsers / limit);
+
+        res.status(200).json({
+            success: true,
+            message: 'Users retrieved successfully',
+            data: {
+                users: users.map(user => user.getPublicProfile()),
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalUsers,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get users error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching users'
+        });
+    }
+});
+
+// @route   GET /api/users/roles
+// @desc    List the roles that can be assigned and the permissions each grants
+// @access  Private + users:read
+router.get('/roles', authenticateToken, requirePermission('users:read'), (req, res) => {
+    const roles = ROLE_NAMES.map(name => ({
+        name,
+        label: ROLES[name].label,
+        permissions: ROLES[name].permissions
+    }));
+
+    res.status(200).json({
+        success: true,
+        count: roles.length,
+        data: roles
+    });
+});
+
+// @route   GET /api/users/audit
+// @desc    Get the audit trail of staff changes to user accounts (optionally for one user)
+// @access  Private + users:read
+router.get('/audit', [
+    authenticateToken,
+    requirePermission('users:read'),
+    query('user')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid user ID'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const page = parseInt(req.query.page) || 1;
+        const limit = parseInt(req.query.limit) || 20;
+        const skip = (page - 1) * limit;
+        const filter = req.query.user ? { targetUser: req.query.user } : {};
+
+        const [entries, totalEntries] = await Promise.all([
+            AuditLog.getEntries(filter, { skip, limit }),
+            AuditLog.countDocuments(filter)
+        ]);
+        const totalPages = Math.ceil(totalEntries / limit);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                entries,
+                pagination: {
+                    currentPage: page,
+                    totalPages,
+                    totalEntries,
+                    hasNextPage: page < totalPages,
+                    hasPrevPage: page > 1
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get audit log error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching audit log'
+        });
+    }
+});
+
+// @route   GET /api/users/:id
+// @desc    Get a user's account, addresses and current cart
+// @access  Private + users:read
+router.get('/:id', authenticateToken, requirePermission('users:read'), async (req, res) => {
+    try {
+        const user = await User.findById(req.params.id);
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        // The raw cart is replaced by the priced summary below
+        const profile = user.getPublicProfile();
+        delete profile.cart;
+        delete profile.wishlist;
+
+        const cart = await user.getCartSummary();
+
+        res.status(200).json({
+            success: true,
+            data: {
+                user: profile,
+                cart: {
+                    items: cart.items,
+                    unavailableItems: cart.unavailableItems,
+                    summary: cart.summary
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('Get user error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid user ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching user'
+        });
+    }
+});
+
+// @route   PUT /api/users/:id/role
+// @desc    Assign a role to a user
+// @access  Private + users:manage
+router.put('/:id/role', [
+    authenticateToken,
+    requirePermission('users:manage'),
+    body('role')
+        .isIn(ROLE_NAMES)
+        .withMessage(`Role must be one of: ${ROLE_NAMES.join(', ')}`),
+    noteValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        if (rejectSelf(req, res)) return;
+
+        const user = await User.findById(req.params.id);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        const previousRole = user.role;
+        if (previousRole === req.body.role) {
+            return res.status(400).json({
+                success: false,
+                message: `${user.username} already has this role`
+            });
+        }
+
+        user.role = req.body.role;
+        await user.save();
+
+        await AuditLog.record(req, {
+            action: 'user.role_change',
+            targetUser: user._id,
+            from: previousRole,
+            to: user.role,
+            note: req.body.note
+        });
+
+        res.status(200).json({
+            success: true,
+            message: `${user.username} is now ${ROLES[user.role].label}`,
+            data: user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Assign role error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid user ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while assigning role'
+        });
+    }
+});
+
+// @route   PUT /api/users/:id/status
+// @desc    Deactivate or reactivate a user; deactivation ends all of their sessions
+// @access  Private + users:manage
+router.put('/:id/status', [
+    authenticateToken,
+    requirePermission('users:manage'),
+    body('isActive')
+        .isBoolean()
+        .withMessage('isActive must be true or false')
+        .toBoolean(),
+    noteValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        if (rejectSelf(req, res)) return;
+
+        const { isActive } = req.body;
+
+        // Only flip the flag if it isn't already set, so concurrent requests log one change
+        const user = await User.findOneAndUpdate(
+            { _id: req.params.id, isActive: !isActive },
+            { isActive },
+            { new: true }
+        );
+
+        if (!user) {
+            const exists = await User.exists({ _id: req.params.id });
+            return res.status(exists ? 400 : 404).json({
+                success: false,
+                message: exists ? `User is already ${isActive ? 'active' : 'deactivated'}` : 'User not found'
+            });
+        }
+
+        if (!isActive) {
+            await RefreshToken.revokeAllForUser(user._id);
+        }
+
+        await AuditLog.record(req, {
+            action: isActive ? 'user.reactivate' : 'user.deactivate',
+            targetUser: user._id,
+            from: !isActive,
+            to: isActive,
+            note: req.body.note
+        });
+
+        res.status(200).json({
+            success: true,
+            message: `${user.username} has been ${isActive ? 'reactivated' : 'deactivated'}`,
+            data: user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Update user status error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid user ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while updating user status'
+        });
+    }
+});
+
+// @route   POST /api/users/:id/password-reset
+// @desc    Force a password reset: end all sessions, block login and email a reset link
+// @access  Private + users:manage
+router.post('/:id/password-reset', [
+    authenticateToken,
+    requirePermission('users:manage'),
+    noteValidation
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        if (rejectSelf(req, res)) return;
+
+        // The reset token is tied to the current password hash
+        const user = await User.findById(req.params.id).select('+password');
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        user.passwordResetRequired = true;
+        await user.save();
+        await RefreshToken.revokeAllForUser(user._id);
+
+        await AuditLog.record(req, {
+            action: 'user.password_reset',
+            targetUser: user._id,
+            note: req.body.note
+        });
+
+        // Login is already blocked, and the user can request another link through "Forgot password"
+        let emailSent = true;
+        try {
+            const link = frontendUrl('/reset-password', { token: signAccountToken(user, 'reset_password') });
+            await sendMail({ to: user.email, ...templates.passwordResetEmail({ user, link }) });
+        } catch (error) {
+            emailSent = false;
+            console.error('Send password reset email error:', error);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: emailSent
+                ? `Password reset required. A reset link was sent to ${user.email}`
+                : 'Password reset required, but the reset email could not be sent. The user can request one with "Forgot password"',
+            data: user.getPublicProfile()
+        });
+
+    } catch (error) {
+        console.error('Force password reset error:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid user ID'
+            });
+        }
+        res.status(500).json({
+            success: false,
+            message: 'Server error while forcing password reset'
+        });
+    }
+});
+
+module.exports = router;
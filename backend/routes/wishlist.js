@@ -0,0 +1,300 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const User = require('../models/User');
+const Product = require('../models/Product');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+// @route   GET /api/wishlist
+// @desc    Get user's wishlist
+// @access  Private
+router.get('/', authenticateToken, async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id)
+            .populate('wishlist.product', 'name description price image isActive quantity rating options variants');
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        // Inactive products stay listed (flagged by isActive) so users can see what changed
+        const items = user.wishlist.filter(item => item.product);
+
+        res.status(200).json({
+            success: true,
+            count: items.length,
+            data: { items }
+        });
+
+    } catch (error) {
+        console.error('Get wishlist error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while fetching wishlist'
+        });
+    }
+});
+
+// @route   POST /api/wishlist/add/:productId
+// @desc    Add item to wishlist, optionally with a chosen variant
+// @access  Private
+router.post('/add/:productId', [
+    authenticateToken,
+    body('quantity')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Quantity must be a positive integer')
+        .toInt(),
+    body('variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Please provide a valid variant ID')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { productId } = req.params;
+        const { quantity = 1, variant = null } = req.body;
+
+        // Check if product exists and is active
+        const product = await Product.findById(productId);
+        if (!product || !product.isActive) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found or not available'
+            });
+        }
+
+        // The variant can be left out and chosen later, but must exist if given
+        if (variant) {
+            const line = product.resolveVariant(variant);
+            if (line.error) {
+                return res.status(400).json({
+                    success: false,
+                    message: line.error
+                });
+            }
+        }
+
+        const user = await User.findById(req.user._id);
+        await user.addToWishlist(productId, quantity, variant);
+
+        res.status(200).json({
+            success: true,
+            message: `Added ${product.name} to wishlist`,
+            data: {
+                productId,
+                productName: product.name
+            }
+        });
+
+    } catch (error) {
+        if (error.name === 'CastError') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid product ID'
+            });
+        }
+
+        console.error('Add to wishlist error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while adding to wishlist'
+        });
+    }
+});
+
+// @route   DELETE /api/wishlist/remove/:productId
+// @desc    Remove a line from the wishlist (?variant= picks the line)
+// @access  Private
+router.delete('/remove/:productId', [
+    authenticateToken,
+    query('variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Please provide a valid variant ID')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { productId } = req.params;
+        const variant = req.query.variant || null;
+
+        const user = await User.findById(req.user._id);
+        const existingItem = user.findWishlistItem(productId, variant);
+
+        if (!existingItem) {
+            return res.status(404).json({
+                success: false,
+                message: 'Item not found in wishlist'
+            });
+        }
+
+        await user.removeFromWishlist(productId, variant);
+
+        res.status(200).json({
+            success: true,
+            message: 'Item removed from wishlist',
+            data: { productId, variant }
+        });
+
+    } catch (error) {
+        console.error('Remove from wishlist error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while removing from wishlist'
+        });
+    }
+});
+
+// @route   POST /api/wishlist/save-for-later/:productId
+// @desc    Move a cart line to the wishlist, keeping its quantity (?variant= picks the line)
+// @access  Private
+router.post('/save-for-later/:productId', [
+    authenticateToken,
+    query('variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Please provide a valid variant ID')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { productId } = req.params;
+
+        const user = await User.findById(req.user._id);
+        await user.moveToWishlist(productId, req.query.variant || null);
+
+        res.status(200).json({
+            success: true,
+            message: 'Item saved for later',
+            data: { productId }
+        });
+
+    } catch (error) {
+        if (error.message === 'Item not found in cart') {
+            return res.status(404).json({
+                success: false,
+                message: 'Item not found in cart'
+            });
+        }
+
+        console.error('Save for later error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while saving item for later'
+        });
+    }
+});
+
+// @route   POST /api/wishlist/move-to-cart/:productId
+// @desc    Move a wishlist line to the cart, keeping its quantity (?variant= picks the line)
+// @access  Private
+router.post('/move-to-cart/:productId', [
+    authenticateToken,
+    query('variant')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Please provide a valid variant ID')
+], async (req, res) => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Validation failed',
+                errors: errors.array()
+            });
+        }
+
+        const { productId } = req.params;
+        const variant = req.query.variant || null;
+
+        const user = await User.findById(req.user._id);
+        const wishlistItem = user.findWishlistItem(productId, variant);
+        if (!wishlistItem) {
+            return res.status(404).json({
+                success: false,
+                message: 'Item not found in wishlist'
+            });
+        }
+
+        // Check if product exists and is active
+        const product = await Product.findById(productId);
+        if (!product || !product.isActive) {
+            return res.status(404).json({
+                success: false,
+                message: 'Product not found or not available'
+            });
+        }
+
+        // Products with options need a variant before they can go in the cart
+        const line = product.resolveVariant(wishlistItem.variant);
+        if (line.error) {
+            return res.status(400).json({
+                success: false,
+                message: line.error
+            });
+        }
+
+        // Check if total quantity (cart + wishlist line) exceeds stock
+        const cartItem = user.findCartItem(productId, wishlistItem.variant);
+        const currentQuantity = cartItem ? cartItem.quantity : 0;
+        if (currentQuantity + wishlistItem.quantity > line.quantity) {
+            return res.status(400).json({
+                success: false,
+                message: `Cannot move ${wishlistItem.quantity} items to cart. Only ${Math.max(line.quantity - currentQuantity, 0)} more available`
+            });
+        }
+
+        await user.moveToCart(productId, variant);
+
+        res.status(200).json({
+            success: true,
+            message: `Moved ${line.label} to cart`,
+            data: {
+                productId,
+                productName: product.name,
+                quantity: wishlistItem.quantity
+            }
+        });
+
+    } catch (error) {
+        console.error('Move to cart error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error while moving item to cart'
+        });
+    }
+});
+
+module.exports = router;
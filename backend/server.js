@@ -5,9 +5,6 @@ const mongoose = require('mongoose');
 const connectDB = require('./config/database');
 require('dotenv').config();
 
-// Connect to database
-connectDB();
-
 // Create Express application instance
 const app = express();
 
@@ -17,12 +14,20 @@ const PORT = process.env.PORT || 5000;
 // Middleware Setup
 app.use(cors({
     origin: ['http://localhost:3000', 'http://127.0.0.1:3000'],
-    credentials: true
+    credentials: true,
+    // Read by the catalogue export download
+    exposedHeaders: ['Content-Disposition', 'X-Products-Without-Sku']
 }));
 
-app.use(express.json({ limit: '10mb' }));
+// Payment webhooks are signed over the raw body, so they must skip JSON parsing
+app.use('/api/payments/webhook', express.raw({ type: 'application/json' }));
+// Images are uploaded as multipart files, so JSON bodies stay small
+app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Files saved by the local storage driver (avatars and product images)
+app.use('/uploads', express.static(require('./storage').UPLOAD_DIR));
+
 // Routes
 app.get('/', (req, res) => {
     res.json({ 
@@ -43,19 +48,44 @@ app.get('/api/health', (req, res) => {
 
 // API Routes
 app.use('/api/auth', require('./routes/auth'));
+app.use('/api/users', require('./routes/users'));
 app.use('/api/categories', require('./routes/categories'));
 app.use('/api/products', require('./routes/products'));
+app.use('/api/inventory', require('./routes/inventory'));
+app.use('/api/catalog', require('./routes/catalog'));
 app.use('/api/cart', require('./routes/cart'));
+app.use('/api/wishlist', require('./routes/wishlist'));
+app.use('/api/addresses', require('./routes/addresses'));
 app.use('/api/orders', require('./routes/order'));
+app.use('/api/reviews', require('./routes/reviews'));
+app.use('/api/coupons', require('./routes/coupons'));
+app.use('/api/pricing', require('./routes/pricing'));
+app.use('/api/payments', require('./routes/payments'));
+app.use('/api/returns', require('./routes/returns'));
+app.use('/api/analytics', require('./routes/analytics'));
 
-// Start server
-app.listen(PORT, '0.0.0.0', () => {
-    console.log(`🚀 Server running on port ${PORT}`);
-    console.log(`📍 Health check: http://localhost:${PORT}/api/health`);
-    console.log(`🔐 Auth endpoints: http://localhost:${PORT}/api/auth`);
-    console.log(`📂 Category endpoints: http://localhost:${PORT}/api/categories`);
-    console.log(`🛍️ Product endpoints: http://localhost:${PORT}/api/products`);
-    console.log(`🛒 Cart endpoints: http://localhost:${PORT}/api/cart`);
-    console.log(`📦 Order endpoints: http://localhost:${PORT}/api/orders`);
+// Start server once the database is connected and its startup migrations have run,
+// so no request is served against data that isn't ready yet
+connectDB().then(() => {
+    app.listen(PORT, '0.0.0.0', () => {
+        console.log(`🚀 Server running on port ${PORT}`);
+        console.log(`📍 Health check: http://localhost:${PORT}/api/health`);
+        console.log(`🔐 Auth endpoints: http://localhost:${PORT}/api/auth`);
+        console.log(`👥 User admin endpoints: http://localhost:${PORT}/api/users`);
+        console.log(`📂 Category endpoints: http://localhost:${PORT}/api/categories`);
+        console.log(`🛍️ Product endpoints: http://localhost:${PORT}/api/products`);
+        console.log(`📊 Inventory endpoints: http://localhost:${PORT}/api/inventory`);
+        console.log(`📑 Catalog import/export endpoints: http://localhost:${PORT}/api/catalog`);
+        console.log(`🛒 Cart endpoints: http://localhost:${PORT}/api/cart`);
+        console.log(`❤️ Wishlist endpoints: http://localhost:${PORT}/api/wishlist`);
+        console.log(`🏠 Address endpoints: http://localhost:${PORT}/api/addresses`);
+        console.log(`📦 Order endpoints: http://localhost:${PORT}/api/orders`);
+        console.log(`⭐ Review endpoints: http://localhost:${PORT}/api/reviews`);
+        console.log(`🏷️ Coupon endpoints: http://localhost:${PORT}/api/coupons`);
+        console.log(`🚚 Pricing endpoints: http://localhost:${PORT}/api/pricing`);
+        console.log(`💳 Payment endpoints: http://localhost:${PORT}/api/payments`);
+        console.log(`↩️ Return endpoints: http://localhost:${PORT}/api/returns`);
+        console.log(`📈 Analytics endpoints: http://localhost:${PORT}/api/analytics`);
+    });
 });
 
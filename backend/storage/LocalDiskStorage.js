@@ -0,0 +1,43 @@
+const fs = require('fs/promises');
+const path = require('path');
+const StorageDriver = require('./StorageDriver');
+
+// Stores files under a local directory that server.js serves at /uploads
+class LocalDiskStorage extends StorageDriver {
+    constructor({ directory, baseUrl }) {
+        super('local');
+        this.directory = path.resolve(directory);
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    // Resolve a key inside the upload directory, refusing keys that escape it
+    resolve(key) {
+        const filePath = path.resolve(this.directory, key);
+        if (!filePath.startsWith(this.directory + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async save(key, buffer) {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+        return key;
+    }
+
+    async remove(key) {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    url(key) {
+        return `${this.baseUrl}/${key}`;
+    }
+
+    keyFromUrl(url) {
+        const prefix = `${this.baseUrl}/`;
+        return typeof url === 'string' && url.startsWith(prefix) ? url.slice(prefix.length) : null;
+    }
+}
+
+module.exports = LocalDiskStorage;
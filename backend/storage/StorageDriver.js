@@ -0,0 +1,30 @@
+// Interface every file storage driver implements
+// Files are addressed by a key such as 'avatars/5f1c...e9.png'; url() turns a key into the address
+// clients load it from, and keyFromUrl() maps such an address back (null for files stored elsewhere).
+class StorageDriver {
+    constructor(name) {
+        this.name = name;
+    }
+
+    // Store a file and return its key
+    async save(key, buffer, { contentType } = {}) {
+        throw new Error(`${this.name} storage does not implement save`);
+    }
+
+    // Delete a file; deleting a missing file is not an error
+    async remove(key) {
+        throw new Error(`${this.name} storage does not implement remove`);
+    }
+
+    // Public URL of a stored file
+    url(key) {
+        throw new Error(`${this.name} storage does not implement url`);
+    }
+
+    // Key of a URL returned by url(), or null if the URL doesn't point at this storage
+    keyFromUrl(url) {
+        throw new Error(`${this.name} storage does not implement keyFromUrl`);
+    }
+}
+
+module.exports = StorageDriver;
@@ -0,0 +1,34 @@
+const path = require('path');
+const StorageDriver = require('./StorageDriver');
+const LocalDiskStorage = require('./LocalDiskStorage');
+
+// Where local uploads are kept; server.js serves this directory at /uploads
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(__dirname, '..', 'uploads');
+
+// Drivers selectable through STORAGE_DRIVER
+const drivers = {
+    local: () => new LocalDiskStorage({
+        directory: UPLOAD_DIR,
+        baseUrl: process.env.UPLOADS_BASE_URL || `http://localhost:${process.env.PORT || 5000}/uploads`
+    })
+};
+
+let storage = null;
+
+// Get the configured storage driver (one instance per process)
+const getStorage = () => {
+    if (!storage) {
+        const name = process.env.STORAGE_DRIVER || 'local';
+        const create = drivers[name];
+
+        if (!create) {
+            throw new Error(`Unknown storage driver: ${name}`);
+        }
+
+        storage = create();
+    }
+
+    return storage;
+};
+
+module.exports = { getStorage, StorageDriver, UPLOAD_DIR };
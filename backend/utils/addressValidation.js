@@ -0,0 +1,31 @@
+const { body } = require('express-validator');
+
+// Shipping address rules shared by checkout and the address book
+// prefix is the path of the address object in the request body, e.g. 'shippingAddress.'
+const addressValidation = (prefix = '') => [
+    body(`${prefix}fullName`)
+        .isLength({ min: 2, max: 100 })
+        .withMessage('Full name must be between 2 and 100 characters'),
+    body(`${prefix}address`)
+        .isLength({ min: 10, max: 200 })
+        .withMessage('Address must be between 10 and 200 characters'),
+    body(`${prefix}city`)
+        .isLength({ min: 2, max: 50 })
+        .withMessage('City must be between 2 and 50 characters'),
+    body(`${prefix}postalCode`)
+        .isLength({ min: 4, max: 10 })
+        .withMessage('Postal code must be between 4 and 10 characters'),
+    body(`${prefix}country`)
+        .isLength({ min: 2, max: 50 })
+        .withMessage('Country must be between 2 and 50 characters')
+];
+
+// Fields that make up a shipping address
+const ADDRESS_FIELDS = ['fullName', 'address', 'city', 'postalCode', 'country'];
+
+// Copy just the address fields out of a request body or document
+const pickAddress = (source = {}) => {
+    return Object.fromEntries(ADDRESS_FIELDS.map(field => [field, source[field]]));
+};
+
+module.exports = { addressValidation, pickAddress, ADDRESS_FIELDS };
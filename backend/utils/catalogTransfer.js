@@ -0,0 +1,365 @@
+const { once } = require('events');
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const { parseCsv, toCsvLine, unescapeFormula } = require('./csv');
+const { removeProductImages } = require('./productImages');
+
+// Columns of the CSV format, shared by import and export so an export can be re-imported.
+// images holds gallery URLs separated by "|". Options and variants are only carried by JSON.
+const CATALOG_COLUMNS = ['sku', 'name', 'description', 'price', 'quantity', 'weight', 'lowStockThreshold', 'category', 'images', 'isActive'];
+
+// Rows accepted in one import
+const MAX_IMPORT_ROWS = 1000;
+
+// Error for a file that can't be read at all (as opposed to rows with problems)
+const importFileError = (message) => {
+    const error = new Error(message);
+    error.name = 'ImportFileError';
+    return error;
+};
+
+// Turn an uploaded CSV or JSON file (req.file from dataFileUpload) into plain row objects
+// JSON may be an array of products or { products: [...] }, e.g. a previous export.
+const readImportFile = (file) => {
+    const text = file.buffer.toString('utf8');
+    let rows;
+
+    if (file.format === 'json') {
+        let data;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw importFileError(`File is not valid JSON: ${error.message}`);
+        }
+
+        rows = Array.isArray(data) ? data : data && Array.isArray(data.products) ? data.products : null;
+        if (!rows) {
+            throw importFileError('JSON must be an array of products or an object with a "products" array');
+        }
+        rows = rows.map(row => (row && typeof row === 'object' && !Array.isArray(row) ? row : {}));
+    } else {
+        let lines;
+        try {
+            lines = parseCsv(text);
+        } catch (error) {
+            throw importFileError(`CSV could not be read: ${error.message}`);
+        }
+
+        if (lines.length === 0) {
+            throw importFileError('File is empty');
+        }
+
+        // Header names are matched without regard to case
+        const columns = new Map(CATALOG_COLUMNS.map(column => [column.toLowerCase(), column]));
+        const header = lines[0].map(name => columns.get(name.trim().toLowerCase()) || null);
+        if (!header.includes('sku')) {
+            throw importFileError(`CSV needs a header row with a "sku" column. Known columns: ${CATALOG_COLUMNS.join(', ')}`);
+        }
+
+        rows = lines.slice(1).map(cells => Object.fromEntries(
+            header
+                .map((column, index) => [column, cells[index] === undefined ? undefined : unescapeFormula(cells[index])])
+                .filter(([column, value]) => column && value !== undefined && value.trim() !== '')
+        ));
+    }
+
+    if (rows.length === 0) {
+        throw importFileError('File has no products in it');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+        throw importFileError(`A file can hold at most ${MAX_IMPORT_ROWS} products; split it into smaller files`);
+    }
+
+    return rows;
+};
+
+const isBlank = (value) => value === undefined || value === null || String(value).trim() === '';
+
+// Read the fields a row sets; blank fields are left out so updates keep the current value
+// Returns { sku, fields, errors } where fields is ready to assign to a Product.
+const normalizeRow = (raw, categoriesByName) => {
+    const errors = [];
+    const fields = {};
+
+    const sku = isBlank(raw.sku) ? '' : String(raw.sku).trim().toUpperCase();
+    if (!sku) {
+        errors.push('SKU is required');
+    }
+
+    ['name', 'description'].forEach(field => {
+        if (!isBlank(raw[field])) {
+            fields[field] = String(raw[field]).trim();
+        }
+    });
+
+    [
+        { field: 'price', integer: false, label: 'Price' },
+        { field: 'quantity', integer: true, label: 'Quantity' },
+        { field: 'weight', integer: false, label: 'Weight' },
+        { field: 'lowStockThreshold', integer: true, label: 'Low-stock threshold' }
+    ].forEach(({ field, integer, label }) => {
+        if (isBlank(raw[field])) return;
+
+        const value = Number(raw[field]);
+        if (Number.isNaN(value) || value < 0 || (integer && !Number.isInteger(value))) {
+            errors.push(`${label} must be a non-negative ${integer ? 'integer' : 'number'}`);
+        } else {
+            fields[field] = value;
+        }
+    });
+
+    if (!isBlank(raw.category)) {
+        const name = String(raw.category).trim();
+        const category = categoriesByName.get(name.toLowerCase());
+        if (!category) {
+            errors.push(`Category "${name}" not found`);
+        } else if (!category.isActive) {
+            errors.push(`Category "${category.name}" is inactive`);
+        } else {
+            fields.category = category._id;
+        }
+    }
+
+    if (!isBlank(raw.isActive)) {
+        const value = String(raw.isActive).trim().toLowerCase();
+        if (['true', 'yes', '1'].includes(value)) {
+            fields.isActive = true;
+        } else if (['false', 'no', '0'].includes(value)) {
+            fields.isActive = false;
+        } else {
+            errors.push('isActive must be true or false');
+        }
+    }
+
+    // CSV gives "url1|url2"; JSON gives an array of URLs or { url, thumbnail, alt } objects
+    if (raw.images !== undefined && raw.images !== null) {
+        const images = Array.isArray(raw.images) ? raw.images : String(raw.images).split('|');
+        fields.images = images
+            .map(image => (typeof image === 'string' ? { url: image } : image || {}))
+            .filter(image => !isBlank(image.url))
+            .map(image => ({
+                url: String(image.url).trim(),
+                thumbnail: isBlank(image.thumbnail) ? '' : String(image.thumbnail).trim(),
+                alt: isBlank(image.alt) ? '' : String(image.alt).trim()
+            }));
+    }
+
+    if (raw.options !== undefined) {
+        if (!Array.isArray(raw.options)) {
+            errors.push('Options must be a list');
+        } else {
+            fields.options = raw.options;
+        }
+    }
+    if (raw.variants !== undefined) {
+        if (!Array.isArray(raw.variants)) {
+            errors.push('Variants must be a list');
+        } else {
+            fields.variants = raw.variants;
+        }
+    }
+
+    return { sku, fields, errors };
+};
+
+// Model validation messages for a product, e.g. from variants that don't fit the options
+const validationMessages = async (product) => {
+    try {
+        await product.validate();
+        return [];
+    } catch (error) {
+        if (error.name !== 'ValidationError') throw error;
+        return Object.values(error.errors).map(err => err.message);
+    }
+};
+
+// Import products from row objects, creating new SKUs and updating existing ones
+// Rows with errors are skipped; with dryRun nothing is saved and the report says what would happen.
+// Returns { dryRun, totalRows, created, updated, failed, rows: [{ row, sku, name, action, errors }] }
+// where row is the 1-based position of the product in the file.
+const importProducts = async (rows, { dryRun, actor }) => {
+    const [categories, existingProducts] = await Promise.all([
+        Category.find({}).select('name isActive'),
+        Product.find({ sku: { $in: rows.map(raw => String(raw.sku || '').trim().toUpperCase()).filter(Boolean) } })
+    ]);
+    const categoriesByName = new Map(categories.map(category => [category.name.toLowerCase(), category]));
+    const productsBySku = new Map(existingProducts.map(product => [product.sku, product]));
+
+    const report = { dryRun, totalRows: rows.length, created: 0, updated: 0, failed: 0, rows: [] };
+    const seenSkus = new Set();
+
+    for (const [index, raw] of rows.entries()) {
+        const { sku, fields, errors } = normalizeRow(raw, categoriesByName);
+        const existing = productsBySku.get(sku);
+        const line = { row: index + 1, sku, name: fields.name || (existing ? existing.name : ''), action: existing ? 'update' : 'create', errors };
+
+        if (sku && seenSkus.has(sku)) {
+            errors.push(`SKU ${sku} appears more than once in the file`);
+        }
+        seenSkus.add(sku);
+
+        const sellsVariants = Array.isArray(fields.variants) ? fields.variants.length > 0 : !!existing && existing.hasVariants();
+        if (!existing) {
+            if (!fields.name) errors.push('Name is required for new products');
+            if (!fields.description) errors.push('Description is required for new products');
+            if (!fields.category) errors.push('Category is required for new products');
+            if (!sellsVariants && fields.price === undefined) errors.push('Price is required for new products');
+        }
+
+        let product = null;
+        let stockBefore = [];
+        let stockChanges = [];
+        let removedImages = [];
+
+        if (errors.length === 0) {
+            product = existing || new Product({ sku, quantity: 0, createdBy: actor });
+            stockBefore = existing ? existing.getStockLevels() : [];
+
+            // A product that stops selling variants doesn't inherit their total as its own stock
+            if (existing && existing.hasVariants() && !sellsVariants && fields.quantity === undefined) {
+                fields.quantity = 0;
+            }
+
+            if (existing && fields.images) {
+                const keptUrls = new Set(fields.images.map(image => image.url));
+                removedImages = existing.images.filter(image => !keptUrls.has(image.url));
+            }
+            if (fields.variants) {
+                // Variants keep their IDs (and so cart lines) and, without a quantity, their stock when matched by SKU
+                fields.variants = fields.variants.map(variant => {
+                    const match = existing && variant && variant.sku
+                        ? existing.variants.find(entry => entry.sku === String(variant.sku).trim().toUpperCase())
+                        : null;
+                    return match ? { quantity: match.quantity, ...variant, _id: match._id } : variant;
+                });
+            }
+
+            product.set(fields);
+            if (existing) {
+                product.updatedBy = actor;
+                // Only saved if no stock moved since the product was loaded
+                product.$where = { quantity: existing.quantity };
+            }
+            // Stock in the file is applied as adjustments from the saved levels, after the save
+            stockChanges = product.takeStockChanges(stockBefore);
+            errors.push(...await validationMessages(product));
+        }
+
+        if (errors.length === 0 && !dryRun) {
+            try {
+                await product.save();
+                await Product.recordRemovedStock(product, stockBefore, { actor, reason: 'Removed by bulk import' });
+                const failed = await Product.adjustStockLevels(product._id, stockChanges, { actor, reason: 'Bulk import' });
+                failed.forEach(({ variant }) => {
+                    const entry = variant ? product.variants.id(variant) : null;
+                    errors.push(`Stock${entry ? ` of variant ${entry.sku}` : ''} could not be set: it was sold while importing`);
+                });
+                if (removedImages.length > 0) {
+                    await removeProductImages(removedImages);
+                }
+            } catch (error) {
+                if (error.name === 'DocumentNotFoundError') {
+                    errors.push('Stock changed while importing; import this product again');
+                } else if (error.code === 11000) {
+                    errors.push(error.keyPattern && error.keyPattern.sku
+                        ? `Another product already uses SKU ${sku}`
+                        : 'A variant SKU is already used by another product');
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        if (errors.length > 0) {
+            line.action = 'error';
+            report.failed++;
+        } else if (existing) {
+            report.updated++;
+        } else {
+            report.created++;
+        }
+        report.rows.push(line);
+    }
+
+    return report;
+};
+
+// Flatten a product (lean, with category populated) into an export record
+// CSV uses the catalogue columns only; JSON adds options and variants.
+const toExportRecord = (product, format) => {
+    const record = {
+        sku: product.sku || '',
+        name: product.name,
+        description: product.description,
+        price: product.price,
+        quantity: product.quantity,
+        weight: product.weight || 0,
+        lowStockThreshold: product.lowStockThreshold,
+        category: product.category ? product.category.name : '',
+        images: (product.images || []).map(({ url, thumbnail, alt }) => ({ url, thumbnail, alt })),
+        isActive: product.isActive
+    };
+
+    if (format === 'csv') {
+        return CATALOG_COLUMNS.map(column => (column === 'images' ? record.images.map(image => image.url).join('|') : record[column]));
+    }
+
+    return {
+        ...record,
+        options: (product.options || []).map(({ name, values }) => ({ name, values })),
+        variants: (product.variants || []).map(({ sku, options, price, quantity, image }) => ({
+            sku,
+            options: options.map(({ name, value }) => ({ name, value })),
+            price,
+            quantity,
+            image
+        }))
+    };
+};
+
+// Write every product (active or not) to res as CSV or JSON, one product at a time
+// Nothing is sent until the first product has been read, so a failing query can still get an error
+// response; headers are then sent along with X-Products-Without-Sku, the number of products an
+// import can't match back. Waits for the socket to drain when it is busy so a large catalogue
+// isn't buffered in memory.
+const streamCatalog = async (res, format, headers) => {
+    const write = async (chunk) => {
+        if (!res.write(chunk)) {
+            await once(res, 'drain');
+        }
+    };
+
+    const withoutSku = await Product.countDocuments({ sku: { $not: { $type: 'string' } } });
+    const cursor = Product.find({})
+        .populate('category', 'name')
+        .sort({ name: 1 })
+        .lean()
+        .cursor();
+
+    // The cursor is closed even when the client goes away mid-download
+    try {
+        let product = await cursor.next();
+        res.status(200).set({ ...headers, 'X-Products-Without-Sku': String(withoutSku) });
+
+        if (format === 'csv') {
+            await write(toCsvLine(CATALOG_COLUMNS));
+            for (; product; product = await cursor.next()) {
+                await write(toCsvLine(toExportRecord(product, 'csv')));
+            }
+        } else {
+            let first = true;
+            await write('[\n');
+            for (; product; product = await cursor.next()) {
+                await write(`${first ? '' : ',\n'}${JSON.stringify(toExportRecord(product, 'json'))}`);
+                first = false;
+            }
+            await write('\n]\n');
+        }
+
+        res.end();
+    } finally {
+        await cursor.close();
+    }
+};
+
+module.exports = { CATALOG_COLUMNS, MAX_IMPORT_ROWS, readImportFile, importProducts, streamCatalog };
@@ -0,0 +1,78 @@
+// Minimal CSV support (RFC 4180): comma-separated, fields optionally quoted with "",
+// quotes inside quoted fields doubled, and CRLF or LF line endings.
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Parse CSV text into an array of rows, each an array of field strings
+// Throws when a quoted field is never closed.
+const parseCsv = (text) => {
+    const rows = [];
+    let row = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Skip a UTF-8 byte order mark left by spreadsheet exports
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error('Unterminated quoted field');
+    }
+
+    // Last line without a trailing newline
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines carry no data
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Quote a value for CSV output when it contains a delimiter, quote or line break
+// A value that would start a formula gets a leading ' so spreadsheets show it as text.
+const escapeCsv = (value) => {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (FORMULA_START.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Drop the ' that escapeCsv puts before a formula-like value, so exports import unchanged
+const unescapeFormula = (field) => (field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field);
+
+// Format one CSV line (with its line ending) from an array of values
+const toCsvLine = (values) => `${values.map(escapeCsv).join(',')}\r\n`;
+
+module.exports = { parseCsv, toCsvLine, unescapeFormula };
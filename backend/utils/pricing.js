@@ -0,0 +1,65 @@
+const ShippingRule = require('../models/ShippingRule');
+const TaxRule = require('../models/TaxRule');
+
+const roundMoney = (amount) => parseFloat(amount.toFixed(2));
+
+// Price a cart for delivery to an address
+// lines are { price, quantity, weight }; discount is the coupon amount already worked out
+// and freeShipping comes from a free-shipping coupon. Without an address (or country)
+// only the subtotal and discount are known, so shipping and tax are returned as null.
+const priceCart = async ({ lines, discount = 0, freeShipping = false, address = null }) => {
+    const subtotal = roundMoney(lines.reduce((total, line) => total + line.price * line.quantity, 0));
+    const discountedSubtotal = roundMoney(Math.max(subtotal - discount, 0));
+
+    const pricing = {
+        subtotal,
+        discount,
+        shipping: null,
+        tax: null,
+        total: discountedSubtotal
+    };
+
+    if (!address || !address.country || !address.country.trim()) {
+        return pricing;
+    }
+
+    const shippingRule = await ShippingRule.findForAddress(address);
+    let shippingAmount = 0;
+
+    if (shippingRule) {
+        const totalWeight = lines.reduce((total, line) => total + (line.weight || 0) * line.quantity, 0);
+        shippingAmount = freeShipping ? 0 : roundMoney(shippingRule.calculateCost(totalWeight, discountedSubtotal));
+    } else if (await ShippingRule.exists({ isActive: true })) {
+        // No rule covers the address; only a store with no shipping rules at all delivers free everywhere
+        pricing.shipping = {
+            amount: 0,
+            rule: null,
+            method: null,
+            error: `We don't ship to ${address.country.trim()} yet`
+        };
+        return pricing;
+    }
+
+    pricing.shipping = {
+        amount: shippingAmount,
+        rule: shippingRule ? shippingRule.name : null,
+        method: shippingRule ? shippingRule.method : null,
+        error: null
+    };
+
+    // No matching tax rule means the destination isn't taxed
+    const taxRule = await TaxRule.findForAddress(address);
+    const taxable = discountedSubtotal + (taxRule && taxRule.appliesToShipping ? shippingAmount : 0);
+
+    pricing.tax = {
+        amount: taxRule ? roundMoney(taxable * (taxRule.rate / 100)) : 0,
+        rate: taxRule ? taxRule.rate : 0,
+        name: taxRule ? taxRule.name : null
+    };
+
+    pricing.total = roundMoney(discountedSubtotal + pricing.shipping.amount + pricing.tax.amount);
+
+    return pricing;
+};
+
+module.exports = { priceCart, roundMoney };
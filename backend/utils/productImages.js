@@ -0,0 +1,60 @@
+const crypto = require('crypto');
+const sharp = require('sharp');
+const { getStorage } = require('../storage');
+
+// Longest edge of stored product photos, and the edge of the square card thumbnails
+const MAX_IMAGE_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+
+// Output formats sharp writes for each detected upload type
+const FORMATS = { jpg: 'jpeg', png: 'png', webp: 'webp', gif: 'gif' };
+
+// Store an uploaded product photo and its thumbnail; file is a req.file from imageUpload()
+// Large photos are scaled down (keeping their format) and the thumbnail is a WebP square.
+// Returns { url, thumbnail }. Throws an error with code 'INVALID_IMAGE' when the file can't be decoded.
+const saveProductImage = async (file) => {
+    let image;
+    let thumbnail;
+
+    try {
+        // rotate() applies the EXIF orientation so phone photos aren't sideways
+        image = await sharp(file.buffer)
+            .rotate()
+            .resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+            .toFormat(FORMATS[file.extension])
+            .toBuffer();
+        thumbnail = await sharp(file.buffer)
+            .rotate()
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+            .webp()
+            .toBuffer();
+    } catch (error) {
+        const invalid = new Error('Image could not be read');
+        invalid.code = 'INVALID_IMAGE';
+        invalid.cause = error;
+        throw invalid;
+    }
+
+    const storage = getStorage();
+    const name = `products/${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+
+    const imageKey = await storage.save(`${name}.${file.extension}`, image, { contentType: file.mimetype });
+    const thumbnailKey = await storage.save(`${name}-thumb.webp`, thumbnail, { contentType: 'image/webp' });
+
+    return { url: storage.url(imageKey), thumbnail: storage.url(thumbnailKey) };
+};
+
+// Delete the stored files of gallery images; images hosted elsewhere are left alone
+const removeProductImages = async (images) => {
+    const storage = getStorage();
+    const keys = images
+        .flatMap(image => [image.url, image.thumbnail])
+        .map(url => storage.keyFromUrl(url))
+        .filter(Boolean);
+
+    await Promise.all(keys.map(key =>
+        storage.remove(key).catch(error => console.error('Remove product image error:', error))
+    ));
+};
+
+module.exports = { saveProductImage, removeProductImages };
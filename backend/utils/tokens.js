@@ -0,0 +1,91 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const RefreshToken = require('../models/RefreshToken');
+
+// Access tokens are short-lived; the refresh token keeps the session going
+const ACCESS_TOKEN_EXPIRE = process.env.ACCESS_TOKEN_EXPIRE || '15m';
+
+// Single-purpose tokens sent by email and how long each stays valid
+const ACCOUNT_TOKEN_EXPIRY = {
+    verify_email: '24h',
+    reset_password: '1h'
+};
+
+// Sign an access token bound to a session, so revoking the session also rejects the token
+const signAccessToken = (user, sessionId) => {
+    if (!process.env.JWT_SECRET) {
+        throw new Error('JWT_SECRET environment variable is not set');
+    }
+
+    return jwt.sign(
+        {
+            userId: user._id,
+            email: user.email,
+            sid: sessionId
+        },
+        process.env.JWT_SECRET,
+        { expiresIn: ACCESS_TOKEN_EXPIRE }
+    );
+};
+
+// Device details recorded with each refresh token
+const getClientInfo = (req) => ({
+    userAgent: (req.get('user-agent') || '').slice(0, 300),
+    ip: req.ip || ''
+});
+
+// Start a new session for a user and return both tokens
+const startSession = async (user, req) => {
+    const { token: refreshToken, doc } = await RefreshToken.issue(user._id, getClientInfo(req));
+
+    return {
+        token: signAccessToken(user, doc.family),
+        refreshToken
+    };
+};
+
+// Ties an account token to the state it changes (the email being verified, the password being
+// reset), so the token stops working once it has been used or that state changes
+const fingerprint = (user, purpose) => {
+    const value = purpose === 'reset_password' ? user.password : user.email;
+    return crypto.createHash('sha256').update(`${purpose}:${value}`).digest('hex').slice(0, 32);
+};
+
+// Sign an expiring email verification or password reset token
+// For reset_password the user must be loaded with +password
+const signAccountToken = (user, purpose) => {
+    return jwt.sign(
+        {
+            userId: user._id,
+            purpose,
+            fp: fingerprint(user, purpose)
+        },
+        process.env.JWT_SECRET,
+        { expiresIn: ACCOUNT_TOKEN_EXPIRY[purpose] }
+    );
+};
+
+// Check an account token and load its user
+// Returns { user } or { error } with a message safe to show the user
+const verifyAccountToken = async (token, purpose) => {
+    let decoded;
+    try {
+        decoded = jwt.verify(token, process.env.JWT_SECRET);
+    } catch (error) {
+        return { error: error.name === 'TokenExpiredError' ? 'This link has expired' : 'This link is invalid' };
+    }
+
+    if (decoded.purpose !== purpose) {
+        return { error: 'This link is invalid' };
+    }
+
+    const user = await User.findById(decoded.userId).select(purpose === 'reset_password' ? '+password' : '');
+    if (!user || !user.isActive || decoded.fp !== fingerprint(user, purpose)) {
+        return { error: 'This link is invalid or has already been used' };
+    }
+
+    return { user };
+};
+
+module.exports = { signAccessToken, getClientInfo, startSession, signAccountToken, verifyAccountToken };
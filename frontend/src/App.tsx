@@ -2,13 +2,35 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { CartProvider } from './contexts/CartContext';
+import { WishlistProvider } from './contexts/WishlistContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import Dashboard from './pages/Dashboard';
+import Profile from './pages/Profile';
+import Addresses from './pages/Addresses';
 import Products from './pages/Products';
 import Cart from './pages/Cart';
 import ProductDetail from './pages/ProductDetail';
+import Checkout from './pages/Checkout';
+import Orders from './pages/Orders';
+import OrderDetail from './pages/OrderDetail';
+import AdminOrders from './pages/AdminOrders';
+import AdminProducts from './pages/AdminProducts';
+import AdminProductEditor from './pages/AdminProductEditor';
+import AdminProductImport from './pages/AdminProductImport';
+import AdminInventory from './pages/AdminInventory';
+import AdminAnalytics from './pages/AdminAnalytics';
+import AdminCoupons from './pages/AdminCoupons';
+import AdminPricing from './pages/AdminPricing';
+import AdminReturns from './pages/AdminReturns';
+import AdminUsers from './pages/AdminUsers';
+import AdminUserDetail from './pages/AdminUserDetail';
+import Returns from './pages/Returns';
+import RequestReturn from './pages/RequestReturn';
 
 // Home component for unauthenticated users
 const Home: React.FC = () => {
@@ -113,17 +135,61 @@ function App() {
   return (
     <AuthProvider>
       <CartProvider>
+        <WishlistProvider>
         <Router>
           <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
           <Route path="/products" element={<Products />} />
           <Route path="/products/:id" element={<ProductDetail />} />
           <Route 
             path="/cart" 
             element={<Cart />}
           />
+          <Route 
+            path="/checkout" 
+            element={
+              <ProtectedRoute>
+                <Checkout />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/orders" 
+            element={
+              <ProtectedRoute>
+                <Orders />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/orders/:id" 
+            element={
+              <ProtectedRoute>
+                <OrderDetail />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/orders/:id/return" 
+            element={
+              <ProtectedRoute>
+                <RequestReturn />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/returns" 
+            element={
+              <ProtectedRoute>
+                <Returns />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="/dashboard" 
             element={
@@ -132,10 +198,123 @@ function App() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/profile" 
+            element={
+              <ProtectedRoute>
+                <Profile />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/addresses" 
+            element={
+              <ProtectedRoute>
+                <Addresses />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/orders" 
+            element={
+              <ProtectedRoute permission="orders:read">
+                <AdminOrders />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/products" 
+            element={
+              <ProtectedRoute permission="products:write">
+                <AdminProducts />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/products/new" 
+            element={
+              <ProtectedRoute permission="products:write">
+                <AdminProductEditor />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/products/import" 
+            element={
+              <ProtectedRoute permission="products:write">
+                <AdminProductImport />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/products/:id/edit" 
+            element={
+              <ProtectedRoute permission="products:write">
+                <AdminProductEditor />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/inventory" 
+            element={
+              <ProtectedRoute permission="inventory:manage">
+                <AdminInventory />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/analytics" 
+            element={
+              <ProtectedRoute permission="analytics:read">
+                <AdminAnalytics />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/coupons" 
+            element={
+              <ProtectedRoute permission="coupons:write">
+                <AdminCoupons />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/pricing" 
+            element={
+              <ProtectedRoute permission="pricing:write">
+                <AdminPricing />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/returns" 
+            element={
+              <ProtectedRoute permission="returns:read">
+                <AdminReturns />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/users" 
+            element={
+              <ProtectedRoute permission="users:read">
+                <AdminUsers />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/admin/users/:id" 
+            element={
+              <ProtectedRoute permission="users:read">
+                <AdminUserDetail />
+              </ProtectedRoute>
+            } 
+          />
           {/* Catch all route - redirect to home */}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
         </Router>
+        </WishlistProvider>
       </CartProvider>
     </AuthProvider>
   );
@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { type Category } from '../services/api';
+import { buildCategoryTree, getAncestorIds, type CategoryNode } from '../utils/categoryTree';
 
 interface CategoryFilterProps {
   categories: Category[];
@@ -14,6 +15,93 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
   onCategoryChange,
   isLoading = false
 }) => {
+  const [expandedCategories, setExpandedCategories] = useState<{ [key: string]: boolean }>({});
+
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  // Ancestors of the selected category are always shown expanded
+  const selectedAncestors = useMemo(
+    () => (selectedCategory ? getAncestorIds(categories, selectedCategory) : []),
+    [categories, selectedCategory]
+  );
+
+  const isExpanded = (categoryId: string) =>
+    expandedCategories[categoryId] ?? selectedAncestors.includes(categoryId);
+
+  const toggleExpanded = (categoryId: string) => {
+    setExpandedCategories(prev => ({ ...prev, [categoryId]: !isExpanded(categoryId) }));
+  };
+
+  // Flatten the tree for the mobile dropdown, indenting subcategories
+  const flattenTree = (nodes: CategoryNode[], depth = 0): { category: CategoryNode; depth: number }[] =>
+    nodes.flatMap(node => [{ category: node, depth }, ...flattenTree(node.children, depth + 1)]);
+
+  const renderCategory = (category: CategoryNode, depth: number) => {
+    const hasChildren = category.children.length > 0;
+    const expanded = hasChildren && isExpanded(category._id);
+
+    return (
+      <div key={category._id}>
+        <div className="flex items-start" style={{ paddingLeft: `${depth * 1}rem` }}>
+          {/* Expand / Collapse Toggle */}
+          <button
+            onClick={() => toggleExpanded(category._id)}
+            disabled={!hasChildren}
+            aria-label={expanded ? `Collapse ${category.name}` : `Expand ${category.name}`}
+            aria-expanded={hasChildren ? expanded : undefined}
+            className={`mt-2.5 mr-1 p-0.5 rounded text-gray-500 hover:text-gray-800 ${hasChildren ? '' : 'invisible'}`}
+          >
+            <svg
+              className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => onCategoryChange(category._id)}
+            className={`flex-1 text-left px-4 py-2 rounded-lg transition-colors ${
+              selectedCategory === category._id
+                ? 'bg-blue-100 text-blue-800 border-2 border-blue-300'
+                : 'bg-gray-50 text-gray-700 hover:bg-gray-100 border-2 border-transparent'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="font-medium">{category.name}</span>
+                {category.description && (
+                  <p className="text-sm text-gray-500 mt-1">{category.description}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                {category.totalProductCount !== undefined && (
+                  <span className="text-xs text-gray-500 bg-white rounded-full px-2 py-0.5">
+                    {category.totalProductCount}
+                  </span>
+                )}
+                {selectedCategory === category._id && (
+                  <svg className="w-4 h-4 text-blue-600" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                  </svg>
+                )}
+              </div>
+            </div>
+          </button>
+        </div>
+
+        {/* Subcategories */}
+        {expanded && (
+          <div className="mt-2 space-y-2">
+            {category.children.map(child => renderCategory(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6 mb-6">
       <div className="flex items-center justify-between mb-4">
@@ -59,36 +147,12 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
             </button>
           </div>
 
-          {/* Category Options */}
+          {/* Category Tree */}
           <div className="space-y-2">
-            {categories.length === 0 ? (
+            {categoryTree.length === 0 ? (
               <p className="text-gray-500 text-center py-4">No categories available</p>
             ) : (
-              categories.map((category) => (
-                <button
-                  key={category._id}
-                  onClick={() => onCategoryChange(category._id)}
-                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
-                    selectedCategory === category._id
-                      ? 'bg-blue-100 text-blue-800 border-2 border-blue-300'
-                      : 'bg-gray-50 text-gray-700 hover:bg-gray-100 border-2 border-transparent'
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <span className="font-medium">{category.name}</span>
-                      {category.description && (
-                        <p className="text-sm text-gray-500 mt-1">{category.description}</p>
-                      )}
-                    </div>
-                    {selectedCategory === category._id && (
-                      <svg className="w-4 h-4 text-blue-600" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                    )}
-                  </div>
-                </button>
-              ))
+              categoryTree.map(category => renderCategory(category, 0))
             )}
           </div>
 
@@ -104,9 +168,9 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="">All Products</option>
-              {categories.map((category) => (
+              {flattenTree(categoryTree).map(({ category, depth }) => (
                 <option key={category._id} value={category._id}>
-                  {category.name}
+                  {'\u00A0\u00A0'.repeat(depth)}{category.name}
                 </option>
               ))}
             </select>
@@ -117,4 +181,4 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
   );
 };
 
-export default CategoryFilter; 
\ No newline at end of file
+export default CategoryFilter;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { type OrderStatus } from '../services/api';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  shipped: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { orderApi, paymentApi, type Order, type PaymentMethodOption } from '../services/api';
+
+interface PaymentFormProps {
+  order: Order;
+  onPaid: (order: Order) => void;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+// Pays a pending order with one of the provider's payment methods; used by checkout and the order page
+const PaymentForm: React.FC<PaymentFormProps> = ({ order, onPaid }) => {
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodOption[]>([]);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [selectedMethod, setSelectedMethod] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPaying, setIsPaying] = useState(false);
+  const [error, setError] = useState<string | null>(order.payment?.status === 'failed' ? order.payment.failureReason : null);
+
+  useEffect(() => {
+    paymentApi.getConfig()
+      .then(config => {
+        setProvider(config.provider);
+        setPaymentMethods(config.paymentMethods);
+        setSelectedMethod(config.paymentMethods[0]?.id ?? '');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load payment options'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMethod) {
+      return;
+    }
+
+    try {
+      setIsPaying(true);
+      setError(null);
+      const paidOrder = await orderApi.payOrder(order._id, selectedMethod);
+      onPaid(paidOrder);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {provider === 'mock' && (
+        <p className="text-xs text-gray-500">
+          Test mode: no real card is charged. Pick a test card to simulate the outcome.
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading payment options...</p>
+      ) : (
+        <fieldset className="space-y-2">
+          <legend className="sr-only">Payment method</legend>
+          {paymentMethods.map(method => (
+            <label
+              key={method.id}
+              className={`flex items-center space-x-3 border rounded-md px-4 py-3 cursor-pointer transition-colors ${
+                selectedMethod === method.id ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="paymentMethod"
+                value={method.id}
+                checked={selectedMethod === method.id}
+                onChange={() => setSelectedMethod(method.id)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-900">{method.label}</span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading || isPaying || !selectedMethod}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPaying ? 'Processing Payment...' : `Pay ${formatPrice(order.totalAmount)}`}
+      </button>
+    </form>
+  );
+};
+
+export default PaymentForm;
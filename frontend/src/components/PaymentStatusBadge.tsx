@@ -0,0 +1,32 @@
+import React from 'react';
+import { type PaymentStatus } from '../services/api';
+
+interface PaymentStatusBadgeProps {
+  status: PaymentStatus;
+}
+
+const statusStyles: Record<PaymentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-100 text-gray-800',
+  partially_refunded: 'bg-gray-100 text-gray-800',
+};
+
+const statusLabels: Record<PaymentStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially refunded',
+};
+
+const PaymentStatusBadge: React.FC<PaymentStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {statusLabels[status]}
+    </span>
+  );
+};
+
+export default PaymentStatusBadge;
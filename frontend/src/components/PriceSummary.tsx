@@ -0,0 +1,77 @@
+import React from 'react';
+import { type ShippingEstimate, type TaxEstimate } from '../services/api';
+
+interface PriceSummaryProps {
+  subtotalLabel: string;
+  subtotal: number;
+  discount?: number;
+  discountLabel?: string;
+  shipping?: Pick<ShippingEstimate, 'amount' | 'rule'> | null; // null/undefined shows shippingPlaceholder
+  shippingPlaceholder?: string;
+  tax?: TaxEstimate | null; // Tax line is hidden until a destination is known
+  total: number;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+// Subtotal, discount, shipping, tax and total lines shared by the cart, checkout and order pages
+const PriceSummary: React.FC<PriceSummaryProps> = ({
+  subtotalLabel,
+  subtotal,
+  discount,
+  discountLabel = 'Discount',
+  shipping,
+  shippingPlaceholder = 'Calculated at checkout',
+  tax,
+  total,
+}) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between">
+        <span className="text-gray-600">{subtotalLabel}</span>
+        <span className="font-medium">{formatPrice(subtotal)}</span>
+      </div>
+      {!!discount && (
+        <div className="flex justify-between">
+          <span className="text-gray-600">{discountLabel}</span>
+          <span className="font-medium text-green-600">-{formatPrice(discount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-gray-600">
+          Shipping
+          {shipping?.rule && <span className="block text-xs text-gray-500">{shipping.rule}</span>}
+        </span>
+        {!shipping ? (
+          <span className="text-sm text-gray-500">{shippingPlaceholder}</span>
+        ) : shipping.amount === 0 ? (
+          <span className="font-medium text-green-600">Free</span>
+        ) : (
+          <span className="font-medium">{formatPrice(shipping.amount)}</span>
+        )}
+      </div>
+      {tax && (
+        <div className="flex justify-between">
+          <span className="text-gray-600">
+            Tax{tax.rate > 0 && ` (${tax.rate}%)`}
+            {tax.name && <span className="block text-xs text-gray-500">{tax.name}</span>}
+          </span>
+          <span className="font-medium">{formatPrice(tax.amount)}</span>
+        </div>
+      )}
+      <div className="border-t border-gray-200 pt-3">
+        <div className="flex justify-between">
+          <span className="text-lg font-medium text-gray-900">Total</span>
+          <span className="text-lg font-bold text-gray-900">{formatPrice(total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceSummary;
@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { type Product } from '../services/api';
-import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
+import { hasVariants } from '../utils/variants';
+import { productThumbnail } from '../utils/productImages';
+import StarRating from './StarRating';
+import WishlistButton from './WishlistButton';
 
 interface ProductCardProps {
   product: Product;
@@ -13,16 +16,9 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [addToCartSuccess, setAddToCartSuccess] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const { isAuthenticated } = useAuth();
   const { addToCart } = useCart();
 
   const handleAddToCart = async () => {
-    if (!isAuthenticated) {
-      // Redirect to login if not authenticated
-      window.location.href = '/login';
-      return;
-    }
-
     try {
       setIsAddingToCart(true);
       await addToCart(product._id, 1);
@@ -51,6 +47,9 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
   };
 
   const isOutOfStock = product.quantity === 0;
+  // Variant products need an option picked first, so the card sends shoppers to the detail page
+  const isVariantProduct = hasVariants(product);
+  const priceLabel = isVariantProduct ? `From ${formatPrice(product.price)}` : formatPrice(product.price);
 
   // Create a reliable placeholder image using data URI
   const getReliablePlaceholder = () => {
@@ -63,7 +62,8 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
   };
 
   // Check if the image URL is the broken placeholder
-  const isBrokenPlaceholder = product.image.includes('via.placeholder.com');
+  const thumbnail = productThumbnail(product);
+  const isBrokenPlaceholder = thumbnail.includes('via.placeholder.com');
   const shouldUseImageFallback = imageError || isBrokenPlaceholder;
 
   return (
@@ -71,7 +71,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
       {/* Product Image */}
       <div className="relative aspect-square overflow-hidden">
         <img
-          src={shouldUseImageFallback ? getReliablePlaceholder() : product.image}
+          src={shouldUseImageFallback ? getReliablePlaceholder() : thumbnail}
           alt={product.name}
           className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
           onError={() => {
@@ -90,10 +90,15 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
           </div>
         )}
 
+        {/* Wishlist Toggle */}
+        <div className="absolute top-3 right-3">
+          <WishlistButton productId={product._id} productName={product.name} />
+        </div>
+
         {/* Price Badge */}
         <div className="absolute top-3 left-3">
           <span className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm font-bold">
-            {formatPrice(product.price)}
+            {priceLabel}
           </span>
         </div>
       </div>
@@ -108,6 +113,14 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
             {product.name}
           </Link>
         </div>
+
+        {/* Rating */}
+        <div className="flex items-center space-x-2 mb-2">
+          <StarRating rating={product.rating?.average || 0} />
+          <span className="text-xs text-gray-500">
+            {product.rating?.count ? `${product.rating.average.toFixed(1)} (${product.rating.count})` : 'No reviews yet'}
+          </span>
+        </div>
         
         <p className="text-gray-600 text-sm mb-4 line-clamp-2">
           {product.description}
@@ -127,7 +140,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
             )}
           </span>
           <span className="text-lg font-bold text-gray-900">
-            {formatPrice(product.price)}
+            {priceLabel}
           </span>
         </div>
 
@@ -140,45 +153,54 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
             View Details
           </Link>
           
-          <button
-            onClick={handleAddToCart}
-            disabled={isOutOfStock || isAddingToCart}
-            className={`flex-1 font-medium py-2 px-4 rounded-lg text-sm transition-all duration-200 ${
-              addToCartSuccess
-                ? 'bg-green-600 text-white'
-                : isOutOfStock
-                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                : isAddingToCart
-                ? 'bg-blue-400 text-white'
-                : 'bg-blue-600 hover:bg-blue-700 text-white hover:scale-105'
-            }`}
-          >
-            {addToCartSuccess ? (
-              <>
-                <svg className="inline w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                </svg>
-                Added!
-              </>
-            ) : isAddingToCart ? (
-              <>
-                <svg className="inline w-4 h-4 mr-1 animate-spin" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                </svg>
-                Adding...
-              </>
-            ) : isOutOfStock ? (
-              'Out of Stock'
-            ) : (
-              <>
-                <svg className="inline w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4m0 0L7 13m0 0l-2.5 5M7 13l2.5 5m6-5v4a2 2 0 01-2 2H9a2 2 0 01-2-2v-4m6 0V9a2 2 0 00-2-2H9a2 2 0 00-2 2v4.01" />
-                </svg>
-                Add to Cart
-              </>
-            )}
-          </button>
+          {isVariantProduct && !isOutOfStock ? (
+            <Link
+              to={`/products/${product._id}`}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg text-center transition-colors text-sm"
+            >
+              Choose Options
+            </Link>
+          ) : (
+            <button
+              onClick={handleAddToCart}
+              disabled={isOutOfStock || isAddingToCart}
+              className={`flex-1 font-medium py-2 px-4 rounded-lg text-sm transition-all duration-200 ${
+                addToCartSuccess
+                  ? 'bg-green-600 text-white'
+                  : isOutOfStock
+                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  : isAddingToCart
+                  ? 'bg-blue-400 text-white'
+                  : 'bg-blue-600 hover:bg-blue-700 text-white hover:scale-105'
+              }`}
+            >
+              {addToCartSuccess ? (
+                <>
+                  <svg className="inline w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                  </svg>
+                  Added!
+                </>
+              ) : isAddingToCart ? (
+                <>
+                  <svg className="inline w-4 h-4 mr-1 animate-spin" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                  Adding...
+                </>
+              ) : isOutOfStock ? (
+                'Out of Stock'
+              ) : (
+                <>
+                  <svg className="inline w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4m0 0L7 13m0 0l-2.5 5M7 13l2.5 5m6-5v4a2 2 0 01-2 2H9a2 2 0 01-2-2v-4m6 0V9a2 2 0 00-2-2H9a2 2 0 00-2 2v4.01" />
+                  </svg>
+                  Add to Cart
+                </>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
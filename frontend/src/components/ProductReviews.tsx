@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  reviewApi,
+  ApiError,
+  type Review,
+  type ReviewInput,
+  type ReviewPagination,
+  type MyReviewData,
+  type ProductRating
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import StarRating from './StarRating';
+
+interface ProductReviewsProps {
+  productId: string;
+  rating?: ProductRating;
+  onReviewsChange?: () => void; // Called after the user creates, edits or deletes a review
+}
+
+const PAGE_SIZE = 5;
+
+const emptyForm: ReviewInput = { rating: 0, title: '', comment: '' };
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId, rating, onReviewsChange }) => {
+  const { user } = useAuth();
+
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [pagination, setPagination] = useState<ReviewPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [myReview, setMyReview] = useState<MyReviewData | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<ReviewInput>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await reviewApi.getProductReviews(productId, page, PAGE_SIZE);
+      setReviews(data.reviews);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId, page]);
+
+  const fetchMyReview = useCallback(async () => {
+    if (!user) {
+      setMyReview(null);
+      return;
+    }
+
+    try {
+      setMyReview(await reviewApi.getMyReview(productId));
+    } catch (err) {
+      console.error('Failed to load your review:', err);
+    }
+  }, [productId, user]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  useEffect(() => {
+    fetchMyReview();
+  }, [fetchMyReview]);
+
+  const startEditing = () => {
+    const existing = myReview?.review;
+    setForm(existing
+      ? { rating: existing.rating, title: existing.title || '', comment: existing.comment || '' }
+      : emptyForm);
+    setFormError(null);
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.rating < 1) {
+      setFormError('Please choose a rating');
+      return;
+    }
+
+    const reviewData: ReviewInput = {
+      rating: form.rating,
+      title: form.title?.trim(),
+      comment: form.comment?.trim(),
+    };
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      if (myReview?.review) {
+        await reviewApi.updateReview(myReview.review._id, reviewData);
+      } else {
+        await reviewApi.createReview(productId, reviewData);
+      }
+      setIsEditing(false);
+      await Promise.all([fetchReviews(), fetchMyReview()]);
+      onReviewsChange?.();
+    } catch (err) {
+      if (err instanceof ApiError && err.errors.length > 0) {
+        setFormError(err.errors[0].msg);
+      } else {
+        setFormError(err instanceof Error ? err.message : 'Failed to save review');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!myReview?.review || !window.confirm('Delete your review?')) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await reviewApi.deleteReview(myReview.review._id);
+      setIsEditing(false);
+      await Promise.all([fetchReviews(), fetchMyReview()]);
+      onReviewsChange?.();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to delete review');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-8 mt-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Customer Reviews</h2>
+          <div className="flex items-center space-x-3">
+            <StarRating rating={rating?.average || 0} size="md" />
+            <span className="text-gray-700">
+              {rating?.count
+                ? `${rating.average.toFixed(1)} out of 5 · ${rating.count} review${rating.count === 1 ? '' : 's'}`
+                : 'No reviews yet'}
+            </span>
+          </div>
+        </div>
+
+        {/* Write / Edit Review */}
+        {!isEditing && (
+          user ? (
+            myReview?.review ? (
+              <div className="flex space-x-3">
+                <button
+                  onClick={startEditing}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  Edit Your Review
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                  className="text-red-600 hover:text-red-800 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            ) : myReview?.canReview ? (
+              <button
+                onClick={startEditing}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+              >
+                Write a Review
+              </button>
+            ) : (
+              <p className="text-sm text-gray-500">Only customers who have received this product can review it.</p>
+            )
+          ) : (
+            <p className="text-sm text-gray-500">
+              <Link to="/login" className="text-blue-600 hover:text-blue-800 font-medium">Log in</Link> to review this product.
+            </p>
+          )
+        )}
+      </div>
+
+      {/* Review Form */}
+      {isEditing && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-6 mb-6 space-y-4" noValidate>
+          {formError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              <p className="text-sm">{formError}</p>
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Your Rating</span>
+            <StarRating rating={form.rating} size="lg" onChange={(value) => setForm(prev => ({ ...prev, rating: value }))} />
+          </div>
+
+          <div>
+            <label htmlFor="review-title" className="block text-sm font-medium text-gray-700">Title (optional)</label>
+            <input
+              id="review-title"
+              type="text"
+              maxLength={100}
+              value={form.title}
+              onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700">Review (optional)</label>
+            <textarea
+              id="review-comment"
+              rows={4}
+              maxLength={2000}
+              value={form.comment}
+              onChange={(e) => setForm(prev => ({ ...prev, comment: e.target.value }))}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="text-gray-600 hover:text-gray-900 font-medium px-4 py-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : myReview?.review ? 'Save Changes' : 'Submit Review'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Review List */}
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : isLoading ? (
+        <p className="text-gray-600">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-gray-600">Be the first to share your thoughts on this product.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {reviews.map((review) => (
+            <li key={review._id} className="py-4">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center space-x-3">
+                  <StarRating rating={review.rating} />
+                  {review.title && <span className="font-medium text-gray-900">{review.title}</span>}
+                </div>
+                <span className="text-xs text-gray-500">{formatDate(review.createdAt)}</span>
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                {review.user.username} · <span className="text-green-700">Verified purchase</span>
+              </p>
+              {review.comment && <p className="text-gray-700 whitespace-pre-line">{review.comment}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <button
+            onClick={() => setPage(prev => prev - 1)}
+            disabled={!pagination.hasPrevPage || isLoading}
+            className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {pagination.currentPage} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={!pagination.hasNextPage || isLoading}
+            className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductReviews;
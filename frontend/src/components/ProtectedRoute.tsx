@@ -1,13 +1,15 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { hasPermission, type Permission } from '../services/api';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   adminOnly?: boolean;
+  permission?: Permission; // Required permission, for staff pages open to more than admins
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = false }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = false, permission }) => {
   const { isAuthenticated, user, isLoading } = useAuth();
   const location = useLocation();
 
@@ -31,8 +33,9 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = f
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // Check admin access if adminOnly is true
-  if (adminOnly && user?.role !== 'admin') {
+  // Check admin access if adminOnly is true, and the required permission if one is given
+  const isDenied = (adminOnly && user?.role !== 'admin') || (!!permission && !hasPermission(user, permission));
+  if (isDenied) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
@@ -43,7 +46,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = f
           </div>
           <h2 className="text-lg font-semibold text-gray-900 mb-2">Access Denied</h2>
           <p className="text-sm text-gray-600 mb-4">
-            You don't have permission to access this page. Administrator privileges are required.
+            You don't have permission to access this page. {adminOnly ? 'Administrator privileges are required.' : 'Ask an administrator for access.'}
           </p>
           <button
             onClick={() => window.history.back()}
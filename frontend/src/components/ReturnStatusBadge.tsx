@@ -0,0 +1,23 @@
+import React from 'react';
+import { type ReturnStatus } from '../services/api';
+
+interface ReturnStatusBadgeProps {
+  status: ReturnStatus;
+}
+
+const statusStyles: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  received: 'bg-green-100 text-green-800',
+};
+
+const ReturnStatusBadge: React.FC<ReturnStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+};
+
+export default ReturnStatusBadge;
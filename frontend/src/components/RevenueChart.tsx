@@ -0,0 +1,52 @@
+import React from 'react';
+import { type AnalyticsInterval, type RevenuePoint } from '../services/api';
+
+interface RevenueChartProps {
+  series: RevenuePoint[];
+  interval: AnalyticsInterval;
+}
+
+const CHART_HEIGHT = 200;
+
+// Label a bucket by its start date; periods are UTC so they are formatted in UTC
+const formatPeriod = (period: string, interval: AnalyticsInterval) => {
+  return new Date(period).toLocaleDateString('en-US', interval === 'month'
+    ? { year: 'numeric', month: 'short', timeZone: 'UTC' }
+    : { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+// Bar chart of revenue per period, with the order count in each bar's tooltip
+const RevenueChart: React.FC<RevenueChartProps> = ({ series, interval }) => {
+  const maxRevenue = Math.max(...series.map(point => point.revenue), 0);
+  // Label about eight bars so the axis stays readable on long ranges
+  const labelEvery = Math.max(1, Math.ceil(series.length / 8));
+
+  if (maxRevenue === 0) {
+    return <p className="py-16 text-center text-gray-600">No sales in this period</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-px border-b border-gray-200" style={{ height: CHART_HEIGHT }}>
+        {series.map(point => (
+          <div
+            key={point.period}
+            title={`${formatPeriod(point.period, interval)}: $${point.revenue.toFixed(2)} from ${point.orders} ${point.orders === 1 ? 'order' : 'orders'}`}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 rounded-t-sm min-w-0"
+            style={{ height: `${(point.revenue / maxRevenue) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex gap-px mt-2">
+        {series.map((point, index) => (
+          <div key={point.period} className="flex-1 min-w-0 text-xs text-gray-500 whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? formatPeriod(point.period, interval) : ''}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Highest: ${maxRevenue.toFixed(2)} per {interval}</p>
+    </div>
+  );
+};
+
+export default RevenueChart;
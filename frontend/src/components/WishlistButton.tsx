@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useWishlist } from '../contexts/wishlist';
+
+interface WishlistButtonProps {
+  productId: string;
+  productName: string;
+  showLabel?: boolean;
+}
+
+// Heart toggle that adds or removes a product from the wishlist
+const WishlistButton: React.FC<WishlistButtonProps> = ({ productId, productName, showLabel = false }) => {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { isAuthenticated } = useAuth();
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const isSaved = isInWishlist(productId);
+
+  const handleClick = async () => {
+    // The wishlist lives on the account, so guests sign in first and come back here
+    if (!isAuthenticated) {
+      navigate('/login', { state: { from: location } });
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      await toggleWishlist(productId);
+    } catch (error) {
+      console.error('Failed to update wishlist:', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isUpdating}
+      aria-pressed={isSaved}
+      aria-label={isSaved ? `Remove ${productName} from wishlist` : `Add ${productName} to wishlist`}
+      className={`inline-flex items-center transition-colors disabled:opacity-50 ${
+        showLabel
+          ? 'border border-gray-300 hover:bg-gray-50 text-gray-700 font-medium py-2 px-4 rounded-md'
+          : 'bg-white/90 hover:bg-white rounded-full p-2 shadow'
+      }`}
+    >
+      <svg
+        className={`h-5 w-5 ${isSaved ? 'text-red-500' : 'text-gray-500'}`}
+        fill={isSaved ? 'currentColor' : 'none'}
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+      </svg>
+      {showLabel && <span className="ml-2">{isSaved ? 'Saved to Wishlist' : 'Add to Wishlist'}</span>}
+    </button>
+  );
+};
+
+export default WishlistButton;
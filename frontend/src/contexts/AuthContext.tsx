@@ -1,5 +1,14 @@
-import React, { createContext, useContext, useReducer, useEffect, type ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, type ReactNode } from 'react';
 import axios, { type AxiosError } from 'axios';
+import {
+  attachAuthInterceptors,
+  storeTokens,
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  SESSION_EXPIRED_EVENT,
+} from '../utils/authSession';
+import type { UserProfile } from '../services/api';
 
 // Configure axios to hit backend directly
 const API_BASE_URL = 'http://localhost:5000';
@@ -7,27 +16,11 @@ const axiosInstance = axios.create({
   baseURL: API_BASE_URL,
 });
 
-// Add request interceptor to include auth token
-axiosInstance.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
+// Include the auth token and refresh it when it expires
+attachAuthInterceptors(axiosInstance);
 
 // Types
-interface User {
-  id: string;
-  username: string;
-  email: string;
-  role: string;
-}
+type User = UserProfile;
 
 interface AuthState {
   user: User | null;
@@ -39,7 +32,11 @@ interface AuthState {
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<void>;
   register: (firstName: string, lastName: string, username: string, email: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
+  refreshUser: () => Promise<void>;
+  setUser: (user: User) => void;
+  clearSession: () => void;
 }
 
 // Action types
@@ -52,7 +49,7 @@ type AuthAction =
 // Initial state
 const initialState: AuthState = {
   user: null,
-  token: localStorage.getItem('token'),
+  token: getAccessToken(),
   isLoading: false,
   isAuthenticated: false,
 };
@@ -97,6 +94,13 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
+  // The interceptor gave up refreshing (session revoked or expired): drop the local session
+  useEffect(() => {
+    const handleSessionExpired = () => dispatch({ type: 'LOGOUT' });
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
   // Validate token on mount if it exists
   useEffect(() => {
     if (state.token) {
@@ -113,11 +117,33 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       dispatch({ type: 'SET_USER', payload: response.data.user });
     } catch (error) {
       console.error('Token validation failed:', error);
-      localStorage.removeItem('token');
+      clearTokens();
       dispatch({ type: 'LOGOUT' });
     }
   };
 
+  // Reload the current user, e.g. after their email was verified
+  // Memoized so pages can call it from effects
+  const refreshUser = useCallback(async () => {
+    try {
+      const response = await axiosInstance.get('/api/auth/me');
+      dispatch({ type: 'SET_USER', payload: response.data.user });
+    } catch (error) {
+      console.error('Failed to refresh user:', error);
+    }
+  }, []);
+
+  // Replace the current user with an updated profile returned by the API
+  const setUser = (user: User) => {
+    dispatch({ type: 'SET_USER', payload: user });
+  };
+
+  // Forget the local session after the server already ended it (e.g. account deactivated)
+  const clearSession = () => {
+    clearTokens();
+    dispatch({ type: 'LOGOUT' });
+  };
+
   // Login function
   const login = async (email: string, password: string) => {
     try {
@@ -128,10 +154,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         password,
       });
 
-      const { user, token } = response.data;
+      const { user, token, refreshToken } = response.data;
       
-      // Store token in localStorage
-      localStorage.setItem('token', token);
+      // Store tokens in localStorage
+      storeTokens(token, refreshToken);
       
       dispatch({
         type: 'LOGIN_SUCCESS',
@@ -157,10 +183,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         password,
       });
 
-      const { user, token } = response.data;
+      const { user, token, refreshToken } = response.data;
       
-      // Store token in localStorage
-      localStorage.setItem('token', token);
+      // Store tokens in localStorage
+      storeTokens(token, refreshToken);
       
       dispatch({
         type: 'LOGIN_SUCCESS',
@@ -173,9 +199,31 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  // Logout function
-  const logout = () => {
-    localStorage.removeItem('token');
+  // Logout function: revoke the session server-side, but log out locally even if that fails
+  const logout = async () => {
+    const refreshToken = getRefreshToken();
+    clearTokens();
+    dispatch({ type: 'LOGOUT' });
+
+    if (refreshToken) {
+      try {
+        await axiosInstance.post('/api/auth/logout', { refreshToken });
+      } catch (error) {
+        console.error('Logout request failed:', error);
+      }
+    }
+  };
+
+  // Logout everywhere: revoke every session of this user, including this one
+  const logoutAll = async () => {
+    try {
+      await axiosInstance.post('/api/auth/logout-all');
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to log out of all devices');
+    }
+
+    clearTokens();
     dispatch({ type: 'LOGOUT' });
   };
 
@@ -184,6 +232,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     login,
     register,
     logout,
+    logoutAll,
+    refreshUser,
+    setUser,
+    clearSession,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
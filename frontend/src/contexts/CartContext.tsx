@@ -1,20 +1,34 @@
 import React, { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import { cartApi, type CartData } from '../services/api';
+import { cartApi, productApi, type CartData, type CartMergeReport, type Product } from '../services/api';
 import { useAuth } from './AuthContext';
+import {
+  loadGuestCart,
+  saveGuestCart,
+  clearGuestCart,
+  addGuestCartItem,
+  updateGuestCartItem,
+  removeGuestCartItem,
+  refreshGuestCart
+} from '../utils/guestCart';
 
 interface CartContextType {
   cartData: CartData | null;
   isLoading: boolean;
   error: string | null;
   cartItemCount: number;
+  mergeReport: CartMergeReport | null; // Lines adjusted or skipped when the guest cart was merged
   
   // Actions
   fetchCart: () => Promise<void>;
-  addToCart: (productId: string, quantity?: number) => Promise<void>;
-  updateCartItem: (productId: string, quantity: number) => Promise<void>;
-  removeFromCart: (productId: string) => Promise<void>;
+  // variantId picks the variant of a product with options
+  addToCart: (productId: string, quantity?: number, variantId?: string | null) => Promise<void>;
+  updateCartItem: (productId: string, quantity: number, variantId?: string | null) => Promise<void>;
+  removeFromCart: (productId: string, variantId?: string | null) => Promise<void>;
   clearCart: () => Promise<void>;
   refreshCart: () => Promise<void>;
+  applyCoupon: (code: string) => Promise<void>;
+  removeCoupon: () => Promise<void>;
+  dismissMergeReport: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -27,15 +41,66 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const [cartData, setCartData] = useState<CartData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mergeReport, setMergeReport] = useState<CartMergeReport | null>(null);
   const { isAuthenticated, user } = useAuth();
 
   // Calculate cart item count
   const cartItemCount = cartData?.summary?.totalItems || 0;
 
+  // Load the guest cart from the browser, refreshing product prices and stock
+  const fetchGuestCart = async () => {
+    const guestCart = loadGuestCart();
+    setCartData(guestCart);
+
+    const lines = [...guestCart.items, ...(guestCart.unavailableItems || [])];
+    if (lines.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(lines.map(item => productApi.getProductById(item.product._id)));
+    const products = new Map<string, Product>();
+    results.forEach(result => {
+      if (result.status === 'fulfilled') {
+        products.set(result.value._id, result.value);
+      }
+    });
+
+    const refreshed = refreshGuestCart(loadGuestCart(), products);
+    saveGuestCart(refreshed);
+    setCartData(refreshed);
+  };
+
+  // Move guest cart lines into the user's cart after login or registration
+  const mergeGuestCart = async () => {
+    const guestCart = loadGuestCart();
+    const lines = [...guestCart.items, ...(guestCart.unavailableItems || [])];
+    if (lines.length === 0) {
+      return;
+    }
+
+    // Clear first so a second render can't merge the same lines twice
+    clearGuestCart();
+
+    try {
+      const report = await cartApi.mergeCart(
+        lines.map(item => ({ product: item.product._id, variant: item.variantId || null, quantity: item.quantity }))
+      );
+      if (report.adjusted.length > 0 || report.skipped.length > 0) {
+        setMergeReport(report);
+      }
+    } catch (err) {
+      // Keep the guest cart so the merge can be retried on next login
+      saveGuestCart(guestCart);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to merge cart';
+      setError(errorMessage);
+      console.error('Cart merge error:', errorMessage);
+    }
+  };
+
   // Fetch cart data
   const fetchCart = async () => {
     if (!isAuthenticated) {
-      setCartData(null);
+      await fetchGuestCart();
       return;
     }
 
@@ -54,14 +119,18 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   };
 
   // Add item to cart
-  const addToCart = async (productId: string, quantity: number = 1) => {
-    if (!isAuthenticated) {
-      throw new Error('Please log in to add items to cart');
-    }
-
+  const addToCart = async (productId: string, quantity: number = 1, variantId: string | null = null) => {
     try {
       setError(null);
-      await cartApi.addToCart(productId, quantity);
+      if (!isAuthenticated) {
+        const product = await productApi.getProductById(productId);
+        const updated = addGuestCartItem(loadGuestCart(), product, quantity, variantId);
+        saveGuestCart(updated);
+        setCartData(updated);
+        return;
+      }
+
+      await cartApi.addToCart(productId, quantity, variantId);
       // Refresh cart after adding
       await fetchCart();
     } catch (err) {
@@ -72,14 +141,17 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   };
 
   // Update cart item quantity
-  const updateCartItem = async (productId: string, quantity: number) => {
-    if (!isAuthenticated) {
-      throw new Error('Please log in to update cart');
-    }
-
+  const updateCartItem = async (productId: string, quantity: number, variantId: string | null = null) => {
     try {
       setError(null);
-      await cartApi.updateCartItem(productId, quantity);
+      if (!isAuthenticated) {
+        const updated = updateGuestCartItem(loadGuestCart(), productId, quantity, variantId);
+        saveGuestCart(updated);
+        setCartData(updated);
+        return;
+      }
+
+      await cartApi.updateCartItem(productId, quantity, variantId);
       // Refresh cart after updating
       await fetchCart();
     } catch (err) {
@@ -90,14 +162,17 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   };
 
   // Remove item from cart
-  const removeFromCart = async (productId: string) => {
-    if (!isAuthenticated) {
-      throw new Error('Please log in to remove items from cart');
-    }
-
+  const removeFromCart = async (productId: string, variantId: string | null = null) => {
     try {
       setError(null);
-      await cartApi.removeFromCart(productId);
+      if (!isAuthenticated) {
+        const updated = removeGuestCartItem(loadGuestCart(), productId, variantId);
+        saveGuestCart(updated);
+        setCartData(updated);
+        return;
+      }
+
+      await cartApi.removeFromCart(productId, variantId);
       // Refresh cart after removing
       await fetchCart();
     } catch (err) {
@@ -109,12 +184,14 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
 
   // Clear entire cart
   const clearCart = async () => {
-    if (!isAuthenticated) {
-      throw new Error('Please log in to clear cart');
-    }
-
     try {
       setError(null);
+      if (!isAuthenticated) {
+        clearGuestCart();
+        setCartData(loadGuestCart());
+        return;
+      }
+
       await cartApi.clearCart();
       // Refresh cart after clearing
       await fetchCart();
@@ -125,17 +202,36 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   };
 
+  // Apply a coupon code (signed-in users only); errors are thrown for the caller to show
+  const applyCoupon = async (code: string) => {
+    if (!isAuthenticated) {
+      throw new Error('Please log in to use a coupon');
+    }
+
+    const data = await cartApi.applyCoupon(code);
+    setCartData(data);
+  };
+
+  // Remove the applied coupon
+  const removeCoupon = async () => {
+    const data = await cartApi.removeCoupon();
+    setCartData(data);
+  };
+
   // Refresh cart (alias for fetchCart for external use)
   const refreshCart = fetchCart;
 
+  const dismissMergeReport = () => setMergeReport(null);
+
   // Load cart when user logs in or component mounts
   useEffect(() => {
     if (isAuthenticated && user) {
-      fetchCart();
+      mergeGuestCart().then(fetchCart);
     } else {
-      // Clear cart data when user logs out
-      setCartData(null);
+      // Fall back to the guest cart when logged out
       setError(null);
+      setMergeReport(null);
+      fetchCart();
     }
   }, [isAuthenticated, user]);
 
@@ -144,12 +240,16 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     isLoading,
     error,
     cartItemCount,
+    mergeReport,
     fetchCart,
     addToCart,
     updateCartItem,
     removeFromCart,
     clearCart,
-    refreshCart
+    refreshCart,
+    applyCoupon,
+    removeCoupon,
+    dismissMergeReport
   };
 
   return (
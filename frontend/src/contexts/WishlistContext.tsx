@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useCallback, type ReactNode } from 'react';
+import { wishlistApi, type WishlistData } from '../services/api';
+import { useAuth } from './AuthContext';
+import { useCart } from './CartContext';
+import { WishlistContext, type WishlistContextType } from './wishlist';
+
+interface WishlistProviderProps {
+  children: ReactNode;
+}
+
+export const WishlistProvider: React.FC<WishlistProviderProps> = ({ children }) => {
+  const [wishlistData, setWishlistData] = useState<WishlistData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated, user } = useAuth();
+  const { refreshCart } = useCart();
+
+  const wishlistItemCount = wishlistData?.items.length || 0;
+
+  // Fetch wishlist data
+  const fetchWishlist = useCallback(async () => {
+    if (!isAuthenticated) {
+      setWishlistData(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await wishlistApi.getWishlist();
+      setWishlistData(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch wishlist';
+      setError(errorMessage);
+      console.error('Wishlist fetch error:', errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  const isInWishlist = (productId: string) =>
+    !!wishlistData?.items.some(item => item.product._id === productId);
+
+  // Run a wishlist change, then reload the wishlist (and the cart when lines move between them)
+  const runAction = async (action: () => Promise<void>, fallbackMessage: string, updatesCart = false) => {
+    if (!isAuthenticated) {
+      throw new Error('Please log in to use your wishlist');
+    }
+
+    try {
+      setError(null);
+      await action();
+      await Promise.all([fetchWishlist(), updatesCart ? refreshCart() : Promise.resolve()]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage;
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  // Add a product to the wishlist, or remove every line saved for it
+  const toggleWishlist = (productId: string) => {
+    const savedLines = wishlistData?.items.filter(item => item.product._id === productId) || [];
+    return savedLines.length > 0
+      ? runAction(async () => {
+        for (const item of savedLines) {
+          await wishlistApi.removeFromWishlist(productId, item.variant);
+        }
+      }, 'Failed to update wishlist')
+      : runAction(() => wishlistApi.addToWishlist(productId), 'Failed to update wishlist');
+  };
+
+  const removeFromWishlist = (productId: string, variantId: string | null = null) =>
+    runAction(() => wishlistApi.removeFromWishlist(productId, variantId), 'Failed to remove item from wishlist');
+
+  const saveForLater = (productId: string, variantId: string | null = null) =>
+    runAction(() => wishlistApi.saveForLater(productId, variantId), 'Failed to save item for later', true);
+
+  const moveToCart = (productId: string, variantId: string | null = null) =>
+    runAction(() => wishlistApi.moveToCart(productId, variantId), 'Failed to move item to cart', true);
+
+  // Load wishlist when user logs in, clear it when they log out
+  useEffect(() => {
+    if (isAuthenticated && user) {
+      fetchWishlist();
+    } else {
+      setWishlistData(null);
+      setError(null);
+    }
+  }, [isAuthenticated, user, fetchWishlist]);
+
+  const value: WishlistContextType = {
+    wishlistData,
+    isLoading,
+    error,
+    wishlistItemCount,
+    isInWishlist,
+    toggleWishlist,
+    removeFromWishlist,
+    saveForLater,
+    moveToCart,
+    refreshWishlist: fetchWishlist
+  };
+
+  return (
+    <WishlistContext.Provider value={value}>
+      {children}
+    </WishlistContext.Provider>
+  );
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import { type WishlistData } from '../services/api';
+
+export interface WishlistContextType {
+  wishlistData: WishlistData | null;
+  isLoading: boolean;
+  error: string | null;
+  wishlistItemCount: number;
+
+  // Actions
+  isInWishlist: (productId: string) => boolean;
+  toggleWishlist: (productId: string) => Promise<void>;
+  removeFromWishlist: (productId: string, variantId?: string | null) => Promise<void>;
+  saveForLater: (productId: string, variantId?: string | null) => Promise<void>;
+  moveToCart: (productId: string, variantId?: string | null) => Promise<void>;
+  refreshWishlist: () => Promise<void>;
+}
+
+// Kept apart from the provider component so fast refresh keeps working
+export const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+// Custom hook to use wishlist context
+export const useWishlist = (): WishlistContextType => {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};
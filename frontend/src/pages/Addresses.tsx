@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { addressApi, ApiError, type SavedAddress, type ShippingAddress } from '../services/api';
+import {
+  shippingRules,
+  shippingFields,
+  validateShipping,
+  emptyShippingAddress,
+  pickShippingAddress,
+  type ShippingErrors,
+} from '../utils/shippingAddress';
+
+interface AddressForm extends ShippingAddress {
+  label: string;
+  isDefault: boolean;
+}
+
+const emptyForm: AddressForm = { ...emptyShippingAddress, label: '', isDefault: false };
+
+const Addresses: React.FC = () => {
+  const { user } = useAuth();
+
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state: null when closed, 'new' when adding, or the ID being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AddressForm>(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<ShippingErrors & { label?: string }>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Fetch addresses on component mount
+  useEffect(() => {
+    const fetchAddresses = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setAddresses(await addressApi.getAddresses());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load addresses');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAddresses();
+  }, []);
+
+  const openForm = (address?: SavedAddress) => {
+    setEditingId(address ? address._id : 'new');
+    setForm(address ? { ...pickShippingAddress(address), label: address.label, isDefault: address.isDefault } : emptyForm);
+    setFieldErrors({});
+    setError(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setFieldErrors({});
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+    if (fieldErrors[name as keyof typeof fieldErrors]) {
+      setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const errors: ShippingErrors & { label?: string } = validateShipping(form);
+    if (!form.label.trim()) {
+      errors.label = 'Label is required';
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const input = {
+      label: form.label.trim(),
+      fullName: form.fullName.trim(),
+      address: form.address.trim(),
+      city: form.city.trim(),
+      postalCode: form.postalCode.trim(),
+      country: form.country.trim(),
+      isDefault: form.isDefault,
+    };
+
+    try {
+      setIsSaving(true);
+      setAddresses(editingId && editingId !== 'new'
+        ? await addressApi.updateAddress(editingId, input)
+        : await addressApi.createAddress(input));
+      closeForm();
+    } catch (err) {
+      if (err instanceof ApiError && err.errors.length > 0) {
+        // Map server validation errors back onto the form
+        const serverErrors: ShippingErrors & { label?: string } = {};
+        err.errors.forEach((fieldError) => {
+          const field = fieldError.path as keyof ShippingAddress | 'label';
+          if ((field === 'label' || field in shippingRules) && !serverErrors[field]) {
+            serverErrors[field] = fieldError.msg;
+          }
+        });
+        setFieldErrors(serverErrors);
+      }
+      setError(err instanceof Error ? err.message : 'Failed to save address');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    try {
+      setBusyId(id);
+      setError(null);
+      setAddresses(await addressApi.setDefaultAddress(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update default address');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!window.confirm(`Remove "${address.label}" from your address book?`)) {
+      return;
+    }
+
+    try {
+      setBusyId(address._id);
+      setError(null);
+      setAddresses(await addressApi.deleteAddress(address._id));
+      if (editingId === address._id) closeForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove address');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClassName = (field: keyof AddressForm) =>
+    `mt-1 appearance-none block w-full px-3 py-2 border rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm ${
+      fieldErrors[field as keyof typeof fieldErrors] ? 'border-red-400' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>
+                <Link to="/returns" className="text-gray-600 hover:text-gray-900">Returns</Link>
+                <Link to="/profile" className="text-gray-600 hover:text-gray-900">Profile</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Address Book</h1>
+            <p className="text-gray-600">Saved addresses can be picked at checkout.</p>
+          </div>
+          {editingId === null && (
+            <button
+              onClick={() => openForm()}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
+            >
+              Add address
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {editingId !== null && (
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-5 mb-6" noValidate>
+            <h2 className="text-lg font-medium text-gray-900">{editingId === 'new' ? 'New Address' : 'Edit Address'}</h2>
+
+            <div>
+              <label htmlFor="label" className="block text-sm font-medium text-gray-700">Label</label>
+              <input
+                id="label"
+                name="label"
+                type="text"
+                maxLength={30}
+                value={form.label}
+                onChange={handleChange}
+                placeholder="Home, Work, ..."
+                className={inputClassName('label')}
+              />
+              {fieldErrors.label && <p className="mt-1 text-sm text-red-600">{fieldErrors.label}</p>}
+            </div>
+
+            {shippingFields.map((field) => (
+              <div key={field.name}>
+                <label htmlFor={field.name} className="block text-sm font-medium text-gray-700">
+                  {field.label}
+                </label>
+                <input
+                  id={field.name}
+                  name={field.name}
+                  type="text"
+                  autoComplete={field.autoComplete}
+                  value={form[field.name]}
+                  onChange={handleChange}
+                  placeholder={field.placeholder}
+                  className={inputClassName(field.name)}
+                />
+                {fieldErrors[field.name] && (
+                  <p className="mt-1 text-sm text-red-600">{fieldErrors[field.name]}</p>
+                )}
+              </div>
+            ))}
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isDefault}
+                onChange={(e) => setForm(prev => ({ ...prev, isDefault: e.target.checked }))}
+              />
+              <span>Use as my default address</span>
+            </label>
+
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={closeForm} className="text-gray-600 hover:text-gray-900 font-medium py-2 px-4">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save address'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <p className="text-gray-600">Loading your addresses...</p>
+          </div>
+        ) : addresses.length === 0 ? (
+          editingId === null && (
+            <div className="bg-white rounded-lg shadow-md p-12 text-center">
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No saved addresses</h3>
+              <p className="text-gray-600">Add one here, or save the address you use at checkout.</p>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4">
+            {addresses.map(address => (
+              <div key={address._id} className="bg-white rounded-lg shadow-md p-6 flex flex-col sm:flex-row sm:justify-between gap-4">
+                <div className="text-sm text-gray-700">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-lg font-medium text-gray-900">{address.label}</span>
+                    {address.isDefault && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">Default</span>
+                    )}
+                  </div>
+                  <p>{address.fullName}</p>
+                  <p>{address.address}</p>
+                  <p>{address.city}, {address.postalCode}</p>
+                  <p>{address.country}</p>
+                </div>
+                <div className="flex sm:flex-col items-start sm:items-end gap-2 text-sm font-medium">
+                  <button onClick={() => openForm(address)} className="text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                  {!address.isDefault && (
+                    <button
+                      onClick={() => handleSetDefault(address._id)}
+                      disabled={busyId === address._id}
+                      className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                    >
+                      Make default
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(address)}
+                    disabled={busyId === address._id}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Addresses;
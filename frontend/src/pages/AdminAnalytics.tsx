@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  analyticsApi,
+  hasPermission,
+  type AnalyticsInterval,
+  type AnalyticsRange,
+  type OrderStatusCount,
+  type RevenueSeries,
+  type SalesSummary,
+  type TopCategory,
+  type TopProduct,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import RevenueChart from '../components/RevenueChart';
+
+// Quick ranges, in days up to and including today
+const RANGE_PRESETS = [7, 30, 90, 365];
+
+// Dates are sent as UTC calendar days to match the server's grouping
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const presetRange = (days: number): Required<AnalyticsRange> => {
+  const today = new Date();
+  const from = new Date(today);
+  from.setUTCDate(from.getUTCDate() - (days - 1));
+  return { from: toDateInput(from), to: toDateInput(today) };
+};
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+const AdminAnalytics: React.FC = () => {
+  const { user } = useAuth();
+  const [rangeForm, setRangeForm] = useState(() => presetRange(30));
+  const [range, setRange] = useState(() => presetRange(30));
+  const [revenueInterval, setRevenueInterval] = useState<AnalyticsInterval | ''>('');
+
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [revenue, setRevenue] = useState<RevenueSeries | null>(null);
+  const [statuses, setStatuses] = useState<OrderStatusCount[]>([]);
+  const [topProducts, setTopProducts] = useState<TopProduct[]>([]);
+  const [topCategories, setTopCategories] = useState<TopCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [summaryData, revenueData, statusData, productData, categoryData] = await Promise.all([
+        analyticsApi.getSummary(range),
+        analyticsApi.getRevenue(range, revenueInterval || undefined),
+        analyticsApi.getOrdersByStatus(range),
+        analyticsApi.getTopProducts(range),
+        analyticsApi.getTopCategories(range),
+      ]);
+      setSummary(summaryData);
+      setRevenue(revenueData);
+      setStatuses(statusData);
+      setTopProducts(productData);
+      setTopCategories(categoryData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, revenueInterval]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setRangeForm(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleApplyRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rangeForm.from > rangeForm.to) {
+      setError('The start date must be on or before the end date');
+      return;
+    }
+    setRange(rangeForm);
+  };
+
+  const handlePreset = (days: number) => {
+    const preset = presetRange(days);
+    setRangeForm(preset);
+    setRange(preset);
+  };
+
+  const totalOrders = statuses.reduce((sum, entry) => sum + entry.orders, 0);
+  const maxStatusOrders = Math.max(...statuses.map(entry => entry.orders), 0);
+  const customerCount = summary ? summary.customers.new.customers + summary.customers.returning.customers : 0;
+  const newCustomerShare = customerCount > 0 && summary ? (summary.customers.new.customers / customerCount) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                <Link to="/admin/analytics" className="text-blue-600 font-medium">Analytics</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Sales Analytics</h1>
+          <p className="text-gray-600">
+            Sales are paid orders that weren't cancelled; revenue is net of refunds. Dates are in UTC.
+          </p>
+        </div>
+
+        {/* Date Range */}
+        <form onSubmit={handleApplyRange} className="bg-white rounded-lg shadow-md p-6 mb-8 flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="from"
+              name="from"
+              type="date"
+              value={rangeForm.from}
+              onChange={handleRangeChange}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="to"
+              name="to"
+              type="date"
+              value={rangeForm.to}
+              onChange={handleRangeChange}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+          <div className="flex items-center gap-2 ml-auto">
+            {RANGE_PRESETS.map(days => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => handlePreset(days)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Last {days} days
+              </button>
+            ))}
+          </div>
+        </form>
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoading && !summary ? (
+          <div className="text-center py-12 text-gray-600">Loading analytics...</div>
+        ) : summary && (
+          <>
+            {/* Key Figures */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <p className="text-sm text-gray-600">Revenue</p>
+                <p className="text-2xl font-bold text-gray-900">{formatMoney(summary.revenue)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatMoney(summary.grossSales)} sales · {formatMoney(summary.refunds)} refunded
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <p className="text-sm text-gray-600">Orders</p>
+                <p className="text-2xl font-bold text-gray-900">{summary.orders}</p>
+                <p className="text-xs text-gray-500 mt-1">{summary.itemsSold} items sold</p>
+              </div>
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <p className="text-sm text-gray-600">Average order value</p>
+                <p className="text-2xl font-bold text-gray-900">{formatMoney(summary.averageOrderValue)}</p>
+                <p className="text-xs text-gray-500 mt-1">{formatMoney(summary.discounts)} in discounts</p>
+              </div>
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <p className="text-sm text-gray-600">Customers</p>
+                <p className="text-2xl font-bold text-gray-900">{customerCount}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {summary.customers.new.customers} new · {summary.customers.returning.customers} returning
+                </p>
+              </div>
+            </div>
+
+            {/* Revenue Over Time */}
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h2 className="text-lg font-medium text-gray-900">Revenue Over Time</h2>
+                <div>
+                  <label htmlFor="interval" className="sr-only">Interval</label>
+                  <select
+                    id="interval"
+                    value={revenueInterval}
+                    onChange={(e) => setRevenueInterval(e.target.value as AnalyticsInterval | '')}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Automatic{revenue ? ` (by ${revenue.interval})` : ''}</option>
+                    <option value="day">By day</option>
+                    <option value="week">By week</option>
+                    <option value="month">By month</option>
+                  </select>
+                </div>
+              </div>
+              {revenue && <RevenueChart series={revenue.series} interval={revenue.interval} />}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+              {/* Orders by Status */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-1">Orders by Status</h2>
+                <p className="text-sm text-gray-600 mb-4">All {totalOrders} orders placed in the period, paid or not</p>
+                <ul className="space-y-3">
+                  {statuses.map(entry => (
+                    <li key={entry.status} className="flex items-center gap-3">
+                      <div className="w-24 flex-shrink-0">
+                        <OrderStatusBadge status={entry.status} />
+                      </div>
+                      <div className="flex-1 bg-gray-100 rounded-full h-3">
+                        <div
+                          className="bg-blue-500 h-3 rounded-full"
+                          style={{ width: maxStatusOrders > 0 ? `${(entry.orders / maxStatusOrders) * 100}%` : 0 }}
+                        />
+                      </div>
+                      <span className="w-32 text-right text-sm text-gray-700">
+                        {entry.orders} · {formatMoney(entry.value)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* New vs Returning Customers */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-1">New vs Returning Customers</h2>
+                <p className="text-sm text-gray-600 mb-4">Returning customers also bought before the period started</p>
+                {customerCount === 0 ? (
+                  <p className="py-8 text-center text-gray-600">No customers bought in this period</p>
+                ) : (
+                  <>
+                    <div className="flex h-4 rounded-full overflow-hidden bg-purple-500 mb-4">
+                      <div className="bg-green-500" style={{ width: `${newCustomerShare}%` }} />
+                    </div>
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 font-medium">Customers</th>
+                          <th className="py-2 font-medium text-right">Count</th>
+                          <th className="py-2 font-medium text-right">Orders</th>
+                          <th className="py-2 font-medium text-right">Revenue</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {([
+                          ['New', 'bg-green-500', summary.customers.new],
+                          ['Returning', 'bg-purple-500', summary.customers.returning],
+                        ] as const).map(([label, color, group]) => (
+                          <tr key={label}>
+                            <td className="py-2 text-gray-900">
+                              <span className={`inline-block w-3 h-3 rounded-full mr-2 ${color}`} />
+                              {label}
+                            </td>
+                            <td className="py-2 text-right text-gray-700">{group.customers}</td>
+                            <td className="py-2 text-right text-gray-700">{group.orders}</td>
+                            <td className="py-2 text-right text-gray-900">{formatMoney(group.revenue)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Top Products */}
+              <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">Top Products</h2>
+                  <p className="text-sm text-gray-600">By item revenue before order discounts</p>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {topProducts.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-gray-600">No products sold in this period</td>
+                      </tr>
+                    ) : (
+                      topProducts.map(product => (
+                        <tr key={product.product}>
+                          <td className="px-6 py-4 text-sm">
+                            <Link to={`/products/${product.product}`} className="font-medium text-blue-600 hover:text-blue-800">
+                              {product.name}
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{product.unitsSold}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{product.orders}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatMoney(product.revenue)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Top Categories */}
+              <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">Top Categories</h2>
+                  <p className="text-sm text-gray-600">Grouped by each product's current category</p>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {topCategories.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-gray-600">No products sold in this period</td>
+                      </tr>
+                    ) : (
+                      topCategories.map(category => (
+                        <tr key={category.category || 'none'}>
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                            {category.name || <span className="text-gray-500">Unknown category</span>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{category.unitsSold}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{category.orders}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatMoney(category.revenue)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminAnalytics;
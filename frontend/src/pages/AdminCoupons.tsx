@@ -0,0 +1,570 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  couponApi,
+  categoryApi,
+  ApiError,
+  hasPermission,
+  type Category,
+  type Coupon,
+  type CouponInput,
+  type CouponPagination,
+  type CouponType,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+type CouponForm = {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  minSpend: string;
+  categories: string[];
+  startsAt: string; // yyyy-mm-dd, empty for no start date
+  expiresAt: string;
+  usageLimit: string; // empty means unlimited
+  usageLimitPerUser: string;
+  isActive: boolean;
+};
+
+type CouponErrors = Partial<Record<keyof CouponForm, string>>;
+
+const emptyForm: CouponForm = {
+  code: '',
+  description: '',
+  type: 'percentage',
+  value: '',
+  minSpend: '',
+  categories: [],
+  startsAt: '',
+  expiresAt: '',
+  usageLimit: '',
+  usageLimitPerUser: '',
+  isActive: true,
+};
+
+const TYPE_LABELS: Record<CouponType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+};
+
+// Mirrors the coupon rules enforced by POST/PUT /api/coupons
+const validateCoupon = (form: CouponForm): CouponErrors => {
+  const errors: CouponErrors = {};
+  const value = Number(form.value);
+
+  if (!/^[A-Za-z0-9_-]{3,30}$/.test(form.code.trim())) {
+    errors.code = 'Code must be 3-30 letters, numbers, dashes or underscores';
+  }
+  if (form.type !== 'free_shipping') {
+    if (form.value === '' || Number.isNaN(value) || value <= 0) {
+      errors.value = 'Value must be greater than 0';
+    } else if (form.type === 'percentage' && value > 100) {
+      errors.value = 'Percentage cannot exceed 100';
+    }
+  }
+  if (form.minSpend !== '' && (Number.isNaN(Number(form.minSpend)) || Number(form.minSpend) < 0)) {
+    errors.minSpend = 'Minimum spend must be a positive number';
+  }
+  if (form.startsAt && form.expiresAt && form.startsAt > form.expiresAt) {
+    errors.expiresAt = 'Expiry date must be after the start date';
+  }
+  (['usageLimit', 'usageLimitPerUser'] as const).forEach(field => {
+    const limit = Number(form[field]);
+    if (form[field] !== '' && (!Number.isInteger(limit) || limit < 1)) {
+      errors[field] = 'Limit must be a positive integer';
+    }
+  });
+
+  return errors;
+};
+
+const toDateInput = (date: string | null) => (date ? date.slice(0, 10) : '');
+
+const AdminCoupons: React.FC = () => {
+  const { user } = useAuth();
+
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [pagination, setPagination] = useState<CouponPagination | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<CouponErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await couponApi.getCoupons(page, search);
+      setCoupons(data.coupons);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load coupons');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, search]);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  useEffect(() => {
+    categoryApi.getAllCategories()
+      .then(setCategories)
+      .catch(err => console.error('Failed to load categories:', err));
+  }, []);
+
+  const openForm = (coupon?: Coupon) => {
+    setEditingId(coupon ? coupon._id : null);
+    setForm(coupon
+      ? {
+          code: coupon.code,
+          description: coupon.description,
+          type: coupon.type,
+          value: coupon.type === 'free_shipping' ? '' : String(coupon.value),
+          minSpend: coupon.minSpend ? String(coupon.minSpend) : '',
+          categories: coupon.categories.map(category => category._id),
+          startsAt: toDateInput(coupon.startsAt),
+          expiresAt: toDateInput(coupon.expiresAt),
+          usageLimit: coupon.usageLimit === null ? '' : String(coupon.usageLimit),
+          usageLimitPerUser: coupon.usageLimitPerUser === null ? '' : String(coupon.usageLimitPerUser),
+          isActive: coupon.isActive,
+        }
+      : emptyForm);
+    setFieldErrors({});
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+    if (fieldErrors[name as keyof CouponForm]) {
+      setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    setForm(prev => ({
+      ...prev,
+      categories: prev.categories.includes(categoryId)
+        ? prev.categories.filter(id => id !== categoryId)
+        : [...prev.categories, categoryId],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const errors = validateCoupon(form);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    const couponData: CouponInput = {
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim(),
+      type: form.type,
+      value: form.type === 'free_shipping' ? 0 : Number(form.value),
+      minSpend: form.minSpend === '' ? 0 : Number(form.minSpend),
+      categories: form.categories,
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : null,
+      // Valid through the end of the chosen day
+      expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59.999`).toISOString() : null,
+      usageLimit: form.usageLimit === '' ? null : Number(form.usageLimit),
+      usageLimitPerUser: form.usageLimitPerUser === '' ? null : Number(form.usageLimitPerUser),
+      isActive: form.isActive,
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await couponApi.updateCoupon(editingId, couponData);
+      } else {
+        await couponApi.createCoupon(couponData);
+      }
+      setIsFormOpen(false);
+      await fetchCoupons();
+    } catch (err) {
+      if (err instanceof ApiError && err.errors.length > 0) {
+        // Map server validation errors back onto the form
+        const serverErrors: CouponErrors = {};
+        err.errors.forEach((fieldError) => {
+          const field = fieldError.path.split('[')[0] as keyof CouponForm;
+          if (field in emptyForm && !serverErrors[field]) {
+            serverErrors[field] = fieldError.msg;
+          }
+        });
+        setFieldErrors(serverErrors);
+      }
+      setFormError(err instanceof Error ? err.message : 'Failed to save coupon');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!window.confirm(`Delete coupon ${coupon.code}? Orders that used it keep their discount.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await couponApi.deleteCoupon(coupon._id);
+      await fetchCoupons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete coupon');
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const describeValue = (coupon: Coupon) => {
+    if (coupon.type === 'percentage') return `${coupon.value}% off`;
+    if (coupon.type === 'fixed') return `${formatPrice(coupon.value)} off`;
+    return 'Free shipping';
+  };
+
+  const inputClassName = (field: keyof CouponForm) =>
+    `mt-1 appearance-none block w-full px-3 py-2 border rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm ${
+      fieldErrors[field] ? 'border-red-400' : 'border-gray-300'
+    }`;
+
+  const fieldError = (field: keyof CouponForm) =>
+    fieldErrors[field] && <p className="mt-1 text-sm text-red-600">{fieldErrors[field]}</p>;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-blue-600 font-medium">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Coupons</h1>
+            <p className="text-gray-600">
+              {pagination ? `${pagination.totalCoupons} coupons` : 'Loading coupons...'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              placeholder="Search codes"
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <button
+              onClick={() => openForm()}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              New Coupon
+            </button>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Coupon Form */}
+        {isFormOpen && (
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-8 space-y-6" noValidate>
+            <h2 className="text-lg font-medium text-gray-900">{editingId ? 'Edit Coupon' : 'New Coupon'}</h2>
+
+            {formError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                <p className="text-sm">{formError}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700">Code</label>
+                <input id="code" name="code" type="text" value={form.code} onChange={handleChange} className={`${inputClassName('code')} uppercase`} />
+                {fieldError('code')}
+              </div>
+              <div>
+                <label htmlFor="type" className="block text-sm font-medium text-gray-700">Type</label>
+                <select id="type" name="type" value={form.type} onChange={handleChange} className={inputClassName('type')}>
+                  {(Object.keys(TYPE_LABELS) as CouponType[]).map(type => (
+                    <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="value" className="block text-sm font-medium text-gray-700">
+                  {form.type === 'percentage' ? 'Percent off' : 'Amount off ($)'}
+                </label>
+                <input
+                  id="value"
+                  name="value"
+                  type="number"
+                  min="0"
+                  step={form.type === 'percentage' ? '1' : '0.01'}
+                  value={form.value}
+                  onChange={handleChange}
+                  disabled={form.type === 'free_shipping'}
+                  className={`${inputClassName('value')} disabled:bg-gray-100`}
+                />
+                {fieldError('value')}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700">Description (optional)</label>
+              <input id="description" name="description" type="text" maxLength={200} value={form.description} onChange={handleChange} className={inputClassName('description')} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label htmlFor="minSpend" className="block text-sm font-medium text-gray-700">Minimum spend ($)</label>
+                <input id="minSpend" name="minSpend" type="number" min="0" step="0.01" value={form.minSpend} onChange={handleChange} placeholder="None" className={inputClassName('minSpend')} />
+                {fieldError('minSpend')}
+              </div>
+              <div>
+                <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700">Starts</label>
+                <input id="startsAt" name="startsAt" type="date" value={form.startsAt} onChange={handleChange} className={inputClassName('startsAt')} />
+                {fieldError('startsAt')}
+              </div>
+              <div>
+                <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700">Expires</label>
+                <input id="expiresAt" name="expiresAt" type="date" value={form.expiresAt} onChange={handleChange} className={inputClassName('expiresAt')} />
+                {fieldError('expiresAt')}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label htmlFor="usageLimit" className="block text-sm font-medium text-gray-700">Total uses</label>
+                <input id="usageLimit" name="usageLimit" type="number" min="1" step="1" value={form.usageLimit} onChange={handleChange} placeholder="Unlimited" className={inputClassName('usageLimit')} />
+                {fieldError('usageLimit')}
+              </div>
+              <div>
+                <label htmlFor="usageLimitPerUser" className="block text-sm font-medium text-gray-700">Uses per customer</label>
+                <input id="usageLimitPerUser" name="usageLimitPerUser" type="number" min="1" step="1" value={form.usageLimitPerUser} onChange={handleChange} placeholder="Unlimited" className={inputClassName('usageLimitPerUser')} />
+                {fieldError('usageLimitPerUser')}
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">
+                Eligible categories <span className="text-gray-500 font-normal">(none selected applies to every product)</span>
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(category => (
+                  <label
+                    key={category._id}
+                    className={`flex items-center space-x-2 px-3 py-1 rounded-full border text-sm cursor-pointer ${
+                      form.categories.includes(category._id) ? 'bg-blue-50 border-blue-300 text-blue-800' : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.categories.includes(category._id)}
+                      onChange={() => toggleCategory(category._id)}
+                      className="h-3 w-3"
+                    />
+                    <span>{category.name}</span>
+                  </label>
+                ))}
+              </div>
+              {fieldError('categories')}
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setIsFormOpen(false)}
+                className="text-gray-600 hover:text-gray-900 font-medium px-4 py-2"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Coupon'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Coupons Table */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Conditions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">Loading coupons...</td>
+                </tr>
+              ) : coupons.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">No coupons found</td>
+                </tr>
+              ) : (
+                coupons.map((coupon) => {
+                  const isExpired = !!coupon.expiresAt && new Date(coupon.expiresAt) < new Date();
+
+                  return (
+                    <tr key={coupon._id} className={coupon.isActive && !isExpired ? '' : 'bg-gray-50'}>
+                      <td className="px-6 py-4">
+                        <p className="font-mono font-medium text-gray-900">{coupon.code}</p>
+                        {coupon.description && <p className="text-xs text-gray-500">{coupon.description}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{describeValue(coupon)}</td>
+                      <td className="px-6 py-4 text-xs text-gray-600 space-y-1">
+                        {coupon.minSpend > 0 && <p>Min spend {formatPrice(coupon.minSpend)}</p>}
+                        {coupon.categories.length > 0 && (
+                          <p>Only {coupon.categories.map(category => category.name).join(', ')}</p>
+                        )}
+                        {(coupon.startsAt || coupon.expiresAt) && (
+                          <p>
+                            {coupon.startsAt ? formatDate(coupon.startsAt) : 'Now'} – {coupon.expiresAt ? formatDate(coupon.expiresAt) : 'No expiry'}
+                          </p>
+                        )}
+                        {coupon.usageLimitPerUser !== null && <p>{coupon.usageLimitPerUser} per customer</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {coupon.usedCount}{coupon.usageLimit !== null && ` / ${coupon.usageLimit}`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
+                            coupon.isActive && !isExpired ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                          }`}
+                        >
+                          {!coupon.isActive ? 'Inactive' : isExpired ? 'Expired' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                        <button
+                          onClick={() => openForm(coupon)}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(coupon)}
+                          className="text-sm text-red-600 hover:text-red-800 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={!pagination.hasPrevPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={!pagination.hasNextPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminCoupons;
@@ -0,0 +1,485 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  inventoryApi,
+  productApi,
+  hasPermission,
+  STOCK_MOVEMENT_LABELS,
+  type LowStockProduct,
+  type Product,
+  type ProductPagination,
+  type StockMovement,
+  type StockMovementPagination,
+  type StockMovementType,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { formatOptions, hasVariants } from '../utils/variants';
+
+const PAGE_SIZE = 20;
+
+const emptyAdjustment = {
+  variant: '',
+  change: '',
+  reason: '',
+};
+
+const AdminInventory: React.FC = () => {
+  const { user } = useAuth();
+  // ?product= focuses the page on one product (the product editor links here)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const productId = searchParams.get('product') || '';
+
+  const [lowStock, setLowStock] = useState<LowStockProduct[]>([]);
+  const [lowStockPagination, setLowStockPagination] = useState<ProductPagination | null>(null);
+  const [lowStockPage, setLowStockPage] = useState(1);
+  const [isLoadingLowStock, setIsLoadingLowStock] = useState(true);
+
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [movementPagination, setMovementPagination] = useState<StockMovementPagination | null>(null);
+  const [movementPage, setMovementPage] = useState(1);
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | ''>('');
+  const [isLoadingMovements, setIsLoadingMovements] = useState(true);
+
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [adjustment, setAdjustment] = useState(emptyAdjustment);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLowStock = useCallback(async () => {
+    try {
+      setIsLoadingLowStock(true);
+      const data = await inventoryApi.getLowStock(lowStockPage);
+      setLowStock(data.products);
+      setLowStockPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load low-stock products');
+    } finally {
+      setIsLoadingLowStock(false);
+    }
+  }, [lowStockPage]);
+
+  const fetchMovements = useCallback(async () => {
+    try {
+      setIsLoadingMovements(true);
+      const data = await inventoryApi.getMovements({
+        product: productId || undefined,
+        type: typeFilter || undefined,
+        page: movementPage,
+        limit: PAGE_SIZE,
+      });
+      setMovements(data.movements);
+      setMovementPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stock history');
+    } finally {
+      setIsLoadingMovements(false);
+    }
+  }, [productId, typeFilter, movementPage]);
+
+  useEffect(() => {
+    fetchLowStock();
+  }, [fetchLowStock]);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [fetchMovements]);
+
+  // Load the focused product so its stock can be adjusted
+  useEffect(() => {
+    setAdjustment(emptyAdjustment);
+    if (!productId) {
+      setSelectedProduct(null);
+      return;
+    }
+
+    productApi.getProductById(productId)
+      .then(setSelectedProduct)
+      .catch(err => {
+        setSelectedProduct(null);
+        setError(err instanceof Error ? err.message : 'Failed to load product');
+      });
+  }, [productId]);
+
+  const handleSelectProduct = (id: string) => {
+    setNotice(null);
+    setError(null);
+    setMovementPage(1);
+    setSearchParams(id ? { product: id } : {});
+  };
+
+  const handleAdjustmentChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setAdjustment(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedProduct) return;
+
+    const change = Number(adjustment.change);
+    if (!Number.isInteger(change) || change === 0) {
+      setError('Enter a whole number of units to add (e.g. 10) or remove (e.g. -3)');
+      return;
+    }
+    if (adjustment.reason.trim().length < 3) {
+      setError('Please give a reason for the adjustment');
+      return;
+    }
+
+    try {
+      setIsAdjusting(true);
+      setError(null);
+      const result = await inventoryApi.adjustStock(selectedProduct._id, change, adjustment.reason.trim(), adjustment.variant || null);
+      setSelectedProduct(result.product);
+      setAdjustment(prev => ({ ...emptyAdjustment, variant: prev.variant }));
+      setNotice(result.message);
+      await Promise.all([fetchLowStock(), fetchMovements()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust stock');
+    } finally {
+      setIsAdjusting(false);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const isVariantProduct = !!selectedProduct && hasVariants(selectedProduct);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-blue-600 font-medium">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Inventory</h1>
+          <p className="text-gray-600">Low-stock alerts, manual stock adjustments and the history of every stock change.</p>
+        </div>
+
+        {/* Messages */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{notice}</p>
+          </div>
+        )}
+
+        {/* Low-Stock Alerts */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">
+              Low Stock{lowStockPagination ? ` (${lowStockPagination.totalProducts})` : ''}
+            </h2>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Running low</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Threshold</th>
+                <th className="px-6 py-3"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoadingLowStock ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-600">Loading...</td>
+                </tr>
+              ) : lowStock.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-600">Every product is above its low-stock threshold</td>
+                </tr>
+              ) : (
+                lowStock.map(product => (
+                  <tr key={product._id} className={product._id === productId ? 'bg-blue-50' : undefined}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="font-medium text-gray-900">{product.name}</p>
+                      {typeof product.category === 'object' && <p className="text-xs text-gray-500">{product.category.name}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <ul className="space-y-1">
+                        {product.levels.map(level => (
+                          <li key={level.variant || 'product'} className={level.quantity === 0 ? 'text-red-600' : 'text-orange-600'}>
+                            {level.label ? `${level.label}: ` : ''}
+                            {level.quantity === 0 ? 'Out of stock' : `${level.quantity} left`}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{product.lowStockThreshold}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <button
+                        onClick={() => handleSelectProduct(product._id)}
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        Adjust &amp; history
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          {lowStockPagination && lowStockPagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <button
+                onClick={() => setLowStockPage(prev => prev - 1)}
+                disabled={!lowStockPagination.hasPrevPage || isLoadingLowStock}
+                className="text-sm text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {lowStockPagination.currentPage} of {lowStockPagination.totalPages}
+              </span>
+              <button
+                onClick={() => setLowStockPage(prev => prev + 1)}
+                disabled={!lowStockPagination.hasNextPage || isLoadingLowStock}
+                className="text-sm text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Stock Adjustment */}
+        {selectedProduct && (
+          <form onSubmit={handleAdjust} className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">Adjust stock: {selectedProduct.name}</h2>
+                <p className="text-sm text-gray-600">
+                  {isVariantProduct
+                    ? selectedProduct.variants!.map(variant => `${formatOptions(variant.options)}: ${variant.quantity}`).join(' · ')
+                    : `${selectedProduct.quantity} in stock`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleSelectProduct('')}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Close
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {isVariantProduct && (
+                <div>
+                  <label htmlFor="variant" className="block text-sm font-medium text-gray-700 mb-1">Variant</label>
+                  <select
+                    id="variant"
+                    name="variant"
+                    value={adjustment.variant}
+                    onChange={handleAdjustmentChange}
+                    required
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a variant</option>
+                    {selectedProduct.variants!.map(variant => (
+                      <option key={variant._id} value={variant._id}>
+                        {formatOptions(variant.options)} ({variant.sku})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label htmlFor="change" className="block text-sm font-medium text-gray-700 mb-1">Change</label>
+                <input
+                  id="change"
+                  name="change"
+                  type="number"
+                  step="1"
+                  value={adjustment.change}
+                  onChange={handleAdjustmentChange}
+                  placeholder="e.g. 10 or -3"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className={isVariantProduct ? 'md:col-span-2' : 'md:col-span-3'}>
+                <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  id="reason"
+                  name="reason"
+                  type="text"
+                  value={adjustment.reason}
+                  onChange={handleAdjustmentChange}
+                  maxLength={500}
+                  placeholder="e.g. Delivery from supplier, stock count, damaged"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <button
+                type="submit"
+                disabled={isAdjusting}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAdjusting ? 'Saving...' : 'Adjust Stock'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Stock History */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+            <h2 className="text-lg font-medium text-gray-900">
+              Stock History{selectedProduct ? `: ${selectedProduct.name}` : ''}
+            </h2>
+            <div className="flex items-center space-x-3">
+              <label htmlFor="type" className="sr-only">Movement type</label>
+              <select
+                id="type"
+                value={typeFilter}
+                onChange={(e) => {
+                  setTypeFilter(e.target.value as StockMovementType | '');
+                  setMovementPage(1);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All movements</option>
+                {Object.entries(STOCK_MOVEMENT_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              {productId && (
+                <button
+                  onClick={() => handleSelectProduct('')}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  All products
+                </button>
+              )}
+            </div>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Movement</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Stock after</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoadingMovements ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">Loading...</td>
+                </tr>
+              ) : movements.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">No stock movements recorded</td>
+                </tr>
+              ) : (
+                movements.map(movement => (
+                  <tr key={movement._id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatDate(movement.createdAt)}</td>
+                    <td className="px-6 py-4 text-sm">
+                      {movement.product ? (
+                        <button
+                          onClick={() => handleSelectProduct(movement.product!._id)}
+                          className="font-medium text-blue-600 hover:text-blue-800 text-left"
+                        >
+                          {movement.product.name}
+                        </button>
+                      ) : (
+                        <span className="text-gray-500">Deleted product</span>
+                      )}
+                      {movement.sku && <p className="text-xs text-gray-500">SKU {movement.sku}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {STOCK_MOVEMENT_LABELS[movement.type]}
+                      {movement.order && (
+                        <Link to={`/orders/${movement.order._id}`} className="block text-xs text-blue-600 hover:text-blue-800">
+                          {movement.order.orderNumber}
+                        </Link>
+                      )}
+                      {movement.reason && <p className="text-xs text-gray-500">{movement.reason}</p>}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${movement.change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {movement.change > 0 ? `+${movement.change}` : movement.change}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{movement.quantityAfter}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{movement.actor?.username || '—'}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          {movementPagination && movementPagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <button
+                onClick={() => setMovementPage(prev => prev - 1)}
+                disabled={!movementPagination.hasPrevPage || isLoadingMovements}
+                className="text-sm text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {movementPagination.currentPage} of {movementPagination.totalPages}
+              </span>
+              <button
+                onClick={() => setMovementPage(prev => prev + 1)}
+                disabled={!movementPagination.hasNextPage || isLoadingMovements}
+                className="text-sm text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AdminInventory;
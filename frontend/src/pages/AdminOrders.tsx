@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  orderApi,
+  ORDER_STATUS_TRANSITIONS,
+  hasPermission,
+  type Order,
+  type OrderStatus,
+  type OrderPagination,
+  type AdminOrderFilters,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import PaymentStatusBadge from '../components/PaymentStatusBadge';
+
+const ORDER_STATUSES: OrderStatus[] = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+const PAGE_SIZE = 10;
+
+const emptyFilters = {
+  status: '' as OrderStatus | '',
+  customer: '',
+  from: '',
+  to: '',
+};
+
+const AdminOrders: React.FC = () => {
+  const { user } = useAuth();
+  const canUpdateStatus = hasPermission(user, 'orders:update-status');
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [pagination, setPagination] = useState<OrderPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [filterForm, setFilterForm] = useState(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState(emptyFilters);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [nextStatuses, setNextStatuses] = useState<{ [key: string]: OrderStatus | '' }>({});
+  const [updatingOrders, setUpdatingOrders] = useState<{ [key: string]: boolean }>({});
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    const params: AdminOrderFilters = { page, limit: PAGE_SIZE };
+    if (appliedFilters.status) params.status = appliedFilters.status;
+    if (appliedFilters.customer.trim()) params.customer = appliedFilters.customer.trim();
+    if (appliedFilters.from) params.from = appliedFilters.from;
+    if (appliedFilters.to) params.to = appliedFilters.to;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await orderApi.getAdminOrders(params);
+      setOrders(data.orders);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, appliedFilters]);
+
+  // Fetch orders whenever page or filters change
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilterForm(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filterForm);
+  };
+
+  const handleResetFilters = () => {
+    setFilterForm(emptyFilters);
+    setAppliedFilters(emptyFilters);
+    setPage(1);
+  };
+
+  const handleUpdateStatus = async (order: Order) => {
+    const status = nextStatuses[order._id];
+    if (!status) return;
+
+    const refundNote = order.payment?.status === 'paid' ? ' The payment will be refunded.' : '';
+    if (status === 'cancelled' && !window.confirm(`Cancel order ${order.orderNumber}? Stock will be restored.${refundNote}`)) {
+      return;
+    }
+
+    try {
+      setUpdatingOrders(prev => ({ ...prev, [order._id]: true }));
+      setActionError(null);
+
+      // Cancellation goes through the cancel endpoint so inventory is restored
+      if (status === 'cancelled') {
+        await orderApi.cancelOrder(order._id);
+      } else {
+        await orderApi.updateOrderStatus(order._id, status);
+      }
+
+      setNextStatuses(prev => ({ ...prev, [order._id]: '' }));
+      await fetchOrders();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update order status');
+    } finally {
+      setUpdatingOrders(prev => ({ ...prev, [order._id]: false }));
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-blue-600 font-medium">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Order Management</h1>
+          <p className="text-gray-600">
+            {pagination ? `${pagination.totalOrders} orders found` : 'Loading orders...'}
+          </p>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleApplyFilters} className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                id="status"
+                name="status"
+                value={filterForm.status}
+                onChange={handleFilterChange}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 capitalize"
+              >
+                <option value="">All statuses</option>
+                {ORDER_STATUSES.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="customer" className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
+              <input
+                id="customer"
+                name="customer"
+                type="text"
+                value={filterForm.customer}
+                onChange={handleFilterChange}
+                placeholder="Name, email or user ID"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                id="from"
+                name="from"
+                type="date"
+                value={filterForm.from}
+                onChange={handleFilterChange}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                id="to"
+                name="to"
+                type="date"
+                value={filterForm.to}
+                onChange={handleFilterChange}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3 mt-4">
+            <button
+              type="button"
+              onClick={handleResetFilters}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </form>
+
+        {/* Error Messages */}
+        {(error || actionError) && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error || actionError}</p>
+          </div>
+        )}
+
+        {/* Orders Table */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Update</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-600">Loading orders...</td>
+                </tr>
+              ) : orders.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-600">No orders match these filters</td>
+                </tr>
+              ) : (
+                orders.map((order) => {
+                  // Unpaid orders can't be processed yet, only cancelled; read-only staff can't change anything
+                  const allowedStatuses = canUpdateStatus ? ORDER_STATUS_TRANSITIONS[order.status].filter(
+                    status => status !== 'processing' || order.payment?.status === 'paid'
+                  ) : [];
+                  return (
+                    <tr key={order._id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link to={`/orders/${order._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                          {order.orderNumber}
+                        </Link>
+                        <p className="text-xs text-gray-500">{order.totalItems} items</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {typeof order.customer === 'object' ? (
+                          <>
+                            <p className="font-medium text-gray-900">{order.customer.firstName} {order.customer.lastName}</p>
+                            <p className="text-xs text-gray-500">{order.customer.email}</p>
+                          </>
+                        ) : (
+                          order.customer
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatDate(order.orderDate)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {formatPrice(order.totalAmount)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <OrderStatusBadge status={order.status} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {order.payment && <PaymentStatusBadge status={order.payment.status} />}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {allowedStatuses.length === 0 ? (
+                          <span className="text-xs text-gray-400">{canUpdateStatus ? 'No further changes' : 'View only'}</span>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            <select
+                              value={nextStatuses[order._id] || ''}
+                              onChange={(e) => setNextStatuses(prev => ({ ...prev, [order._id]: e.target.value as OrderStatus | '' }))}
+                              disabled={updatingOrders[order._id]}
+                              className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 capitalize"
+                            >
+                              <option value="">Select...</option>
+                              {allowedStatuses.map(status => (
+                                <option key={status} value={status}>{status}</option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => handleUpdateStatus(order)}
+                              disabled={!nextStatuses[order._id] || updatingOrders[order._id]}
+                              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {updatingOrders[order._id] ? 'Saving...' : 'Update'}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={!pagination.hasPrevPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={!pagination.hasNextPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminOrders;
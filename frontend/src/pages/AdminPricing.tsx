@@ -0,0 +1,748 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  pricingApi,
+  ApiError,
+  hasPermission,
+  type ShippingMethod,
+  type ShippingRule,
+  type ShippingRuleInput,
+  type TaxRule,
+  type TaxRuleInput,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+type ShippingRuleForm = {
+  name: string;
+  countries: string; // Comma separated
+  postalCodePrefixes: string; // Comma separated
+  method: ShippingMethod;
+  flatRate: string;
+  weightTiers: { maxWeight: string; rate: string }[]; // Empty maxWeight covers anything heavier
+  freeOver: string; // Empty means never free
+  isActive: boolean;
+};
+
+type TaxRuleForm = {
+  name: string;
+  country: string;
+  postalCodePrefix: string;
+  rate: string;
+  appliesToShipping: boolean;
+  isActive: boolean;
+};
+
+const emptyShippingForm: ShippingRuleForm = {
+  name: '',
+  countries: '',
+  postalCodePrefixes: '',
+  method: 'flat',
+  flatRate: '',
+  weightTiers: [{ maxWeight: '', rate: '' }],
+  freeOver: '',
+  isActive: true,
+};
+
+const emptyTaxForm: TaxRuleForm = {
+  name: '',
+  country: '',
+  postalCodePrefix: '',
+  rate: '',
+  appliesToShipping: false,
+  isActive: true,
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const isNonNegative = (value: string) => value !== '' && !Number.isNaN(Number(value)) && Number(value) >= 0;
+
+// Mirrors the shipping rule checks enforced by /api/pricing/shipping-rules
+const validateShippingRule = (form: ShippingRuleForm): string | null => {
+  if (form.name.trim().length < 2) {
+    return 'Rule name must be at least 2 characters';
+  }
+  if (splitList(form.postalCodePrefixes).length > 0 && splitList(form.countries).length === 0) {
+    return 'Postal code prefixes need at least one country';
+  }
+  if (form.method === 'flat' && !isNonNegative(form.flatRate)) {
+    return 'Flat rate must be a non-negative number';
+  }
+  if (form.method === 'weight_tiers') {
+    if (form.weightTiers.length === 0) {
+      return 'Add at least one weight tier';
+    }
+    const invalidTier = form.weightTiers.some(tier =>
+      !isNonNegative(tier.rate) || (tier.maxWeight !== '' && !isNonNegative(tier.maxWeight)));
+    if (invalidTier) {
+      return 'Each tier needs a non-negative rate and weight';
+    }
+  }
+  if (form.freeOver !== '' && !isNonNegative(form.freeOver)) {
+    return 'Free shipping threshold must be a non-negative number';
+  }
+  return null;
+};
+
+// Mirrors the tax rule checks enforced by /api/pricing/tax-rules
+const validateTaxRule = (form: TaxRuleForm): string | null => {
+  if (form.name.trim().length < 2) {
+    return 'Rule name must be at least 2 characters';
+  }
+  if (form.country.trim().length < 2) {
+    return 'Country must be at least 2 characters';
+  }
+  if (!isNonNegative(form.rate) || Number(form.rate) > 100) {
+    return 'Tax rate must be between 0 and 100';
+  }
+  return null;
+};
+
+// Server validation errors arrive as a list; show the first one
+const describeError = (err: unknown, fallback: string) => {
+  if (err instanceof ApiError && err.errors.length > 0) {
+    return err.errors[0].msg;
+  }
+  return err instanceof Error ? err.message : fallback;
+};
+
+const AdminPricing: React.FC = () => {
+  const { user } = useAuth();
+
+  const [shippingRules, setShippingRules] = useState<ShippingRule[]>([]);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // null: form closed, '': creating, otherwise the ID being edited
+  const [editingShippingId, setEditingShippingId] = useState<string | null>(null);
+  const [shippingForm, setShippingForm] = useState<ShippingRuleForm>(emptyShippingForm);
+  const [shippingFormError, setShippingFormError] = useState<string | null>(null);
+
+  const [editingTaxId, setEditingTaxId] = useState<string | null>(null);
+  const [taxForm, setTaxForm] = useState<TaxRuleForm>(emptyTaxForm);
+  const [taxFormError, setTaxFormError] = useState<string | null>(null);
+
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [shippingData, taxData] = await Promise.all([
+        pricingApi.getShippingRules(),
+        pricingApi.getTaxRules(),
+      ]);
+      setShippingRules(shippingData);
+      setTaxRules(taxData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pricing rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const describeShippingRate = (rule: ShippingRule) => {
+    if (rule.method === 'flat') {
+      return `${formatPrice(rule.flatRate)} per order`;
+    }
+    return rule.weightTiers
+      .map(tier => `${tier.maxWeight === null ? 'heavier' : `≤ ${tier.maxWeight} kg`}: ${formatPrice(tier.rate)}`)
+      .join(', ');
+  };
+
+  const openShippingForm = (rule?: ShippingRule) => {
+    setEditingShippingId(rule ? rule._id : '');
+    setShippingForm(rule
+      ? {
+          name: rule.name,
+          countries: rule.countries.join(', '),
+          postalCodePrefixes: rule.postalCodePrefixes.join(', '),
+          method: rule.method,
+          flatRate: String(rule.flatRate),
+          weightTiers: rule.weightTiers.length > 0
+            ? rule.weightTiers.map(tier => ({
+                maxWeight: tier.maxWeight === null ? '' : String(tier.maxWeight),
+                rate: String(tier.rate),
+              }))
+            : [{ maxWeight: '', rate: '' }],
+          freeOver: rule.freeOver === null ? '' : String(rule.freeOver),
+          isActive: rule.isActive,
+        }
+      : emptyShippingForm);
+    setShippingFormError(null);
+  };
+
+  const openTaxForm = (rule?: TaxRule) => {
+    setEditingTaxId(rule ? rule._id : '');
+    setTaxForm(rule
+      ? {
+          name: rule.name,
+          country: rule.country,
+          postalCodePrefix: rule.postalCodePrefix,
+          rate: String(rule.rate),
+          appliesToShipping: rule.appliesToShipping,
+          isActive: rule.isActive,
+        }
+      : emptyTaxForm);
+    setTaxFormError(null);
+  };
+
+  const updateTier = (index: number, field: 'maxWeight' | 'rate', value: string) => {
+    setShippingForm(prev => ({
+      ...prev,
+      weightTiers: prev.weightTiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    }));
+  };
+
+  const handleShippingSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateShippingRule(shippingForm);
+    setShippingFormError(validationError);
+    if (validationError) {
+      return;
+    }
+
+    const ruleData: ShippingRuleInput = {
+      name: shippingForm.name.trim(),
+      countries: splitList(shippingForm.countries),
+      postalCodePrefixes: splitList(shippingForm.postalCodePrefixes),
+      method: shippingForm.method,
+      flatRate: shippingForm.flatRate === '' ? 0 : Number(shippingForm.flatRate),
+      weightTiers: shippingForm.method === 'weight_tiers'
+        ? shippingForm.weightTiers.map(tier => ({
+            maxWeight: tier.maxWeight === '' ? null : Number(tier.maxWeight),
+            rate: Number(tier.rate),
+          }))
+        : [],
+      freeOver: shippingForm.freeOver === '' ? null : Number(shippingForm.freeOver),
+      isActive: shippingForm.isActive,
+    };
+
+    try {
+      setIsSaving(true);
+      await pricingApi.saveShippingRule(ruleData, editingShippingId || undefined);
+      setEditingShippingId(null);
+      await fetchRules();
+    } catch (err) {
+      setShippingFormError(describeError(err, 'Failed to save shipping rule'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTaxSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateTaxRule(taxForm);
+    setTaxFormError(validationError);
+    if (validationError) {
+      return;
+    }
+
+    const ruleData: TaxRuleInput = {
+      name: taxForm.name.trim(),
+      country: taxForm.country.trim(),
+      postalCodePrefix: taxForm.postalCodePrefix.trim(),
+      rate: Number(taxForm.rate),
+      appliesToShipping: taxForm.appliesToShipping,
+      isActive: taxForm.isActive,
+    };
+
+    try {
+      setIsSaving(true);
+      await pricingApi.saveTaxRule(ruleData, editingTaxId || undefined);
+      setEditingTaxId(null);
+      await fetchRules();
+    } catch (err) {
+      setTaxFormError(describeError(err, 'Failed to save tax rule'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (label: string, remove: () => Promise<void>) => {
+    if (!window.confirm(`Delete ${label}? Orders already placed keep their charges.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await remove();
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  const inputClassName = 'mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-blue-600 font-medium">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-10">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Shipping &amp; Tax</h1>
+          <p className="text-gray-600">
+            The most specific matching rule is used: postal code prefix, then country, then a rule with no countries.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Shipping Rules */}
+        <section>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Shipping Rules</h2>
+            <button
+              onClick={() => openShippingForm()}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              New Shipping Rule
+            </button>
+          </div>
+
+          {editingShippingId !== null && (
+            <form onSubmit={handleShippingSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-4" noValidate>
+              {shippingFormError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                  <p className="text-sm">{shippingFormError}</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="shipping-name" className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    id="shipping-name"
+                    type="text"
+                    value={shippingForm.name}
+                    onChange={(e) => setShippingForm(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="Standard (US)"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="shipping-countries" className="block text-sm font-medium text-gray-700">Countries</label>
+                  <input
+                    id="shipping-countries"
+                    type="text"
+                    value={shippingForm.countries}
+                    onChange={(e) => setShippingForm(prev => ({ ...prev, countries: e.target.value }))}
+                    placeholder="US, United States (empty = everywhere else)"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="shipping-prefixes" className="block text-sm font-medium text-gray-700">Postal code prefixes</label>
+                  <input
+                    id="shipping-prefixes"
+                    type="text"
+                    value={shippingForm.postalCodePrefixes}
+                    onChange={(e) => setShippingForm(prev => ({ ...prev, postalCodePrefixes: e.target.value }))}
+                    placeholder="Optional, e.g. 96, 99"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="shipping-method" className="block text-sm font-medium text-gray-700">Method</label>
+                  <select
+                    id="shipping-method"
+                    value={shippingForm.method}
+                    onChange={(e) => setShippingForm(prev => ({ ...prev, method: e.target.value as ShippingMethod }))}
+                    className={inputClassName}
+                  >
+                    <option value="flat">Flat rate</option>
+                    <option value="weight_tiers">Weight tiers</option>
+                  </select>
+                </div>
+                {shippingForm.method === 'flat' && (
+                  <div>
+                    <label htmlFor="shipping-flat-rate" className="block text-sm font-medium text-gray-700">Rate ($)</label>
+                    <input
+                      id="shipping-flat-rate"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={shippingForm.flatRate}
+                      onChange={(e) => setShippingForm(prev => ({ ...prev, flatRate: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="shipping-free-over" className="block text-sm font-medium text-gray-700">Free over ($)</label>
+                  <input
+                    id="shipping-free-over"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={shippingForm.freeOver}
+                    onChange={(e) => setShippingForm(prev => ({ ...prev, freeOver: e.target.value }))}
+                    placeholder="Never"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              {shippingForm.method === 'weight_tiers' && (
+                <div>
+                  <span className="block text-sm font-medium text-gray-700 mb-2">
+                    Weight tiers <span className="text-gray-500 font-normal">(leave max weight empty for "anything heavier")</span>
+                  </span>
+                  <div className="space-y-2">
+                    {shippingForm.weightTiers.map((tier, index) => (
+                      <div key={index} className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={tier.maxWeight}
+                          onChange={(e) => updateTier(index, 'maxWeight', e.target.value)}
+                          placeholder="Up to kg"
+                          aria-label="Maximum weight in kg"
+                          className="w-32 px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={tier.rate}
+                          onChange={(e) => updateTier(index, 'rate', e.target.value)}
+                          placeholder="Rate $"
+                          aria-label="Rate in dollars"
+                          className="w-32 px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShippingForm(prev => ({
+                            ...prev,
+                            weightTiers: prev.weightTiers.filter((_, i) => i !== index),
+                          }))}
+                          className="text-sm text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setShippingForm(prev => ({
+                      ...prev,
+                      weightTiers: [...prev.weightTiers, { maxWeight: '', rate: '' }],
+                    }))}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    + Add tier
+                  </button>
+                </div>
+              )}
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={shippingForm.isActive}
+                  onChange={(e) => setShippingForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>Active</span>
+              </label>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setEditingShippingId(null)}
+                  className="text-gray-600 hover:text-gray-900 font-medium px-4 py-2"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : editingShippingId ? 'Save Changes' : 'Create Rule'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Destination</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Free Over</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-600">Loading shipping rules...</td>
+                  </tr>
+                ) : shippingRules.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-600">
+                      No shipping rules yet, so delivery is free everywhere. Once a rule is added, customers can only check out to addresses a rule covers.
+                    </td>
+                  </tr>
+                ) : (
+                  shippingRules.map((rule) => (
+                    <tr key={rule._id} className={rule.isActive ? '' : 'bg-gray-50'}>
+                      <td className="px-6 py-4">
+                        <p className={`font-medium ${rule.isActive ? 'text-gray-900' : 'text-gray-500'}`}>{rule.name}</p>
+                        {!rule.isActive && <p className="text-xs text-gray-500">Inactive</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {rule.countries.length > 0 ? rule.countries.join(', ') : 'Everywhere else'}
+                        {rule.postalCodePrefixes.length > 0 && (
+                          <p className="text-xs text-gray-500">Postal codes {rule.postalCodePrefixes.map(prefix => `${prefix}*`).join(', ')}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{describeShippingRate(rule)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {rule.freeOver === null ? '—' : formatPrice(rule.freeOver)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                        <button
+                          onClick={() => openShippingForm(rule)}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(`shipping rule "${rule.name}"`, () => pricingApi.deleteShippingRule(rule._id))}
+                          className="text-sm text-red-600 hover:text-red-800 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {/* Tax Rules */}
+        <section>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Tax Rules</h2>
+            <button
+              onClick={() => openTaxForm()}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              New Tax Rule
+            </button>
+          </div>
+
+          {editingTaxId !== null && (
+            <form onSubmit={handleTaxSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-4" noValidate>
+              {taxFormError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                  <p className="text-sm">{taxFormError}</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label htmlFor="tax-name" className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    id="tax-name"
+                    type="text"
+                    value={taxForm.name}
+                    onChange={(e) => setTaxForm(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="California sales tax"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="tax-country" className="block text-sm font-medium text-gray-700">Country</label>
+                  <input
+                    id="tax-country"
+                    type="text"
+                    value={taxForm.country}
+                    onChange={(e) => setTaxForm(prev => ({ ...prev, country: e.target.value }))}
+                    placeholder="US"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="tax-prefix" className="block text-sm font-medium text-gray-700">Postal code prefix</label>
+                  <input
+                    id="tax-prefix"
+                    type="text"
+                    value={taxForm.postalCodePrefix}
+                    onChange={(e) => setTaxForm(prev => ({ ...prev, postalCodePrefix: e.target.value }))}
+                    placeholder="Whole country"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="tax-rate" className="block text-sm font-medium text-gray-700">Rate (%)</label>
+                  <input
+                    id="tax-rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.001"
+                    value={taxForm.rate}
+                    onChange={(e) => setTaxForm(prev => ({ ...prev, rate: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-6">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={taxForm.appliesToShipping}
+                    onChange={(e) => setTaxForm(prev => ({ ...prev, appliesToShipping: e.target.checked }))}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>Tax shipping charges</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={taxForm.isActive}
+                    onChange={(e) => setTaxForm(prev => ({ ...prev, isActive: e.target.checked }))}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>Active</span>
+                </label>
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setEditingTaxId(null)}
+                  className="text-gray-600 hover:text-gray-900 font-medium px-4 py-2"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : editingTaxId ? 'Save Changes' : 'Create Rule'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Destination</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shipping Taxed</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-600">Loading tax rules...</td>
+                  </tr>
+                ) : taxRules.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-600">No tax rules yet. Orders are not taxed.</td>
+                  </tr>
+                ) : (
+                  taxRules.map((rule) => (
+                    <tr key={rule._id} className={rule.isActive ? '' : 'bg-gray-50'}>
+                      <td className="px-6 py-4">
+                        <p className={`font-medium ${rule.isActive ? 'text-gray-900' : 'text-gray-500'}`}>{rule.name}</p>
+                        {!rule.isActive && <p className="text-xs text-gray-500">Inactive</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {rule.country}
+                        {rule.postalCodePrefix && <span className="text-gray-500"> · postal codes {rule.postalCodePrefix}*</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{rule.rate}%</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{rule.appliesToShipping ? 'Yes' : 'No'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                        <button
+                          onClick={() => openTaxForm(rule)}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(`tax rule "${rule.name}"`, () => pricingApi.deleteTaxRule(rule._id))}
+                          className="text-sm text-red-600 hover:text-red-800 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminPricing;
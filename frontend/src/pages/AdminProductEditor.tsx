@@ -0,0 +1,772 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  productApi,
+  categoryApi,
+  ApiError,
+  hasPermission,
+  type Category,
+  type ProductImage,
+  type ProductInput,
+  type ProductOption,
+  type VariantOption,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { formatOptions } from '../utils/variants';
+
+// Images, options and variants are edited in their own state below
+type ProductForm = Omit<ProductInput, 'sku' | 'price' | 'quantity' | 'weight' | 'lowStockThreshold' | 'image' | 'images' | 'options' | 'variants'> & {
+  sku: string;
+  price: string;
+  quantity: string;
+  weight: string;
+  lowStockThreshold: string;
+};
+
+type ProductErrors = Partial<Record<keyof ProductInput, string>>;
+
+// Option values are typed as comma-separated text
+interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+interface VariantDraft {
+  _id?: string;
+  sku: string;
+  options: VariantOption[];
+  price: string;
+  quantity: string;
+  image: string;
+}
+
+// Mirror Product.MAX_OPTIONS and Product.MAX_IMAGES on the backend
+const MAX_OPTIONS = 3;
+const MAX_IMAGES = 10;
+
+const emptyForm: ProductForm = {
+  name: '',
+  sku: '',
+  description: '',
+  price: '',
+  quantity: '',
+  weight: '',
+  lowStockThreshold: '5',
+  category: '',
+};
+
+const parseValues = (values: string): string[] =>
+  [...new Set(values.split(',').map(value => value.trim()).filter(Boolean))];
+
+const toOptions = (drafts: OptionDraft[]): ProductOption[] =>
+  drafts
+    .map(draft => ({ name: draft.name.trim(), values: parseValues(draft.values) }))
+    .filter(option => option.name);
+
+// Every combination of one value per option, e.g. Size × Color
+const combineOptions = (options: ProductOption[]): VariantOption[][] =>
+  options.reduce<VariantOption[][]>(
+    (combinations, option) =>
+      combinations.flatMap(combination => option.values.map(value => [...combination, { name: option.name, value }])),
+    [[]]
+  );
+
+// Mirrors the product rules enforced by POST/PUT /api/products
+// Stock of an existing product isn't validated here because it isn't sent (see handleSubmit)
+const validateProduct = (form: ProductForm, options: ProductOption[], variants: VariantDraft[], isEditing: boolean): ProductErrors => {
+  const errors: ProductErrors = {};
+  const name = form.name.trim();
+  const description = form.description.trim();
+  const price = Number(form.price);
+  const quantity = Number(form.quantity);
+
+  if (name.length < 2 || name.length > 100) {
+    errors.name = 'Product name must be between 2 and 100 characters';
+  }
+  if (description.length < 10 || description.length > 1000) {
+    errors.description = 'Description must be between 10 and 1000 characters';
+  }
+  // Price and stock come from the variants when there are any
+  if (variants.length === 0) {
+    if (form.price === '' || Number.isNaN(price) || price < 0) {
+      errors.price = 'Price must be a non-negative number';
+    }
+    if (!isEditing && (form.quantity === '' || !Number.isInteger(quantity) || quantity < 0)) {
+      errors.quantity = 'Quantity must be a non-negative integer';
+    }
+  }
+  if (form.weight !== '' && (Number.isNaN(Number(form.weight)) || Number(form.weight) < 0)) {
+    errors.weight = 'Weight must be a non-negative number';
+  }
+  if (form.lowStockThreshold === '' || !Number.isInteger(Number(form.lowStockThreshold)) || Number(form.lowStockThreshold) < 0) {
+    errors.lowStockThreshold = 'Low-stock threshold must be a non-negative integer';
+  }
+  if (!form.category) {
+    errors.category = 'Please select a category';
+  }
+  if (options.some(option => option.values.length === 0)) {
+    errors.options = 'Every option needs at least one value';
+  }
+  if (options.length > 0 && variants.length === 0) {
+    errors.variants = 'Generate the variants for these options';
+  } else if (variants.some(variant => !variant.sku.trim())) {
+    errors.variants = 'Every variant needs a SKU';
+  } else if (variants.some(variant => variant.price === '' || Number.isNaN(Number(variant.price)) || Number(variant.price) < 0)) {
+    errors.variants = 'Variant prices must be non-negative numbers';
+  } else if (variants.some(variant => variant.quantity === '' || !Number.isInteger(Number(variant.quantity)) || Number(variant.quantity) < 0)) {
+    errors.variants = 'Variant quantities must be non-negative integers';
+  }
+
+  return errors;
+};
+
+const AdminProductEditor: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = !!id;
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [form, setForm] = useState<ProductForm>(emptyForm);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isActive, setIsActive] = useState(true);
+  const [options, setOptions] = useState<OptionDraft[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<ProductErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load categories and, when editing, the existing product
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        const [categoriesData, product] = await Promise.all([
+          categoryApi.getAllCategories(),
+          id ? productApi.getProductById(id) : Promise.resolve(null),
+        ]);
+
+        setCategories(categoriesData);
+
+        if (product) {
+          setForm({
+            name: product.name,
+            sku: product.sku || '',
+            description: product.description,
+            price: String(product.price),
+            quantity: String(product.quantity),
+            weight: product.weight ? String(product.weight) : '',
+            lowStockThreshold: String(product.lowStockThreshold ?? 5),
+            category: typeof product.category === 'string' ? product.category : product.category._id,
+          });
+          // Products from before the gallery start with their cover image, unless it is the built-in placeholder
+          setImages(product.images && product.images.length > 0
+            ? product.images
+            : product.image.startsWith('data:') ? [] : [{ url: product.image, thumbnail: '', alt: '' }]);
+          setIsActive(product.isActive);
+          setOptions((product.options || []).map(option => ({ name: option.name, values: option.values.join(', ') })));
+          setVariants((product.variants || []).map(variant => ({
+            _id: variant._id,
+            sku: variant.sku,
+            options: variant.options,
+            price: String(variant.price),
+            quantity: String(variant.quantity),
+            image: variant.image,
+          })));
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load product');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+    // Clear the field error when user starts typing
+    if (fieldErrors[name as keyof ProductInput]) {
+      setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleOptionChange = (index: number, field: keyof OptionDraft, value: string) => {
+    setOptions(prev => prev.map((option, i) => (i === index ? { ...option, [field]: value } : option)));
+    setFieldErrors(prev => ({ ...prev, options: undefined }));
+  };
+
+  const handleVariantChange = (index: number, field: 'sku' | 'price' | 'quantity' | 'image', value: string) => {
+    setVariants(prev => prev.map((variant, i) => (i === index ? { ...variant, [field]: value } : variant)));
+    setFieldErrors(prev => ({ ...prev, variants: undefined }));
+  };
+
+  // Rebuild the variant list from the options, keeping the details of combinations that already exist
+  const handleGenerateVariants = () => {
+    const combinations = combineOptions(toOptions(options));
+
+    setVariants(prev => combinations.map(combination => {
+      const existing = prev.find(variant => formatOptions(variant.options) === formatOptions(combination));
+      return existing
+        ? { ...existing, options: combination }
+        : { sku: '', options: combination, price: form.price, quantity: '0', image: '' };
+    }));
+    setFieldErrors(prev => ({ ...prev, variants: undefined }));
+  };
+
+  // Upload the chosen files one by one, adding each to the end of the gallery
+  const handleUploadImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_IMAGES - images.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      setIsUploading(true);
+      setError(null);
+      for (const file of files) {
+        const uploaded = await productApi.uploadImage(file);
+        setImages(prev => [...prev, { ...uploaded, alt: '' }]);
+      }
+      setFieldErrors(prev => ({ ...prev, images: undefined }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAddImageUrl = () => {
+    const url = imageUrl.trim();
+    if (!url || images.some(image => image.url === url)) return;
+
+    setImages(prev => [...prev, { url, thumbnail: '', alt: '' }]);
+    setImageUrl('');
+  };
+
+  // Move an image one place earlier or later; the first image is the cover
+  const handleMoveImage = (index: number, offset: number) => {
+    setImages(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleImageAltChange = (index: number, alt: string) => {
+    setImages(prev => prev.map((image, i) => (i === index ? { ...image, alt } : image)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const productOptions = toOptions(options);
+    const errors = validateProduct(form, productOptions, variants, isEditing);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    const productData: ProductInput = {
+      name: form.name.trim(),
+      sku: form.sku.trim(),
+      description: form.description.trim(),
+      price: variants.length > 0 ? 0 : Number(form.price),
+      quantity: variants.length > 0 ? 0 : Number(form.quantity),
+      weight: form.weight === '' ? 0 : Number(form.weight),
+      lowStockThreshold: Number(form.lowStockThreshold),
+      category: form.category,
+      // Sent even when empty so removing every image or variant clears them
+      images,
+      options: productOptions,
+      variants: variants.map(variant => ({
+        ...(variant._id ? { _id: variant._id } : {}),
+        sku: variant.sku.trim(),
+        options: variant.options,
+        price: Number(variant.price),
+        quantity: Number(variant.quantity),
+        image: variant.image.trim(),
+      })),
+    };
+
+    try {
+      setIsSaving(true);
+      if (id) {
+        // Stock is changed from the Inventory page, so an edit never overwrites units
+        // reserved or released by checkouts while the editor was open
+        await productApi.updateProduct(id, { ...productData, quantity: undefined });
+      } else {
+        await productApi.createProduct(productData);
+      }
+      navigate('/admin/products');
+    } catch (err) {
+      if (err instanceof ApiError && err.errors.length > 0) {
+        // Map server validation errors back onto the form
+        const serverErrors: ProductErrors = {};
+        err.errors.forEach((fieldError) => {
+          // Nested paths like variants[0].sku belong to their top-level field
+          const field = fieldError.path.split(/[.[]/)[0] as keyof ProductInput;
+          if ((field in emptyForm || field === 'images' || field === 'options' || field === 'variants') && !serverErrors[field]) {
+            serverErrors[field] = fieldError.msg;
+          }
+        });
+        setFieldErrors(serverErrors);
+      }
+      setError(err instanceof Error ? err.message : 'Failed to save product');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = (field: keyof ProductInput) =>
+    `mt-1 appearance-none block w-full px-3 py-2 border rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm ${
+      fieldErrors[field] ? 'border-red-400' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-blue-600 font-medium">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Breadcrumb */}
+        <nav className="mb-8">
+          <ol className="flex items-center space-x-2 text-sm text-gray-600">
+            <li><Link to="/admin/products" className="hover:text-gray-900">Manage Products</Link></li>
+            <li><span className="text-gray-400">/</span></li>
+            <li className="text-gray-900 font-medium truncate">{isEditing ? 'Edit Product' : 'New Product'}</li>
+          </ol>
+        </nav>
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <p className="text-gray-600">Loading...</p>
+          </div>
+        ) : (
+          <form className="bg-white rounded-lg shadow-md p-6 space-y-5" onSubmit={handleSubmit} noValidate>
+            <div className="flex items-center justify-between">
+              <h1 className="text-2xl font-bold text-gray-900">{isEditing ? 'Edit Product' : 'New Product'}</h1>
+              {isEditing && !isActive && (
+                <span className="inline-block px-3 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                  Inactive
+                </span>
+              )}
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name</label>
+              <input id="name" name="name" type="text" value={form.name} onChange={handleChange} className={inputClassName('name')} />
+              {fieldErrors.name && <p className="mt-1 text-sm text-red-600">{fieldErrors.name}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="sku" className="block text-sm font-medium text-gray-700">SKU (optional)</label>
+              <input id="sku" name="sku" type="text" maxLength={40} value={form.sku} onChange={handleChange} className={inputClassName('sku')} />
+              <p className="mt-1 text-xs text-gray-500">Used to match this product when importing a catalogue file</p>
+              {fieldErrors.sku && <p className="mt-1 text-sm text-red-600">{fieldErrors.sku}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea
+                id="description"
+                name="description"
+                rows={4}
+                value={form.description}
+                onChange={handleChange}
+                className={inputClassName('description')}
+              />
+              {fieldErrors.description && <p className="mt-1 text-sm text-red-600">{fieldErrors.description}</p>}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="price" className="block text-sm font-medium text-gray-700">Price (USD)</label>
+                <input
+                  id="price"
+                  name="price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.price}
+                  onChange={handleChange}
+                  disabled={variants.length > 0}
+                  className={`${inputClassName('price')} disabled:bg-gray-100 disabled:text-gray-500`}
+                />
+                {variants.length > 0 && <p className="mt-1 text-xs text-gray-500">Lowest variant price</p>}
+                {fieldErrors.price && <p className="mt-1 text-sm text-red-600">{fieldErrors.price}</p>}
+              </div>
+              <div>
+                <label htmlFor="quantity" className="block text-sm font-medium text-gray-700">Quantity in stock</label>
+                <input
+                  id="quantity"
+                  name="quantity"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.quantity}
+                  onChange={handleChange}
+                  disabled={variants.length > 0 || isEditing}
+                  className={`${inputClassName('quantity')} disabled:bg-gray-100 disabled:text-gray-500`}
+                />
+                {variants.length > 0 && <p className="mt-1 text-xs text-gray-500">Total of variant stock</p>}
+                {isEditing && variants.length === 0 && <p className="mt-1 text-xs text-gray-500">Stock is changed from the Inventory page</p>}
+                {fieldErrors.quantity && <p className="mt-1 text-sm text-red-600">{fieldErrors.quantity}</p>}
+                {id && hasPermission(user, 'inventory:manage') && (
+                  <Link to={`/admin/inventory?product=${id}`} className="mt-1 inline-block text-xs text-blue-600 hover:text-blue-800">
+                    Stock history &amp; adjustments
+                  </Link>
+                )}
+              </div>
+              <div>
+                <label htmlFor="weight" className="block text-sm font-medium text-gray-700">Shipping weight (kg)</label>
+                <input
+                  id="weight"
+                  name="weight"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.weight}
+                  onChange={handleChange}
+                  className={inputClassName('weight')}
+                />
+                {fieldErrors.weight && <p className="mt-1 text-sm text-red-600">{fieldErrors.weight}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="category" className="block text-sm font-medium text-gray-700">Category</label>
+                <select id="category" name="category" value={form.category} onChange={handleChange} className={inputClassName('category')}>
+                  <option value="">Select a category</option>
+                  {categories.map(category => (
+                    <option key={category._id} value={category._id}>{category.name}</option>
+                  ))}
+                </select>
+                {fieldErrors.category && <p className="mt-1 text-sm text-red-600">{fieldErrors.category}</p>}
+              </div>
+              <div>
+                <label htmlFor="lowStockThreshold" className="block text-sm font-medium text-gray-700">Low-stock alert at</label>
+                <input
+                  id="lowStockThreshold"
+                  name="lowStockThreshold"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.lowStockThreshold}
+                  onChange={handleChange}
+                  className={inputClassName('lowStockThreshold')}
+                />
+                {fieldErrors.lowStockThreshold && <p className="mt-1 text-sm text-red-600">{fieldErrors.lowStockThreshold}</p>}
+              </div>
+            </div>
+
+            {/* Images */}
+            <div className="border-t border-gray-200 pt-5 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">Images</h2>
+                  <p className="text-sm text-gray-600">JPEG, PNG, WebP or GIF up to 5MB. The first image is the cover.</p>
+                </div>
+                <label
+                  className={`bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm font-medium py-2 px-4 rounded-md transition-colors ${
+                    isUploading || images.length >= MAX_IMAGES ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                  }`}
+                >
+                  {isUploading ? 'Uploading...' : 'Upload images'}
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
+                    multiple
+                    onChange={handleUploadImages}
+                    disabled={isUploading || images.length >= MAX_IMAGES}
+                    className="sr-only"
+                  />
+                </label>
+              </div>
+
+              {images.length > 0 && (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {images.map((image, index) => (
+                    <li key={image.url} className="p-3 flex items-center gap-4">
+                      <img src={image.thumbnail || image.url} alt="" className="h-16 w-16 rounded object-cover bg-gray-100 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-gray-500 truncate">
+                          {index === 0 && <span className="font-medium text-blue-600 mr-2">Cover</span>}
+                          {image.url}
+                        </p>
+                        <input
+                          type="text"
+                          aria-label={`Description of image ${index + 1}`}
+                          value={image.alt}
+                          onChange={(e) => handleImageAltChange(index, e.target.value)}
+                          placeholder="Description for screen readers (optional)"
+                          maxLength={120}
+                          className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+                      <div className="flex items-center gap-3 text-sm flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleMoveImage(index, -1)}
+                          disabled={index === 0}
+                          aria-label={`Move image ${index + 1} earlier`}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleMoveImage(index, 1)}
+                          disabled={index === images.length - 1}
+                          aria-label={`Move image ${index + 1} later`}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-800 font-medium"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-3">
+                <label htmlFor="imageUrl" className="sr-only">Image URL</label>
+                <input
+                  id="imageUrl"
+                  type="text"
+                  value={imageUrl}
+                  onChange={(e) => setImageUrl(e.target.value)}
+                  placeholder="Or add an image by URL: https://..."
+                  className={inputClassName('images')}
+                />
+                <button
+                  type="button"
+                  onClick={handleAddImageUrl}
+                  disabled={!imageUrl.trim() || images.length >= MAX_IMAGES}
+                  className="mt-1 bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm font-medium py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add
+                </button>
+              </div>
+              {fieldErrors.images && <p className="text-sm text-red-600">{fieldErrors.images}</p>}
+            </div>
+
+            {/* Options & Variants */}
+            <div className="border-t border-gray-200 pt-5 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">Options &amp; variants</h2>
+                  <p className="text-sm text-gray-600">Add options such as Size or Color to sell the product in several variants.</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setOptions(prev => [...prev, { name: '', values: '' }])}
+                  disabled={options.length >= MAX_OPTIONS}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add option
+                </button>
+              </div>
+
+              {options.map((option, index) => (
+                <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+                  <div>
+                    <label htmlFor={`option-name-${index}`} className="block text-sm font-medium text-gray-700">Option name</label>
+                    <input
+                      id={`option-name-${index}`}
+                      type="text"
+                      value={option.name}
+                      onChange={(e) => handleOptionChange(index, 'name', e.target.value)}
+                      placeholder="Size"
+                      className={inputClassName('options')}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor={`option-values-${index}`} className="block text-sm font-medium text-gray-700">Values (comma-separated)</label>
+                    <input
+                      id={`option-values-${index}`}
+                      type="text"
+                      value={option.values}
+                      onChange={(e) => handleOptionChange(index, 'values', e.target.value)}
+                      placeholder="S, M, L"
+                      className={inputClassName('options')}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                    className="text-sm text-red-600 hover:text-red-800 font-medium py-2"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              {fieldErrors.options && <p className="text-sm text-red-600">{fieldErrors.options}</p>}
+
+              {(options.length > 0 || variants.length > 0) && (
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">Regenerate after changing options; existing variants keep their details.</p>
+                  <button
+                    type="button"
+                    onClick={handleGenerateVariants}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm font-medium py-2 px-4 rounded-md transition-colors"
+                  >
+                    Generate variants
+                  </button>
+                </div>
+              )}
+
+              {variants.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Variant</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">SKU</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Price</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Stock</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Image URL</th>
+                        <th className="px-3 py-2"><span className="sr-only">Remove</span></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {variants.map((variant, index) => (
+                        <tr key={variant._id || formatOptions(variant.options)}>
+                          <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{formatOptions(variant.options)}</td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="text"
+                              aria-label={`SKU for ${formatOptions(variant.options)}`}
+                              value={variant.sku}
+                              onChange={(e) => handleVariantChange(index, 'sku', e.target.value)}
+                              className="w-32 px-2 py-1 border border-gray-300 rounded-md uppercase"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              aria-label={`Price for ${formatOptions(variant.options)}`}
+                              value={variant.price}
+                              onChange={(e) => handleVariantChange(index, 'price', e.target.value)}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              aria-label={`Stock for ${formatOptions(variant.options)}`}
+                              value={variant.quantity}
+                              onChange={(e) => handleVariantChange(index, 'quantity', e.target.value)}
+                              disabled={isEditing && !!variant._id}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-100"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="text"
+                              aria-label={`Image URL for ${formatOptions(variant.options)}`}
+                              value={variant.image}
+                              onChange={(e) => handleVariantChange(index, 'image', e.target.value)}
+                              placeholder="Product image"
+                              className="w-40 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <button
+                              type="button"
+                              onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                              className="text-red-600 hover:text-red-800 font-medium"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {isEditing && variants.some(variant => variant._id) && (
+                <p className="text-xs text-gray-500">Stock of saved variants is changed from the Inventory page</p>
+              )}
+              {fieldErrors.variants && <p className="text-sm text-red-600">{fieldErrors.variants}</p>}
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Link to="/admin/products" className="text-gray-600 hover:text-gray-900 font-medium py-2">
+                Cancel
+              </Link>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Product'}
+              </button>
+            </div>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminProductEditor;
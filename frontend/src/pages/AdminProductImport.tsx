@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  catalogApi,
+  hasPermission,
+  type CatalogFormat,
+  type ImportReport,
+  type ImportRowAction,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const ACTION_LABELS: Record<ImportRowAction, { label: string; className: string }> = {
+  create: { label: 'Create', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+};
+
+const AdminProductImport: React.FC = () => {
+  const { user } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<CatalogFormat | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setReport(null);
+    setNotice(null);
+    setError(null);
+  };
+
+  // A dry run checks every row first; the real import is offered once the file has been checked
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      setNotice(null);
+      setError(null);
+      const result = await catalogApi.importProducts(file, dryRun);
+      setReport(result.report);
+      setShowErrorsOnly(result.report.failed > 0);
+      setNotice(result.message);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to import products');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async (format: CatalogFormat) => {
+    try {
+      setExportingFormat(format);
+      setNotice(null);
+      setError(null);
+      const { file: exported, filename, withoutSku } = await catalogApi.exportProducts(format);
+
+      // Hand the downloaded file to the browser as a link click
+      const url = URL.createObjectURL(exported);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      // Rows without a SKU are rejected on import, so say which part of the file won't round-trip
+      if (withoutSku > 0) {
+        setNotice(`${withoutSku} ${withoutSku === 1 ? 'product has' : 'products have'} no SKU and will be skipped if this file is imported. Give ${withoutSku === 1 ? 'it' : 'them'} a SKU in the product editor first.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export products');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const visibleRows = report ? report.rows.filter(row => !showErrorsOnly || row.action === 'error') : [];
+  const validRows = report ? report.created + report.updated : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/admin/products" className="text-blue-600 font-medium">Manage Products</Link>
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link to="/admin/products" className="text-sm text-blue-600 hover:text-blue-800">&larr; Back to products</Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">Import &amp; Export Products</h1>
+          <p className="text-gray-600">Create and update products in bulk from a CSV or JSON file, matched by SKU, or download the whole catalogue.</p>
+        </div>
+
+        {/* Messages */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{notice}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+          {/* Import */}
+          <div className="bg-white rounded-lg shadow-md p-6 lg:col-span-2">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Import</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              CSV files need a header row with a <code>sku</code> column; the other columns are{' '}
+              <code>name</code>, <code>description</code>, <code>price</code>, <code>quantity</code>, <code>weight</code>,{' '}
+              <code>lowStockThreshold</code>, <code>category</code> (by name), <code>images</code> (URLs separated by <code>|</code>){' '}
+              and <code>isActive</code>. JSON files can also carry <code>options</code> and <code>variants</code>.
+              Rows with a known SKU update that product and blank fields keep their current value.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <label htmlFor="file" className="sr-only">Import file</label>
+              <input
+                id="file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                className="text-sm text-gray-700 file:mr-3 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+              />
+              <button
+                onClick={() => runImport(true)}
+                disabled={!file || isImporting}
+                className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Working...' : 'Check File'}
+              </button>
+              {report?.dryRun && (
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={isImporting || validRows === 0}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import {validRows} {validRows === 1 ? 'Product' : 'Products'}
+                </button>
+              )}
+            </div>
+            {report?.dryRun && report.failed > 0 && validRows > 0 && (
+              <p className="text-sm text-orange-600 mt-3">
+                Rows with errors will be skipped. Fix them and import the file again to bring them in.
+              </p>
+            )}
+          </div>
+
+          {/* Export */}
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Export</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Every product, inactive ones included. An exported file can be edited and imported again.
+            </p>
+            <div className="flex gap-3">
+              {(['csv', 'json'] as CatalogFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={exportingFormat !== null}
+                  className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {exportingFormat === format ? 'Exporting...' : `Download ${format.toUpperCase()}`}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Import Report */}
+        {report && (
+          <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+            <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">
+                  {report.dryRun ? 'Check Results' : 'Import Results'} ({report.format.toUpperCase()}, {report.totalRows} rows)
+                </h2>
+                <p className="text-sm text-gray-600">
+                  <span className="text-green-700">{report.created} {report.dryRun ? 'to create' : 'created'}</span>
+                  {' · '}
+                  <span className="text-blue-700">{report.updated} {report.dryRun ? 'to update' : 'updated'}</span>
+                  {' · '}
+                  <span className="text-red-700">{report.failed} with errors</span>
+                </p>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showErrorsOnly}
+                  onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>Only rows with errors</span>
+              </label>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Errors</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-600">No rows with errors</td>
+                  </tr>
+                ) : (
+                  visibleRows.map(row => (
+                    <tr key={row.row}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{row.row}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{row.sku || '—'}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{row.name || '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ACTION_LABELS[row.action].className}`}>
+                          {ACTION_LABELS[row.action].label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-red-600">
+                        {row.errors.length > 0 && (
+                          <ul className="list-disc list-inside space-y-1">
+                            {row.errors.map(message => <li key={message}>{message}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminProductImport;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { productApi, hasPermission, type Product, type ProductPagination } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const PAGE_SIZE = 20;
+
+const AdminProducts: React.FC = () => {
+  const { user } = useAuth();
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [pagination, setPagination] = useState<ProductPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [togglingProducts, setTogglingProducts] = useState<{ [key: string]: boolean }>({});
+
+  const fetchProducts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await productApi.getAdminProducts(page, PAGE_SIZE);
+      setProducts(data.products);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load products');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page]);
+
+  // Fetch products whenever page changes
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  const handleToggleActive = async (product: Product) => {
+    if (product.isActive && !window.confirm(`Deactivate "${product.name}"? It will be hidden from the store.`)) {
+      return;
+    }
+
+    try {
+      setTogglingProducts(prev => ({ ...prev, [product._id]: true }));
+      setActionError(null);
+      const updated = product.isActive
+        ? await productApi.deactivateProduct(product._id)
+        : await productApi.restoreProduct(product._id);
+      setProducts(prev => prev.map(p => (p._id === product._id ? { ...p, isActive: updated.isActive } : p)));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update product');
+    } finally {
+      setTogglingProducts(prev => ({ ...prev, [product._id]: false }));
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-blue-600 font-medium">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Product Catalogue</h1>
+            <p className="text-gray-600">
+              {pagination ? `${pagination.totalProducts} products` : 'Loading products...'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Link
+              to="/admin/products/import"
+              className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Import / Export
+            </Link>
+            <Link
+              to="/admin/products/new"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              New Product
+            </Link>
+          </div>
+        </div>
+
+        {/* Error Messages */}
+        {(error || actionError) && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error || actionError}</p>
+          </div>
+        )}
+
+        {/* Products Table */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">Loading products...</td>
+                </tr>
+              ) : products.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">No products yet</td>
+                </tr>
+              ) : (
+                products.map((product) => (
+                  <tr key={product._id} className={product.isActive ? '' : 'bg-gray-50'}>
+                    <td className="px-6 py-4">
+                      <p className={`font-medium ${product.isActive ? 'text-gray-900' : 'text-gray-500'}`}>{product.name}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {typeof product.category === 'object' ? product.category.name : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatPrice(product.price)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{product.quantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
+                          product.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        {product.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                      <Link
+                        to={`/admin/products/${product._id}/edit`}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        Edit
+                      </Link>
+                      <button
+                        onClick={() => handleToggleActive(product)}
+                        disabled={togglingProducts[product._id]}
+                        className={`text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                          product.isActive ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'
+                        }`}
+                      >
+                        {togglingProducts[product._id] ? 'Saving...' : product.isActive ? 'Deactivate' : 'Restore'}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={!pagination.hasPrevPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={!pagination.hasNextPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminProducts;
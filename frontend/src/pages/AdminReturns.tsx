@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  returnApi,
+  RETURN_REASON_LABELS,
+  hasPermission,
+  type ReturnRequest,
+  type ReturnStatus,
+  type ReturnPagination,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import ReturnStatusBadge from '../components/ReturnStatusBadge';
+import { formatOptions } from '../utils/variants';
+
+const RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'rejected', 'received'];
+const PAGE_SIZE = 10;
+
+const AdminReturns: React.FC = () => {
+  const { user } = useAuth();
+  const canManage = hasPermission(user, 'returns:manage');
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [pagination, setPagination] = useState<ReturnPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<ReturnStatus | ''>('requested');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<{ [key: string]: boolean }>({});
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await returnApi.getAdminReturns({ page, limit: PAGE_SIZE, status: status || undefined });
+      setReturns(data.returns);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load returns');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, status]);
+
+  // Fetch returns whenever page or status filter change
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  // Run an action against one return, then reload the list
+  const runAction = async (request: ReturnRequest, action: () => Promise<string>) => {
+    try {
+      setUpdating(prev => ({ ...prev, [request._id]: true }));
+      setActionError(null);
+      setActionMessage(null);
+      setActionMessage(await action());
+      await fetchReturns();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update return');
+    } finally {
+      setUpdating(prev => ({ ...prev, [request._id]: false }));
+    }
+  };
+
+  const handleApprove = (request: ReturnRequest) => {
+    const note = window.prompt(`Approve ${request.rmaNumber}? Optional note for the customer (e.g. return instructions):`, '');
+    if (note === null) return;
+
+    runAction(request, async () => {
+      await returnApi.approveReturn(request._id, note.trim() || undefined);
+      return `${request.rmaNumber} approved`;
+    });
+  };
+
+  const handleReject = (request: ReturnRequest) => {
+    const note = window.prompt(`Reject ${request.rmaNumber}? Reason shown to the customer:`, '');
+    if (note === null) return;
+    if (!note.trim()) {
+      setActionError('A reason is required to reject a return');
+      return;
+    }
+
+    runAction(request, async () => {
+      await returnApi.rejectReturn(request._id, note.trim());
+      return `${request.rmaNumber} rejected`;
+    });
+  };
+
+  const handleReceive = (request: ReturnRequest) => {
+    const input = window.prompt(
+      `Mark ${request.rmaNumber} as received? Items will be restocked. Refund amount:`,
+      request.estimatedRefund.toFixed(2)
+    );
+    if (input === null) return;
+
+    const refundAmount = parseFloat(input);
+    if (isNaN(refundAmount) || refundAmount < 0) {
+      setActionError('Refund amount must be a positive number');
+      return;
+    }
+
+    runAction(request, async () => {
+      const { message } = await returnApi.receiveReturn(request._id, refundAmount);
+      return `${request.rmaNumber}: ${message}`;
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-blue-600 font-medium">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-gray-600 hover:text-gray-900">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Return Management</h1>
+            <p className="text-gray-600">
+              {pagination ? `${pagination.totalReturns} returns found` : 'Loading returns...'}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              id="status"
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as ReturnStatus | '');
+                setPage(1);
+              }}
+              className="block w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 capitalize"
+            >
+              <option value="">All statuses</option>
+              {RETURN_STATUSES.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Messages */}
+        {(error || actionError) && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error || actionError}</p>
+          </div>
+        )}
+        {actionMessage && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{actionMessage}</p>
+          </div>
+        )}
+
+        {/* Returns Table */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Return</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Refund</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">Loading returns...</td>
+                </tr>
+              ) : returns.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-600">No returns match this filter</td>
+                </tr>
+              ) : (
+                returns.map(request => (
+                  <tr key={request._id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="font-medium text-gray-900">{request.rmaNumber}</p>
+                      {typeof request.order === 'object' && (
+                        <Link to={`/orders/${request.order._id}`} className="text-xs text-blue-600 hover:text-blue-800">
+                          {request.order.orderNumber}
+                        </Link>
+                      )}
+                      <p className="text-xs text-gray-500">{formatDate(request.createdAt)}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {typeof request.customer === 'object' ? (
+                        <>
+                          <p className="font-medium text-gray-900">{request.customer.firstName} {request.customer.lastName}</p>
+                          <p className="text-xs text-gray-500">{request.customer.email}</p>
+                        </>
+                      ) : (
+                        request.customer
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      <ul className="space-y-1">
+                        {request.items.map(item => (
+                          <li key={item.orderItem}>
+                            {item.quantity} × {item.name}
+                            {item.options && item.options.length > 0 && (
+                              <span className="block text-xs text-gray-500">{formatOptions(item.options)}</span>
+                            )}
+                            <span className="block text-xs text-gray-500">
+                              {RETURN_REASON_LABELS[item.reason]}{item.comment && `: ${item.comment}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      {request.status === 'received' ? (
+                        <>
+                          <p className="font-medium text-gray-900">{formatPrice(request.refund.amount)}</p>
+                          <p className={`text-xs ${request.refund.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                            {request.refund.status === 'failed' ? `Failed: ${request.refund.error}` : request.refund.status.replace('_', ' ')}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-gray-700">{formatPrice(request.estimatedRefund)} est.</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <ReturnStatusBadge status={request.status} />
+                      {request.adminNote && <p className="text-xs text-gray-500 mt-1 max-w-xs whitespace-normal">{request.adminNote}</p>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {!canManage ? (
+                        <span className="text-xs text-gray-400">View only</span>
+                      ) : request.status === 'requested' ? (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleApprove(request)}
+                            disabled={updating[request._id]}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReject(request)}
+                            disabled={updating[request._id]}
+                            className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      ) : request.status === 'approved' ? (
+                        <button
+                          onClick={() => handleReceive(request)}
+                          disabled={updating[request._id]}
+                          className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {updating[request._id] ? 'Saving...' : 'Mark Received'}
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-400">No further actions</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={!pagination.hasPrevPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={!pagination.hasNextPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminReturns;
@@ -0,0 +1,418 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import {
+  userAdminApi,
+  orderApi,
+  hasPermission,
+  ROLE_LABELS,
+  AUDIT_ACTION_LABELS,
+  type AdminUser,
+  type AuditLogEntry,
+  type CartData,
+  type Order,
+  type RoleDefinition,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import { cartLineKey, cartLinePrice, formatOptions } from '../utils/variants';
+
+const AdminUserDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, 'users:manage');
+  const canViewOrders = hasPermission(user, 'orders:read');
+  const isSelf = id === user?.id;
+
+  const [account, setAccount] = useState<AdminUser | null>(null);
+  const [cart, setCart] = useState<CartData | null>(null);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [totalOrders, setTotalOrders] = useState(0);
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedRole, setSelectedRole] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const fetchAuditLog = useCallback(async () => {
+    if (!id) return;
+    try {
+      const data = await userAdminApi.getAuditLog({ user: id, limit: 50 });
+      setAuditEntries(data.entries);
+    } catch (err) {
+      console.error('Failed to load audit log:', err);
+    }
+  }, [id]);
+
+  // Fetch the account, its cart and the assignable roles
+  useEffect(() => {
+    const fetchUser = async () => {
+      if (!id) {
+        setError('User ID not found');
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [detail, roleList] = await Promise.all([userAdminApi.getUser(id), userAdminApi.getRoles()]);
+        setAccount(detail.user);
+        setCart(detail.cart);
+        setSelectedRole(detail.user.role);
+        setRoles(roleList);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load user');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUser();
+  }, [id]);
+
+  useEffect(() => {
+    fetchAuditLog();
+  }, [fetchAuditLog]);
+
+  // Order history comes from the admin orders list, which needs orders:read
+  useEffect(() => {
+    if (!id || !canViewOrders) return;
+
+    orderApi.getAdminOrders({ customer: id, limit: 10 })
+      .then(data => {
+        setOrders(data.orders);
+        setTotalOrders(data.pagination.totalOrders);
+      })
+      .catch(err => console.error('Failed to load orders:', err));
+  }, [id, canViewOrders]);
+
+  // Run an account change, then show the updated account and audit trail
+  const runAction = async (action: () => Promise<{ user: AdminUser; message: string }>) => {
+    try {
+      setIsSaving(true);
+      setActionError(null);
+      setActionMessage(null);
+      const result = await action();
+      setAccount(prev => (prev ? { ...prev, ...result.user } : result.user));
+      setSelectedRole(result.user.role);
+      setActionMessage(result.message);
+      setNote('');
+      await fetchAuditLog();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleChangeRole = () => {
+    if (!account || selectedRole === account.role) return;
+    runAction(async () => ({
+      user: await userAdminApi.changeRole(account._id, selectedRole, note.trim() || undefined),
+      message: `Role changed to ${ROLE_LABELS[selectedRole] || selectedRole}`,
+    }));
+  };
+
+  const handleToggleActive = () => {
+    if (!account) return;
+    const isActive = !account.isActive;
+    if (!isActive && !window.confirm(`Deactivate ${account.username}? They will be signed out everywhere.`)) {
+      return;
+    }
+    runAction(async () => ({
+      user: await userAdminApi.setActive(account._id, isActive, note.trim() || undefined),
+      message: isActive ? 'Account reactivated' : 'Account deactivated',
+    }));
+  };
+
+  const handleForceReset = () => {
+    if (!account || !window.confirm(`Require ${account.username} to reset their password? They will be signed out everywhere.`)) {
+      return;
+    }
+    runAction(() => userAdminApi.forcePasswordReset(account._id, note.trim() || undefined));
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const describeChange = (entry: AuditLogEntry) => {
+    if (entry.action !== 'user.role_change') return '';
+    const from = String(entry.changes.from);
+    const to = String(entry.changes.to);
+    return ` (${ROLE_LABELS[from] || from} → ${ROLE_LABELS[to] || to})`;
+  };
+
+  const selectedPermissions = roles.find(role => role.name === selectedRole)?.permissions || [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-blue-600 font-medium">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/admin/users" className="text-sm text-blue-600 hover:text-blue-800">← Back to users</Link>
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center mt-6">
+            <p className="text-gray-600">Loading user...</p>
+          </div>
+        ) : error || !account ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mt-6">
+            <p className="text-sm">{error || 'User not found'}</p>
+          </div>
+        ) : (
+          <div className="space-y-6 mt-6">
+            {/* Account */}
+            <div className="bg-white rounded-lg shadow-md p-6 flex flex-col sm:flex-row gap-6">
+              {account.avatar ? (
+                <img src={account.avatar} alt={account.username} className="h-20 w-20 rounded-full object-cover" />
+              ) : (
+                <div className="h-20 w-20 rounded-full bg-gray-200 flex items-center justify-center text-2xl font-medium text-gray-600">
+                  {account.username.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="flex-1">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <h1 className="text-2xl font-bold text-gray-900">{account.firstName} {account.lastName}</h1>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    account.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {account.isActive ? 'Active' : 'Deactivated'}
+                  </span>
+                  {account.passwordResetRequired && (
+                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">Password reset pending</span>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-700">
+                  <p><span className="font-medium">Username:</span> @{account.username}</p>
+                  <p>
+                    <span className="font-medium">Email:</span> {account.email}{' '}
+                    <span className={account.isEmailVerified ? 'text-green-700' : 'text-yellow-700'}>
+                      ({account.isEmailVerified ? 'verified' : 'unverified'})
+                    </span>
+                  </p>
+                  <p><span className="font-medium">Role:</span> {ROLE_LABELS[account.role] || account.role}</p>
+                  <p><span className="font-medium">Joined:</span> {formatDate(account.createdAt)}</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Staff Actions */}
+            {canManage && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Manage Account</h2>
+
+                {isSelf ? (
+                  <p className="text-sm text-gray-600">
+                    This is your own account. Use <Link to="/profile" className="text-blue-600 hover:text-blue-800">Account settings</Link> instead.
+                  </p>
+                ) : (
+                  <div className="space-y-5">
+                    {actionError && (
+                      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                        <p className="text-sm">{actionError}</p>
+                      </div>
+                    )}
+                    {actionMessage && (
+                      <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+                        <p className="text-sm">{actionMessage}</p>
+                      </div>
+                    )}
+
+                    <div>
+                      <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-1">Note (recorded in the audit trail)</label>
+                      <input
+                        id="note"
+                        type="text"
+                        maxLength={500}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Reason for the change"
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+
+                    <div>
+                      <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                      <div className="flex items-center space-x-2">
+                        <select
+                          id="role"
+                          value={selectedRole}
+                          onChange={(e) => setSelectedRole(e.target.value)}
+                          disabled={isSaving}
+                          className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {roles.map(role => (
+                            <option key={role.name} value={role.name}>{role.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={handleChangeRole}
+                          disabled={isSaving || selectedRole === account.role}
+                          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Change role
+                        </button>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {selectedPermissions.length > 0 ? `Grants: ${selectedPermissions.join(', ')}` : 'No staff permissions'}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-3 pt-2 border-t">
+                      <button
+                        onClick={handleToggleActive}
+                        disabled={isSaving}
+                        className={`mt-3 px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          account.isActive ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-green-600 hover:bg-green-700 text-white'
+                        }`}
+                      >
+                        {account.isActive ? 'Deactivate account' : 'Reactivate account'}
+                      </button>
+                      <button
+                        onClick={handleForceReset}
+                        disabled={isSaving}
+                        className="mt-3 bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Force password reset
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Orders */}
+            {canViewOrders && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Orders ({totalOrders})</h2>
+                {orders.length === 0 ? (
+                  <p className="text-sm text-gray-600">No orders yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {orders.map(order => (
+                      <li key={order._id} className="py-3 flex items-center justify-between text-sm">
+                        <div>
+                          <Link to={`/orders/${order._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                            {order.orderNumber}
+                          </Link>
+                          <p className="text-xs text-gray-500">{formatDate(order.orderDate)} · {order.totalItems} items</p>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <span className="font-medium text-gray-900">{formatPrice(order.totalAmount)}</span>
+                          <OrderStatusBadge status={order.status} />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Cart */}
+            {cart && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Current Cart</h2>
+                {cart.items.length === 0 ? (
+                  <p className="text-sm text-gray-600">The cart is empty.</p>
+                ) : (
+                  <>
+                    <ul className="divide-y divide-gray-200">
+                      {cart.items.map(item => (
+                        <li key={cartLineKey(item.product._id, item.variantId)} className="py-2 flex justify-between text-sm">
+                          <span className="text-gray-700">
+                            {item.product.name}{item.variant && ` (${formatOptions(item.variant.options)})`} × {item.quantity}
+                          </span>
+                          <span className="font-medium text-gray-900">{formatPrice(cartLinePrice(item) * item.quantity)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex justify-between text-sm font-medium text-gray-900 border-t pt-3 mt-2">
+                      <span>{cart.summary.totalItems} items</span>
+                      <span>{formatPrice(cart.summary.totalPrice)}</span>
+                    </div>
+                  </>
+                )}
+                {cart.unavailableItems && cart.unavailableItems.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {cart.unavailableItems.length} unavailable {cart.unavailableItems.length === 1 ? 'item' : 'items'} not shown
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Audit Trail */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Audit Trail</h2>
+              {auditEntries.length === 0 ? (
+                <p className="text-sm text-gray-600">No staff changes recorded for this account.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {auditEntries.map(entry => (
+                    <li key={entry._id} className="py-3 text-sm flex justify-between gap-4">
+                      <div>
+                        <span className="font-medium text-gray-900">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                        <span className="text-gray-600">{describeChange(entry)} by {entry.actor?.username || 'deleted user'}</span>
+                        {entry.note && <p className="text-xs text-gray-500 mt-1">"{entry.note}"</p>}
+                      </div>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{formatDate(entry.createdAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminUserDetail;
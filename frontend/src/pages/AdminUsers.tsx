@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  userAdminApi,
+  hasPermission,
+  ROLE_LABELS,
+  AUDIT_ACTION_LABELS,
+  type AdminUser,
+  type AuditLogEntry,
+  type UserFilters,
+  type UserPagination,
+  type UserStatusFilter,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const PAGE_SIZE = 20;
+
+const emptyFilters = {
+  search: '',
+  role: '',
+  status: '' as UserStatusFilter | '',
+};
+
+const AdminUsers: React.FC = () => {
+  const { user } = useAuth();
+
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<UserPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [filterForm, setFilterForm] = useState(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState(emptyFilters);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activity, setActivity] = useState<AuditLogEntry[]>([]);
+
+  const fetchUsers = useCallback(async () => {
+    const params: UserFilters = { page, limit: PAGE_SIZE };
+    if (appliedFilters.search.trim()) params.search = appliedFilters.search.trim();
+    if (appliedFilters.role) params.role = appliedFilters.role;
+    if (appliedFilters.status) params.status = appliedFilters.status;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await userAdminApi.getUsers(params);
+      setUsers(data.users);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, appliedFilters]);
+
+  // Fetch users whenever page or filters change
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Recent staff changes; the list still works if this fails
+  useEffect(() => {
+    userAdminApi.getAuditLog({ limit: 10 })
+      .then(data => setActivity(data.entries))
+      .catch(() => setActivity([]));
+  }, []);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilterForm(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filterForm);
+  };
+
+  const handleResetFilters = () => {
+    setFilterForm(emptyFilters);
+    setAppliedFilters(emptyFilters);
+    setPage(1);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                {hasPermission(user, 'products:write') && <Link to="/admin/products" className="text-gray-600 hover:text-gray-900">Manage Products</Link>}
+                {hasPermission(user, 'inventory:manage') && <Link to="/admin/inventory" className="text-gray-600 hover:text-gray-900">Inventory</Link>}
+                {hasPermission(user, 'orders:read') && <Link to="/admin/orders" className="text-gray-600 hover:text-gray-900">Manage Orders</Link>}
+                {hasPermission(user, 'coupons:write') && <Link to="/admin/coupons" className="text-gray-600 hover:text-gray-900">Manage Coupons</Link>}
+                {hasPermission(user, 'pricing:write') && <Link to="/admin/pricing" className="text-gray-600 hover:text-gray-900">Shipping &amp; Tax</Link>}
+                {hasPermission(user, 'returns:read') && <Link to="/admin/returns" className="text-gray-600 hover:text-gray-900">Manage Returns</Link>}
+                {hasPermission(user, 'users:read') && <Link to="/admin/users" className="text-blue-600 font-medium">Manage Users</Link>}
+                {hasPermission(user, 'analytics:read') && <Link to="/admin/analytics" className="text-gray-600 hover:text-gray-900">Analytics</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">User Management</h1>
+          <p className="text-gray-600">
+            {pagination ? `${pagination.totalUsers} users found` : 'Loading users...'}
+          </p>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleApplyFilters} className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+              <input
+                id="search"
+                name="search"
+                type="text"
+                value={filterForm.search}
+                onChange={handleFilterChange}
+                placeholder="Name, username or email"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              <select
+                id="role"
+                name="role"
+                value={filterForm.role}
+                onChange={handleFilterChange}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All roles</option>
+                {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                  <option key={role} value={role}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                id="status"
+                name="status"
+                value={filterForm.status}
+                onChange={handleFilterChange}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All accounts</option>
+                <option value="active">Active</option>
+                <option value="inactive">Deactivated</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3 mt-4">
+            <button
+              type="button"
+              onClick={handleResetFilters}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </form>
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Users Table */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-600">Loading users...</td>
+                </tr>
+              ) : users.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-600">No users match these filters</td>
+                </tr>
+              ) : (
+                users.map((account) => (
+                  <tr key={account._id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link to={`/admin/users/${account._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                        {account.firstName} {account.lastName}
+                      </Link>
+                      <p className="text-xs text-gray-500">@{account.username}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {account.email}
+                      {!account.isEmailVerified && <span className="ml-2 text-xs text-yellow-700">(unverified)</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{ROLE_LABELS[account.role] || account.role}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                        account.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {account.isActive ? 'Active' : 'Deactivated'}
+                      </span>
+                      {account.passwordResetRequired && (
+                        <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">Reset pending</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatDate(account.createdAt)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={!pagination.hasPrevPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={!pagination.hasNextPage || isLoading}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+
+        {/* Recent Activity */}
+        {activity.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Activity</h2>
+            <ul className="divide-y divide-gray-200">
+              {activity.map(entry => (
+                <li key={entry._id} className="py-3 text-sm flex justify-between gap-4">
+                  <div>
+                    <span className="font-medium text-gray-900">{entry.actor?.username || 'Deleted user'}</span>
+                    <span className="text-gray-600"> · {AUDIT_ACTION_LABELS[entry.action]} · </span>
+                    {entry.targetUser ? (
+                      <Link to={`/admin/users/${entry.targetUser._id}`} className="text-blue-600 hover:text-blue-800">
+                        {entry.targetUser.username}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-500">Deleted user</span>
+                    )}
+                    {entry.action === 'user.role_change' && (
+                      <span className="text-gray-600">
+                        {' '}({ROLE_LABELS[String(entry.changes.from)] || String(entry.changes.from)} → {ROLE_LABELS[String(entry.changes.to)] || String(entry.changes.to)})
+                      </span>
+                    )}
+                    {entry.note && <p className="text-xs text-gray-500 mt-1">"{entry.note}"</p>}
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{formatDate(entry.createdAt)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminUsers;
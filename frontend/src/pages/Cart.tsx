@@ -1,8 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
-import { type CartItem } from '../services/api';
+import { useWishlist } from '../contexts/wishlist';
+import {
+  cartApi,
+  pricingApi,
+  type CartItem,
+  type CartSummary,
+  type PricingDestination,
+  type WishlistItem
+} from '../services/api';
+import PriceSummary from '../components/PriceSummary';
+import { cartLineKey, cartLineImage, cartLinePrice, formatOptions } from '../utils/variants';
 
 const Cart: React.FC = () => {
   const { user, isAuthenticated } = useAuth();
@@ -12,42 +22,81 @@ const Cart: React.FC = () => {
     error, 
     updateCartItem, 
     removeFromCart, 
-    clearCart 
+    clearCart,
+    mergeReport,
+    dismissMergeReport,
+    applyCoupon,
+    removeCoupon
   } = useCart();
+  const { wishlistData, saveForLater, moveToCart, removeFromWishlist } = useWishlist();
 
   const [updatingItems, setUpdatingItems] = useState<{ [key: string]: boolean }>({});
   const [removingItems, setRemovingItems] = useState<{ [key: string]: boolean }>({});
+  const [movingItems, setMovingItems] = useState<{ [key: string]: boolean }>({});
+  const [wishlistError, setWishlistError] = useState<string | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const [shippingCountries, setShippingCountries] = useState<string[]>([]);
+  const [destinationForm, setDestinationForm] = useState<PricingDestination>({ country: '', postalCode: '' });
+  const [destination, setDestination] = useState<PricingDestination | null>(null);
+  const [estimate, setEstimate] = useState<CartSummary | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
 
-  // Redirect to login if not authenticated
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
-          <div className="mb-4">
-            <svg className="mx-auto h-12 w-12 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l-1 12H6L5 9z" />
-            </svg>
-          </div>
-          <h2 className="text-xl font-semibold text-gray-900 mb-2">Sign in to view your cart</h2>
-          <p className="text-gray-600 mb-4">You need to be logged in to access your shopping cart.</p>
-          <div className="space-y-2">
-            <Link
-              to="/login"
-              className="block w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
-            >
-              Sign In
-            </Link>
-            <Link
-              to="/products"
-              className="block w-full bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded-md transition-colors"
-            >
-              Continue Shopping
-            </Link>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  // Countries with shipping rules, offered as suggestions
+  useEffect(() => {
+    pricingApi.getShippingCountries()
+      .then(data => setShippingCountries(data.countries))
+      .catch(err => console.error('Failed to load shipping countries:', err));
+  }, []);
+
+  // Re-estimate shipping and tax whenever the destination or the cart changes
+  useEffect(() => {
+    if (!destination || !cartData || cartData.items.length === 0) {
+      setEstimate(null);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsEstimating(true);
+    setEstimateError(null);
+
+    const request = isAuthenticated
+      ? cartApi.getEstimate(destination).then(data => data.summary)
+      : pricingApi.estimate(
+          cartData.items.map(item => ({ product: item.product._id, variant: item.variantId || null, quantity: item.quantity })),
+          destination
+        );
+
+    request
+      .then(summary => {
+        if (isCurrent) setEstimate(summary);
+      })
+      .catch(err => {
+        if (isCurrent) {
+          setEstimate(null);
+          setEstimateError(err instanceof Error ? err.message : 'Failed to estimate shipping and tax');
+        }
+      })
+      .finally(() => {
+        if (isCurrent) setIsEstimating(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [destination, cartData, isAuthenticated]);
+
+  const handleEstimate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const country = destinationForm.country.trim();
+    if (country.length < 2) {
+      setEstimateError('Please enter a country');
+      return;
+    }
+    setDestination({ country, postalCode: destinationForm.postalCode?.trim() || '' });
+  };
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -56,29 +105,74 @@ const Cart: React.FC = () => {
     }).format(price);
   };
 
-  const handleQuantityChange = async (productId: string, newQuantity: number) => {
+  // Busy flags are keyed by cart line (product and variant)
+  const handleQuantityChange = async (item: CartItem, newQuantity: number) => {
     if (newQuantity < 1) return;
+    const key = cartLineKey(item.product._id, item.variantId);
     
     try {
-      setUpdatingItems(prev => ({ ...prev, [productId]: true }));
-      await updateCartItem(productId, newQuantity);
+      setUpdatingItems(prev => ({ ...prev, [key]: true }));
+      await updateCartItem(item.product._id, newQuantity, item.variantId);
     } catch (error) {
       console.error('Failed to update quantity:', error);
       // You could add toast notification here
     } finally {
-      setUpdatingItems(prev => ({ ...prev, [productId]: false }));
+      setUpdatingItems(prev => ({ ...prev, [key]: false }));
     }
   };
 
-  const handleRemoveItem = async (productId: string) => {
+  const handleRemoveItem = async (item: CartItem) => {
+    const key = cartLineKey(item.product._id, item.variantId);
+
     try {
-      setRemovingItems(prev => ({ ...prev, [productId]: true }));
-      await removeFromCart(productId);
+      setRemovingItems(prev => ({ ...prev, [key]: true }));
+      await removeFromCart(item.product._id, item.variantId);
     } catch (error) {
       console.error('Failed to remove item:', error);
       // You could add toast notification here
     } finally {
-      setRemovingItems(prev => ({ ...prev, [productId]: false }));
+      setRemovingItems(prev => ({ ...prev, [key]: false }));
+    }
+  };
+
+  // Move a line between the cart and the saved-for-later list
+  const handleMove = async (key: string, move: () => Promise<void>) => {
+    try {
+      setMovingItems(prev => ({ ...prev, [key]: true }));
+      setWishlistError(null);
+      await move();
+    } catch (error) {
+      setWishlistError(error instanceof Error ? error.message : 'Failed to move item');
+    } finally {
+      setMovingItems(prev => ({ ...prev, [key]: false }));
+    }
+  };
+
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponCode.trim()) return;
+
+    try {
+      setIsApplyingCoupon(true);
+      setCouponError(null);
+      await applyCoupon(couponCode.trim());
+      setCouponCode('');
+    } catch (error) {
+      setCouponError(error instanceof Error ? error.message : 'Failed to apply coupon');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = async () => {
+    try {
+      setIsApplyingCoupon(true);
+      setCouponError(null);
+      await removeCoupon();
+    } catch (error) {
+      setCouponError(error instanceof Error ? error.message : 'Failed to remove coupon');
+    } finally {
+      setIsApplyingCoupon(false);
     }
   };
 
@@ -134,10 +228,21 @@ const Cart: React.FC = () => {
               </nav>
             </div>
             <div className="flex items-center space-x-4">
-              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
-              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
-                Dashboard
-              </Link>
+              {user ? (
+                <>
+                  <span className="text-sm text-gray-600">Welcome, {user.username}</span>
+                  <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                    Dashboard
+                  </Link>
+                </>
+              ) : (
+                <>
+                  <Link to="/login" state={{ from: { pathname: '/cart' } }} className="text-gray-600 hover:text-gray-900">Login</Link>
+                  <Link to="/register" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                    Register
+                  </Link>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -152,6 +257,60 @@ const Cart: React.FC = () => {
           </p>
         </div>
 
+        {/* Guest Cart Merge Notice */}
+        {mergeReport && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start justify-between">
+              <h3 className="text-sm font-medium text-blue-800 mb-2">
+                We moved the items you added before signing in into your cart
+              </h3>
+              <button onClick={dismissMergeReport} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                Dismiss
+              </button>
+            </div>
+            <ul className="space-y-1 text-sm text-blue-900">
+              {mergeReport.adjusted.map(line => (
+                <li key={line.productId}>
+                  {line.name}: quantity reduced from {line.requested} to {line.quantity} (limited stock)
+                </li>
+              ))}
+              {mergeReport.skipped.map(line => (
+                <li key={line.productId}>
+                  {line.name || 'An item'} was not added: {line.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Unavailable Items Notice */}
+        {!isLoading && cartData?.unavailableItems && cartData.unavailableItems.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <h3 className="text-sm font-medium text-yellow-800 mb-2">
+              Some items in your cart are no longer available
+            </h3>
+            <p className="text-sm text-yellow-700 mb-3">
+              These products (or the options chosen) have been removed from the store and won't be included in your order. Please remove them before checking out.
+            </p>
+            <ul className="space-y-2">
+              {cartData.unavailableItems.map((item: CartItem) => (
+                <li key={cartLineKey(item.product._id, item.variantId)} className="flex items-center justify-between text-sm">
+                  <span className="text-yellow-900">
+                    {item.product.name} <span className="text-yellow-700">× {item.quantity}</span>
+                  </span>
+                  <button
+                    onClick={() => handleRemoveItem(item)}
+                    disabled={removingItems[cartLineKey(item.product._id, item.variantId)]}
+                    className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {removingItems[cartLineKey(item.product._id, item.variantId)] ? 'Removing...' : 'Remove'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {isLoading ? (
           // Loading State
           <div className="bg-white rounded-lg shadow-md p-8 text-center">
@@ -196,92 +355,107 @@ const Cart: React.FC = () => {
                 </div>
                 
                 <div className="divide-y divide-gray-200">
-                  {cartData.items.map((item: CartItem) => (
-                    <div key={item.product._id} className="p-6">
-                      <div className="flex items-center space-x-4">
-                                                 {/* Product Image */}
-                         <div className="flex-shrink-0 w-20 h-20">
-                           <img
-                             src={
-                               item.product.image.includes('via.placeholder.com') 
-                                 ? `data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODAiIGhlaWdodD0iODAiIHZpZXdCb3g9IjAgMCA4MCA4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZjNmNGY2Ii8+CiAgPHRleHQgeD0iNTAlIiB5PSI1MCUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIiBmaWxsPSIjOWNhM2FmIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTAiPk5vIEltYWdlPC90ZXh0Pgo8L3N2Zz4K`
-                                 : item.product.image
-                             }
-                             alt={item.product.name}
-                             className="w-full h-full object-cover rounded-md"
-                             onError={(e) => {
-                               const target = e.target as HTMLImageElement;
-                               target.src = `data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODAiIGhlaWdodD0iODAiIHZpZXdCb3g9IjAgMCA4MCA4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZjNmNGY2Ii8+CiAgPHRleHQgeD0iNTAlIiB5PSI1MCUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIiBmaWxsPSIjOWNhM2FmIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTAiPk5vIEltYWdlPC90ZXh0Pgo8L3N2Zz4K`;
-                             }}
-                           />
-                         </div>
-
-                        {/* Product Info */}
-                        <div className="flex-1 min-w-0">
-                          <Link
-                            to={`/products/${item.product._id}`}
-                            className="text-lg font-medium text-gray-900 hover:text-blue-600 transition-colors"
-                          >
-                            {item.product.name}
-                          </Link>
-                          <p className="text-sm text-gray-600 mt-1 line-clamp-2">
-                            {item.product.description}
-                          </p>
-                          <p className="text-lg font-bold text-gray-900 mt-2">
-                            {formatPrice(item.product.price)}
-                          </p>
-                        </div>
+                  {cartData.items.map((item: CartItem) => {
+                    const lineKey = cartLineKey(item.product._id, item.variantId);
+                    return (
+                      <div key={lineKey} className="p-6">
+                        <div className="flex items-center space-x-4">
+                                                   {/* Product Image */}
+                           <div className="flex-shrink-0 w-20 h-20">
+                             <img
+                               src={
+                                 item.product.image.includes('via.placeholder.com') 
+                                   ? `data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODAiIGhlaWdodD0iODAiIHZpZXdCb3g9IjAgMCA4MCA4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZjNmNGY2Ii8+CiAgPHRleHQgeD0iNTAlIiB5PSI1MCUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIiBmaWxsPSIjOWNhM2FmIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTAiPk5vIEltYWdlPC90ZXh0Pgo8L3N2Zz4K`
+                                   : cartLineImage(item)
+                               }
+                               alt={item.product.name}
+                               className="w-full h-full object-cover rounded-md"
+                               onError={(e) => {
+                                 const target = e.target as HTMLImageElement;
+                                 target.src = `data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODAiIGhlaWdodD0iODAiIHZpZXdCb3g9IjAgMCA4MCA4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZjNmNGY2Ii8+CiAgPHRleHQgeD0iNTAlIiB5PSI1MCUiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIiBmaWxsPSIjOWNhM2FmIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTAiPk5vIEltYWdlPC90ZXh0Pgo8L3N2Zz4K`;
+                               }}
+                             />
+                           </div>
 
-                        {/* Quantity Controls */}
-                        <div className="flex items-center space-x-3">
-                          <div className="flex items-center border border-gray-300 rounded-md">
+                          {/* Product Info */}
+                          <div className="flex-1 min-w-0">
+                            <Link
+                              to={`/products/${item.product._id}`}
+                              className="text-lg font-medium text-gray-900 hover:text-blue-600 transition-colors"
+                            >
+                              {item.product.name}
+                            </Link>
+                            {item.variant && (
+                              <p className="text-sm font-medium text-gray-700 mt-1">{formatOptions(item.variant.options)}</p>
+                            )}
+                            <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                              {item.product.description}
+                            </p>
+                            <p className="text-lg font-bold text-gray-900 mt-2">
+                              {formatPrice(cartLinePrice(item))}
+                            </p>
+                            {isAuthenticated && (
+                              <button
+                                onClick={() => handleMove(lineKey, () => saveForLater(item.product._id, item.variantId))}
+                                disabled={movingItems[lineKey]}
+                                className="text-sm text-blue-600 hover:text-blue-800 font-medium mt-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {movingItems[lineKey] ? 'Saving...' : 'Save for later'}
+                              </button>
+                            )}
+                          </div>
+
+                          {/* Quantity Controls */}
+                          <div className="flex items-center space-x-3">
+                            <div className="flex items-center border border-gray-300 rounded-md">
+                              <button
+                                onClick={() => handleQuantityChange(item, item.quantity - 1)}
+                                disabled={item.quantity <= 1 || updatingItems[lineKey]}
+                                className="px-3 py-1 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                −
+                              </button>
+                              <span className="px-4 py-1 text-gray-900 min-w-[3rem] text-center">
+                                {updatingItems[lineKey] ? (
+                                  <svg className="animate-spin h-4 w-4 text-blue-600 mx-auto" fill="none" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                                  </svg>
+                                ) : (
+                                  item.quantity
+                                )}
+                              </span>
+                              <button
+                                onClick={() => handleQuantityChange(item, item.quantity + 1)}
+                                disabled={updatingItems[lineKey]}
+                                className="px-3 py-1 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                +
+                              </button>
+                            </div>
+                          
+                            {/* Remove Button */}
                             <button
-                              onClick={() => handleQuantityChange(item.product._id, item.quantity - 1)}
-                              disabled={item.quantity <= 1 || updatingItems[item.product._id]}
-                              className="px-3 py-1 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                              onClick={() => handleRemoveItem(item)}
+                              disabled={removingItems[lineKey]}
+                              className="text-red-600 hover:text-red-800 p-2 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                              −
-                            </button>
-                            <span className="px-4 py-1 text-gray-900 min-w-[3rem] text-center">
-                              {updatingItems[item.product._id] ? (
-                                <svg className="animate-spin h-4 w-4 text-blue-600 mx-auto" fill="none" viewBox="0 0 24 24">
+                              {removingItems[lineKey] ? (
+                                <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
                                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                                 </svg>
                               ) : (
-                                item.quantity
+                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                </svg>
                               )}
-                            </span>
-                            <button
-                              onClick={() => handleQuantityChange(item.product._id, item.quantity + 1)}
-                              disabled={updatingItems[item.product._id]}
-                              className="px-3 py-1 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
-                            >
-                              +
                             </button>
                           </div>
-                          
-                          {/* Remove Button */}
-                          <button
-                            onClick={() => handleRemoveItem(item.product._id)}
-                            disabled={removingItems[item.product._id]}
-                            className="text-red-600 hover:text-red-800 p-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                          >
-                            {removingItems[item.product._id] ? (
-                              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                              </svg>
-                            ) : (
-                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                              </svg>
-                            )}
-                          </button>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -291,27 +465,123 @@ const Cart: React.FC = () => {
               <div className="bg-white rounded-lg shadow-md p-6 sticky top-8">
                 <h2 className="text-lg font-medium text-gray-900 mb-4">Order Summary</h2>
                 
-                <div className="space-y-3 mb-6">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Items ({cartData.summary.totalItems})</span>
-                    <span className="font-medium">{formatPrice(cartData.summary.totalPrice)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Shipping</span>
-                    <span className="font-medium text-green-600">Free</span>
+                <div className="mb-6">
+                  <PriceSummary
+                    subtotalLabel={`Items (${cartData.summary.totalItems})`}
+                    subtotal={cartData.summary.totalPrice}
+                    discount={cartData.summary.discount}
+                    discountLabel={`Discount (${cartData.summary.coupon?.code})`}
+                    shipping={estimate?.shipping?.error ? null : estimate?.shipping}
+                    shippingPlaceholder={estimate?.shipping?.error ? 'Unavailable' : 'Calculated at checkout'}
+                    tax={estimate?.tax}
+                    total={estimate?.total ?? cartData.summary.total ?? cartData.summary.totalPrice}
+                  />
+                </div>
+
+                {/* Shipping & Tax Estimate */}
+                <form onSubmit={handleEstimate} className="mb-6 space-y-2">
+                  <span className="block text-sm font-medium text-gray-700">Estimate shipping &amp; tax</span>
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      list="shipping-countries"
+                      value={destinationForm.country}
+                      onChange={(e) => setDestinationForm(prev => ({ ...prev, country: e.target.value }))}
+                      placeholder="Country"
+                      autoComplete="country-name"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={destinationForm.postalCode}
+                      onChange={(e) => setDestinationForm(prev => ({ ...prev, postalCode: e.target.value }))}
+                      placeholder="Postal code"
+                      autoComplete="postal-code"
+                      maxLength={10}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
                   </div>
-                  <div className="border-t border-gray-200 pt-3">
-                    <div className="flex justify-between">
-                      <span className="text-lg font-medium text-gray-900">Total</span>
-                      <span className="text-lg font-bold text-gray-900">{formatPrice(cartData.summary.totalPrice)}</span>
+                  <datalist id="shipping-countries">
+                    {shippingCountries.map(country => (
+                      <option key={country} value={country} />
+                    ))}
+                  </datalist>
+                  <button
+                    type="submit"
+                    disabled={isEstimating}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isEstimating ? 'Estimating...' : 'Estimate'}
+                  </button>
+                  {(estimateError || estimate?.shipping?.error) && (
+                    <p className="text-xs text-red-600">{estimateError || estimate?.shipping?.error}</p>
+                  )}
+                  {estimate && !estimate.shipping?.error && (
+                    <p className="text-xs text-gray-500">Final shipping and tax are confirmed at checkout.</p>
+                  )}
+                </form>
+
+                {/* Coupon */}
+                <div className="mb-6">
+                  {cartData.summary.coupon ? (
+                    <div className={`rounded-md px-4 py-3 ${cartData.summary.coupon.error ? 'bg-yellow-50 border border-yellow-200' : 'bg-green-50 border border-green-200'}`}>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">
+                          Coupon <span className="font-mono">{cartData.summary.coupon.code}</span>
+                        </span>
+                        <button
+                          onClick={handleRemoveCoupon}
+                          disabled={isApplyingCoupon}
+                          className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {cartData.summary.coupon.error ? (
+                        <p className="text-xs text-yellow-800 mt-1">{cartData.summary.coupon.error}</p>
+                      ) : cartData.summary.coupon.freeShipping ? (
+                        <p className="text-xs text-green-700 mt-1">Free shipping applied</p>
+                      ) : null}
                     </div>
-                  </div>
+                  ) : isAuthenticated ? (
+                    <form onSubmit={handleApplyCoupon} className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value)}
+                        placeholder="Coupon code"
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm uppercase"
+                      />
+                      <button
+                        type="submit"
+                        disabled={isApplyingCoupon || !couponCode.trim()}
+                        className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isApplyingCoupon ? 'Applying...' : 'Apply'}
+                      </button>
+                    </form>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      <Link to="/login" state={{ from: { pathname: '/cart' } }} className="text-blue-600 hover:text-blue-800 font-medium">Log in</Link> to use a coupon code.
+                    </p>
+                  )}
+                  {couponError && (
+                    <p className="text-xs text-red-600 mt-2">{couponError}</p>
+                  )}
                 </div>
 
                 <div className="space-y-3">
-                  <button className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-md transition-colors">
+                  <Link
+                    to="/checkout"
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-md transition-colors text-center block"
+                  >
                     Proceed to Checkout
-                  </button>
+                  </Link>
+                  {!isAuthenticated && (
+                    <p className="text-xs text-gray-500 text-center">
+                      You'll be asked to sign in or create an account. Your cart will be kept.
+                    </p>
+                  )}
                   <Link
                     to="/products"
                     className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-3 px-4 rounded-md transition-colors text-center block"
@@ -323,6 +593,63 @@ const Cart: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Saved for Later */}
+        {isAuthenticated && wishlistData && wishlistData.items.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden mt-8 lg:w-2/3">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Saved for Later ({wishlistData.items.length})</h2>
+            </div>
+
+            {wishlistError && (
+              <div className="bg-red-50 border-b border-red-200 text-red-700 px-6 py-3">
+                <p className="text-sm">{wishlistError}</p>
+              </div>
+            )}
+
+            <ul className="divide-y divide-gray-200">
+              {wishlistData.items.map((item: WishlistItem) => {
+                const variant = item.variant ? item.product.variants?.find(entry => entry._id === item.variant) : undefined;
+                const isAvailable = item.product.isActive && (variant ? variant.quantity : item.product.quantity) > 0;
+                const lineKey = `wishlist:${item.product._id}:${item.variant || ''}`;
+
+                return (
+                  <li key={lineKey} className="p-6 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <Link
+                        to={`/products/${item.product._id}`}
+                        className="font-medium text-gray-900 hover:text-blue-600 transition-colors"
+                      >
+                        {item.product.name}
+                      </Link>
+                      {variant && <p className="text-sm text-gray-700">{formatOptions(variant.options)}</p>}
+                      <p className="text-sm text-gray-600">
+                        {formatPrice(variant ? variant.price : item.product.price)} × {item.quantity}
+                        {!isAvailable && <span className="text-red-600 ml-2">Currently unavailable</span>}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-4 flex-shrink-0">
+                      <button
+                        onClick={() => handleMove(lineKey, () => moveToCart(item.product._id, item.variant))}
+                        disabled={!isAvailable || movingItems[lineKey]}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {movingItems[lineKey] ? 'Moving...' : 'Move to cart'}
+                      </button>
+                      <button
+                        onClick={() => handleMove(lineKey, () => removeFromWishlist(item.product._id, item.variant))}
+                        disabled={movingItems[lineKey]}
+                        className="text-sm text-red-600 hover:text-red-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
       </main>
     </div>
   );
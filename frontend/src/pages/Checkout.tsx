@@ -0,0 +1,595 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../contexts/CartContext';
+import { orderApi, cartApi, authApi, addressApi, isAwaitingPayment, ApiError, type Order, type ShippingAddress, type SavedAddress, type CartItem, type CartSummary } from '../services/api';
+import {
+  shippingRules,
+  shippingFields,
+  validateShipping,
+  emptyShippingAddress,
+  pickShippingAddress,
+  type ShippingErrors,
+} from '../utils/shippingAddress';
+import PriceSummary from '../components/PriceSummary';
+import PaymentForm from '../components/PaymentForm';
+import { cartLineKey, cartLinePrice, formatOptions } from '../utils/variants';
+
+type CheckoutStep = 'shipping' | 'review' | 'payment' | 'confirmation';
+
+const steps: { key: CheckoutStep; label: string }[] = [
+  { key: 'shipping', label: 'Shipping' },
+  { key: 'review', label: 'Review' },
+  { key: 'payment', label: 'Payment' },
+  { key: 'confirmation', label: 'Confirmation' },
+];
+
+const Checkout: React.FC = () => {
+  const { user } = useAuth();
+  const { cartData, isLoading, refreshCart } = useCart();
+
+  const [step, setStep] = useState<CheckoutStep>('shipping');
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>(emptyShippingAddress);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string>('new');
+  const [saveNewAddress, setSaveNewAddress] = useState(false);
+  const [addressLabel, setAddressLabel] = useState('');
+  const [notes, setNotes] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<ShippingErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [placedOrder, setPlacedOrder] = useState<Order | null>(null);
+  const [pricing, setPricing] = useState<CartSummary | null>(null);
+  const [pricingError, setPricingError] = useState<string | null>(null);
+  const [verificationMessage, setVerificationMessage] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  // Orders require a verified email address
+  const needsVerification = !!user && !user.isEmailVerified;
+
+  // Start from the default saved address, if the user has one
+  useEffect(() => {
+    addressApi.getAddresses()
+      .then(addresses => {
+        setSavedAddresses(addresses);
+        const defaultAddress = addresses.find(address => address.isDefault);
+        if (defaultAddress) {
+          setSelectedAddressId(defaultAddress._id);
+          setShippingAddress(pickShippingAddress(defaultAddress));
+        }
+      })
+      .catch(err => console.error('Failed to load saved addresses:', err));
+  }, []);
+
+  const selectSavedAddress = (address: SavedAddress) => {
+    setSelectedAddressId(address._id);
+    setShippingAddress(pickShippingAddress(address));
+    setFieldErrors({});
+  };
+
+  const selectNewAddress = () => {
+    setSelectedAddressId('new');
+    setShippingAddress(emptyShippingAddress);
+    setFieldErrors({});
+  };
+
+  const isNewAddress = selectedAddressId === 'new';
+
+  // Price shipping and tax for the entered address when reviewing (and when the cart changes)
+  useEffect(() => {
+    if (step !== 'review') {
+      return;
+    }
+
+    let isCurrent = true;
+    setPricingError(null);
+
+    cartApi.getEstimate({ country: shippingAddress.country.trim(), postalCode: shippingAddress.postalCode.trim() })
+      .then(data => {
+        if (isCurrent) setPricing(data.summary);
+      })
+      .catch(err => {
+        if (isCurrent) {
+          setPricing(null);
+          setPricingError(err instanceof Error ? err.message : 'Failed to calculate shipping and tax');
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [step, shippingAddress.country, shippingAddress.postalCode, cartData]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setShippingAddress(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+    // Clear the field error when user starts typing
+    if (fieldErrors[name as keyof ShippingAddress]) {
+      setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleShippingSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const errors = validateShipping(shippingAddress);
+    setFieldErrors(errors);
+
+    if (Object.keys(errors).length === 0) {
+      setPricing(null);
+      setStep('review');
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResending(true);
+      setVerificationMessage(await authApi.resendVerification());
+    } catch (err) {
+      setVerificationMessage(err instanceof Error ? err.message : 'Failed to resend verification email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handlePlaceOrder = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const order = await orderApi.checkout({
+        shippingAddress: {
+          fullName: shippingAddress.fullName.trim(),
+          address: shippingAddress.address.trim(),
+          city: shippingAddress.city.trim(),
+          postalCode: shippingAddress.postalCode.trim(),
+          country: shippingAddress.country.trim(),
+        },
+        notes: notes.trim(),
+        saveAddress: isNewAddress && saveNewAddress,
+        addressLabel: isNewAddress && saveNewAddress ? addressLabel.trim() || undefined : undefined,
+      });
+
+      setPlacedOrder(order);
+      setStep(isAwaitingPayment(order) ? 'payment' : 'confirmation');
+
+      // Cart is cleared server-side once the order is placed
+      await refreshCart();
+    } catch (err) {
+      if (err instanceof ApiError && err.errors.length > 0) {
+        // Map server validation errors (e.g. "shippingAddress.city") back onto the form
+        const errors: ShippingErrors = {};
+        err.errors.forEach((fieldError) => {
+          const field = fieldError.path.replace('shippingAddress.', '') as keyof ShippingAddress;
+          if (field in shippingRules && !errors[field]) {
+            errors[field] = fieldError.msg;
+          }
+        });
+
+        if (Object.keys(errors).length > 0) {
+          setFieldErrors(errors);
+          // Show the form so the errors can be fixed, even if a saved address was picked
+          setSelectedAddressId('new');
+          setStep('shipping');
+        }
+      }
+      setError(err instanceof Error ? err.message : 'Failed to place order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const currentStepIndex = steps.findIndex(s => s.key === step);
+
+  // Shipping and tax are only shown for the address being reviewed
+  const reviewPricing = step === 'review' ? pricing : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                {user && <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>}
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-6">Checkout</h1>
+
+          {/* Step Indicator */}
+          <ol className="flex items-center space-x-4">
+            {steps.map((s, index) => (
+              <li key={s.key} className="flex items-center space-x-2">
+                <span
+                  className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                    index < currentStepIndex
+                      ? 'bg-green-600 text-white'
+                      : index === currentStepIndex
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-200 text-gray-600'
+                  }`}
+                >
+                  {index + 1}
+                </span>
+                <span className={`text-sm font-medium ${index === currentStepIndex ? 'text-gray-900' : 'text-gray-500'}`}>
+                  {s.label}
+                </span>
+                {index < steps.length - 1 && <span className="text-gray-300 pl-2">—</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {step === 'confirmation' && placedOrder ? (
+          // Confirmation Step
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <svg className="mx-auto h-16 w-16 text-green-500 mb-4" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+            </svg>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Thank you for your order!</h2>
+            <p className="text-gray-600 mb-1">
+              Your order number is <span className="font-medium text-gray-900">{placedOrder.orderNumber}</span>
+            </p>
+            <p className="text-gray-600 mb-6">
+              {placedOrder.totalItems} items · {formatPrice(placedOrder.totalAmount)} · shipping to {placedOrder.shippingAddress.city}
+            </p>
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+              <Link
+                to={`/orders/${placedOrder._id}`}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors"
+              >
+                View Order
+              </Link>
+              <Link
+                to="/products"
+                className="bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-6 rounded-md transition-colors"
+              >
+                Continue Shopping
+              </Link>
+            </div>
+          </div>
+        ) : step === 'payment' && placedOrder ? (
+          // Payment Step (the order is placed and the cart already cleared)
+          <div className="flex flex-col lg:flex-row gap-8">
+            <div className="lg:w-2/3 bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Payment</h2>
+              <p className="text-sm text-gray-600 mb-6">
+                Order <span className="font-medium text-gray-900">{placedOrder.orderNumber}</span> is reserved.
+                Complete payment to confirm it.
+              </p>
+              <PaymentForm
+                order={placedOrder}
+                onPaid={(order) => {
+                  setPlacedOrder(order);
+                  setStep('confirmation');
+                }}
+              />
+              <p className="text-xs text-gray-500 mt-4">
+                You can also pay later from <Link to={`/orders/${placedOrder._id}`} className="text-blue-600 hover:text-blue-800">the order page</Link>.
+              </p>
+            </div>
+
+            <div className="lg:w-1/3">
+              <div className="bg-white rounded-lg shadow-md p-6 sticky top-8">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Order Summary</h2>
+                <PriceSummary
+                  subtotalLabel={`Items (${placedOrder.totalItems})`}
+                  subtotal={placedOrder.subtotal ?? placedOrder.totalAmount}
+                  discount={placedOrder.discount?.code ? placedOrder.discount.amount : 0}
+                  discountLabel={`Discount (${placedOrder.discount?.code})`}
+                  shipping={placedOrder.shipping}
+                  tax={placedOrder.tax}
+                  total={placedOrder.totalAmount}
+                />
+              </div>
+            </div>
+          </div>
+        ) : isLoading ? (
+          // Loading State
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <svg className="animate-spin h-8 w-8 text-blue-600 mx-auto mb-4" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            </svg>
+            <p className="text-gray-600">Loading your cart...</p>
+          </div>
+        ) : !cartData?.items || cartData.items.length === 0 ? (
+          // Empty Cart State
+          <div className="bg-white rounded-lg shadow-md p-12 text-center">
+            <h3 className="text-xl font-medium text-gray-900 mb-2">Your cart is empty</h3>
+            <p className="text-gray-600 mb-6">Add some products to your cart before checking out.</p>
+            <Link
+              to="/products"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-medium transition-colors inline-flex items-center"
+            >
+              Start Shopping
+            </Link>
+          </div>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-8">
+            <div className="lg:w-2/3">
+              {/* Unavailable Items Notice */}
+              {cartData.unavailableItems && cartData.unavailableItems.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md mb-6">
+                  <p className="text-sm">
+                    Some items in your cart are no longer available.{' '}
+                    <Link to="/cart" className="font-medium underline">Remove them from your cart</Link> to continue.
+                  </p>
+                </div>
+              )}
+
+              {needsVerification && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md mb-6">
+                  <p className="text-sm">
+                    Please verify your email address ({user?.email}) before placing an order. Check your inbox for the
+                    verification link.{' '}
+                    <button
+                      type="button"
+                      onClick={handleResendVerification}
+                      disabled={isResending}
+                      className="font-medium underline disabled:opacity-50"
+                    >
+                      {isResending ? 'Sending...' : 'Resend email'}
+                    </button>
+                  </p>
+                  {verificationMessage && <p className="text-sm mt-1">{verificationMessage}</p>}
+                </div>
+              )}
+
+              {/* Error Message */}
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+                  <p className="text-sm">{error}</p>
+                </div>
+              )}
+
+              {step === 'shipping' ? (
+                // Shipping Step
+                <form className="bg-white rounded-lg shadow-md p-6 space-y-5" onSubmit={handleShippingSubmit} noValidate>
+                  <h2 className="text-lg font-medium text-gray-900">Shipping Address</h2>
+
+                  {savedAddresses.length > 0 && (
+                    <fieldset className="space-y-2">
+                      <legend className="sr-only">Choose a shipping address</legend>
+                      {savedAddresses.map((address) => (
+                        <label
+                          key={address._id}
+                          className={`flex items-start space-x-3 border rounded-md p-3 cursor-pointer ${
+                            selectedAddressId === address._id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="savedAddress"
+                            checked={selectedAddressId === address._id}
+                            onChange={() => selectSavedAddress(address)}
+                            className="mt-1"
+                          />
+                          <span className="text-sm text-gray-700">
+                            <span className="font-medium text-gray-900">{address.label}</span>
+                            {address.isDefault && <span className="ml-2 text-xs text-blue-600">Default</span>}
+                            <br />
+                            {address.fullName}, {address.address}, {address.city} {address.postalCode}, {address.country}
+                          </span>
+                        </label>
+                      ))}
+                      <label
+                        className={`flex items-center space-x-3 border rounded-md p-3 cursor-pointer ${
+                          isNewAddress ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="savedAddress"
+                          checked={isNewAddress}
+                          onChange={selectNewAddress}
+                        />
+                        <span className="text-sm font-medium text-gray-900">Use a new address</span>
+                      </label>
+                      <p className="text-xs text-gray-500">
+                        Manage saved addresses in your <Link to="/addresses" className="text-blue-600 hover:text-blue-800">address book</Link>.
+                      </p>
+                    </fieldset>
+                  )}
+
+                  {isNewAddress && shippingFields.map((field) => (
+                    <div key={field.name}>
+                      <label htmlFor={field.name} className="block text-sm font-medium text-gray-700">
+                        {field.label}
+                      </label>
+                      <input
+                        id={field.name}
+                        name={field.name}
+                        type="text"
+                        autoComplete={field.autoComplete}
+                        value={shippingAddress[field.name]}
+                        onChange={handleChange}
+                        placeholder={field.placeholder}
+                        className={`mt-1 appearance-none block w-full px-3 py-2 border rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm ${
+                          fieldErrors[field.name] ? 'border-red-400' : 'border-gray-300'
+                        }`}
+                      />
+                      {fieldErrors[field.name] && (
+                        <p className="mt-1 text-sm text-red-600">{fieldErrors[field.name]}</p>
+                      )}
+                    </div>
+                  ))}
+
+                  {isNewAddress && (
+                    <div className="space-y-3">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={saveNewAddress}
+                          onChange={(e) => setSaveNewAddress(e.target.checked)}
+                        />
+                        <span>Save this address for next time</span>
+                      </label>
+                      {saveNewAddress && (
+                        <input
+                          type="text"
+                          value={addressLabel}
+                          maxLength={30}
+                          onChange={(e) => setAddressLabel(e.target.value)}
+                          placeholder="Label, e.g. Home or Work"
+                          className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm"
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                      Order notes (optional)
+                    </label>
+                    <textarea
+                      id="notes"
+                      name="notes"
+                      rows={3}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="Delivery instructions, gate codes, etc."
+                      className="mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm"
+                    />
+                  </div>
+
+                  <div className="flex justify-between pt-2">
+                    <Link to="/cart" className="text-gray-600 hover:text-gray-900 font-medium py-2">
+                      ← Back to Cart
+                    </Link>
+                    <button
+                      type="submit"
+                      className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors"
+                    >
+                      Continue to Review
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                // Review Step
+                <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                    <h2 className="text-lg font-medium text-gray-900">Ship To</h2>
+                    <button
+                      onClick={() => setStep('shipping')}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  <div className="px-6 py-4 text-sm text-gray-700 space-y-1">
+                    <p className="font-medium text-gray-900">{shippingAddress.fullName}</p>
+                    <p>{shippingAddress.address}</p>
+                    <p>{shippingAddress.city}, {shippingAddress.postalCode}</p>
+                    <p>{shippingAddress.country}</p>
+                    {notes.trim() && <p className="text-gray-500 pt-2">Notes: {notes}</p>}
+                  </div>
+
+                  <div className="px-6 py-4 border-t border-gray-200">
+                    <h2 className="text-lg font-medium text-gray-900">Items</h2>
+                  </div>
+                  <div className="divide-y divide-gray-200">
+                    {cartData.items.map((item: CartItem) => (
+                      <div key={cartLineKey(item.product._id, item.variantId)} className="px-6 py-4 flex justify-between items-center">
+                        <div>
+                          <p className="font-medium text-gray-900">{item.product.name}</p>
+                          {item.variant && (
+                            <p className="text-xs text-gray-500">{formatOptions(item.variant.options)}</p>
+                          )}
+                          <p className="text-sm text-gray-600">
+                            {item.quantity} × {formatPrice(cartLinePrice(item))}
+                          </p>
+                        </div>
+                        <span className="font-medium text-gray-900">
+                          {formatPrice(cartLinePrice(item) * item.quantity)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="px-6 py-4 border-t border-gray-200 flex justify-between">
+                    <button
+                      onClick={() => setStep('shipping')}
+                      className="text-gray-600 hover:text-gray-900 font-medium py-2"
+                    >
+                      ← Back
+                    </button>
+                    <button
+                      onClick={handlePlaceOrder}
+                      disabled={isSubmitting || needsVerification || !pricing || !!pricing.shipping?.error}
+                      className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSubmitting ? 'Placing Order...' : 'Place Order'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Order Summary */}
+            <div className="lg:w-1/3">
+              <div className="bg-white rounded-lg shadow-md p-6 sticky top-8">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Order Summary</h2>
+                <PriceSummary
+                  subtotalLabel={`Items (${cartData.summary.totalItems})`}
+                  subtotal={cartData.summary.totalPrice}
+                  discount={cartData.summary.discount}
+                  discountLabel={`Discount (${cartData.summary.coupon?.code})`}
+                  shipping={reviewPricing?.shipping?.error ? null : reviewPricing?.shipping}
+                  shippingPlaceholder={
+                    step === 'shipping' ? 'Enter your address' : reviewPricing?.shipping?.error ? 'Unavailable' : 'Calculating...'
+                  }
+                  tax={reviewPricing?.tax}
+                  total={reviewPricing?.total ?? cartData.summary.total ?? cartData.summary.totalPrice}
+                />
+                {step === 'review' && (pricingError || reviewPricing?.shipping?.error) && (
+                  <p className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2 mt-4">
+                    {pricingError || reviewPricing?.shipping?.error}
+                  </p>
+                )}
+                {cartData.summary.coupon?.error && (
+                  <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2 mt-4">
+                    Coupon {cartData.summary.coupon.code}: {cartData.summary.coupon.error}.{' '}
+                    <Link to="/cart" className="font-medium underline">Remove it in your cart</Link> to continue.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Checkout;
@@ -1,5 +1,7 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { hasPermission, ROLE_LABELS } from '../services/api';
 
 const Dashboard: React.FC = () => {
   const { user, logout } = useAuth();
@@ -18,6 +20,70 @@ const Dashboard: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900">E-Commerce MERN</h1>
             </div>
             <div className="flex items-center space-x-4">
+              {hasPermission(user, 'products:write') && (
+                <Link
+                  to="/admin/products"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Manage Products
+                </Link>
+              )}
+              {hasPermission(user, 'inventory:manage') && (
+                <Link
+                  to="/admin/inventory"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Inventory
+                </Link>
+              )}
+              {hasPermission(user, 'orders:read') && (
+                <Link
+                  to="/admin/orders"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Manage Orders
+                </Link>
+              )}
+              {hasPermission(user, 'coupons:write') && (
+                <Link
+                  to="/admin/coupons"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Manage Coupons
+                </Link>
+              )}
+              {hasPermission(user, 'pricing:write') && (
+                <Link
+                  to="/admin/pricing"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Shipping &amp; Tax
+                </Link>
+              )}
+              {hasPermission(user, 'returns:read') && (
+                <Link
+                  to="/admin/returns"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Manage Returns
+                </Link>
+              )}
+              {hasPermission(user, 'users:read') && (
+                <Link
+                  to="/admin/users"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Manage Users
+                </Link>
+              )}
+              {hasPermission(user, 'analytics:read') && (
+                <Link
+                  to="/admin/analytics"
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                >
+                  Analytics
+                </Link>
+              )}
               <span className="text-sm text-gray-600">
                 Welcome, <span className="font-medium text-gray-900">{user?.username}</span>
               </span>
@@ -34,26 +100,44 @@ const Dashboard: React.FC = () => {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
-        {/* Welcome Section */}
+        {/* Account Summary */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-4">Dashboard</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h3 className="text-lg font-semibold text-gray-800 mb-2">User Information</h3>
-              <div className="space-y-2 text-sm text-gray-600">
-                <p><span className="font-medium">Username:</span> {user?.username}</p>
-                <p><span className="font-medium">Email:</span> {user?.email}</p>
-                <p><span className="font-medium">Role:</span> {user?.role}</p>
-                <p><span className="font-medium">User ID:</span> {user?.id}</p>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              {user?.avatar ? (
+                <img src={user.avatar} alt="Profile" className="w-16 h-16 rounded-full object-cover" />
+              ) : (
+                <div className="w-16 h-16 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xl font-bold">
+                  {user?.firstName?.[0]?.toUpperCase() || user?.username?.[0]?.toUpperCase()}
+                </div>
+              )}
+              <div className="text-sm text-gray-600 space-y-1">
+                <p className="text-lg font-semibold text-gray-900">{user?.firstName} {user?.lastName}</p>
+                <p>
+                  {user?.email}{' '}
+                  {user?.isEmailVerified ? (
+                    <span className="text-green-600">(verified)</span>
+                  ) : (
+                    <span className="text-yellow-600">(not verified)</span>
+                  )}
+                </p>
+                <p>{(user && ROLE_LABELS[user.role]) || user?.role} · @{user?.username}</p>
               </div>
             </div>
-            <div>
-              <h3 className="text-lg font-semibold text-gray-800 mb-2">Quick Stats</h3>
-              <div className="space-y-2 text-sm text-gray-600">
-                <p><span className="font-medium">Status:</span> <span className="text-green-600">Active</span></p>
-                <p><span className="font-medium">Last Login:</span> Just now</p>
-                <p><span className="font-medium">Account Type:</span> {user?.role === 'admin' ? 'Administrator' : 'Customer'}</p>
-              </div>
+            <div className="flex flex-col sm:items-end gap-2">
+              <Link
+                to="/profile"
+                className="text-blue-600 hover:text-blue-700 font-medium text-sm"
+              >
+                Account settings →
+              </Link>
+              <Link
+                to="/addresses"
+                className="text-blue-600 hover:text-blue-700 font-medium text-sm"
+              >
+                Address book →
+              </Link>
             </div>
           </div>
         </div>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 const Login: React.FC = () => {
@@ -12,6 +12,10 @@ const Login: React.FC = () => {
   
   const { login, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Return to the page that sent the user here (e.g. checkout), if any
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/dashboard';
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -37,7 +41,7 @@ const Login: React.FC = () => {
 
     try {
       await login(formData.email, formData.password);
-      navigate('/dashboard');
+      navigate(from, { replace: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -57,6 +61,7 @@ const Login: React.FC = () => {
             Or{' '}
             <Link
               to="/register"
+              state={location.state}
               className="font-medium text-blue-600 hover:text-blue-500 transition-colors"
             >
               create a new account
@@ -106,6 +111,11 @@ const Login: React.FC = () => {
                   placeholder="Enter your password"
                 />
               </div>
+              <div className="mt-2 text-right">
+                <Link to="/forgot-password" className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors">
+                  Forgot password?
+                </Link>
+              </div>
             </div>
 
             {/* Error Message */}
@@ -0,0 +1,346 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import {
+  orderApi,
+  returnApi,
+  canBeCancelled,
+  isAwaitingPayment,
+  RETURN_REASON_LABELS,
+  type Order,
+  type ReturnRequest,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import PriceSummary from '../components/PriceSummary';
+import PaymentForm from '../components/PaymentForm';
+import PaymentStatusBadge from '../components/PaymentStatusBadge';
+import ReturnStatusBadge from '../components/ReturnStatusBadge';
+import { formatOptions } from '../utils/variants';
+
+const OrderDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+
+  // Fetch order data
+  useEffect(() => {
+    const fetchOrder = async () => {
+      if (!id) {
+        setError('Order ID not found');
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        const orderData = await orderApi.getOrderById(id);
+        setOrder(orderData);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load order');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrder();
+  }, [id]);
+
+  // Returns only exist for delivered orders, and only the customer can see theirs here
+  const isOwnOrder = !!order && typeof order.customer === 'object' && order.customer._id === user?.id;
+  const isDelivered = order?.status === 'delivered';
+
+  useEffect(() => {
+    if (!id || !isOwnOrder || !isDelivered) return;
+
+    returnApi.getMyReturns(id)
+      .then(setReturns)
+      .catch(err => console.error('Failed to load returns:', err));
+  }, [id, isOwnOrder, isDelivered]);
+
+  const handleCancelOrder = async () => {
+    if (!order || !window.confirm('Are you sure you want to cancel this order?')) {
+      return;
+    }
+
+    try {
+      setIsCancelling(true);
+      setCancelError(null);
+      const cancelledOrder = await orderApi.cancelOrder(order._id);
+      // Keep the populated fields from the original fetch
+      setOrder(prev => (prev ? {
+        ...prev,
+        status: cancelledOrder.status,
+        payment: cancelledOrder.payment,
+        updatedAt: cancelledOrder.updatedAt,
+      } : prev));
+    } catch (err) {
+      setCancelError(err instanceof Error ? err.message : 'Failed to cancel order');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  // Error state
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <div className="mb-4">
+            <svg className="mx-auto h-12 w-12 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Order Not Found</h2>
+          <p className="text-sm text-gray-600 mb-4">{error}</p>
+          <Link
+            to="/orders"
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            Back to Orders
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                <Link to="/orders" className="text-blue-600 font-medium">Orders</Link>
+                <Link to="/returns" className="text-gray-600 hover:text-gray-900">Returns</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Breadcrumb */}
+        <nav className="mb-8">
+          <ol className="flex items-center space-x-2 text-sm text-gray-600">
+            <li><Link to="/orders" className="hover:text-gray-900">Orders</Link></li>
+            <li><span className="text-gray-400">/</span></li>
+            <li className="text-gray-900 font-medium truncate">{order?.orderNumber || 'Loading...'}</li>
+          </ol>
+        </nav>
+
+        {isLoading || !order ? (
+          // Loading State
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <svg className="animate-spin h-8 w-8 text-blue-600 mx-auto mb-4" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            </svg>
+            <p className="text-gray-600">Loading order...</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Order Overview */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div>
+                  <div className="flex items-center space-x-3 mb-2">
+                    <h1 className="text-2xl font-bold text-gray-900">{order.orderNumber}</h1>
+                    <OrderStatusBadge status={order.status} />
+                    {order.payment && <PaymentStatusBadge status={order.payment.status} />}
+                  </div>
+                  <div className="text-sm text-gray-600 space-y-1">
+                    <p><span className="font-medium">Placed:</span> {formatDate(order.orderDate)}</p>
+                    {order.payment?.paidAt && (
+                      <p><span className="font-medium">Paid:</span> {formatDate(order.payment.paidAt)}</p>
+                    )}
+                    {!!order.payment?.refundedAmount && (
+                      <p><span className="font-medium">Refunded:</span> {formatPrice(order.payment.refundedAmount)}</p>
+                    )}
+                    <p>
+                      <span className="font-medium">Delivered:</span>{' '}
+                      {order.deliveryDate ? formatDate(order.deliveryDate) : 'Not yet delivered'}
+                    </p>
+                  </div>
+                </div>
+                {isOwnOrder && isDelivered && (
+                  <Link
+                    to={`/orders/${order._id}/return`}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors text-center"
+                  >
+                    Return Items
+                  </Link>
+                )}
+                {canBeCancelled(order) && (
+                  <button
+                    onClick={handleCancelOrder}
+                    disabled={isCancelling}
+                    className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isCancelling ? 'Cancelling...' : 'Cancel Order'}
+                  </button>
+                )}
+              </div>
+              {cancelError && (
+                <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                  <p className="text-sm">{cancelError}</p>
+                </div>
+              )}
+            </div>
+
+            {/* Pay Now (pending orders whose payment hasn't gone through yet) */}
+            {isAwaitingPayment(order) && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-1">Complete Payment</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  This order won't be processed until payment is confirmed.
+                </p>
+                <div className="max-w-md">
+                  <PaymentForm
+                    order={order}
+                    onPaid={(paidOrder) => setOrder(prev => (prev ? {
+                      ...prev,
+                      status: paidOrder.status,
+                      payment: paidOrder.payment,
+                      updatedAt: paidOrder.updatedAt,
+                    } : prev))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Returns for this order */}
+            {returns.length > 0 && (
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                  <h2 className="text-lg font-medium text-gray-900">Returns</h2>
+                  <Link to="/returns" className="text-sm text-blue-600 hover:text-blue-800">All returns</Link>
+                </div>
+                <div className="divide-y divide-gray-200">
+                  {returns.map(request => (
+                    <div key={request._id} className="px-6 py-4">
+                      <div className="flex items-center space-x-3 mb-1">
+                        <span className="font-medium text-gray-900">{request.rmaNumber}</span>
+                        <ReturnStatusBadge status={request.status} />
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {request.items.map(item => `${item.quantity} × ${item.name}${item.options?.length ? ` [${formatOptions(item.options)}]` : ''} (${RETURN_REASON_LABELS[item.reason]})`).join(', ')}
+                      </p>
+                      {request.status === 'received' && request.refund.status === 'succeeded' && (
+                        <p className="text-sm text-green-600 mt-1">Refunded {formatPrice(request.refund.amount)}</p>
+                      )}
+                      {request.status === 'rejected' && request.adminNote && (
+                        <p className="text-sm text-red-600 mt-1">{request.adminNote}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col lg:flex-row gap-6">
+              {/* Items Snapshot */}
+              <div className="lg:w-2/3 bg-white rounded-lg shadow-md overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">Items ({order.totalItems})</h2>
+                </div>
+                <div className="divide-y divide-gray-200">
+                  {order.items.map((item, index) => {
+                    const productId = typeof item.product === 'string' ? item.product : item.product?._id;
+                    return (
+                      <div key={`${productId}-${index}`} className="px-6 py-4 flex justify-between items-center">
+                        <div>
+                          {productId ? (
+                            <Link
+                              to={`/products/${productId}`}
+                              className="font-medium text-gray-900 hover:text-blue-600 transition-colors"
+                            >
+                              {item.name}
+                            </Link>
+                          ) : (
+                            <span className="font-medium text-gray-900">{item.name}</span>
+                          )}
+                          {item.options && item.options.length > 0 && (
+                            <p className="text-xs text-gray-500">{formatOptions(item.options)}</p>
+                          )}
+                          <p className="text-sm text-gray-600">
+                            {item.quantity} × {formatPrice(item.price)}
+                          </p>
+                        </div>
+                        <span className="font-medium text-gray-900">{formatPrice(item.total)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="px-6 py-4 border-t border-gray-200">
+                  <PriceSummary
+                    subtotalLabel={`Subtotal (${order.totalItems} items)`}
+                    subtotal={order.subtotal ?? order.totalAmount}
+                    discount={order.discount?.code ? order.discount.amount : 0}
+                    discountLabel={`Discount (${order.discount?.code})`}
+                    shipping={order.shipping ?? { amount: 0, rule: null }}
+                    tax={order.tax}
+                    total={order.totalAmount}
+                  />
+                </div>
+              </div>
+
+              {/* Shipping Address */}
+              <div className="lg:w-1/3 bg-white rounded-lg shadow-md p-6 h-fit">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Shipping Address</h2>
+                <div className="text-sm text-gray-700 space-y-1">
+                  <p className="font-medium text-gray-900">{order.shippingAddress.fullName}</p>
+                  <p>{order.shippingAddress.address}</p>
+                  <p>{order.shippingAddress.city}, {order.shippingAddress.postalCode}</p>
+                  <p>{order.shippingAddress.country}</p>
+                </div>
+                {order.notes && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="text-sm font-medium text-gray-900 mb-1">Notes</h3>
+                    <p className="text-sm text-gray-600">{order.notes}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default OrderDetail;
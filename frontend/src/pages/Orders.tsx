@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { orderApi, type Order } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import PaymentStatusBadge from '../components/PaymentStatusBadge';
+
+const Orders: React.FC = () => {
+  const { user } = useAuth();
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch orders on component mount
+  useEffect(() => {
+    const fetchOrders = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const ordersData = await orderApi.getOrders();
+        setOrders(ordersData);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load orders');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrders();
+  }, []);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <div className="mb-4">
+            <svg className="mx-auto h-12 w-12 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Orders</h2>
+          <p className="text-sm text-gray-600 mb-4">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                <Link to="/orders" className="text-blue-600 font-medium">Orders</Link>
+                <Link to="/returns" className="text-gray-600 hover:text-gray-900">Returns</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Orders</h1>
+          <p className="text-gray-600">
+            {isLoading ? 'Loading orders...' : `${orders.length} orders placed`}
+          </p>
+        </div>
+
+        {isLoading ? (
+          // Loading State
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <svg className="animate-spin h-8 w-8 text-blue-600 mx-auto mb-4" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            </svg>
+            <p className="text-gray-600">Loading your orders...</p>
+          </div>
+        ) : orders.length === 0 ? (
+          // Empty State
+          <div className="bg-white rounded-lg shadow-md p-12 text-center">
+            <svg className="mx-auto h-16 w-16 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            <h3 className="text-xl font-medium text-gray-900 mb-2">No orders yet</h3>
+            <p className="text-gray-600 mb-6">Once you place an order, it will show up here.</p>
+            <Link
+              to="/products"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-medium transition-colors inline-flex items-center"
+            >
+              Start Shopping
+            </Link>
+          </div>
+        ) : (
+          // Orders List
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="divide-y divide-gray-200">
+              {orders.map((order) => (
+                <Link
+                  key={order._id}
+                  to={`/orders/${order._id}`}
+                  className="block p-6 hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <div>
+                      <div className="flex items-center space-x-3 mb-1">
+                        <span className="text-lg font-medium text-gray-900">{order.orderNumber}</span>
+                        <OrderStatusBadge status={order.status} />
+                        {order.payment && order.payment.status !== 'paid' && (
+                          <PaymentStatusBadge status={order.payment.status} />
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        Placed on {formatDate(order.orderDate)} · {order.totalItems} items
+                      </p>
+                      <p className="text-sm text-gray-500 mt-1 line-clamp-1">
+                        {order.items.map(item => item.name).join(', ')}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-lg font-bold text-gray-900">{formatPrice(order.totalAmount)}</p>
+                      {order.deliveryDate && (
+                        <p className="text-sm text-green-600">Delivered {formatDate(order.deliveryDate)}</p>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Orders;
@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, Link } from 'react-router-dom';
 import { productApi, type Product } from '../services/api';
+import { findVariant, formatOptions, hasVariants } from '../utils/variants';
+import { productGallery } from '../utils/productImages';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
+import StarRating from '../components/StarRating';
+import ProductReviews from '../components/ProductReviews';
+import WishlistButton from '../components/WishlistButton';
 
 const ProductDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
-  const navigate = useNavigate();
-  const { user, isAuthenticated } = useAuth();
+  const { user } = useAuth();
   const { addToCart, cartItemCount } = useCart();
   
   const [product, setProduct] = useState<Product | null>(null);
@@ -17,6 +21,16 @@ const ProductDetail: React.FC = () => {
   const [addToCartSuccess, setAddToCartSuccess] = useState(false);
   const [quantity, setQuantity] = useState(1);
   const [imageError, setImageError] = useState(false);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  // Gallery image picked by the shopper; null shows the selected variant's image or the cover
+  const [activeImage, setActiveImage] = useState<string | null>(null);
+  // Point under the cursor (in percent) while zooming the main image
+  const [zoomOrigin, setZoomOrigin] = useState<string | null>(null);
+
+  const isVariantProduct = !!product && hasVariants(product);
+  const selectedVariant = product ? findVariant(product, selection) : null;
+  // Stock of what would be added to the cart; nothing when no variant matches the selection
+  const availableQuantity = isVariantProduct ? selectedVariant?.quantity ?? 0 : product?.quantity ?? 0;
 
   // Fetch product data
   useEffect(() => {
@@ -32,6 +46,12 @@ const ProductDetail: React.FC = () => {
         setError(null);
         const productData = await productApi.getProductById(id);
         setProduct(productData);
+
+        // Start from the first variant in stock so the page opens on something buyable
+        const initialVariant = productData.variants?.find(variant => variant.quantity > 0) ?? productData.variants?.[0];
+        setSelection(initialVariant
+          ? Object.fromEntries(initialVariant.options.map(option => [option.name, option.value]))
+          : {});
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to load product';
         setError(errorMessage);
@@ -43,17 +63,23 @@ const ProductDetail: React.FC = () => {
     fetchProduct();
   }, [id]);
 
-  const handleAddToCart = async () => {
-    if (!isAuthenticated) {
-      navigate('/login');
-      return;
+  // Reload the product to pick up its updated rating after a review change
+  const refreshProduct = async () => {
+    if (!id) return;
+
+    try {
+      setProduct(await productApi.getProductById(id));
+    } catch (err) {
+      console.error('Failed to refresh product:', err);
     }
+  };
 
+  const handleAddToCart = async () => {
     if (!product) return;
 
     try {
       setIsAddingToCart(true);
-      await addToCart(product._id, quantity);
+      await addToCart(product._id, quantity, selectedVariant?._id);
       
       // Show success feedback
       setAddToCartSuccess(true);
@@ -68,11 +94,38 @@ const ProductDetail: React.FC = () => {
   };
 
   const handleQuantityChange = (newQuantity: number) => {
-    if (newQuantity >= 1 && product && newQuantity <= product.quantity) {
+    if (newQuantity >= 1 && newQuantity <= availableQuantity) {
       setQuantity(newQuantity);
     }
   };
 
+  const handleOptionChange = (name: string, value: string) => {
+    if (!product) return;
+
+    const nextSelection = { ...selection, [name]: value };
+    const nextVariant = findVariant(product, nextSelection);
+
+    setSelection(nextSelection);
+    setActiveImage(null);
+    setImageError(false);
+    // Keep the chosen quantity within the new variant's stock
+    if (nextVariant) {
+      setQuantity(current => Math.max(1, Math.min(current, nextVariant.quantity)));
+    }
+  };
+
+  const handleSelectImage = (url: string) => {
+    setActiveImage(url);
+    setImageError(false);
+  };
+
+  const handleZoom = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -124,7 +177,9 @@ const ProductDetail: React.FC = () => {
                 <Link to="/" className="text-2xl font-bold text-gray-900">E-Commerce MERN</Link>
                 <nav className="hidden md:flex space-x-6">
                   <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
-                  {user && <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>}
+                  <Link to="/cart" className="text-gray-600 hover:text-gray-900">
+                    Cart{!user && cartItemCount > 0 ? ` (${cartItemCount})` : ''}
+                  </Link>
                 </nav>
               </div>
               <div className="flex items-center space-x-4">
@@ -189,8 +244,13 @@ const ProductDetail: React.FC = () => {
     );
   }
 
-  const isOutOfStock = product.quantity === 0;
-  const isBrokenPlaceholder = product.image.includes('via.placeholder.com');
+  const displayPrice = selectedVariant ? selectedVariant.price : product.price;
+  const gallery = productGallery(product);
+  const displayImage = activeImage || selectedVariant?.image || gallery[0].url;
+  const displayAlt = gallery.find(image => image.url === displayImage)?.alt || product.name;
+  const isUnavailableCombination = isVariantProduct && !selectedVariant;
+  const isOutOfStock = availableQuantity === 0;
+  const isBrokenPlaceholder = displayImage.includes('via.placeholder.com');
   const shouldUseImageFallback = imageError || isBrokenPlaceholder;
 
   return (
@@ -203,7 +263,9 @@ const ProductDetail: React.FC = () => {
               <Link to="/" className="text-2xl font-bold text-gray-900">E-Commerce MERN</Link>
               <nav className="hidden md:flex space-x-6">
                 <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
-                {user && <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>}
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">
+                  Cart{!user && cartItemCount > 0 ? ` (${cartItemCount})` : ''}
+                </Link>
               </nav>
             </div>
             <div className="flex items-center space-x-4">
@@ -251,11 +313,16 @@ const ProductDetail: React.FC = () => {
           <div className="flex flex-col lg:flex-row">
             {/* Product Image */}
             <div className="lg:w-1/2 p-8">
-              <div className="aspect-square relative overflow-hidden rounded-lg bg-gray-100">
+              <div
+                className={`aspect-square relative overflow-hidden rounded-lg bg-gray-100 ${shouldUseImageFallback ? '' : 'cursor-zoom-in'}`}
+                onMouseMove={shouldUseImageFallback ? undefined : handleZoom}
+                onMouseLeave={() => setZoomOrigin(null)}
+              >
                 <img
-                  src={shouldUseImageFallback ? getReliablePlaceholder() : product.image}
-                  alt={product.name}
-                  className="w-full h-full object-cover"
+                  src={shouldUseImageFallback ? getReliablePlaceholder() : displayImage}
+                  alt={displayAlt}
+                  className="w-full h-full object-cover transition-transform duration-150"
+                  style={zoomOrigin ? { transform: 'scale(2)', transformOrigin: zoomOrigin } : undefined}
                   onError={() => {
                     if (!imageError) {
                       setImageError(true);
@@ -271,12 +338,41 @@ const ProductDetail: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {/* Gallery Thumbnails */}
+              {gallery.length > 1 && (
+                <div className="mt-4 grid grid-cols-5 gap-3">
+                  {gallery.map((image, index) => (
+                    <button
+                      key={image.url}
+                      type="button"
+                      onClick={() => handleSelectImage(image.url)}
+                      aria-label={`Show image ${index + 1} of ${gallery.length}`}
+                      aria-pressed={image.url === displayImage}
+                      className={`aspect-square overflow-hidden rounded-md border-2 transition-colors ${
+                        image.url === displayImage ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+                      }`}
+                    >
+                      <img src={image.thumbnail || image.url} alt={image.alt || product.name} className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Product Information */}
             <div className="lg:w-1/2 p-8">
               <div className="mb-6">
                 <h1 className="text-3xl font-bold text-gray-900 mb-2">{product.name}</h1>
+                {/* Rating Summary */}
+                <a href="#reviews" className="flex items-center space-x-2 mb-4 w-fit">
+                  <StarRating rating={product.rating?.average || 0} size="md" />
+                  <span className="text-sm text-gray-600 hover:text-gray-900">
+                    {product.rating?.count
+                      ? `${product.rating.average.toFixed(1)} (${product.rating.count} review${product.rating.count === 1 ? '' : 's'})`
+                      : 'No reviews yet'}
+                  </span>
+                </a>
                 {/* Category Badge */}
                 {typeof product.category === 'object' && product.category.name && (
                   <div className="mb-4">
@@ -285,21 +381,65 @@ const ProductDetail: React.FC = () => {
                     </span>
                   </div>
                 )}
-                <p className="text-4xl font-bold text-blue-600 mb-6">{formatPrice(product.price)}</p>
+                <p className="text-4xl font-bold text-blue-600 mb-6">{formatPrice(displayPrice)}</p>
+                <WishlistButton productId={product._id} productName={product.name} showLabel />
               </div>
 
+              {/* Option Selectors */}
+              {isVariantProduct && (
+                <div className="mb-6 space-y-4">
+                  {product.options?.map(option => (
+                    <div key={option.name}>
+                      <p className="text-sm font-medium text-gray-900 mb-2">
+                        {option.name}: <span className="text-gray-600">{selection[option.name] || 'Select'}</span>
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {option.values.map(value => {
+                          const isSelected = selection[option.name] === value;
+                          const candidate = findVariant(product, { ...selection, [option.name]: value });
+                          const isSoldOut = !candidate || candidate.quantity === 0;
+
+                          return (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => handleOptionChange(option.name, value)}
+                              aria-pressed={isSelected}
+                              className={`px-4 py-2 rounded-md border text-sm font-medium transition-colors ${
+                                isSelected
+                                  ? 'border-blue-600 bg-blue-50 text-blue-700'
+                                  : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                              } ${isSoldOut ? 'line-through opacity-60' : ''}`}
+                            >
+                              {value}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                  {selectedVariant && (
+                    <p className="text-xs text-gray-500">SKU: {selectedVariant.sku}</p>
+                  )}
+                </div>
+              )}
+
               {/* Stock Status */}
               <div className="mb-6">
                 <div className="flex items-center space-x-2 mb-2">
-                  <svg className={`h-5 w-5 ${isOutOfStock ? 'text-red-500' : product.quantity < 10 ? 'text-orange-500' : 'text-green-500'}`} fill="currentColor" viewBox="0 0 20 20">
+                  <svg className={`h-5 w-5 ${isOutOfStock ? 'text-red-500' : availableQuantity < 10 ? 'text-orange-500' : 'text-green-500'}`} fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                   </svg>
-                  <span className={`font-medium ${isOutOfStock ? 'text-red-600' : product.quantity < 10 ? 'text-orange-600' : 'text-green-600'}`}>
-                    {isOutOfStock ? 'Out of Stock' : product.quantity < 10 ? `Only ${product.quantity} left in stock!` : 'In Stock'}
+                  <span className={`font-medium ${isOutOfStock ? 'text-red-600' : availableQuantity < 10 ? 'text-orange-600' : 'text-green-600'}`}>
+                    {isUnavailableCombination
+                      ? 'Unavailable'
+                      : isOutOfStock ? 'Out of Stock' : availableQuantity < 10 ? `Only ${availableQuantity} left in stock!` : 'In Stock'}
                   </span>
                 </div>
                 {!isOutOfStock && (
-                  <p className="text-sm text-gray-600">{product.quantity} available</p>
+                  <p className="text-sm text-gray-600">
+                    {availableQuantity} available{selectedVariant ? ` in ${formatOptions(selectedVariant.options)}` : ''}
+                  </p>
                 )}
               </div>
 
@@ -329,7 +469,7 @@ const ProductDetail: React.FC = () => {
                       </span>
                       <button
                         onClick={() => handleQuantityChange(quantity + 1)}
-                        disabled={quantity >= product.quantity}
+                        disabled={quantity >= availableQuantity}
                         className="px-3 py-2 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         +
@@ -392,7 +532,11 @@ const ProductDetail: React.FC = () => {
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
                       </svg>
                       <span className="text-sm font-medium text-red-800">
-                        This product is currently out of stock. Check back soon!
+                        {isUnavailableCombination
+                          ? 'This combination of options is not available. Try another selection.'
+                          : isVariantProduct
+                          ? 'This option is currently out of stock. Try another selection or check back soon!'
+                          : 'This product is currently out of stock. Check back soon!'}
                       </span>
                     </div>
                   </div>
@@ -402,6 +546,11 @@ const ProductDetail: React.FC = () => {
           </div>
         </div>
 
+        {/* Reviews */}
+        <div id="reviews">
+          <ProductReviews productId={product._id} rating={product.rating} onReviewsChange={refreshProduct} />
+        </div>
+
         {/* Back to Products */}
         <div className="mt-8 text-center">
           <Link
@@ -1,90 +1,194 @@
 import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import { type Product, type Category, productApi, categoryApi } from '../services/api';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  type Product,
+  type Category,
+  type ProductPagination,
+  type ProductQuery,
+  type ProductSort,
+  productApi,
+  categoryApi
+} from '../services/api';
 import ProductCard from '../components/ProductCard';
 import CategoryFilter from '../components/CategoryFilter';
+import StarRating from '../components/StarRating';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
 
+const PAGE_SIZE = 12;
+
+// Sort dropdown choices, each mapping to a sort key and direction
+const SORT_CHOICES: { value: string; label: string; sort: ProductSort; order: 'asc' | 'desc' }[] = [
+  { value: 'relevance', label: 'Best Match', sort: 'relevance', order: 'desc' },
+  { value: 'newest', label: 'Newest First', sort: 'newest', order: 'desc' },
+  { value: 'name-asc', label: 'Name A-Z', sort: 'name', order: 'asc' },
+  { value: 'name-desc', label: 'Name Z-A', sort: 'name', order: 'desc' },
+  { value: 'price-asc', label: 'Price Low to High', sort: 'price', order: 'asc' },
+  { value: 'price-desc', label: 'Price High to Low', sort: 'price', order: 'desc' },
+  { value: 'rating', label: 'Top Rated', sort: 'rating', order: 'desc' },
+];
+
+const RATING_FILTERS = [4, 3, 2, 1];
+
 const Products: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [products, setProducts] = useState<Product[]>([]);
+  const [pagination, setPagination] = useState<ProductPagination | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
   const [isLoadingProducts, setIsLoadingProducts] = useState(true);
   const [isLoadingCategories, setIsLoadingCategories] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState<'name' | 'price' | 'newest'>('newest');
-  
+
+  // Filters live in the URL so views are shareable and work with the back button
+  const searchTerm = searchParams.get('search') || '';
+  const selectedCategory = searchParams.get('category');
+  const minPrice = searchParams.get('minPrice') || '';
+  const maxPrice = searchParams.get('maxPrice') || '';
+  const minRating = Number(searchParams.get('minRating')) || 0;
+  const inStockOnly = searchParams.get('inStock') === 'true';
+  const page = Number(searchParams.get('page')) || 1;
+  const sortValue = searchParams.get('sort') || (searchTerm ? 'relevance' : 'newest');
+  const sortChoice = SORT_CHOICES.find(choice => choice.value === sortValue) || SORT_CHOICES[1];
+
+  // Local input state, committed to the URL after typing pauses or on apply
+  const [searchInput, setSearchInput] = useState(searchTerm);
+  const [minPriceInput, setMinPriceInput] = useState(minPrice);
+  const [maxPriceInput, setMaxPriceInput] = useState(maxPrice);
+
   const { user } = useAuth();
   const { cartItemCount } = useCart();
 
-  // Fetch products and categories on component mount
+  // Update URL params; any filter change returns to the first page
+  const updateParams = (updates: { [key: string]: string | null }, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (resetPage) {
+        next.delete('page');
+      }
+      return next;
+    });
+  };
+
+  // Keep inputs in sync when the URL changes (e.g. back button)
   useEffect(() => {
-    const fetchData = async () => {
+    setSearchInput(searchTerm);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setMinPriceInput(minPrice);
+    setMaxPriceInput(maxPrice);
+  }, [minPrice, maxPrice]);
+
+  // Commit the search term once the user stops typing
+  useEffect(() => {
+    if (searchInput.trim() === searchTerm) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setSearchParams(prev => {
+        const next = new URLSearchParams(prev);
+        if (searchInput.trim()) {
+          next.set('search', searchInput.trim());
+        } else {
+          next.delete('search');
+          // Relevance only makes sense while searching
+          if (next.get('sort') === 'relevance') {
+            next.delete('sort');
+          }
+        }
+        next.delete('page');
+        return next;
+      });
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [searchInput, searchTerm, setSearchParams]);
+
+  // Fetch categories on component mount
+  useEffect(() => {
+    const fetchCategories = async () => {
       try {
-        // Fetch both products and categories in parallel
-        const [productsData, categoriesData] = await Promise.all([
-          productApi.getAllProducts(),
-          categoryApi.getAllCategories()
-        ]);
-        
-        setProducts(productsData);
+        const categoriesData = await categoryApi.getAllCategories();
         setCategories(categoriesData);
-        setFilteredProducts(productsData);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
+        setError(err instanceof Error ? err.message : 'Failed to load categories');
       } finally {
-        setIsLoadingProducts(false);
         setIsLoadingCategories(false);
       }
     };
 
-    fetchData();
+    fetchCategories();
   }, []);
 
-  // Filter and search products
+  // Fetch products whenever the URL filters change
   useEffect(() => {
-    let filtered = [...products];
-
-    // Filter by category
-    if (selectedCategory) {
-      filtered = filtered.filter(product => {
-        if (typeof product.category === 'string') {
-          return product.category === selectedCategory;
-        }
-        return product.category._id === selectedCategory;
-      });
-    }
+    const query: ProductQuery = {
+      sort: sortChoice.sort,
+      order: sortChoice.order,
+      page,
+      limit: PAGE_SIZE,
+    };
+    if (searchTerm) query.search = searchTerm;
+    if (selectedCategory) query.category = selectedCategory;
+    if (minPrice) query.minPrice = Number(minPrice);
+    if (maxPrice) query.maxPrice = Number(maxPrice);
+    if (minRating) query.minRating = minRating;
+    if (inStockOnly) query.inStock = true;
 
-    // Filter by search term
-    if (searchTerm.trim()) {
-      const search = searchTerm.toLowerCase();
-      filtered = filtered.filter(product =>
-        product.name.toLowerCase().includes(search) ||
-        product.description.toLowerCase().includes(search)
-      );
-    }
+    let isCurrent = true;
 
-    // Sort products
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'name':
-          return a.name.localeCompare(b.name);
-        case 'price':
-          return a.price - b.price;
-        case 'newest':
-        default:
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    const fetchProducts = async () => {
+      try {
+        setIsLoadingProducts(true);
+        const data = await productApi.getProducts(query);
+        if (isCurrent) {
+          setProducts(data.products);
+          setPagination(data.pagination);
+          setError(null);
+        }
+      } catch (err) {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : 'Failed to load products');
+        }
+      } finally {
+        if (isCurrent) {
+          setIsLoadingProducts(false);
+        }
       }
-    });
+    };
 
-    setFilteredProducts(filtered);
-  }, [products, selectedCategory, searchTerm, sortBy]);
+    fetchProducts();
+
+    // Ignore responses from superseded requests
+    return () => {
+      isCurrent = false;
+    };
+  }, [searchTerm, selectedCategory, minPrice, maxPrice, minRating, inStockOnly, page, sortChoice.sort, sortChoice.order]);
 
   const handleCategoryChange = (categoryId: string | null) => {
-    setSelectedCategory(categoryId);
+    updateParams({ category: categoryId });
+  };
+
+  const handleSortChange = (value: string) => {
+    updateParams({ sort: value === 'newest' ? null : value });
+  };
+
+  const handlePriceApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ minPrice: minPriceInput || null, maxPrice: maxPriceInput || null });
+  };
+
+  const handlePageChange = (newPage: number) => {
+    updateParams({ page: newPage > 1 ? String(newPage) : null }, false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleAddToCart = (productId: string) => {
@@ -93,11 +197,24 @@ const Products: React.FC = () => {
   };
 
   const clearAllFilters = () => {
-    setSelectedCategory(null);
-    setSearchTerm('');
-    setSortBy('newest');
+    setSearchInput('');
+    setSearchParams({});
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    updateParams({ search: null, sort: sortValue === 'relevance' ? null : searchParams.get('sort') });
+  };
+
+  const formatPrice = (price: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(Number(price));
   };
 
+  const hasActiveFilters = !!(selectedCategory || searchTerm || minPrice || maxPrice || minRating || inStockOnly);
+
   if (error) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -132,12 +249,10 @@ const Products: React.FC = () => {
               </Link>
               <nav className="hidden md:flex space-x-6">
                 <Link to="/products" className="text-blue-600 font-medium">Products</Link>
-                {user && (
-                  <>
-                    <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
-                    <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>
-                  </>
-                )}
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">
+                  Cart{!user && cartItemCount > 0 ? ` (${cartItemCount})` : ''}
+                </Link>
+                {user && <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>}
               </nav>
             </div>
             <div className="flex items-center space-x-4">
@@ -199,8 +314,8 @@ const Products: React.FC = () => {
                 <input
                   type="text"
                   placeholder="Search products..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
                 <svg
@@ -214,8 +329,70 @@ const Products: React.FC = () => {
               </div>
             </div>
 
+            {/* Price & Availability */}
+            <form className="bg-white rounded-lg shadow-md p-6 mb-6" onSubmit={handlePriceApply}>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Price Range</h3>
+              <div className="flex items-center gap-2 mb-4">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Min"
+                  aria-label="Minimum price"
+                  value={minPriceInput}
+                  onChange={(e) => setMinPriceInput(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Max"
+                  aria-label="Maximum price"
+                  value={maxPriceInput}
+                  onChange={(e) => setMaxPriceInput(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                type="submit"
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors mb-4"
+              >
+                Apply Price
+              </button>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={inStockOnly}
+                  onChange={(e) => updateParams({ inStock: e.target.checked ? 'true' : null })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span>In stock only</span>
+              </label>
+            </form>
+
+            {/* Customer Rating */}
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Customer Rating</h3>
+              <div className="space-y-2">
+                {RATING_FILTERS.map(value => (
+                  <button
+                    key={value}
+                    onClick={() => updateParams({ minRating: minRating === value ? null : String(value) })}
+                    className={`w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                      minRating === value ? 'bg-blue-100 text-blue-800' : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    <StarRating rating={value} />
+                    <span>&amp; up</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Active Filters */}
-            {(selectedCategory || searchTerm) && (
+            {hasActiveFilters && (
               <div className="bg-white rounded-lg shadow-md p-6 mb-6">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-semibold text-gray-900">Active Filters</h3>
@@ -233,7 +410,7 @@ const Products: React.FC = () => {
                         Category: {categories.find(c => c._id === selectedCategory)?.name || 'Unknown'}
                       </span>
                       <button
-                        onClick={() => setSelectedCategory(null)}
+                        onClick={() => handleCategoryChange(null)}
                         className="text-blue-600 hover:text-blue-800"
                       >
                         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
@@ -246,7 +423,7 @@ const Products: React.FC = () => {
                     <div className="flex items-center justify-between bg-green-100 text-green-800 px-3 py-2 rounded-lg">
                       <span className="text-sm">Search: "{searchTerm}"</span>
                       <button
-                        onClick={() => setSearchTerm('')}
+                        onClick={clearSearch}
                         className="text-green-600 hover:text-green-800"
                       >
                         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
@@ -255,6 +432,47 @@ const Products: React.FC = () => {
                       </button>
                     </div>
                   )}
+                  {(minPrice || maxPrice) && (
+                    <div className="flex items-center justify-between bg-purple-100 text-purple-800 px-3 py-2 rounded-lg">
+                      <span className="text-sm">
+                        Price: {minPrice ? formatPrice(minPrice) : 'Any'} – {maxPrice ? formatPrice(maxPrice) : 'Any'}
+                      </span>
+                      <button
+                        onClick={() => updateParams({ minPrice: null, maxPrice: null })}
+                        className="text-purple-600 hover:text-purple-800"
+                      >
+                        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
+                  {minRating > 0 && (
+                    <div className="flex items-center justify-between bg-orange-100 text-orange-800 px-3 py-2 rounded-lg">
+                      <span className="text-sm">Rating: {minRating}+ stars</span>
+                      <button
+                        onClick={() => updateParams({ minRating: null })}
+                        className="text-orange-600 hover:text-orange-800"
+                      >
+                        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
+                  {inStockOnly && (
+                    <div className="flex items-center justify-between bg-yellow-100 text-yellow-800 px-3 py-2 rounded-lg">
+                      <span className="text-sm">In stock only</span>
+                      <button
+                        onClick={() => updateParams({ inStock: null })}
+                        className="text-yellow-600 hover:text-yellow-800"
+                      >
+                        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -267,19 +485,19 @@ const Products: React.FC = () => {
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
                 <div className="flex items-center space-x-4">
                   <span className="text-gray-700 font-medium">
-                    {isLoadingProducts ? 'Loading...' : `${filteredProducts.length} Products`}
+                    {isLoadingProducts || !pagination ? 'Loading...' : `${pagination.totalProducts} Products`}
                   </span>
                 </div>
                 <div className="flex items-center space-x-4">
                   <label className="text-sm text-gray-600">Sort by:</label>
                   <select
-                    value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value as 'name' | 'price' | 'newest')}
+                    value={sortChoice.value}
+                    onChange={(e) => handleSortChange(e.target.value)}
                     className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value="newest">Newest First</option>
-                    <option value="name">Name A-Z</option>
-                    <option value="price">Price Low to High</option>
+                    {SORT_CHOICES.filter(choice => choice.value !== 'relevance' || searchTerm).map(choice => (
+                      <option key={choice.value} value={choice.value}>{choice.label}</option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -306,18 +524,18 @@ const Products: React.FC = () => {
                   </div>
                 ))}
               </div>
-            ) : filteredProducts.length === 0 ? (
+            ) : products.length === 0 ? (
               <div className="bg-white rounded-lg shadow-md p-12 text-center">
                 <svg className="mx-auto h-16 w-16 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                 </svg>
                 <h3 className="text-xl font-medium text-gray-900 mb-2">No products found</h3>
                 <p className="text-gray-600 mb-4">
-                  {searchTerm || selectedCategory
+                  {hasActiveFilters
                     ? "Try adjusting your filters or search terms"
                     : "No products are currently available"}
                 </p>
-                {(searchTerm || selectedCategory) && (
+                {hasActiveFilters && (
                   <button
                     onClick={clearAllFilters}
                     className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
@@ -328,7 +546,7 @@ const Products: React.FC = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredProducts.map((product) => (
+                {products.map((product) => (
                   <ProductCard
                     key={product._id}
                     product={product}
@@ -337,6 +555,29 @@ const Products: React.FC = () => {
                 ))}
               </div>
             )}
+
+            {/* Pagination */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between mt-8">
+                <button
+                  onClick={() => handlePageChange(page - 1)}
+                  disabled={!pagination.hasPrevPage || isLoadingProducts}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {pagination.currentPage} of {pagination.totalPages}
+                </span>
+                <button
+                  onClick={() => handlePageChange(page + 1)}
+                  disabled={!pagination.hasNextPage || isLoadingProducts}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </main>
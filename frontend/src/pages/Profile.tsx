@@ -0,0 +1,476 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { authApi, profileApi, ApiError, type ProfileInput } from '../services/api';
+
+type SectionStatus = { type: 'success' | 'error'; message: string } | null;
+
+// Server validation errors are more useful than the generic "Validation failed"
+const describeError = (err: unknown, fallback: string) => {
+  if (err instanceof ApiError && err.errors.length > 0) {
+    return err.errors.map(fieldError => fieldError.msg).join('. ');
+  }
+  return err instanceof Error ? err.message : fallback;
+};
+
+const StatusMessage: React.FC<{ status: SectionStatus }> = ({ status }) => {
+  if (!status) return null;
+  return (
+    <div
+      className={`px-4 py-3 rounded-md border ${
+        status.type === 'success' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'
+      }`}
+    >
+      <p className="text-sm">{status.message}</p>
+    </div>
+  );
+};
+
+const inputClassName =
+  'mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 transition-colors sm:text-sm';
+
+const buttonClassName =
+  'bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const Profile: React.FC = () => {
+  const { user, setUser, logoutAll, clearSession } = useAuth();
+  const navigate = useNavigate();
+
+  // Personal details
+  const [details, setDetails] = useState<ProfileInput>({
+    firstName: user?.firstName || '',
+    lastName: user?.lastName || '',
+    username: user?.username || '',
+  });
+  const [detailsStatus, setDetailsStatus] = useState<SectionStatus>(null);
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
+
+  // Profile picture
+  const [avatarStatus, setAvatarStatus] = useState<SectionStatus>(null);
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+
+  // Email
+  const [emailForm, setEmailForm] = useState({ email: '', currentPassword: '' });
+  const [emailStatus, setEmailStatus] = useState<SectionStatus>(null);
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  // Password
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [passwordStatus, setPasswordStatus] = useState<SectionStatus>(null);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  // Sessions and deactivation
+  const [sessionStatus, setSessionStatus] = useState<SectionStatus>(null);
+  const [deactivatePassword, setDeactivatePassword] = useState('');
+  const [deactivateStatus, setDeactivateStatus] = useState<SectionStatus>(null);
+  const [isDeactivating, setIsDeactivating] = useState(false);
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const handleDetailsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSavingDetails(true);
+      setDetailsStatus(null);
+      setUser(await profileApi.updateProfile(details));
+      setDetailsStatus({ type: 'success', message: 'Profile updated' });
+    } catch (err) {
+      setDetailsStatus({ type: 'error', message: describeError(err, 'Failed to update profile') });
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsUploadingAvatar(true);
+      setAvatarStatus(null);
+      setUser(await profileApi.uploadAvatar(file));
+    } catch (err) {
+      setAvatarStatus({ type: 'error', message: describeError(err, 'Failed to upload profile picture') });
+    } finally {
+      setIsUploadingAvatar(false);
+    }
+  };
+
+  const handleAvatarRemove = async () => {
+    try {
+      setIsUploadingAvatar(true);
+      setAvatarStatus(null);
+      setUser(await profileApi.removeAvatar());
+    } catch (err) {
+      setAvatarStatus({ type: 'error', message: describeError(err, 'Failed to remove profile picture') });
+    } finally {
+      setIsUploadingAvatar(false);
+    }
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSavingEmail(true);
+      setEmailStatus(null);
+      const { user: updatedUser, message } = await profileApi.changeEmail(emailForm.email, emailForm.currentPassword);
+      setUser(updatedUser);
+      setEmailForm({ email: '', currentPassword: '' });
+      setEmailStatus({ type: 'success', message });
+    } catch (err) {
+      setEmailStatus({ type: 'error', message: describeError(err, 'Failed to change email') });
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResending(true);
+      setEmailStatus({ type: 'success', message: await authApi.resendVerification() });
+    } catch (err) {
+      setEmailStatus({ type: 'error', message: describeError(err, 'Failed to resend verification email') });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setPasswordStatus({ type: 'error', message: 'New passwords do not match' });
+      return;
+    }
+
+    try {
+      setIsSavingPassword(true);
+      setPasswordStatus(null);
+      const message = await profileApi.changePassword(passwordForm.currentPassword, passwordForm.newPassword);
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setPasswordStatus({ type: 'success', message });
+    } catch (err) {
+      setPasswordStatus({ type: 'error', message: describeError(err, 'Failed to change password') });
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm('Log out of every device, including this one?')) {
+      return;
+    }
+
+    try {
+      setSessionStatus(null);
+      await logoutAll();
+    } catch (err) {
+      setSessionStatus({ type: 'error', message: describeError(err, 'Failed to log out of all devices') });
+    }
+  };
+
+  const handleDeactivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm('Deactivate your account? You will be logged out and will need support to reactivate it.')) {
+      return;
+    }
+
+    try {
+      setIsDeactivating(true);
+      setDeactivateStatus(null);
+      await profileApi.deactivateAccount(deactivatePassword);
+      clearSession();
+      navigate('/', { replace: true });
+    } catch (err) {
+      setDeactivateStatus({ type: 'error', message: describeError(err, 'Failed to deactivate account') });
+      setIsDeactivating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>
+                <Link to="/returns" className="text-gray-600 hover:text-gray-900">Returns</Link>
+                <Link to="/profile" className="text-blue-600 font-medium">Profile</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Account Settings</h1>
+          <p className="text-gray-600">
+            {user?.createdAt && `Member since ${formatDate(user.createdAt)} · `}
+            <Link to="/addresses" className="text-blue-600 hover:text-blue-800">Manage saved addresses</Link>
+          </p>
+        </div>
+
+        {/* Profile Picture */}
+        <section className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Profile Picture</h2>
+          <div className="flex items-center space-x-6">
+            {user?.avatar ? (
+              <img src={user.avatar} alt="Profile" className="w-20 h-20 rounded-full object-cover" />
+            ) : (
+              <div className="w-20 h-20 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-2xl font-bold">
+                {user?.firstName?.[0]?.toUpperCase() || user?.username?.[0]?.toUpperCase()}
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className={`${buttonClassName} inline-block cursor-pointer ${isUploadingAvatar ? 'opacity-50 pointer-events-none' : ''}`}>
+                {isUploadingAvatar ? 'Uploading...' : 'Upload new picture'}
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/gif"
+                  onChange={handleAvatarChange}
+                  className="sr-only"
+                />
+              </label>
+              {user?.avatar && (
+                <button
+                  type="button"
+                  onClick={handleAvatarRemove}
+                  disabled={isUploadingAvatar}
+                  className="block text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove picture
+                </button>
+              )}
+              <p className="text-xs text-gray-500">JPEG, PNG, WebP or GIF, up to 2MB</p>
+            </div>
+          </div>
+          <StatusMessage status={avatarStatus} />
+        </section>
+
+        {/* Personal Details */}
+        <form onSubmit={handleDetailsSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Personal Details</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">First name</label>
+              <input
+                id="firstName"
+                type="text"
+                required
+                value={details.firstName}
+                onChange={(e) => setDetails(prev => ({ ...prev, firstName: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">Last name</label>
+              <input
+                id="lastName"
+                type="text"
+                required
+                value={details.lastName}
+                onChange={(e) => setDetails(prev => ({ ...prev, lastName: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700">Username</label>
+            <input
+              id="username"
+              type="text"
+              required
+              value={details.username}
+              onChange={(e) => setDetails(prev => ({ ...prev, username: e.target.value }))}
+              className={inputClassName}
+            />
+          </div>
+          <StatusMessage status={detailsStatus} />
+          <div className="flex justify-end">
+            <button type="submit" disabled={isSavingDetails} className={buttonClassName}>
+              {isSavingDetails ? 'Saving...' : 'Save details'}
+            </button>
+          </div>
+        </form>
+
+        {/* Email */}
+        <form onSubmit={handleEmailSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Email Address</h2>
+          <div className="text-sm text-gray-700">
+            <p>
+              {user?.email}{' '}
+              {user?.isEmailVerified ? (
+                <span className="text-green-600">(verified)</span>
+              ) : (
+                <span className="text-yellow-600">(not verified)</span>
+              )}
+            </p>
+            {!user?.isEmailVerified && (
+              <button
+                type="button"
+                onClick={handleResendVerification}
+                disabled={isResending}
+                className="mt-1 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                {isResending ? 'Sending...' : 'Resend verification email'}
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700">New email</label>
+              <input
+                id="newEmail"
+                type="email"
+                autoComplete="email"
+                required
+                value={emailForm.email}
+                onChange={(e) => setEmailForm(prev => ({ ...prev, email: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="emailCurrentPassword" className="block text-sm font-medium text-gray-700">Current password</label>
+              <input
+                id="emailCurrentPassword"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={emailForm.currentPassword}
+                onChange={(e) => setEmailForm(prev => ({ ...prev, currentPassword: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">You'll need to verify the new address before your next order.</p>
+          <StatusMessage status={emailStatus} />
+          <div className="flex justify-end">
+            <button type="submit" disabled={isSavingEmail} className={buttonClassName}>
+              {isSavingEmail ? 'Saving...' : 'Change email'}
+            </button>
+          </div>
+        </form>
+
+        {/* Password */}
+        <form onSubmit={handlePasswordSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Password</h2>
+          <div>
+            <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">Current password</label>
+            <input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={passwordForm.currentPassword}
+              onChange={(e) => setPasswordForm(prev => ({ ...prev, currentPassword: e.target.value }))}
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">New password</label>
+              <input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={passwordForm.newPassword}
+                onChange={(e) => setPasswordForm(prev => ({ ...prev, newPassword: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">Confirm new password</label>
+              <input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={passwordForm.confirmPassword}
+                onChange={(e) => setPasswordForm(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            At least 6 characters with an uppercase letter, a lowercase letter and a number. Other devices will be logged out.
+          </p>
+          <StatusMessage status={passwordStatus} />
+          <div className="flex justify-end">
+            <button type="submit" disabled={isSavingPassword} className={buttonClassName}>
+              {isSavingPassword ? 'Saving...' : 'Change password'}
+            </button>
+          </div>
+        </form>
+
+        {/* Sessions */}
+        <section className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Sessions</h2>
+          <p className="text-sm text-gray-600">Signed in somewhere you don't recognise? End every session, including this one.</p>
+          <StatusMessage status={sessionStatus} />
+          <button
+            type="button"
+            onClick={handleLogoutAll}
+            className="text-sm font-medium text-red-600 hover:text-red-700"
+          >
+            Log out of all devices
+          </button>
+        </section>
+
+        {/* Deactivate */}
+        <form onSubmit={handleDeactivate} className="bg-white rounded-lg shadow-md p-6 space-y-4 border border-red-200">
+          <h2 className="text-lg font-medium text-red-700">Deactivate Account</h2>
+          <p className="text-sm text-gray-600">
+            Your order history is kept, but you won't be able to log in until support reactivates the account.
+          </p>
+          <div>
+            <label htmlFor="deactivatePassword" className="block text-sm font-medium text-gray-700">Current password</label>
+            <input
+              id="deactivatePassword"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={deactivatePassword}
+              onChange={(e) => setDeactivatePassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <StatusMessage status={deactivateStatus} />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isDeactivating}
+              className="bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDeactivating ? 'Deactivating...' : 'Deactivate account'}
+            </button>
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
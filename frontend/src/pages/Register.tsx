@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 const Register: React.FC = () => {
@@ -16,6 +16,10 @@ const Register: React.FC = () => {
   
   const { register, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Return to the page that sent the user here (e.g. checkout), if any
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/dashboard';
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -86,7 +90,7 @@ const Register: React.FC = () => {
 
     try {
       await register(formData.firstName, formData.lastName, formData.username, formData.email, formData.password);
-      navigate('/dashboard');
+      navigate(from, { replace: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     } finally {
@@ -106,6 +110,7 @@ const Register: React.FC = () => {
             Already have an account?{' '}
             <Link
               to="/login"
+              state={location.state}
               className="font-medium text-blue-600 hover:text-blue-500 transition-colors"
             >
               Sign in here
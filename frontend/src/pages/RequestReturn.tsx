@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  returnApi,
+  RETURN_REASON_LABELS,
+  type ReturnableData,
+  type ReturnReason,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { formatOptions } from '../utils/variants';
+
+interface ReturnLine {
+  quantity: number;
+  reason: ReturnReason | '';
+  comment: string;
+}
+
+const RETURN_REASONS = Object.keys(RETURN_REASON_LABELS) as ReturnReason[];
+
+const RequestReturn: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [returnable, setReturnable] = useState<ReturnableData | null>(null);
+  const [lines, setLines] = useState<{ [orderItem: string]: ReturnLine }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the order's returnable items
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchReturnable = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await returnApi.getReturnable(id);
+        setReturnable(data);
+        setLines(Object.fromEntries(data.items.map(item => [item.orderItem, { quantity: 0, reason: '', comment: '' }])));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load order');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReturnable();
+  }, [id]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const updateLine = (orderItem: string, changes: Partial<ReturnLine>) => {
+    setLines(prev => ({ ...prev, [orderItem]: { ...prev[orderItem], ...changes } }));
+  };
+
+  const selectedItems = Object.entries(lines).filter(([, line]) => line.quantity > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+
+    if (selectedItems.length === 0) {
+      setError('Select at least one item to return');
+      return;
+    }
+    if (selectedItems.some(([, line]) => !line.reason)) {
+      setError('Choose a reason for each item you are returning');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await returnApi.createReturn({
+        order: id,
+        items: selectedItems.map(([orderItem, line]) => ({
+          orderItem,
+          quantity: line.quantity,
+          reason: line.reason as ReturnReason,
+          comment: line.comment.trim(),
+        })),
+      });
+      navigate('/returns');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request return');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasReturnableItems = returnable?.items.some(item => item.returnableQuantity > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>
+                <Link to="/returns" className="text-blue-600 font-medium">Returns</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <nav className="mb-8">
+          <ol className="flex items-center space-x-2 text-sm text-gray-600">
+            <li><Link to="/orders" className="hover:text-gray-900">Orders</Link></li>
+            <li><span className="text-gray-400">/</span></li>
+            <li><Link to={`/orders/${id}`} className="hover:text-gray-900">Order</Link></li>
+            <li><span className="text-gray-400">/</span></li>
+            <li className="text-gray-900 font-medium">Return Items</li>
+          </ol>
+        </nav>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Return Items</h1>
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center mt-6">
+            <p className="text-gray-600">Loading order...</p>
+          </div>
+        ) : !returnable ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mt-6">
+            <p className="text-sm">{error || 'Order not found'}</p>
+          </div>
+        ) : !returnable.eligible ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center mt-6">
+            <p className="text-gray-700 mb-4">
+              {returnable.deadline
+                ? `The return window for this order closed on ${formatDate(returnable.deadline)}.`
+                : `Returns can be requested within ${returnable.windowDays} days of delivery.`}
+            </p>
+            <Link to={`/orders/${id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+              ← Back to order
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-6 space-y-6">
+            <p className="text-gray-600">
+              Choose what to send back{returnable.deadline && ` by ${formatDate(returnable.deadline)}`}. Refunds are issued
+              once we receive the items; shipping costs aren't refunded.
+            </p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+              {returnable.items.map(item => {
+                const line = lines[item.orderItem];
+                return (
+                  <div key={item.orderItem} className="p-6 space-y-3">
+                    <div className="flex justify-between items-start gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{item.name}</p>
+                        {item.options && item.options.length > 0 && (
+                          <p className="text-xs text-gray-500">{formatOptions(item.options)}</p>
+                        )}
+                        <p className="text-sm text-gray-600">
+                          {formatPrice(item.price)} each · bought {item.quantity}
+                          {item.returnableQuantity < item.quantity && ` · ${item.quantity - item.returnableQuantity} already returned`}
+                        </p>
+                      </div>
+                      {item.returnableQuantity > 0 ? (
+                        <div>
+                          <label htmlFor={`qty-${item.orderItem}`} className="sr-only">Quantity to return</label>
+                          <select
+                            id={`qty-${item.orderItem}`}
+                            value={line?.quantity ?? 0}
+                            onChange={(e) => updateLine(item.orderItem, { quantity: parseInt(e.target.value) })}
+                            className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {Array.from({ length: item.returnableQuantity + 1 }, (_, n) => (
+                              <option key={n} value={n}>{n === 0 ? 'Keep' : `Return ${n}`}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">Not returnable</span>
+                      )}
+                    </div>
+
+                    {line && line.quantity > 0 && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <select
+                          value={line.reason}
+                          onChange={(e) => updateLine(item.orderItem, { reason: e.target.value as ReturnReason | '' })}
+                          className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Reason for return</option>
+                          {RETURN_REASONS.map(reason => (
+                            <option key={reason} value={reason}>{RETURN_REASON_LABELS[reason]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={line.comment}
+                          maxLength={500}
+                          onChange={(e) => updateLine(item.orderItem, { comment: e.target.value })}
+                          placeholder="Details (optional)"
+                          className="border border-gray-300 rounded-md px-3 py-2 text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-between">
+              <Link to={`/orders/${id}`} className="text-gray-600 hover:text-gray-900 font-medium py-2">
+                ← Back to order
+              </Link>
+              <button
+                type="submit"
+                disabled={isSubmitting || !hasReturnableItems || selectedItems.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Submitting...' : 'Request Return'}
+              </button>
+            </div>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RequestReturn;
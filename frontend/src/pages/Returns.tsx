@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { returnApi, RETURN_REASON_LABELS, type ReturnRequest } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import ReturnStatusBadge from '../components/ReturnStatusBadge';
+import { formatOptions } from '../utils/variants';
+
+const Returns: React.FC = () => {
+  const { user } = useAuth();
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch returns on component mount
+  useEffect(() => {
+    const fetchReturns = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setReturns(await returnApi.getMyReturns());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load returns');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReturns();
+  }, []);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(price);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  // What the customer should expect next for each status
+  const describeStatus = (request: ReturnRequest) => {
+    switch (request.status) {
+      case 'requested':
+        return 'We are reviewing your request.';
+      case 'approved':
+        return 'Approved. Please send the items back; your refund is issued once we receive them.';
+      case 'rejected':
+        return request.adminNote ? `Rejected: ${request.adminNote}` : 'Rejected.';
+      case 'received':
+        if (request.refund.status === 'succeeded') {
+          return `Received. ${formatPrice(request.refund.amount)} refunded to your original payment method.`;
+        }
+        if (request.refund.status === 'not_required') {
+          return 'Received. No refund was due for these items.';
+        }
+        return 'Received. Your refund is being processed.';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link to="/" className="text-2xl font-bold text-gray-900">
+                E-Commerce MERN
+              </Link>
+              <nav className="hidden md:flex space-x-6">
+                <Link to="/products" className="text-gray-600 hover:text-gray-900">Products</Link>
+                <Link to="/cart" className="text-gray-600 hover:text-gray-900">Cart</Link>
+                <Link to="/orders" className="text-gray-600 hover:text-gray-900">Orders</Link>
+                <Link to="/returns" className="text-blue-600 font-medium">Returns</Link>
+              </nav>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">Welcome, {user?.username}</span>
+              <Link to="/dashboard" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Returns</h1>
+          <p className="text-gray-600">
+            Start a return from a delivered order on the <Link to="/orders" className="text-blue-600 hover:text-blue-800">Orders</Link> page.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <p className="text-gray-600">Loading your returns...</p>
+          </div>
+        ) : returns.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-12 text-center">
+            <h3 className="text-xl font-medium text-gray-900 mb-2">No returns yet</h3>
+            <p className="text-gray-600">Return requests you make will show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {returns.map(request => (
+              <div key={request._id} className="bg-white rounded-lg shadow-md p-6">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-3">
+                  <div>
+                    <div className="flex items-center space-x-3 mb-1">
+                      <span className="text-lg font-medium text-gray-900">{request.rmaNumber}</span>
+                      <ReturnStatusBadge status={request.status} />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Requested {formatDate(request.createdAt)}
+                      {typeof request.order === 'object' && (
+                        <>
+                          {' '}for order{' '}
+                          <Link to={`/orders/${request.order._id}`} className="text-blue-600 hover:text-blue-800">
+                            {request.order.orderNumber}
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-600 sm:text-right">
+                    Estimated refund <span className="font-medium text-gray-900">{formatPrice(request.estimatedRefund)}</span>
+                  </p>
+                </div>
+                <ul className="text-sm text-gray-700 space-y-1 mb-3">
+                  {request.items.map(item => (
+                    <li key={item.orderItem}>
+                      {item.quantity} × {item.name}
+                      {item.options && item.options.length > 0 && ` (${formatOptions(item.options)})`} · <span className="text-gray-500">{RETURN_REASON_LABELS[item.reason]}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-sm text-gray-600">{describeStatus(request)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Returns;
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { isAuthenticated, refreshUser } = useAuth();
+
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState(token ? '' : 'This verification link is incomplete.');
+  const [isVerifying, setIsVerifying] = useState(!!token);
+
+  // Verify as soon as the link is opened
+  useEffect(() => {
+    if (!token) return;
+
+    const verify = async () => {
+      try {
+        setMessage(await authApi.verifyEmail(token));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to verify email');
+      } finally {
+        setIsVerifying(false);
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  // Pick up the verified flag if the user is logged in in this browser
+  useEffect(() => {
+    if (message && isAuthenticated) {
+      refreshUser();
+    }
+  }, [message, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">E-Commerce MERN</h1>
+          <h2 className="mt-6 text-2xl font-bold text-gray-900">
+            Email verification
+          </h2>
+        </div>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-lg rounded-lg sm:px-10 text-center space-y-4">
+          {isVerifying ? (
+            <p className="text-sm text-gray-600">Verifying your email...</p>
+          ) : message ? (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+              <p className="text-sm">{message}</p>
+            </div>
+          ) : (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              <p className="text-sm">{error}</p>
+              <p className="text-sm mt-1">You can request a new link from your dashboard or at checkout.</p>
+            </div>
+          )}
+
+          {!isVerifying && (
+            <Link
+              to={isAuthenticated ? '/dashboard' : '/login'}
+              className="inline-block text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+            >
+              {isAuthenticated ? 'Go to dashboard' : 'Go to sign in'}
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
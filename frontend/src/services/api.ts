@@ -1,4 +1,5 @@
 import axios, { type AxiosError } from 'axios';
+import { attachAuthInterceptors } from '../utils/authSession';
 
 // Configure axios for backend API
 const API_BASE_URL = 'http://localhost:5000';
@@ -6,43 +7,123 @@ const api = axios.create({
   baseURL: API_BASE_URL,
 });
 
-// Add request interceptor to include auth token
-api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
+// Include the auth token and refresh it when it expires
+attachAuthInterceptors(api);
 
 // Types
 export interface Product {
   _id: string;
   name: string;
+  sku?: string; // Catalogue code used to match products on bulk import
   description: string;
-  price: number;
-  quantity: number;
+  price: number; // Lowest variant price for products with variants
+  quantity: number; // Total variant stock for products with variants
+  weight?: number; // Shipping weight in kg
+  lowStockThreshold?: number; // Stock at or below this appears in the low-stock alerts
   category: string | Category; // Can be populated or just ID
-  image: string;
+  image: string; // Cover image (the first gallery image when there is a gallery)
+  images?: ProductImage[]; // Ordered gallery
+  options?: ProductOption[]; // Option axes, e.g. Size and Color
+  variants?: ProductVariant[]; // Empty for products without options
+  rating?: ProductRating; // Aggregated from reviews
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ProductImage {
+  url: string;
+  thumbnail: string; // Square copy for product cards; may be empty for external images
+  alt: string;
+}
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// One chosen value per option axis
+export interface VariantOption {
+  name: string;
+  value: string;
+}
+
+export interface ProductVariant {
+  _id: string;
+  sku: string;
+  options: VariantOption[];
+  price: number;
+  quantity: number;
+  image: string; // Empty to use the product image
+}
+
+export interface ProductRating {
+  average: number;
+  count: number;
+}
+
 export interface Category {
   _id: string;
   name: string;
+  slug: string;
   description: string;
+  parent: string | null;
+  productCount?: number; // Active products directly in this category
+  totalProductCount?: number; // Including all subcategories
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+// Editable product fields used by the admin product editor
+export type ProductInput = Pick<Product, 'name' | 'description' | 'price' | 'quantity'> & {
+  sku?: string; // Blank clears the SKU
+  weight?: number;
+  lowStockThreshold?: number;
+  category: string;
+  image?: string;
+  images?: ProductImage[];
+  options?: ProductOption[];
+  variants?: ProductVariantInput[];
+};
+
+// Existing variants keep their _id so cart lines still point at them
+export type ProductVariantInput = Omit<ProductVariant, '_id'> & { _id?: string };
+
+export interface ProductPagination {
+  currentPage: number;
+  totalPages: number;
+  totalProducts: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface AdminProductsData {
+  products: Product[];
+  pagination: ProductPagination;
+}
+
+export type ProductSort = 'newest' | 'price' | 'name' | 'rating' | 'relevance';
+
+// Query params accepted by GET /api/products
+export interface ProductQuery {
+  search?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+  sort?: ProductSort;
+  order?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface ProductListData {
+  products: Product[];
+  pagination: ProductPagination;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   count: number;
@@ -50,12 +131,30 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// Validation error entry as returned by express-validator
+export interface FieldError {
+  type?: string;
+  path: string;
+  msg: string;
+}
+
+// Error carrying the server's field-level validation errors
+export class ApiError extends Error {
+  errors: FieldError[];
+
+  constructor(message: string, errors: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.errors = errors;
+  }
+}
+
 // API Service Functions
 export const productApi = {
-  // Get all active products
-  getAllProducts: async (): Promise<Product[]> => {
+  // Search active products with filters, sorting and pagination
+  getProducts: async (query: ProductQuery = {}): Promise<ProductListData> => {
     try {
-      const response = await api.get<ApiResponse<Product[]>>('/api/products');
+      const response = await api.get<ApiResponse<ProductListData>>('/api/products', { params: query });
       return response.data.data;
     } catch (error) {
       const axiosError = error as AxiosError<{ message: string }>;
@@ -77,12 +176,86 @@ export const productApi = {
   // Get products by category
   getProductsByCategory: async (categoryId: string): Promise<Product[]> => {
     try {
-      const response = await api.get<ApiResponse<Product[]>>(`/api/products?category=${categoryId}`);
-      return response.data.data;
+      const response = await api.get<ApiResponse<ProductListData>>('/api/products', { params: { category: categoryId } });
+      return response.data.data.products;
     } catch (error) {
       const axiosError = error as AxiosError<{ message: string }>;
       throw new Error(axiosError.response?.data?.message || 'Failed to fetch products by category');
     }
+  },
+
+  // Get all products including inactive ones (admin)
+  getAdminProducts: async (page: number = 1, limit: number = 20): Promise<AdminProductsData> => {
+    try {
+      const response = await api.get<ApiResponse<AdminProductsData>>('/api/products/admin', { params: { page, limit } });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch products');
+    }
+  },
+
+  // Create a new product (admin)
+  createProduct: async (productData: ProductInput): Promise<Product> => {
+    try {
+      const response = await api.post<ApiResponse<Product>>('/api/products', productData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to create product',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Update an existing product (admin)
+  updateProduct: async (id: string, productData: Partial<ProductInput>): Promise<Product> => {
+    try {
+      const response = await api.put<ApiResponse<Product>>(`/api/products/${id}`, productData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to update product',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Upload a product photo (admin); returns its URL and thumbnail to add to the gallery
+  uploadImage: async (file: File): Promise<Pick<ProductImage, 'url' | 'thumbnail'>> => {
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      const response = await api.post<ApiResponse<Pick<ProductImage, 'url' | 'thumbnail'>>>('/api/products/images', formData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to upload image');
+    }
+  },
+
+  // Soft-delete a product (admin)
+  deactivateProduct: async (id: string): Promise<Product> => {
+    try {
+      const response = await api.delete<ApiResponse<Product>>(`/api/products/${id}`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to deactivate product');
+    }
+  },
+
+  // Restore a soft-deleted product (admin)
+  restoreProduct: async (id: string): Promise<Product> => {
+    try {
+      const response = await api.put<ApiResponse<Product>>(`/api/products/${id}/restore`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to restore product');
+    }
   }
 };
 
@@ -99,23 +272,310 @@ export const categoryApi = {
   }
 };
 
+// Coupon interfaces
+export type CouponType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface Coupon {
+  _id: string;
+  code: string;
+  description: string;
+  type: CouponType;
+  value: number; // Percent or amount off; ignored for free_shipping
+  minSpend: number;
+  categories: Pick<Category, '_id' | 'name'>[];
+  startsAt: string | null;
+  expiresAt: string | null;
+  usageLimit: number | null; // null means unlimited
+  usageLimitPerUser: number | null;
+  usedCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CouponInput = Pick<Coupon, 'code' | 'description' | 'type' | 'value' | 'minSpend' |
+  'startsAt' | 'expiresAt' | 'usageLimit' | 'usageLimitPerUser' | 'isActive'> & {
+  categories: string[];
+};
+
+export interface CouponPagination {
+  currentPage: number;
+  totalPages: number;
+  totalCoupons: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface CouponsData {
+  coupons: Coupon[];
+  pagination: CouponPagination;
+}
+
+export const couponApi = {
+  // Get all coupons (admin)
+  getCoupons: async (page: number = 1, search: string = ''): Promise<CouponsData> => {
+    try {
+      const response = await api.get<ApiResponse<CouponsData>>('/api/coupons', {
+        params: { page, search: search || undefined }
+      });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch coupons');
+    }
+  },
+
+  // Create a new coupon (admin)
+  createCoupon: async (couponData: CouponInput): Promise<Coupon> => {
+    try {
+      const response = await api.post<ApiResponse<Coupon>>('/api/coupons', couponData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to create coupon',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Update an existing coupon (admin)
+  updateCoupon: async (id: string, couponData: Partial<CouponInput>): Promise<Coupon> => {
+    try {
+      const response = await api.put<ApiResponse<Coupon>>(`/api/coupons/${id}`, couponData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to update coupon',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Delete a coupon (admin)
+  deleteCoupon: async (id: string): Promise<void> => {
+    try {
+      await api.delete(`/api/coupons/${id}`);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to delete coupon');
+    }
+  }
+};
+
+// Shipping and tax rule interfaces
+export type ShippingMethod = 'flat' | 'weight_tiers';
+
+export interface WeightTier {
+  maxWeight: number | null; // null covers anything heavier
+  rate: number;
+}
+
+export interface ShippingRule {
+  _id: string;
+  name: string;
+  countries: string[]; // Empty means everywhere not covered by another rule
+  postalCodePrefixes: string[];
+  method: ShippingMethod;
+  flatRate: number;
+  weightTiers: WeightTier[];
+  freeOver: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ShippingRuleInput = Pick<ShippingRule, 'name' | 'countries' | 'postalCodePrefixes' | 'method' |
+  'flatRate' | 'weightTiers' | 'freeOver' | 'isActive'>;
+
+export interface TaxRule {
+  _id: string;
+  name: string;
+  country: string;
+  postalCodePrefix: string; // Empty applies to the whole country
+  rate: number;
+  appliesToShipping: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaxRuleInput = Pick<TaxRule, 'name' | 'country' | 'postalCodePrefix' | 'rate' | 'appliesToShipping' | 'isActive'>;
+
+export interface ShippingCountries {
+  countries: string[];
+  shipsEverywhere: boolean; // A catch-all rule exists, or no rule at all (delivery is free)
+}
+
+export const pricingApi = {
+  // Get the countries shipping rules are set up for
+  getShippingCountries: async (): Promise<ShippingCountries> => {
+    try {
+      const response = await api.get<ApiResponse<ShippingCountries>>('/api/pricing/countries');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch shipping countries');
+    }
+  },
+
+  // Estimate shipping and tax for guest cart lines
+  estimate: async (items: CartLineInput[], destination: PricingDestination): Promise<CartSummary> => {
+    try {
+      const response = await api.post<ApiResponse<CartSummary>>('/api/pricing/estimate', { items, ...destination });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to estimate shipping and tax');
+    }
+  },
+
+  // Get all shipping rules (admin)
+  getShippingRules: async (): Promise<ShippingRule[]> => {
+    try {
+      const response = await api.get<ApiResponse<ShippingRule[]>>('/api/pricing/shipping-rules');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch shipping rules');
+    }
+  },
+
+  // Create or update a shipping rule (admin)
+  saveShippingRule: async (ruleData: ShippingRuleInput, id?: string): Promise<ShippingRule> => {
+    try {
+      const response = id
+        ? await api.put<ApiResponse<ShippingRule>>(`/api/pricing/shipping-rules/${id}`, ruleData)
+        : await api.post<ApiResponse<ShippingRule>>('/api/pricing/shipping-rules', ruleData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to save shipping rule',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Delete a shipping rule (admin)
+  deleteShippingRule: async (id: string): Promise<void> => {
+    try {
+      await api.delete(`/api/pricing/shipping-rules/${id}`);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to delete shipping rule');
+    }
+  },
+
+  // Get all tax rules (admin)
+  getTaxRules: async (): Promise<TaxRule[]> => {
+    try {
+      const response = await api.get<ApiResponse<TaxRule[]>>('/api/pricing/tax-rules');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch tax rules');
+    }
+  },
+
+  // Create or update a tax rule (admin)
+  saveTaxRule: async (ruleData: TaxRuleInput, id?: string): Promise<TaxRule> => {
+    try {
+      const response = id
+        ? await api.put<ApiResponse<TaxRule>>(`/api/pricing/tax-rules/${id}`, ruleData)
+        : await api.post<ApiResponse<TaxRule>>('/api/pricing/tax-rules', ruleData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to save tax rule',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Delete a tax rule (admin)
+  deleteTaxRule: async (id: string): Promise<void> => {
+    try {
+      await api.delete(`/api/pricing/tax-rules/${id}`);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to delete tax rule');
+    }
+  }
+};
+
 // Cart item interface
 export interface CartItem {
   product: Product;
+  variant?: ProductVariant | null; // Chosen variant; null if it was removed from the product
+  variantId?: string | null;
+  price?: number; // Unit price of the line (the variant's price when one is chosen)
   quantity: number;
   addedAt: string;
 }
 
+// Cart line as sent to the API
+export interface CartLineInput {
+  product: string;
+  variant?: string | null;
+  quantity: number;
+}
+
+// Coupon applied to the cart; error is set when it no longer applies
+export interface AppliedCoupon {
+  _id: string;
+  code: string;
+  type: CouponType;
+  value: number;
+  freeShipping: boolean;
+  error: string | null;
+}
+
+// Shipping for a destination; error is set when no shipping rule covers it
+export interface ShippingEstimate {
+  amount: number;
+  rule: string | null;
+  method: ShippingMethod | null;
+  error: string | null;
+}
+
+export interface TaxEstimate {
+  amount: number;
+  rate: number; // Percentage
+  name: string | null;
+}
+
 export interface CartSummary {
   totalItems: number;
   totalPrice: number;
+  discount?: number;
+  shipping?: ShippingEstimate | null; // Only known once a destination is given
+  tax?: TaxEstimate | null;
+  total?: number; // totalPrice - discount + shipping + tax
+  coupon?: AppliedCoupon | null;
+}
+
+// Destination used to estimate shipping and tax
+export interface PricingDestination {
+  country: string;
+  postalCode?: string;
 }
 
 export interface CartData {
   items: CartItem[];
+  unavailableItems?: CartItem[]; // Products deactivated since they were added
   summary: CartSummary;
 }
 
+// Outcome of merging a guest cart into the user's cart after login
+export interface CartMergeReport {
+  merged: { productId: string; name: string; quantity: number }[];
+  adjusted: { productId: string; name: string; requested: number; quantity: number }[];
+  skipped: { productId: string; name: string | null; reason: string }[];
+}
+
 export const cartApi = {
   // Get user's cart
   getCart: async (): Promise<CartData> => {
@@ -128,10 +588,10 @@ export const cartApi = {
     }
   },
 
-  // Add product to cart - Fixed endpoint format
-  addToCart: async (productId: string, quantity: number = 1): Promise<void> => {
+  // Add product (or one of its variants) to cart
+  addToCart: async (productId: string, quantity: number = 1, variantId: string | null = null): Promise<void> => {
     try {
-      await api.post(`/api/cart/add/${productId}`, { quantity });
+      await api.post(`/api/cart/add/${productId}`, { quantity, variant: variantId });
     } catch (error) {
       const axiosError = error as AxiosError<{ message: string }>;
       throw new Error(axiosError.response?.data?.message || 'Failed to add product to cart');
@@ -139,9 +599,9 @@ export const cartApi = {
   },
 
   // Update item quantity in cart
-  updateCartItem: async (productId: string, quantity: number): Promise<void> => {
+  updateCartItem: async (productId: string, quantity: number, variantId: string | null = null): Promise<void> => {
     try {
-      await api.put(`/api/cart/update/${productId}`, { quantity });
+      await api.put(`/api/cart/update/${productId}`, { quantity, variant: variantId });
     } catch (error) {
       const axiosError = error as AxiosError<{ message: string }>;
       throw new Error(axiosError.response?.data?.message || 'Failed to update cart item');
@@ -149,9 +609,9 @@ export const cartApi = {
   },
 
   // Remove item from cart
-  removeFromCart: async (productId: string): Promise<void> => {
+  removeFromCart: async (productId: string, variantId: string | null = null): Promise<void> => {
     try {
-      await api.delete(`/api/cart/remove/${productId}`);
+      await api.delete(`/api/cart/remove/${productId}`, { params: variantId ? { variant: variantId } : {} });
     } catch (error) {
       const axiosError = error as AxiosError<{ message: string }>;
       throw new Error(axiosError.response?.data?.message || 'Failed to remove item from cart');
@@ -166,7 +626,1307 @@ export const cartApi = {
       const axiosError = error as AxiosError<{ message: string }>;
       throw new Error(axiosError.response?.data?.message || 'Failed to clear cart');
     }
+  },
+
+  // Merge guest cart lines into the user's cart
+  mergeCart: async (items: CartLineInput[]): Promise<CartMergeReport> => {
+    try {
+      const response = await api.post<ApiResponse<CartMergeReport>>('/api/cart/merge', { items });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to merge cart');
+    }
+  },
+
+  // Get the cart priced for a destination
+  getEstimate: async (destination: PricingDestination): Promise<CartData> => {
+    try {
+      const response = await api.get<ApiResponse<CartData>>('/api/cart/estimate', { params: destination });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to estimate shipping and tax');
+    }
+  },
+
+  // Apply a coupon code; returns the recalculated cart
+  applyCoupon: async (code: string): Promise<CartData> => {
+    try {
+      const response = await api.post<ApiResponse<CartData>>('/api/cart/coupon', { code });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to apply coupon');
+    }
+  },
+
+  // Remove the applied coupon; returns the recalculated cart
+  removeCoupon: async (): Promise<CartData> => {
+    try {
+      const response = await api.delete<ApiResponse<CartData>>('/api/cart/coupon');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to remove coupon');
+    }
   }
 };
 
+// Wishlist interfaces
+export interface WishlistItem {
+  product: Product;
+  variant?: string | null; // Chosen variant ID, if any
+  quantity: number; // Kept so saved-for-later lines return to the cart unchanged
+  addedAt: string;
+}
+
+export interface WishlistData {
+  items: WishlistItem[];
+}
+
+export const wishlistApi = {
+  // Get user's wishlist
+  getWishlist: async (): Promise<WishlistData> => {
+    try {
+      const response = await api.get<ApiResponse<WishlistData>>('/api/wishlist');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch wishlist');
+    }
+  },
+
+  // Add product to wishlist
+  addToWishlist: async (productId: string, quantity: number = 1, variantId: string | null = null): Promise<void> => {
+    try {
+      await api.post(`/api/wishlist/add/${productId}`, { quantity, variant: variantId });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to add product to wishlist');
+    }
+  },
+
+  // Remove a wishlist line (lines are per product and variant)
+  removeFromWishlist: async (productId: string, variantId: string | null = null): Promise<void> => {
+    try {
+      await api.delete(`/api/wishlist/remove/${productId}`, { params: variantId ? { variant: variantId } : {} });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to remove product from wishlist');
+    }
+  },
+
+  // Move a cart line to the wishlist
+  saveForLater: async (productId: string, variantId: string | null = null): Promise<void> => {
+    try {
+      await api.post(`/api/wishlist/save-for-later/${productId}`, undefined, { params: variantId ? { variant: variantId } : {} });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to save item for later');
+    }
+  },
+
+  // Move a wishlist line to the cart
+  moveToCart: async (productId: string, variantId: string | null = null): Promise<void> => {
+    try {
+      await api.post(`/api/wishlist/move-to-cart/${productId}`, undefined, { params: variantId ? { variant: variantId } : {} });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to move item to cart');
+    }
+  }
+};
+
+// Review interfaces
+export interface Review {
+  _id: string;
+  product: string;
+  user: { _id: string; username: string; firstName: string; lastName: string };
+  rating: number;
+  title?: string;
+  comment?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReviewInput = Pick<Review, 'rating' | 'title' | 'comment'>;
+
+export interface ReviewPagination {
+  currentPage: number;
+  totalPages: number;
+  totalReviews: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface ReviewsData {
+  reviews: Review[];
+  pagination: ReviewPagination;
+}
+
+// The current user's review of a product and whether they may write one
+export interface MyReviewData {
+  review: (Omit<Review, 'user'> & { user: string }) | null;
+  canReview: boolean;
+}
+
+export const reviewApi = {
+  // Get reviews for a product
+  getProductReviews: async (productId: string, page: number = 1, limit: number = 5): Promise<ReviewsData> => {
+    try {
+      const response = await api.get<ApiResponse<ReviewsData>>(`/api/reviews/product/${productId}`, { params: { page, limit } });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch reviews');
+    }
+  },
+
+  // Get the current user's review and review eligibility
+  getMyReview: async (productId: string): Promise<MyReviewData> => {
+    try {
+      const response = await api.get<ApiResponse<MyReviewData>>(`/api/reviews/product/${productId}/mine`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch review');
+    }
+  },
+
+  // Review a product (verified purchasers only)
+  createReview: async (productId: string, reviewData: ReviewInput): Promise<Review> => {
+    try {
+      const response = await api.post<ApiResponse<Review>>(`/api/reviews/product/${productId}`, reviewData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to submit review',
+        axiosError.response?.data?.errors
+      );
+    }
+  },
+
+  // Edit own review
+  updateReview: async (reviewId: string, reviewData: Partial<ReviewInput>): Promise<Review> => {
+    try {
+      const response = await api.put<ApiResponse<Review>>(`/api/reviews/${reviewId}`, reviewData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to update review',
+        axiosError.response?.data?.errors
+      );
+    }
+  },
+
+  // Delete own review
+  deleteReview: async (reviewId: string): Promise<void> => {
+    try {
+      await api.delete(`/api/reviews/${reviewId}`);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to delete review');
+    }
+  }
+};
+
+// Order interfaces
+export interface ShippingAddress {
+  fullName: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface OrderItem {
+  _id: string;
+  product: string | Pick<Product, '_id' | 'name' | 'image'>; // Can be populated or just ID
+  variant?: string | null;
+  sku?: string | null;
+  options?: VariantOption[]; // Snapshot of the chosen options
+  name: string;
+  price: number;
+  quantity: number;
+  total: number;
+  returnedQuantity?: number; // Units claimed by return requests
+}
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderCustomer {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+// Coupon snapshot taken when the order was placed
+export interface OrderDiscount {
+  coupon: string | null;
+  code: string;
+  type: CouponType;
+  value: number;
+  amount: number;
+  freeShipping: boolean;
+}
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
+
+export interface OrderPayment {
+  provider: string | null;
+  intentId: string | null;
+  status: PaymentStatus;
+  amount: number;
+  refundedAmount: number;
+  failureReason: string | null;
+  paidAt: string | null;
+}
+
+export interface Order {
+  _id: string;
+  orderNumber: string;
+  customer: string | OrderCustomer; // Can be populated or just ID
+  items: OrderItem[];
+  totalItems: number;
+  subtotal?: number; // Before discount; missing on orders placed before coupons
+  discount?: OrderDiscount | null;
+  shipping?: Pick<ShippingEstimate, 'amount' | 'rule' | 'method'>; // Missing on orders placed before shipping rules
+  tax?: TaxEstimate;
+  totalAmount: number;
+  payment?: OrderPayment; // Missing on orders placed before online payment
+  status: OrderStatus;
+  shippingAddress: ShippingAddress;
+  notes: string;
+  orderDate: string;
+  deliveryDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrderPagination {
+  currentPage: number;
+  totalPages: number;
+  totalOrders: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface AdminOrdersData {
+  orders: Order[];
+  pagination: OrderPagination;
+}
+
+export interface AdminOrderFilters {
+  page?: number;
+  limit?: number;
+  status?: OrderStatus;
+  customer?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface CheckoutData {
+  shippingAddress: ShippingAddress;
+  notes?: string;
+  saveAddress?: boolean; // Add the address to the address book after ordering
+  addressLabel?: string;
+}
+
+// Address book entry
+export interface SavedAddress extends ShippingAddress {
+  _id: string;
+  label: string;
+  isDefault: boolean;
+}
+
+export type SavedAddressInput = ShippingAddress & {
+  label: string;
+  isDefault?: boolean;
+};
+
+// Every address book change resolves with the full, updated list
+export const addressApi = {
+  // Get saved addresses
+  getAddresses: async (): Promise<SavedAddress[]> => {
+    try {
+      const response = await api.get<ApiResponse<{ addresses: SavedAddress[] }>>('/api/addresses');
+      return response.data.data.addresses;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch addresses');
+    }
+  },
+
+  // Save a new address
+  createAddress: async (address: SavedAddressInput): Promise<SavedAddress[]> => {
+    try {
+      const response = await api.post<ApiResponse<{ addresses: SavedAddress[] }>>('/api/addresses', address);
+      return response.data.data.addresses;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to save address',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Update a saved address
+  updateAddress: async (id: string, address: SavedAddressInput): Promise<SavedAddress[]> => {
+    try {
+      const response = await api.put<ApiResponse<{ addresses: SavedAddress[] }>>(`/api/addresses/${id}`, address);
+      return response.data.data.addresses;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to update address',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Make a saved address the default
+  setDefaultAddress: async (id: string): Promise<SavedAddress[]> => {
+    try {
+      const response = await api.put<ApiResponse<{ addresses: SavedAddress[] }>>(`/api/addresses/${id}/default`);
+      return response.data.data.addresses;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to update default address');
+    }
+  },
+
+  // Remove a saved address
+  deleteAddress: async (id: string): Promise<SavedAddress[]> => {
+    try {
+      const response = await api.delete<ApiResponse<{ addresses: SavedAddress[] }>>(`/api/addresses/${id}`);
+      return response.data.data.addresses;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to remove address');
+    }
+  }
+};
+
+export const orderApi = {
+  // Create order from the current cart
+  checkout: async (checkoutData: CheckoutData): Promise<Order> => {
+    try {
+      const response = await api.post<ApiResponse<Order>>('/api/orders/checkout', checkoutData);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to place order',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Pay for a pending order; a declined payment rejects with the provider's reason
+  payOrder: async (id: string, paymentMethod: string): Promise<Order> => {
+    try {
+      const response = await api.post<ApiResponse<Order>>(`/api/orders/${id}/pay`, { paymentMethod });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Payment failed');
+    }
+  },
+
+  // Get current user's orders
+  getOrders: async (): Promise<Order[]> => {
+    try {
+      const response = await api.get<ApiResponse<Order[]>>('/api/orders');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch orders');
+    }
+  },
+
+  // Get single order by ID
+  getOrderById: async (id: string): Promise<Order> => {
+    try {
+      const response = await api.get<ApiResponse<Order>>(`/api/orders/${id}`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch order');
+    }
+  },
+
+  // Cancel an order
+  cancelOrder: async (id: string): Promise<Order> => {
+    try {
+      const response = await api.put<ApiResponse<Order>>(`/api/orders/${id}/cancel`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to cancel order');
+    }
+  },
+
+  // Get all orders with filters and pagination (admin)
+  getAdminOrders: async (filters: AdminOrderFilters = {}): Promise<AdminOrdersData> => {
+    try {
+      const response = await api.get<ApiResponse<AdminOrdersData>>('/api/orders/admin', { params: filters });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch orders');
+    }
+  },
+
+  // Advance order status (admin)
+  updateOrderStatus: async (id: string, status: OrderStatus): Promise<Order> => {
+    try {
+      const response = await api.put<ApiResponse<Order>>(`/api/orders/${id}/status`, { status });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to update order status');
+    }
+  }
+};
+
+// Return (RMA) interfaces
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received';
+
+export type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other';
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or not working',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export interface ReturnItem {
+  orderItem: string;
+  product: string;
+  options?: VariantOption[];
+  name: string;
+  price: number;
+  quantity: number;
+  reason: ReturnReason;
+  comment: string;
+}
+
+export interface ReturnRefund {
+  amount: number;
+  refundId: string | null;
+  status: 'pending' | 'succeeded' | 'failed' | 'not_required';
+  error: string | null;
+}
+
+export interface ReturnRequest {
+  _id: string;
+  rmaNumber: string;
+  order: string | Pick<Order, '_id' | 'orderNumber' | 'status' | 'deliveryDate' | 'totalAmount' | 'payment'>;
+  customer: string | OrderCustomer;
+  items: ReturnItem[];
+  status: ReturnStatus;
+  estimatedRefund: number;
+  refund: ReturnRefund;
+  adminNote: string;
+  handledBy: string | Pick<OrderCustomer, '_id' | 'firstName' | 'lastName'> | null;
+  approvedAt: string | null;
+  rejectedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReturnableItem {
+  orderItem: string;
+  product: string;
+  options?: VariantOption[];
+  name: string;
+  price: number;
+  quantity: number;
+  returnableQuantity: number;
+}
+
+export interface ReturnableData {
+  eligible: boolean;
+  deadline: string | null;
+  windowDays: number;
+  items: ReturnableItem[];
+}
+
+export interface ReturnRequestInput {
+  order: string;
+  items: Pick<ReturnItem, 'orderItem' | 'quantity' | 'reason' | 'comment'>[];
+}
+
+export interface ReturnPagination {
+  currentPage: number;
+  totalPages: number;
+  totalReturns: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface AdminReturnsData {
+  returns: ReturnRequest[];
+  pagination: ReturnPagination;
+}
+
+export const returnApi = {
+  // Get the items of an order that can still be returned
+  getReturnable: async (orderId: string): Promise<ReturnableData> => {
+    try {
+      const response = await api.get<ApiResponse<ReturnableData>>(`/api/returns/returnable/${orderId}`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch returnable items');
+    }
+  },
+
+  // Request a return for items of a delivered order
+  createReturn: async (data: ReturnRequestInput): Promise<ReturnRequest> => {
+    try {
+      const response = await api.post<ApiResponse<ReturnRequest>>('/api/returns', data);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to request return',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Get current user's returns, optionally for a single order
+  getMyReturns: async (orderId?: string): Promise<ReturnRequest[]> => {
+    try {
+      const response = await api.get<ApiResponse<ReturnRequest[]>>('/api/returns', {
+        params: orderId ? { order: orderId } : {},
+      });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch returns');
+    }
+  },
+
+  // Get all returns with status filter and pagination (admin)
+  getAdminReturns: async (params: { page?: number; limit?: number; status?: ReturnStatus } = {}): Promise<AdminReturnsData> => {
+    try {
+      const response = await api.get<ApiResponse<AdminReturnsData>>('/api/returns/admin', { params });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch returns');
+    }
+  },
+
+  // Approve a requested return (admin)
+  approveReturn: async (id: string, note?: string): Promise<ReturnRequest> => {
+    try {
+      const response = await api.put<ApiResponse<ReturnRequest>>(`/api/returns/${id}/approve`, { note });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to approve return');
+    }
+  },
+
+  // Reject a requested return with a reason for the customer (admin)
+  rejectReturn: async (id: string, note: string): Promise<ReturnRequest> => {
+    try {
+      const response = await api.put<ApiResponse<ReturnRequest>>(`/api/returns/${id}/reject`, { note });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to reject return');
+    }
+  },
+
+  // Receive returned items: restocks them and refunds the customer (admin)
+  // Resolves with the server message too, since a failed refund still completes the receipt
+  receiveReturn: async (id: string, refundAmount?: number): Promise<{ request: ReturnRequest; message: string }> => {
+    try {
+      const response = await api.put<ApiResponse<ReturnRequest>>(`/api/returns/${id}/receive`, { refundAmount });
+      return { request: response.data.data, message: response.data.message || 'Return received' };
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to receive return');
+    }
+  }
+};
+
+// Mirrors PERMISSIONS in backend/config/roles.js
+export type Permission =
+  | 'products:write'
+  | 'inventory:manage'
+  | 'categories:write'
+  | 'orders:read'
+  | 'orders:update-status'
+  | 'analytics:read'
+  | 'returns:read'
+  | 'returns:manage'
+  | 'coupons:write'
+  | 'pricing:write'
+  | 'reviews:moderate'
+  | 'users:read'
+  | 'users:manage';
+
+// Mirrors ROLES labels in backend/config/roles.js
+export const ROLE_LABELS: Record<string, string> = {
+  user: 'Customer',
+  catalog_manager: 'Catalog Manager',
+  fulfillment: 'Order Fulfillment',
+  support: 'Customer Support',
+  admin: 'Administrator',
+};
+
+// Signed-in user's account as returned by the auth endpoints
+export interface UserProfile {
+  id: string;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  permissions: Permission[]; // Granted by the role
+  avatar: string | null;
+  isEmailVerified: boolean;
+  createdAt: string;
+}
+
+export type ProfileInput = Pick<UserProfile, 'firstName' | 'lastName' | 'username'>;
+
+// Account recovery and email verification (login/register/logout live in AuthContext)
+export const authApi = {
+  // Request a password reset link; resolves with the same message whether or not the account exists
+  forgotPassword: async (email: string): Promise<string> => {
+    try {
+      const response = await api.post<{ message: string }>('/api/auth/forgot-password', { email });
+      return response.data.message;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to send reset link',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Set a new password using the token from the reset email
+  resetPassword: async (token: string, password: string): Promise<string> => {
+    try {
+      const response = await api.post<{ message: string }>('/api/auth/reset-password', { token, password });
+      return response.data.message;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to reset password',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Confirm the email address using the token from the verification email
+  verifyEmail: async (token: string): Promise<string> => {
+    try {
+      const response = await api.post<{ message: string }>('/api/auth/verify-email', { token });
+      return response.data.message;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to verify email');
+    }
+  },
+
+  // Send the verification email again to the logged-in user
+  resendVerification: async (): Promise<string> => {
+    try {
+      const response = await api.post<{ message: string }>('/api/auth/resend-verification');
+      return response.data.message;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to resend verification email');
+    }
+  }
+};
+
+// Self-service account settings; calls that change the user resolve with the updated profile
+export const profileApi = {
+  // Update name and username
+  updateProfile: async (profile: ProfileInput): Promise<UserProfile> => {
+    try {
+      const response = await api.put<{ user: UserProfile }>('/api/auth/me', profile);
+      return response.data.user;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to update profile',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Change the password; other devices are logged out
+  changePassword: async (currentPassword: string, newPassword: string): Promise<string> => {
+    try {
+      const response = await api.put<{ message: string }>('/api/auth/me/password', { currentPassword, newPassword });
+      return response.data.message;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to change password',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Change the email address; the new address has to be verified again
+  changeEmail: async (email: string, currentPassword: string): Promise<{ user: UserProfile; message: string }> => {
+    try {
+      const response = await api.put<{ user: UserProfile; message: string }>('/api/auth/me/email', { email, currentPassword });
+      return { user: response.data.user, message: response.data.message };
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to change email',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  },
+
+  // Upload a new profile picture
+  uploadAvatar: async (file: File): Promise<UserProfile> => {
+    try {
+      const formData = new FormData();
+      formData.append('avatar', file);
+      const response = await api.put<{ user: UserProfile }>('/api/auth/me/avatar', formData);
+      return response.data.user;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to upload profile picture');
+    }
+  },
+
+  // Remove the profile picture
+  removeAvatar: async (): Promise<UserProfile> => {
+    try {
+      const response = await api.delete<{ user: UserProfile }>('/api/auth/me/avatar');
+      return response.data.user;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to remove profile picture');
+    }
+  },
+
+  // Deactivate the account; all sessions end
+  deactivateAccount: async (currentPassword: string): Promise<void> => {
+    try {
+      await api.post('/api/auth/me/deactivate', { currentPassword });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to deactivate account',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  }
+};
+
+// Account as seen in the admin user console
+export interface AdminUser extends UserProfile {
+  _id: string;
+  isActive: boolean;
+  passwordResetRequired: boolean;
+  addresses?: SavedAddress[];
+  updatedAt: string;
+}
+
+export type UserStatusFilter = 'active' | 'inactive';
+
+export interface UserFilters {
+  search?: string;
+  role?: string;
+  status?: UserStatusFilter;
+  page?: number;
+  limit?: number;
+}
+
+export interface UserPagination {
+  currentPage: number;
+  totalPages: number;
+  totalUsers: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface UsersData {
+  users: AdminUser[];
+  pagination: UserPagination;
+}
+
+export interface AdminUserDetail {
+  user: AdminUser;
+  cart: CartData;
+}
+
+export interface RoleDefinition {
+  name: string;
+  label: string;
+  permissions: Permission[];
+}
+
+export type AuditAction = 'user.role_change' | 'user.deactivate' | 'user.reactivate' | 'user.password_reset';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.role_change': 'Role changed',
+  'user.deactivate': 'Account deactivated',
+  'user.reactivate': 'Account reactivated',
+  'user.password_reset': 'Password reset forced',
+};
+
+type AuditUser = Pick<UserProfile, 'username' | 'firstName' | 'lastName'> & { _id: string; email?: string };
+
+export interface AuditLogEntry {
+  _id: string;
+  actor: AuditUser | null; // null if the staff account was deleted
+  action: AuditAction;
+  targetUser: AuditUser | null;
+  changes: { from: string | boolean | null; to: string | boolean | null };
+  note: string;
+  ip: string;
+  createdAt: string;
+}
+
+export interface AuditPagination {
+  currentPage: number;
+  totalPages: number;
+  totalEntries: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface AuditLogData {
+  entries: AuditLogEntry[];
+  pagination: AuditPagination;
+}
+
+export interface AuditLogFilters {
+  user?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Admin user console; every change is recorded in the audit log
+export const userAdminApi = {
+  // Search users by name, username or email
+  getUsers: async (filters: UserFilters = {}): Promise<UsersData> => {
+    try {
+      const response = await api.get<ApiResponse<UsersData>>('/api/users', { params: filters });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch users');
+    }
+  },
+
+  // Get a user's account and current cart
+  getUser: async (id: string): Promise<AdminUserDetail> => {
+    try {
+      const response = await api.get<ApiResponse<AdminUserDetail>>(`/api/users/${id}`);
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch user');
+    }
+  },
+
+  // Get the assignable roles and their permissions
+  getRoles: async (): Promise<RoleDefinition[]> => {
+    try {
+      const response = await api.get<ApiResponse<RoleDefinition[]>>('/api/users/roles');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch roles');
+    }
+  },
+
+  // Get audit entries for every account, or one account when filters.user is set
+  getAuditLog: async (filters: AuditLogFilters = {}): Promise<AuditLogData> => {
+    try {
+      const response = await api.get<ApiResponse<AuditLogData>>('/api/users/audit', { params: filters });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch audit log');
+    }
+  },
+
+  // Assign a role
+  changeRole: async (id: string, role: string, note?: string): Promise<AdminUser> => {
+    try {
+      const response = await api.put<ApiResponse<AdminUser>>(`/api/users/${id}/role`, { role, note });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to change role');
+    }
+  },
+
+  // Deactivate (ending all sessions) or reactivate an account
+  setActive: async (id: string, isActive: boolean, note?: string): Promise<AdminUser> => {
+    try {
+      const response = await api.put<ApiResponse<AdminUser>>(`/api/users/${id}/status`, { isActive, note });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to update account status');
+    }
+  },
+
+  // Require a new password: ends all sessions and emails a reset link
+  forcePasswordReset: async (id: string, note?: string): Promise<{ user: AdminUser; message: string }> => {
+    try {
+      const response = await api.post<ApiResponse<AdminUser>>(`/api/users/${id}/password-reset`, { note });
+      return { user: response.data.data, message: response.data.message || 'Password reset required' };
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to force password reset');
+    }
+  }
+};
+
+// Mirrors StockMovement.MOVEMENT_TYPES on the backend
+export type StockMovementType = 'sale' | 'cancellation' | 'adjustment' | 'return';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  cancellation: 'Cancellation restock',
+  adjustment: 'Manual adjustment',
+  return: 'Return restock',
+};
+
+export interface StockMovement {
+  _id: string;
+  product: Pick<Product, '_id' | 'name'> | null; // null if the product was deleted
+  variant: string | null;
+  sku: string | null;
+  type: StockMovementType;
+  change: number; // Signed, e.g. -2 for a sale of two
+  quantityAfter: number; // Stock of the product or variant right after the change
+  reason: string;
+  actor: AuditUser | null;
+  order: { _id: string; orderNumber: string } | null;
+  returnRequest: string | null;
+  createdAt: string;
+}
+
+export interface StockMovementPagination {
+  currentPage: number;
+  totalPages: number;
+  totalMovements: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface StockMovementData {
+  movements: StockMovement[];
+  pagination: StockMovementPagination;
+}
+
+export interface StockMovementFilters {
+  product?: string;
+  type?: StockMovementType | '';
+  page?: number;
+  limit?: number;
+}
+
+// A product, or one of its variants, at or below the low-stock threshold
+export interface LowStockLevel {
+  variant: string | null;
+  sku: string | null;
+  label: string | null; // e.g. "Size: M"; null for products without variants
+  quantity: number;
+}
+
+export interface LowStockProduct extends Pick<Product, '_id' | 'name' | 'image' | 'category' | 'quantity'> {
+  lowStockThreshold: number;
+  levels: LowStockLevel[];
+}
+
+export interface LowStockData {
+  products: LowStockProduct[];
+  pagination: ProductPagination;
+}
+
+export const inventoryApi = {
+  // Get active products running low on stock
+  getLowStock: async (page: number = 1): Promise<LowStockData> => {
+    try {
+      const response = await api.get<ApiResponse<LowStockData>>('/api/inventory/low-stock', { params: { page } });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch low-stock products');
+    }
+  },
+
+  // Get stock movement history, optionally for one product or movement type
+  getMovements: async (filters: StockMovementFilters = {}): Promise<StockMovementData> => {
+    try {
+      const response = await api.get<ApiResponse<StockMovementData>>('/api/inventory/movements', { params: filters });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch stock history');
+    }
+  },
+
+  // Add (positive change) or remove (negative change) stock with a reason
+  adjustStock: async (productId: string, change: number, reason: string, variantId?: string | null): Promise<{ product: Product; message: string }> => {
+    try {
+      const response = await api.post<ApiResponse<Product>>(`/api/inventory/products/${productId}/adjust`, {
+        change,
+        reason,
+        variant: variantId || null,
+      });
+      return { product: response.data.data, message: response.data.message || 'Stock adjusted' };
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string; errors?: FieldError[] }>;
+      throw new ApiError(
+        axiosError.response?.data?.message || 'Failed to adjust stock',
+        axiosError.response?.data?.errors || []
+      );
+    }
+  }
+};
+
+export type CatalogFormat = 'csv' | 'json';
+
+export type ImportRowAction = 'create' | 'update' | 'error';
+
+// Outcome for one product in an import file (row is its 1-based position in the file)
+export interface ImportReportRow {
+  row: number;
+  sku: string;
+  name: string;
+  action: ImportRowAction;
+  errors: string[];
+}
+
+export interface ImportReport {
+  format: CatalogFormat;
+  dryRun: boolean; // Nothing was saved; the counts say what an import would do
+  totalRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportReportRow[];
+}
+
+export const catalogApi = {
+  // Create or update products by SKU from a CSV or JSON file; dryRun only validates
+  importProducts: async (file: File, dryRun: boolean): Promise<{ report: ImportReport; message: string }> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await api.post<ApiResponse<ImportReport>>('/api/catalog/import', formData, { params: { dryRun } });
+      return { report: response.data.data, message: response.data.message || 'Import finished' };
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to import products');
+    }
+  },
+
+  // Download the whole catalogue as a file
+  // withoutSku counts exported products an import can't match back until they are given a SKU
+  exportProducts: async (format: CatalogFormat): Promise<{ file: Blob; filename: string; withoutSku: number }> => {
+    try {
+      const response = await api.get<Blob>('/api/catalog/export', { params: { format }, responseType: 'blob' });
+      const disposition = String(response.headers['content-disposition'] || '');
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `catalog.${format}`;
+      const withoutSku = Number(response.headers['x-products-without-sku']) || 0;
+      return { file: response.data, filename, withoutSku };
+    } catch {
+      throw new Error('Failed to export products');
+    }
+  }
+};
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+// Dates are YYYY-MM-DD in UTC, both inclusive; the server defaults to the last 30 days
+export interface AnalyticsRange {
+  from?: string;
+  to?: string;
+}
+
+export interface CustomerGroup {
+  customers: number;
+  orders: number;
+  revenue: number;
+}
+
+// Sales are paid orders that weren't cancelled
+export interface SalesSummary {
+  range: Required<AnalyticsRange>;
+  orders: number;
+  itemsSold: number;
+  grossSales: number;
+  refunds: number;
+  discounts: number;
+  revenue: number; // Gross sales less refunds
+  averageOrderValue: number;
+  customers: {
+    new: CustomerGroup; // First sale in the range
+    returning: CustomerGroup; // Bought before the range too
+  };
+}
+
+export interface RevenuePoint {
+  period: string; // Start of the day, week (Monday) or month
+  orders: number;
+  revenue: number;
+}
+
+export interface RevenueSeries {
+  range: Required<AnalyticsRange>;
+  interval: AnalyticsInterval;
+  series: RevenuePoint[];
+}
+
+export interface OrderStatusCount {
+  status: OrderStatus;
+  orders: number;
+  value: number;
+}
+
+export interface TopProduct {
+  product: string;
+  name: string;
+  unitsSold: number;
+  orders: number;
+  revenue: number;
+}
+
+export interface TopCategory {
+  category: string | null; // Null for products that no longer exist
+  name: string | null;
+  unitsSold: number;
+  orders: number;
+  revenue: number;
+}
+
+export const analyticsApi = {
+  // Get sales totals and new vs returning customers
+  getSummary: async (range: AnalyticsRange = {}): Promise<SalesSummary> => {
+    try {
+      const response = await api.get<ApiResponse<SalesSummary>>('/api/analytics/summary', { params: range });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch sales summary');
+    }
+  },
+
+  // Get revenue over time; the server picks the interval from the range when none is given
+  getRevenue: async (range: AnalyticsRange = {}, interval?: AnalyticsInterval): Promise<RevenueSeries> => {
+    try {
+      const response = await api.get<ApiResponse<RevenueSeries>>('/api/analytics/revenue', { params: { ...range, interval } });
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch revenue');
+    }
+  },
+
+  // Get orders placed in the range by status
+  getOrdersByStatus: async (range: AnalyticsRange = {}): Promise<OrderStatusCount[]> => {
+    try {
+      const response = await api.get<ApiResponse<{ statuses: OrderStatusCount[] }>>('/api/analytics/orders-by-status', { params: range });
+      return response.data.data.statuses;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch orders by status');
+    }
+  },
+
+  // Get the best-selling products by revenue
+  getTopProducts: async (range: AnalyticsRange = {}, limit: number = 10): Promise<TopProduct[]> => {
+    try {
+      const response = await api.get<ApiResponse<{ products: TopProduct[] }>>('/api/analytics/top-products', { params: { ...range, limit } });
+      return response.data.data.products;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch top products');
+    }
+  },
+
+  // Get the best-selling categories by revenue
+  getTopCategories: async (range: AnalyticsRange = {}, limit: number = 10): Promise<TopCategory[]> => {
+    try {
+      const response = await api.get<ApiResponse<{ categories: TopCategory[] }>>('/api/analytics/top-categories', { params: { ...range, limit } });
+      return response.data.data.categories;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to fetch top categories');
+    }
+  }
+};
+
+export interface PaymentMethodOption {
+  id: string;
+  label: string;
+}
+
+export interface PaymentConfig {
+  provider: string;
+  paymentMethods: PaymentMethodOption[];
+}
+
+export const paymentApi = {
+  // Get the active payment provider and the payment methods it accepts
+  getConfig: async (): Promise<PaymentConfig> => {
+    try {
+      const response = await api.get<ApiResponse<PaymentConfig>>('/api/payments/config');
+      return response.data.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>;
+      throw new Error(axiosError.response?.data?.message || 'Failed to load payment options');
+    }
+  }
+};
+
+// Mirrors Order.isAwaitingPayment() on the backend
+export const isAwaitingPayment = (order: Pick<Order, 'status' | 'payment'>): boolean => {
+  return order.status === 'pending' && (!order.payment || order.payment.status === 'pending' || order.payment.status === 'failed');
+};
+
+// Mirrors Order.STATUS_TRANSITIONS on the backend
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// Mirrors User.hasPermission() on the backend
+export const hasPermission = (user: Pick<UserProfile, 'permissions'> | null | undefined, permission: Permission): boolean => {
+  return !!user?.permissions?.includes(permission);
+};
+
+// Mirrors Order.canBeCancelled() on the backend
+export const canBeCancelled = (order: Pick<Order, 'status'>): boolean => {
+  return order.status === 'pending' || order.status === 'processing';
+};
+
 export default api; 
\ No newline at end of file
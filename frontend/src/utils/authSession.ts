@@ -0,0 +1,102 @@
+import axios, { type AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+
+const API_BASE_URL = 'http://localhost:5000';
+const ACCESS_TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Fired when the session can't be refreshed any more, so AuthContext can log out
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const storeTokens = (token: string, refreshToken: string) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearTokens = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// One refresh at a time: requests that fail together wait for the same new token
+let refreshPromise: Promise<string> | null = null;
+
+const requestNewTokens = async (refreshToken: string): Promise<string> => {
+  const response = await axios.post<{ token: string; refreshToken: string }>(
+    `${API_BASE_URL}/api/auth/refresh`,
+    { refreshToken }
+  );
+  storeTokens(response.data.token, response.data.refreshToken);
+  return response.data.token;
+};
+
+// Exchange the stored refresh token for a new access token
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+
+    refreshPromise = (refreshToken ? requestNewTokens(refreshToken) : Promise.reject(new Error('No refresh token')))
+      .catch(async (error) => {
+        // Another tab may have rotated the token first; use the one it stored
+        const latest = getRefreshToken();
+        if (latest && latest !== refreshToken) {
+          return requestNewTokens(latest);
+        }
+        throw error;
+      })
+      .catch((error) => {
+        clearTokens();
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// Send the access token with every request, and on a 401 "Token has expired"
+// refresh it once and replay the request
+export const attachAuthInterceptors = (instance: AxiosInstance) => {
+  instance.interceptors.request.use(
+    (config) => {
+      const token = getAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
+    }
+  );
+
+  instance.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError<{ message?: string }>) => {
+      const request = error.config as RetriableRequest | undefined;
+      const isExpired = error.response?.status === 401 && !!error.response.data?.message?.includes('Token has expired');
+
+      if (!request || !isExpired || request._retried) {
+        return Promise.reject(error);
+      }
+
+      request._retried = true;
+
+      try {
+        const token = await refreshAccessToken();
+        request.headers.Authorization = `Bearer ${token}`;
+        return instance(request);
+      } catch {
+        return Promise.reject(error);
+      }
+    }
+  );
+};
@@ -0,0 +1,38 @@
+import { type Category } from '../services/api';
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+// Build a nested tree from the flat category list returned by the API
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>();
+  categories.forEach(category => nodes.set(category._id, { ...category, children: [] }));
+
+  const roots: CategoryNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent ? nodes.get(node.parent) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      // Top-level categories, or children whose parent isn't in the list
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+// Get the IDs of a category's ancestors, nearest first
+export const getAncestorIds = (categories: Category[], categoryId: string): string[] => {
+  const byId = new Map(categories.map(category => [category._id, category]));
+  const ancestors: string[] = [];
+  let current = byId.get(categoryId);
+
+  while (current?.parent && !ancestors.includes(current.parent)) {
+    ancestors.push(current.parent);
+    current = byId.get(current.parent);
+  }
+
+  return ancestors;
+};
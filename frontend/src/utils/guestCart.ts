@@ -0,0 +1,115 @@
+import { type CartData, type CartItem, type Product } from '../services/api';
+import { cartLineKey, cartLinePrice, cartLineStock, hasVariants } from './variants';
+
+const GUEST_CART_KEY = 'guestCart';
+
+// Recalculate totals the same way GET /api/cart does
+const withSummary = (items: CartItem[], unavailableItems: CartItem[] = []): CartData => {
+  const totalItems = items.reduce((total, item) => total + item.quantity, 0);
+  const totalPrice = items.reduce((total, item) => total + cartLinePrice(item) * item.quantity, 0);
+
+  return {
+    items,
+    unavailableItems,
+    summary: {
+      totalItems,
+      totalPrice: parseFloat(totalPrice.toFixed(2)),
+    },
+  };
+};
+
+// Read the guest cart from localStorage
+export const loadGuestCart = (): CartData => {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_KEY);
+    const parsed = stored ? (JSON.parse(stored) as CartData) : null;
+    return withSummary(parsed?.items || [], parsed?.unavailableItems || []);
+  } catch {
+    // Corrupt data - start with an empty cart
+    return withSummary([]);
+  }
+};
+
+export const saveGuestCart = (cart: CartData) => {
+  localStorage.setItem(GUEST_CART_KEY, JSON.stringify(cart));
+};
+
+export const clearGuestCart = () => {
+  localStorage.removeItem(GUEST_CART_KEY);
+};
+
+// Build a line for a product and variant; variant is null if the product has no such variant
+const toLine = (item: Omit<CartItem, 'variant'>, product: Product): CartItem => {
+  const variant = item.variantId ? product.variants?.find(entry => entry._id === item.variantId) ?? null : null;
+  return { ...item, product, variant, price: variant ? variant.price : product.price };
+};
+
+// A line can be bought if its product is active and the variant (when the product has options) still exists
+const isAvailable = (item: CartItem): boolean =>
+  item.product.isActive && (hasVariants(item.product) ? !!item.variant : !item.variantId);
+
+// Add a product (or one of its variants), enforcing the same stock rules as POST /api/cart/add
+export const addGuestCartItem = (cart: CartData, product: Product, quantity: number, variantId: string | null = null): CartData => {
+  if (!product.isActive) {
+    throw new Error('Product not found or not available');
+  }
+
+  const line = toLine({ product, variantId, quantity, addedAt: new Date().toISOString() }, product);
+  if (hasVariants(product) && !line.variant) {
+    throw new Error(variantId ? `The selected option of ${product.name} is no longer available` : `Please choose options for ${product.name}`);
+  }
+
+  const key = cartLineKey(product._id, variantId);
+  const stock = cartLineStock(line);
+  const existingItem = cart.items.find(item => cartLineKey(item.product._id, item.variantId) === key);
+  const currentQuantity = existingItem ? existingItem.quantity : 0;
+
+  if (currentQuantity + quantity > stock) {
+    throw new Error(`Cannot add ${quantity} items. Only ${stock - currentQuantity} more available`);
+  }
+
+  const items = existingItem
+    ? cart.items.map(item =>
+        cartLineKey(item.product._id, item.variantId) === key ? { ...line, addedAt: item.addedAt, quantity: item.quantity + quantity } : item
+      )
+    : [...cart.items, line];
+
+  return withSummary(items, cart.unavailableItems);
+};
+
+// Set a line's quantity, enforcing the same stock rules as PUT /api/cart/update
+export const updateGuestCartItem = (cart: CartData, productId: string, quantity: number, variantId: string | null = null): CartData => {
+  const key = cartLineKey(productId, variantId);
+  const existingItem = cart.items.find(item => cartLineKey(item.product._id, item.variantId) === key);
+  if (!existingItem) {
+    throw new Error('Item not found in cart');
+  }
+
+  const stock = cartLineStock(existingItem);
+  if (quantity > stock) {
+    throw new Error(`Only ${stock} items available in stock`);
+  }
+
+  const items = cart.items.map(item => (cartLineKey(item.product._id, item.variantId) === key ? { ...item, quantity } : item));
+  return withSummary(items, cart.unavailableItems);
+};
+
+export const removeGuestCartItem = (cart: CartData, productId: string, variantId: string | null = null): CartData => {
+  const key = cartLineKey(productId, variantId);
+  return withSummary(
+    cart.items.filter(item => cartLineKey(item.product._id, item.variantId) !== key),
+    (cart.unavailableItems || []).filter(item => cartLineKey(item.product._id, item.variantId) !== key)
+  );
+};
+
+// Replace stored product snapshots with fresh data; deactivated products and
+// removed variants move to unavailableItems, mirroring GET /api/cart
+export const refreshGuestCart = (cart: CartData, products: Map<string, Product>): CartData => {
+  const lines = [...cart.items, ...(cart.unavailableItems || [])]
+    .map(item => toLine(item, products.get(item.product._id) ?? item.product));
+
+  return withSummary(
+    lines.filter(isAvailable),
+    lines.filter(item => !isAvailable(item))
+  );
+};
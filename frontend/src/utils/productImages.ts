@@ -0,0 +1,11 @@
+import { type Product, type ProductImage } from '../services/api';
+
+// Gallery images of a product; products without a gallery show their cover image alone
+export const productGallery = (product: Pick<Product, 'name' | 'image' | 'images'>): ProductImage[] =>
+  product.images && product.images.length > 0
+    ? product.images
+    : [{ url: product.image, thumbnail: '', alt: product.name }];
+
+// Small image for product cards, falling back to the cover image
+export const productThumbnail = (product: Pick<Product, 'name' | 'image' | 'images'>): string =>
+  product.images?.[0]?.thumbnail || product.image;
@@ -0,0 +1,51 @@
+import { type ShippingAddress } from '../services/api';
+
+export type ShippingErrors = Partial<Record<keyof ShippingAddress, string>>;
+
+// Mirrors the address rules enforced by POST /api/orders/checkout and the address book
+export const shippingRules: Record<keyof ShippingAddress, { min: number; max: number; message: string }> = {
+  fullName: { min: 2, max: 100, message: 'Full name must be between 2 and 100 characters' },
+  address: { min: 10, max: 200, message: 'Address must be between 10 and 200 characters' },
+  city: { min: 2, max: 50, message: 'City must be between 2 and 50 characters' },
+  postalCode: { min: 4, max: 10, message: 'Postal code must be between 4 and 10 characters' },
+  country: { min: 2, max: 50, message: 'Country must be between 2 and 50 characters' },
+};
+
+export const shippingFields: { name: keyof ShippingAddress; label: string; placeholder: string; autoComplete: string }[] = [
+  { name: 'fullName', label: 'Full name', placeholder: 'Jane Doe', autoComplete: 'name' },
+  { name: 'address', label: 'Street address', placeholder: '123 Main Street, Apt 4B', autoComplete: 'street-address' },
+  { name: 'city', label: 'City', placeholder: 'Springfield', autoComplete: 'address-level2' },
+  { name: 'postalCode', label: 'Postal code', placeholder: '12345', autoComplete: 'postal-code' },
+  { name: 'country', label: 'Country', placeholder: 'United States', autoComplete: 'country-name' },
+];
+
+export const validateShipping = (shippingAddress: ShippingAddress): ShippingErrors => {
+  const errors: ShippingErrors = {};
+
+  (Object.keys(shippingRules) as (keyof ShippingAddress)[]).forEach((field) => {
+    const { min, max, message } = shippingRules[field];
+    const length = shippingAddress[field].trim().length;
+    if (length < min || length > max) {
+      errors[field] = message;
+    }
+  });
+
+  return errors;
+};
+
+export const emptyShippingAddress: ShippingAddress = {
+  fullName: '',
+  address: '',
+  city: '',
+  postalCode: '',
+  country: '',
+};
+
+// Copy just the address fields, e.g. out of a saved address book entry
+export const pickShippingAddress = (source: ShippingAddress): ShippingAddress => ({
+  fullName: source.fullName,
+  address: source.address,
+  city: source.city,
+  postalCode: source.postalCode,
+  country: source.country,
+});
@@ -0,0 +1,29 @@
+import { type CartItem, type Product, type ProductVariant, type VariantOption } from '../services/api';
+
+// Describe chosen options, e.g. "Size: M, Color: Red"
+export const formatOptions = (options: VariantOption[] = []): string =>
+  options.map(option => `${option.name}: ${option.value}`).join(', ');
+
+export const hasVariants = (product: Pick<Product, 'variants'>): boolean =>
+  !!product.variants && product.variants.length > 0;
+
+// Find the variant matching one value per option, if the selection is complete
+export const findVariant = (product: Product, selection: Record<string, string>): ProductVariant | null => {
+  if (!hasVariants(product)) return null;
+
+  return product.variants!.find(variant =>
+    variant.options.every(option => selection[option.name] === option.value)
+  ) ?? null;
+};
+
+// Cart lines are identified by product and variant
+export const cartLineKey = (productId: string, variantId?: string | null): string =>
+  `${productId}:${variantId || ''}`;
+
+// Unit price and stock of a cart line, from the variant when one is chosen
+export const cartLinePrice = (item: CartItem): number => item.variant ? item.variant.price : item.product.price;
+
+export const cartLineStock = (item: CartItem): number => item.variant ? item.variant.quantity : item.product.quantity;
+
+// Image for a cart line; variants without their own image use the product's
+export const cartLineImage = (item: CartItem): string => item.variant?.image || item.product.image;